@@ -5,6 +5,8 @@ import { HTML5Backend } from 'react-dnd-html5-backend';
 import Dashboard from './components/Dashboard';
 import FormBuilder from './components/FormBuilder';
 import FeedbackForm from './components/FeedbackForm';
+import SharedLinkForm from './components/SharedLinkForm';
+import QrCodeForm from './components/QrCodeForm';
 import Analytics from './components/Analytics';
 import Integrations from './components/Integrations';
 import Settings from './components/Settings';
@@ -36,23 +38,20 @@ const AppContent: React.FC = () => {
   return (
     <DndProvider backend={HTML5Backend}>
       <FeedbackProvider>
-        <Router>
-          <div className="min-h-screen bg-gray-50">
-            <Navigation />
-            <main className="ml-64 p-8">
-              <Routes>
-                <Route path="/" element={<Dashboard />} />
-                <Route path="/forms" element={<FormBuilder />} />
-                <Route path="/form/:id" element={<FeedbackForm />} />
-                <Route path="/analytics" element={<Analytics />} />
-                <Route path="/integrations" element={<Integrations />} />
-                <Route path="/settings" element={<Settings />} />
-                <Route path="/pricing" element={<Pricing />} />
-                <Route path="/success" element={<Success />} />
-              </Routes>
-            </main>
-          </div>
-        </Router>
+        <div className="min-h-screen bg-gray-50">
+          <Navigation />
+          <main className="ml-64 p-8">
+            <Routes>
+              <Route path="/" element={<Dashboard />} />
+              <Route path="/forms" element={<FormBuilder />} />
+              <Route path="/analytics" element={<Analytics />} />
+              <Route path="/integrations" element={<Integrations />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/pricing" element={<Pricing />} />
+              <Route path="/success" element={<Success />} />
+            </Routes>
+          </main>
+        </div>
       </FeedbackProvider>
     </DndProvider>
   );
@@ -61,7 +60,16 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <Router>
+        <Routes>
+          {/* Public respondent surface - no sign-in or navigation shell */}
+          <Route path="/form/:id" element={<FeedbackForm />} />
+          <Route path="/f/:slug" element={<SharedLinkForm />} />
+          <Route path="/qr/:id" element={<QrCodeForm />} />
+          <Route path="/kiosk/:id" element={<FeedbackForm kiosk />} />
+          <Route path="/*" element={<AppContent />} />
+        </Routes>
+      </Router>
     </AuthProvider>
   );
 }
@@ -23,13 +23,20 @@ import {
   Eye,
   EyeOff,
   Tag,
-  Flag
+  Flag,
+  Download,
+  Paperclip,
+  MapPin
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
 import { FormService, EnrichedFormResponse } from '../services/formService';
 import { SentimentService } from '../services/sentimentService';
+import { NpsService, NpsSummary } from '../services/npsService';
+import { FileUploadService, StoredFile } from '../services/fileUploadService';
+import { FormTranslationService } from '../services/formTranslationService';
 import { FeedbackUpdateService, FeedbackUpdateData } from '../services/feedbackUpdateService';
-import { useFeedback } from '../context/FeedbackContext';
+import { useFeedback, FeedbackForm } from '../context/FeedbackContext';
+import QuarantineReview from './QuarantineReview';
 
 interface AnalyticsData {
   overallSentiment: { positive: number; neutral: number; negative: number };
@@ -41,11 +48,18 @@ interface AnalyticsData {
     categoryTrends: { category: string; trend: 'up' | 'down' | 'stable' }[];
   };
   totalResponses: number;
+  // Share of started responses that were submitted, or null when none were started
+  completionRate: number | null;
+  partialResponses: number;
   avgSatisfaction: number;
+  nps: NpsSummary;
+  matrixBreakdowns: MatrixBreakdown[];
+  locationBreakdowns: LocationBreakdown[];
   responsesByMonth: Array<{
     name: string;
     responses: number;
     satisfaction: number;
+    nps: number | null;
     positive: number;
     negative: number;
   }>;
@@ -64,10 +78,34 @@ interface AnalyticsData {
       label: string;
       value: string;
       type: string;
+      files?: StoredFile[];
     }>;
   }>;
 }
 
+interface MatrixBreakdown {
+  fieldId: string;
+  label: string;
+  formTitle: string;
+  columns: string[];
+  // One chart row per statement with a count for each column
+  rows: Array<{ row: string } & Record<string, number | string>>;
+}
+
+// Responses collected through one location's QR code
+interface LocationBreakdown {
+  location: string;
+  responses: number;
+  avgRating: number | null;
+  // Shares of the location's responses, in percent
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+// Ordered from the negative to the positive end of a typical agree/disagree scale
+const MATRIX_COLORS = ['#EF4444', '#F97316', '#9CA3AF', '#60A5FA', '#2563EB', '#8B5CF6', '#10B981', '#EC4899'];
+
 interface EditableFeedback {
   id: string;
   comment: string;
@@ -79,6 +117,55 @@ interface EditableFeedback {
   isVisible: boolean;
 }
 
+const AttachmentList: React.FC<{ files: StoredFile[] }> = ({ files }) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    FileUploadService.getSignedUrls(files.map(file => file.path))
+      .then(setUrls)
+      .catch(() => setError('Attachments could not be loaded'));
+  }, [files]);
+
+  if (error) {
+    return <p className="text-xs text-red-500">{error}</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-1">
+      {files.map(file => {
+        const url = urls[file.path];
+        return (
+          <div key={file.path} className="w-28 border rounded overflow-hidden bg-gray-50">
+            {url && file.type.startsWith('image/') ? (
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                <img src={url} alt={file.name} className="w-28 h-20 object-cover" />
+              </a>
+            ) : (
+              <div className="w-28 h-20 flex items-center justify-center">
+                <Paperclip className="w-6 h-6 text-gray-400" />
+              </div>
+            )}
+            <div className="flex items-center justify-between px-1 py-1">
+              <span className="text-xs text-gray-600 truncate" title={file.name}>{file.name}</span>
+              {url && (
+                // Storage serves the object as an attachment when `download` is set on a signed URL
+                <a
+                  href={`${url}&download=${encodeURIComponent(file.name)}`}
+                  className="p-0.5 text-gray-500 hover:text-blue-600 flex-shrink-0"
+                  title="Download"
+                >
+                  <Download className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 const FeedbackEditModal: React.FC<{
   feedback: any;
   onSave: (updatedFeedback: EditableFeedback) => void;
@@ -429,13 +516,19 @@ const Analytics: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedTimeRange, setSelectedTimeRange] = useState('30');
   const [selectedForm, setSelectedForm] = useState<string>('all');
+  const [selectedLocale, setSelectedLocale] = useState<string>('all');
+  const [availableLocales, setAvailableLocales] = useState<string[]>([]);
+  const [selectedDevice, setSelectedDevice] = useState<string>('all');
+  const [availableDevices, setAvailableDevices] = useState<string[]>([]);
+  const [quarantinedResponses, setQuarantinedResponses] = useState<EnrichedFormResponse[]>([]);
+  const [formTitles, setFormTitles] = useState<Record<string, string>>({});
   const [editingFeedback, setEditingFeedback] = useState<any>(null);
   const [hiddenFeedback, setHiddenFeedback] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
 
   useEffect(() => {
     loadAnalytics();
-  }, [selectedTimeRange, selectedForm]);
+  }, [selectedTimeRange, selectedForm, selectedLocale, selectedDevice]);
 
   const loadAnalytics = async () => {
     try {
@@ -453,7 +546,12 @@ const Analytics: React.FC = () => {
           actionableItems: 0,
           trendAnalysis: { sentimentTrend: 'stable', categoryTrends: [] },
           totalResponses: 0,
+          completionRate: null,
+          partialResponses: 0,
           avgSatisfaction: 0,
+          nps: NpsService.summarize([]),
+          matrixBreakdowns: [],
+          locationBreakdowns: [],
           responsesByMonth: [],
           recentFeedback: []
         });
@@ -476,13 +574,46 @@ const Analytics: React.FC = () => {
         }
       }
 
+      // Quarantined submissions are reviewed separately and left out of every metric
+      setQuarantinedResponses(allResponses.filter(response => response.quarantined));
+      setFormTitles(Object.fromEntries(formsToAnalyze.map(form => [form.id, form.title])));
+
       // Filter responses by time range
       const now = new Date();
       const daysAgo = parseInt(selectedTimeRange);
       const cutoffDate = new Date(now.getTime() - (daysAgo * 24 * 60 * 60 * 1000));
       
-      const filteredResponses = allResponses.filter(response => 
-        new Date(response.submitted_at) >= cutoffDate
+      const responsesInRange = allResponses.filter(response => 
+        !response.quarantined && new Date(response.submitted_at) >= cutoffDate
+      );
+
+      // Responses from before multilingual forms have no locale
+      setAvailableLocales(Array.from(new Set(
+        responsesInRange.map(response => response.locale).filter((locale): locale is string => !!locale)
+      )).sort());
+
+      // Only kiosk responses carry a device id
+      setAvailableDevices(Array.from(new Set(
+        responsesInRange.map(response => response.device_id).filter((device): device is string => !!device)
+      )).sort());
+
+      const matchingResponses = responsesInRange.filter(response =>
+        (selectedLocale === 'all' || response.locale === selectedLocale) &&
+        (selectedDevice === 'all' || response.device_id === selectedDevice)
+      );
+
+      // Every started response is either submitted or still partial
+      const partialResponses = matchingResponses.filter(response => !response.is_complete).length;
+      const completionRate = matchingResponses.length > 0
+        ? Math.round(((matchingResponses.length - partialResponses) / matchingResponses.length) * 100)
+        : null;
+
+      // Partial responses only count where the form's owner opted in
+      const partialsShown = new Set(
+        formsToAnalyze.filter(form => form.responseSettings?.showPartialResponses).map(form => form.id)
+      );
+      const filteredResponses = matchingResponses.filter(response =>
+        response.is_complete || partialsShown.has(response.form_id)
       );
 
       // Generate insights using the sentiment service
@@ -494,6 +625,15 @@ const Analytics: React.FC = () => {
         ? responsesWithRating.reduce((sum, r) => sum + r.overall_rating, 0) / responsesWithRating.length
         : 0;
 
+      // Calculate NPS from responses that answered an NPS question
+      const nps = NpsService.summarize(filteredResponses.map(r => r.nps_score).filter(NpsService.isValidScore));
+
+      // Count matrix answers per row and column
+      const matrixBreakdowns = generateMatrixBreakdowns(formsToAnalyze, filteredResponses);
+
+      // Compare the locations whose QR codes brought in responses
+      const locationBreakdowns = generateLocationBreakdowns(filteredResponses);
+
       // Generate monthly trend data
       const responsesByMonth = generateMonthlyTrends(filteredResponses);
 
@@ -503,7 +643,12 @@ const Analytics: React.FC = () => {
       setAnalyticsData({
         ...insights,
         totalResponses: filteredResponses.length,
+        completionRate,
+        partialResponses,
         avgSatisfaction: Number(avgSatisfaction.toFixed(1)),
+        nps,
+        matrixBreakdowns,
+        locationBreakdowns,
         responsesByMonth,
         recentFeedback
       });
@@ -521,6 +666,7 @@ const Analytics: React.FC = () => {
       responses: number;
       totalSatisfaction: number;
       satisfactionCount: number;
+      npsScores: number[];
       positive: number;
       negative: number;
     }> = {};
@@ -534,6 +680,7 @@ const Analytics: React.FC = () => {
         responses: 0,
         totalSatisfaction: 0,
         satisfactionCount: 0,
+        npsScores: [],
         positive: 0,
         negative: 0
       };
@@ -551,6 +698,10 @@ const Analytics: React.FC = () => {
           monthlyData[monthKey].totalSatisfaction += response.overall_rating;
           monthlyData[monthKey].satisfactionCount++;
         }
+
+        if (NpsService.isValidScore(response.nps_score)) {
+          monthlyData[monthKey].npsScores.push(response.nps_score);
+        }
         
         if (response.sentiment === 'positive') {
           monthlyData[monthKey].positive++;
@@ -567,11 +718,75 @@ const Analytics: React.FC = () => {
       satisfaction: data.satisfactionCount > 0 
         ? Number((data.totalSatisfaction / data.satisfactionCount).toFixed(1))
         : 0,
+      // Months without NPS answers are left as gaps rather than plotted as 0
+      nps: data.npsScores.length > 0 ? NpsService.summarize(data.npsScores).score : null,
       positive: data.positive,
       negative: data.negative
     }));
   };
 
+  const generateMatrixBreakdowns = (forms: FeedbackForm[], responses: EnrichedFormResponse[]): MatrixBreakdown[] => {
+    return forms.flatMap(form => form.fields
+      .filter(field => field.type === 'matrix')
+      .map(field => {
+        const columns = field.options || [];
+        const counts = new Map((field.matrixRows || []).map(row => [
+          row,
+          Object.fromEntries(columns.map(column => [column, 0])) as Record<string, number>
+        ]));
+
+        responses.forEach(response => {
+          response.form_response_data
+            .filter(data => data.field_id === field.id)
+            .forEach(data => {
+              (data.field_data?.rows || []).forEach((entry: { row: string; columns: string[] }) => {
+                const rowCounts = counts.get(entry.row);
+                if (!rowCounts) return;
+
+                entry.columns.forEach(column => {
+                  if (column in rowCounts) rowCounts[column]++;
+                });
+              });
+            });
+        });
+
+        return {
+          fieldId: field.id,
+          label: field.label,
+          formTitle: form.title,
+          columns,
+          rows: Array.from(counts.entries()).map(([row, rowCounts]) => ({ row, ...rowCounts }))
+        };
+      }));
+  };
+
+  const generateLocationBreakdowns = (responses: EnrichedFormResponse[]): LocationBreakdown[] => {
+    const byLocation = new Map<string, EnrichedFormResponse[]>();
+    responses.forEach(response => {
+      if (!response.location_label) return;
+      byLocation.set(response.location_label, [...(byLocation.get(response.location_label) || []), response]);
+    });
+
+    const share = (items: EnrichedFormResponse[], sentiment: string) =>
+      Math.round((items.filter(item => item.sentiment === sentiment).length / items.length) * 100);
+
+    return Array.from(byLocation.entries())
+      .map(([location, items]) => {
+        const ratings = items.map(item => item.overall_rating).filter((rating): rating is number => rating !== null);
+        return {
+          location,
+          responses: items.length,
+          avgRating: ratings.length > 0
+            ? Number((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length).toFixed(1))
+            : null,
+          positive: share(items, 'positive'),
+          neutral: share(items, 'neutral'),
+          negative: share(items, 'negative')
+        };
+      })
+      .sort((a, b) => b.responses - a.responses);
+  };
+
   const processRecentFeedback = (responses: EnrichedFormResponse[]) => {
     return responses.map(response => {
       // Extract main comment from text/textarea fields
@@ -608,8 +823,16 @@ const Analytics: React.FC = () => {
         })
         .map(data => ({
           label: data.field_label || 'Unknown Field',
-          value: data.field_value || '',
-          type: data.field_type || 'unknown'
+          value: data.field_type === 'nps' && data.field_value
+            ? `${data.field_value} (${NpsService.classify(Number(data.field_value))})`
+            : data.field_type === 'matrix' && data.field_data?.rows
+            ? data.field_data.rows
+                .filter((entry: { columns: string[] }) => entry.columns.length > 0)
+                .map((entry: { row: string; columns: string[] }) => `${entry.row}: ${entry.columns.join(', ')}`)
+                .join('; ')
+            : data.field_value || '',
+          type: data.field_type || 'unknown',
+          files: data.field_type === 'file' ? data.field_data?.files : undefined
         }));
 
       // Calculate time ago
@@ -619,7 +842,9 @@ const Analytics: React.FC = () => {
         id: response.id,
         rating: response.overall_rating || 0,
         comment: comment.length > 150 ? comment.substring(0, 150) + '...' : comment,
-        source: response.response_source || 'web',
+        source: response.device_id || response.location_label
+          ? `${response.response_source} · ${response.device_id || response.location_label}`
+          : response.response_source || 'web',
         time: timeAgo,
         sentiment: response.sentiment || 'neutral',
         confidence: response.metadata?.sentimentAnalysis?.confidence || 0,
@@ -718,6 +943,14 @@ const Analytics: React.FC = () => {
     }
   };
 
+  const handleQuarantineResolved = (responseId: string, released: boolean) => {
+    setQuarantinedResponses(prev => prev.filter(response => response.id !== responseId));
+    // A released response counts from now on, so the metrics are recalculated
+    if (released) {
+      loadAnalytics();
+    }
+  };
+
   const toggleFeedbackVisibility = (feedbackId: string) => {
     setHiddenFeedback(prev => {
       const newSet = new Set(prev);
@@ -742,6 +975,18 @@ const Analytics: React.FC = () => {
     sentiment: cat.sentiment
   })) || [];
 
+  const npsDistributionData = analyticsData?.nps.distribution.map((responses, score) => ({
+    score,
+    responses,
+    color: NpsService.CATEGORY_COLORS[NpsService.classify(score)]
+  })) || [];
+
+  const npsBreakdown = analyticsData && analyticsData.nps.total > 0 ? [
+    { name: 'Promoters', value: Math.round((analyticsData.nps.promoters / analyticsData.nps.total) * 100), color: NpsService.CATEGORY_COLORS.promoter },
+    { name: 'Passives', value: Math.round((analyticsData.nps.passives / analyticsData.nps.total) * 100), color: NpsService.CATEGORY_COLORS.passive },
+    { name: 'Detractors', value: Math.round((analyticsData.nps.detractors / analyticsData.nps.total) * 100), color: NpsService.CATEGORY_COLORS.detractor }
+  ] : [];
+
   const stats = [
     {
       title: 'Total Responses',
@@ -751,6 +996,16 @@ const Analytics: React.FC = () => {
       icon: MessageSquare,
       color: 'bg-blue-500'
     },
+    {
+      title: 'Completion Rate',
+      value: analyticsData?.completionRate !== null && analyticsData?.completionRate !== undefined
+        ? `${analyticsData.completionRate}%`
+        : 'N/A',
+      change: `${analyticsData?.partialResponses || 0} partial`,
+      trend: analyticsData?.partialResponses ? 'down' : 'up',
+      icon: CheckCircle,
+      color: 'bg-indigo-500'
+    },
     {
       title: 'Avg. Satisfaction',
       value: analyticsData?.avgSatisfaction ? `${analyticsData.avgSatisfaction}/5` : 'N/A',
@@ -809,6 +1064,14 @@ const Analytics: React.FC = () => {
     );
   }
 
+  const quarantineReview = quarantinedResponses.length > 0 && (
+    <QuarantineReview
+      responses={quarantinedResponses}
+      formTitles={formTitles}
+      onResolved={handleQuarantineResolved}
+    />
+  );
+
   if (!analyticsData || analyticsData.totalResponses === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -829,6 +1092,9 @@ const Analytics: React.FC = () => {
               Create Your First Form
             </button>
           )}
+          {quarantineReview && (
+            <div className="mt-8 max-w-3xl mx-auto text-left">{quarantineReview}</div>
+          )}
         </div>
       </div>
     );
@@ -864,6 +1130,30 @@ const Analytics: React.FC = () => {
             <option value="90">Last 3 months</option>
             <option value="365">Last year</option>
           </select>
+          {availableLocales.length > 0 && (
+            <select
+              value={selectedLocale}
+              onChange={(e) => setSelectedLocale(e.target.value)}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <option value="all">All Languages</option>
+              {availableLocales.map(locale => (
+                <option key={locale} value={locale}>{FormTranslationService.getLocaleName(locale)}</option>
+              ))}
+            </select>
+          )}
+          {availableDevices.length > 0 && (
+            <select
+              value={selectedDevice}
+              onChange={(e) => setSelectedDevice(e.target.value)}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <option value="all">All Devices</option>
+              {availableDevices.map(device => (
+                <option key={device} value={device}>{device}</option>
+              ))}
+            </select>
+          )}
           <button 
             onClick={loadAnalytics}
             className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-2"
@@ -875,7 +1165,7 @@ const Analytics: React.FC = () => {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-6">
         {stats.map((stat, index) => (
           <motion.div
             key={stat.title}
@@ -1090,6 +1380,186 @@ const Analytics: React.FC = () => {
             </LineChart>
           </ResponsiveContainer>
         </motion.div>
+
+        {/* Net Promoter Score */}
+        {analyticsData.nps.total > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.85 }}
+            className="bg-white p-6 rounded-xl shadow-sm border border-gray-100"
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Net Promoter Score</h3>
+                <p className="text-sm text-gray-500">{analyticsData.nps.total} NPS answers</p>
+              </div>
+              <p className={`text-3xl font-bold ${
+                analyticsData.nps.score > 0 ? 'text-green-600' : analyticsData.nps.score < 0 ? 'text-red-600' : 'text-gray-900'
+              }`}>
+                {analyticsData.nps.score > 0 ? '+' : ''}{analyticsData.nps.score}
+              </p>
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={npsDistributionData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="score" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="responses" radius={[4, 4, 0, 0]}>
+                  {npsDistributionData.map((entry) => (
+                    <Cell key={`nps-${entry.score}`} fill={entry.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="flex justify-center space-x-6 mt-4">
+              {npsBreakdown.map((item) => (
+                <div key={item.name} className="flex items-center space-x-2">
+                  <div 
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: item.color }}
+                  />
+                  <span className="text-sm text-gray-600">{item.name} ({item.value}%)</span>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {/* NPS Trend */}
+        {analyticsData.nps.total > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.9 }}
+            className="bg-white p-6 rounded-xl shadow-sm border border-gray-100"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">NPS Trend</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={analyticsData.responsesByMonth}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis domain={[-100, 100]} />
+                <Tooltip />
+                <Line 
+                  type="monotone" 
+                  dataKey="nps" 
+                  stroke="#10B981" 
+                  strokeWidth={3}
+                  dot={{ fill: '#10B981', strokeWidth: 2, r: 6 }}
+                  connectNulls
+                  name="NPS"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </motion.div>
+        )}
+
+        {/* Locations */}
+        {analyticsData.locationBreakdowns.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.9 }}
+            className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 lg:col-span-2"
+          >
+            <div className="flex items-center space-x-2 mb-4">
+              <MapPin className="w-5 h-5 text-gray-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Locations</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-2 pr-4 font-medium">Location</th>
+                    <th className="py-2 pr-4 font-medium">Responses</th>
+                    <th className="py-2 pr-4 font-medium">Avg. rating</th>
+                    <th className="py-2 font-medium w-1/3">Sentiment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analyticsData.locationBreakdowns.map(location => (
+                    <tr key={location.location} className="border-b border-gray-50">
+                      <td className="py-2 pr-4 text-gray-900">{location.location}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center space-x-2">
+                          <div
+                            className="h-2 bg-blue-500 rounded-full"
+                            style={{ width: `${Math.max(4, (location.responses / analyticsData.locationBreakdowns[0].responses) * 80)}px` }}
+                          />
+                          <span className="text-gray-700">{location.responses}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">
+                        {location.avgRating !== null ? (
+                          <span className="flex items-center space-x-1">
+                            <Star className="w-3.5 h-3.5 text-yellow-400 fill-current" />
+                            <span>{location.avgRating}</span>
+                          </span>
+                        ) : '—'}
+                      </td>
+                      <td className="py-2">
+                        <div
+                          className="flex h-2 rounded-full overflow-hidden bg-gray-100"
+                          title={`${location.positive}% positive, ${location.neutral}% neutral, ${location.negative}% negative`}
+                        >
+                          {(['positive', 'neutral', 'negative'] as const).map((sentiment, index) => (
+                            <div
+                              key={sentiment}
+                              style={{ width: `${location[sentiment]}%`, backgroundColor: sentimentData[index].color }}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Matrix Questions */}
+        {analyticsData.matrixBreakdowns.map((matrix) => (
+          <motion.div
+            key={matrix.fieldId}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.95 }}
+            className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 lg:col-span-2"
+          >
+            <h3 className="text-lg font-semibold text-gray-900">{matrix.label}</h3>
+            <p className="text-sm text-gray-500 mb-4">{matrix.formTitle}</p>
+            <ResponsiveContainer width="100%" height={Math.max(200, matrix.rows.length * 48 + 60)}>
+              <BarChart data={matrix.rows} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="row" width={180} />
+                <Tooltip />
+                {matrix.columns.map((column, index) => (
+                  <Bar
+                    key={column}
+                    dataKey={column}
+                    stackId={matrix.fieldId}
+                    fill={MATRIX_COLORS[index % MATRIX_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="flex flex-wrap justify-center gap-4 mt-4">
+              {matrix.columns.map((column, index) => (
+                <div key={column} className="flex items-center space-x-2">
+                  <div 
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: MATRIX_COLORS[index % MATRIX_COLORS.length] }}
+                  />
+                  <span className="text-sm text-gray-600">{column}</span>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        ))}
       </div>
 
       {/* Recent Feedback with Edit/Update Options */}
@@ -1209,7 +1679,11 @@ const Analytics: React.FC = () => {
                               <span className="text-xs font-medium text-gray-600">{field.label}</span>
                               <span className="text-xs text-gray-400 capitalize">{field.type}</span>
                             </div>
-                            <p className="text-sm text-gray-800">{field.value}</p>
+                            {field.files && field.files.length > 0 ? (
+                              <AttachmentList files={field.files} />
+                            ) : (
+                              <p className="text-sm text-gray-800">{field.value}</p>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -1260,6 +1734,8 @@ const Analytics: React.FC = () => {
         </motion.div>
       )}
 
+      {quarantineReview}
+
       {/* Edit Feedback Modal */}
       <AnimatePresence>
         {editingFeedback && (
@@ -0,0 +1,73 @@
+import React from 'react';
+import { FormAvailability } from '../context/FeedbackContext';
+import { FormAvailabilityService } from '../services/formAvailabilityService';
+
+interface AvailabilitySettingsProps {
+  availability: FormAvailability;
+  onChange: (availability: FormAvailability) => void;
+}
+
+const AvailabilitySettings: React.FC<AvailabilitySettingsProps> = ({ availability, onChange }) => {
+  const error = FormAvailabilityService.validate(availability);
+
+  const update = (updates: Partial<FormAvailability>) => {
+    onChange({ ...availability, ...updates });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-3">
+      <h4 className="font-medium text-gray-900">Availability</h4>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Opens</label>
+        <input
+          type="datetime-local"
+          value={FormAvailabilityService.toLocalInputValue(availability.opensAt)}
+          onChange={(e) => update({ opensAt: FormAvailabilityService.fromLocalInputValue(e.target.value) })}
+          className="w-full p-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Closes</label>
+        <input
+          type="datetime-local"
+          value={FormAvailabilityService.toLocalInputValue(availability.closesAt)}
+          onChange={(e) => update({ closesAt: FormAvailabilityService.fromLocalInputValue(e.target.value) })}
+          className="w-full p-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Maximum responses</label>
+        <input
+          type="number"
+          min="1"
+          value={availability.maxResponses ?? ''}
+          onChange={(e) => update({ maxResponses: e.target.value === '' ? null : Number(e.target.value) })}
+          className="w-full p-2 border border-gray-300 rounded text-sm"
+          placeholder="No limit"
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Message when closed</label>
+        <textarea
+          value={availability.closedMessage}
+          onChange={(e) => update({ closedMessage: e.target.value })}
+          className="w-full p-2 border border-gray-300 rounded text-sm resize-none"
+          rows={2}
+          placeholder={FormAvailabilityService.DEFAULT_CLOSED_MESSAGES.ended}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        The form closes automatically once the closing time passes or the limit is reached.
+      </p>
+    </div>
+  );
+};
+
+export default AvailabilitySettings;
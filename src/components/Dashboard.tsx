@@ -14,7 +14,8 @@ import {
   TrendingDown,
   AlertCircle,
   CheckCircle,
-  Activity
+  Activity,
+  Gauge
 } from 'lucide-react';
 import { useFeedback } from '../context/FeedbackContext';
 import { FormService, DashboardStats } from '../services/formService';
@@ -217,6 +218,60 @@ const Dashboard: React.FC = () => {
         </motion.div>
       )}
 
+      {/* Net Promoter Score */}
+      {dashboardStats && dashboardStats.npsScore !== null && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5 }}
+          className="bg-white rounded-xl shadow-sm border border-gray-100 p-6"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">Net Promoter Score</h3>
+              <div className="flex items-center">
+                {dashboardStats.monthlyTrend.npsChange >= 0 ? (
+                  <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
+                ) : (
+                  <TrendingDown className="w-4 h-4 text-red-500 mr-1" />
+                )}
+                <span className={`text-sm ${dashboardStats.monthlyTrend.npsChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {dashboardStats.monthlyTrend.npsChange > 0 ? '+' : ''}{dashboardStats.monthlyTrend.npsChange} points from last month
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <p className="text-3xl font-bold text-gray-900">
+                {dashboardStats.npsScore > 0 ? '+' : ''}{dashboardStats.npsScore}
+              </p>
+              <div className="w-12 h-12 bg-emerald-500 rounded-lg flex items-center justify-center">
+                <Gauge className="w-6 h-6 text-white" />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-100 mb-3">
+            <div className="bg-green-500" style={{ width: `${dashboardStats.npsBreakdown.promoters}%` }} />
+            <div className="bg-yellow-400" style={{ width: `${dashboardStats.npsBreakdown.passives}%` }} />
+            <div className="bg-red-500" style={{ width: `${dashboardStats.npsBreakdown.detractors}%` }} />
+          </div>
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-600">Promoters (9-10)</p>
+              <p className="font-semibold text-green-600">{dashboardStats.npsBreakdown.promoters}%</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Passives (7-8)</p>
+              <p className="font-semibold text-yellow-600">{dashboardStats.npsBreakdown.passives}%</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Detractors (0-6)</p>
+              <p className="font-semibold text-red-600">{dashboardStats.npsBreakdown.detractors}%</p>
+            </div>
+          </div>
+        </motion.div>
+      )}
+
       {/* Recent Forms */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100">
         <div className="p-6 border-b border-gray-100">
@@ -244,7 +299,10 @@ const Dashboard: React.FC = () => {
                     </div>
                     <div>
                       <h3 className="font-medium text-gray-900">{form.title}</h3>
-                      <p className="text-sm text-gray-500">{form.responses} responses</p>
+                      <p className="text-sm text-gray-500">
+                        {form.responses} responses
+                        {!!form.duplicateAttempts && ` · ${form.duplicateAttempts} repeat ${form.duplicateAttempts === 1 ? 'attempt' : 'attempts'} turned away`}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
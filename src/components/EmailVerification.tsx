@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Mail } from 'lucide-react';
+import { RespondentService } from '../services/respondentService';
+
+interface EmailVerificationProps {
+  formId: string;
+  title: string;
+  // Called with the respondent pass once the code checks out
+  onVerified: (token: string) => void;
+}
+
+const EmailVerification: React.FC<EmailVerificationProps> = ({ formId, title, onVerified }) => {
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      await RespondentService.sendEmailCode(formId, email);
+      setCodeSent(true);
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : 'Failed to send the code. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      onVerified(await RespondentService.verifyEmailCode(formId, email, code));
+    } catch (verifyError) {
+      setError(verifyError instanceof Error ? verifyError.message : 'Failed to verify the code. Please try again.');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full">
+      <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Mail className="w-8 h-8 text-blue-600" />
+      </div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">{title}</h1>
+      <p className="text-gray-600 text-center mb-6">
+        {codeSent
+          ? `Enter the code we sent to ${email}.`
+          : 'Each person can respond once. Confirm your email address to continue.'}
+      </p>
+
+      {codeSent ? (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            autoFocus
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="w-full p-3 border border-gray-300 rounded-lg text-center tracking-widest"
+            placeholder="Code"
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="w-full bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? 'Checking...' : 'Continue'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setCodeSent(false);
+              setCode('');
+              setError(null);
+            }}
+            className="w-full text-sm text-gray-500 hover:text-gray-700"
+          >
+            Use a different email
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleSendCode} className="space-y-4">
+          <input
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full p-3 border border-gray-300 rounded-lg"
+            placeholder="you@example.com"
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="w-full bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? 'Sending...' : 'Send code'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EmailVerification;
@@ -1,18 +1,195 @@
-import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Star, Send, CheckCircle } from 'lucide-react';
-import { FeedbackForm as FeedbackFormType } from '../context/FeedbackContext';
+import { Star, Send, CheckCircle, ArrowLeft, ArrowRight, Lock, Bookmark, Link2, RotateCcw, CloudOff, AlertCircle, UserCheck, PencilLine } from 'lucide-react';
+import { FeedbackForm as FeedbackFormType, FeedbackTheme, FormField } from '../context/FeedbackContext';
+import { DEFAULT_RESPONSE_SETTINGS, DEFAULT_KIOSK_SETTINGS } from '../context/formDefaults';
 import { FormService } from '../services/formService';
-import { useForm } from 'react-hook-form';
+import { FormLogicService } from '../services/formLogicService';
+import { FormAvailabilityService } from '../services/formAvailabilityService';
+import { AnswerPipingService } from '../services/answerPipingService';
+import { FormTranslationService } from '../services/formTranslationService';
+import { ResponseProgressService } from '../services/responseProgressService';
+import { KioskService } from '../services/kioskService';
+import { OfflineQueueService } from '../services/offlineQueueService';
+import { SpamProtectionService, SubmissionChallenge } from '../services/spamProtectionService';
+import { RespondentService, RespondentStatus } from '../services/respondentService';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { useForm, Controller, FieldErrors } from 'react-hook-form';
+import FormProgress from './FormProgress';
+import NpsScale from './NpsScale';
+import MatrixGrid from './MatrixGrid';
+import FileUploadInput from './FileUploadInput';
+import EmailVerification from './EmailVerification';
+import { FileUploadService } from '../services/fileUploadService';
+import { FieldValidationService } from '../services/fieldValidationService';
 
-const FeedbackForm: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+const RatingField: React.FC<{
+  field: FormField;
+  value: number;
+  onChange: (value: number) => void;
+  theme: FeedbackTheme;
+}> = ({ field, value, onChange, theme }) => {
+  const [hoverRating, setHoverRating] = useState(0);
+  const rating = value || 0;
+  const maxRating = field.maxRating || 5;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-center space-x-1">
+        {Array.from({ length: maxRating }).map((_, i) => {
+          const starValue = i + 1;
+          const isActive = starValue <= (hoverRating || rating);
+          
+          return (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onChange(starValue)}
+              onMouseEnter={() => setHoverRating(starValue)}
+              onMouseLeave={() => setHoverRating(0)}
+              className={`transition-all duration-200 transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 rounded-full p-1 ${
+                isActive ? 'focus:ring-yellow-500' : 'focus:ring-gray-300'
+              }`}
+              style={{
+                color: isActive ? '#F59E0B' : '#D1D5DB'
+              }}
+            >
+              <Star
+                className={`w-8 h-8 transition-all duration-200 ${
+                  isActive 
+                    ? 'fill-current text-yellow-400 drop-shadow-sm' 
+                    : 'text-gray-300 hover:text-gray-400'
+                }`}
+              />
+            </button>
+          );
+        })}
+      </div>
+      
+      {/* Fixed Rating Labels - Always positioned correctly */}
+      <div className="relative">
+        <div className="flex justify-between items-center px-1">
+          {/* Poor - Always under first star */}
+          <div className="flex flex-col items-center" style={{ width: '32px' }}>
+            <span className="text-xs text-gray-500 text-center" style={{ fontFamily: theme.fontFamily }}>
+              Poor
+            </span>
+          </div>
+          
+          {/* Average - Always under middle star (3rd for 5-star, proportional for others) */}
+          {maxRating >= 3 && (
+            <div className="flex flex-col items-center" style={{ width: '32px' }}>
+              <span className="text-xs text-gray-500 text-center" style={{ fontFamily: theme.fontFamily }}>
+                Average
+              </span>
+            </div>
+          )}
+          
+          {/* Excellent - Always under last star */}
+          <div className="flex flex-col items-center" style={{ width: '32px' }}>
+            <span className="text-xs text-gray-500 text-center" style={{ fontFamily: theme.fontFamily }}>
+              Excellent
+            </span>
+          </div>
+        </div>
+      </div>
+      
+      {/* Selected Rating Display */}
+      {rating > 0 && (
+        <div className="text-sm text-center">
+          <span 
+            className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800"
+            style={{ fontFamily: theme.fontFamily }}
+          >
+            <Star className="w-4 h-4 mr-1 fill-current" />
+            {rating} out of {maxRating}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface FeedbackFormProps {
+  // Unattended tablet mode: resets itself for the next respondent and cannot be left without the exit PIN
+  kiosk?: boolean;
+  // Set when opened through a share link (/f/<slug>) instead of /form/<id>
+  formId?: string;
+  linkId?: string;
+  // Set when opened by scanning a QR code (/qr/<id>)
+  source?: 'web' | 'qr';
+  qrCodeId?: string;
+  trackingParams?: Record<string, string>;
+}
+
+const FeedbackForm: React.FC<FeedbackFormProps> = ({
+  kiosk = false,
+  formId,
+  linkId: openedLinkId,
+  source = 'web',
+  qrCodeId: openedQrCodeId,
+  trackingParams
+}) => {
+  const params = useParams<{ id: string }>();
+  const id = formId || params.id;
+  const [searchParams] = useSearchParams();
+  // A resume link carries the link or QR code the response was started through
+  const linkId = openedLinkId || searchParams.get('link') || undefined;
+  const qrCodeId = openedQrCodeId || searchParams.get('qr') || undefined;
+  const navigate = useNavigate();
+  const [deviceId] = useState(() => kiosk ? KioskService.getDeviceId(searchParams.get('device')) : null);
+  const responseSource = kiosk ? 'kiosk' : source;
+  const [resetCountdown, setResetCountdown] = useState(0);
+  const [showExitPrompt, setShowExitPrompt] = useState(false);
+  const [exitPin, setExitPin] = useState('');
+  const [exitError, setExitError] = useState<string | null>(null);
   const [form, setForm] = useState<FeedbackFormType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm();
+  // 'queued' when the last submission is waiting on this device for a connection
+  const [submissionStatus, setSubmissionStatus] = useState<'sent' | 'queued'>('sent');
+  const offlineQueue = useOfflineQueue(id);
+  // Spam screening inputs for the current respondent, settled by the time they submit
+  const challengeRef = useRef<Promise<SubmissionChallenge | null>>(Promise.resolve(null));
+  const proofRef = useRef<Promise<string | null>>(Promise.resolve(null));
+  // One ID per filled-in response, so retrying a submission that half-arrived does not store it twice
+  const responseIdRef = useRef(crypto.randomUUID());
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const [currentPage, setCurrentPage] = useState(0);
+  // Identifies this respondent's partial response; kept across saves and sent with the submission
+  const [resumeToken, setResumeToken] = useState<string | null>(null);
+  const [progressStatus, setProgressStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [restoredAt, setRestoredAt] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // On forms that accept one response each: who is answering, and whether they already did
+  const [respondentToken, setRespondentToken] = useState<string | null>(null);
+  const [respondent, setRespondent] = useState<RespondentStatus | null>(null);
+  // Unregister hidden fields so skipped questions are neither validated nor submitted
+  const { register, handleSubmit, control, watch, trigger, reset, formState: { errors } } = useForm({ shouldUnregister: true });
+  const answers = watch();
+  const visibleFields = form ? FormLogicService.getVisibleFields(form.fields, answers) : [];
+  const questionFields = visibleFields.filter(field => field.type !== 'page-break');
+  const pages = FormLogicService.getPages(visibleFields);
+  // Answers can remove later pages, so clamp rather than trusting the stored index
+  const pageIndex = Math.min(currentPage, pages.length - 1);
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex === pages.length - 1;
+  // Fills {{tokens}} in labels and placeholders with earlier answers and URL parameters
+  const pipe = (text?: string) => form ? AnswerPipingService.resolve(text, form.fields, answers, searchParams) : '';
+  const locale = form
+    ? FormTranslationService.resolveLocale(form, searchParams.get('lang'), navigator.languages)
+    : '';
+  const kioskSettings = form ? KioskService.getSettings(form) : DEFAULT_KIOSK_SETTINGS;
+  const isLimited = !!form && RespondentService.isLimited(form, kiosk);
+  // A kiosk is shared, so one respondent's answers must never come back for the next
+  const saveProgress = !kiosk && !!form && (form.responseSettings || DEFAULT_RESPONSE_SETTINGS).saveProgress &&
+    !FormAvailabilityService.getStatus(form).reason && !isSubmitted;
+  // Serialized so the save below only runs when an answer actually changes
+  const progressKey = form && saveProgress
+    ? JSON.stringify(ResponseProgressService.getSavableAnswers(form.fields, answers))
+    : '{}';
 
   useEffect(() => {
     if (id) {
@@ -20,11 +197,124 @@ const FeedbackForm: React.FC = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (!form || !resumeToken || !saveProgress || progressKey === '{}') return;
+
+    const timer = setTimeout(async () => {
+      setProgressStatus('saving');
+      await ResponseProgressService.saveProgress(form.id, {
+        token: resumeToken,
+        answers: JSON.parse(progressKey),
+        page: pageIndex,
+        locale,
+        updatedAt: new Date().toISOString()
+      }, { source: responseSource, locale, versionId: form.versionId });
+      setProgressStatus('saved');
+    }, 1500);
+
+    return () => clearTimeout(timer);
+  }, [form, resumeToken, saveProgress, progressKey, pageIndex, locale, responseSource]);
+
+  // Every respondent gets a fresh challenge; the proof-of-work is solved while they answer
+  useEffect(() => {
+    if (!id || isSubmitted) return;
+
+    const controller = new AbortController();
+    challengeRef.current = SpamProtectionService.issueChallenge(id);
+    proofRef.current = challengeRef.current.then(challenge =>
+      challenge ? SpamProtectionService.solveChallenge(challenge, controller.signal) : null
+    );
+
+    return () => controller.abort();
+  }, [id, isSubmitted]);
+
+  // Clears the answers for the next respondent
+  const startNewResponse = useCallback(() => {
+    reset({});
+    responseIdRef.current = crypto.randomUUID();
+    setCurrentPage(0);
+    setIsSubmitted(false);
+    // The next person on a kiosk verifies their own email address
+    if (id && respondentToken && form && RespondentService.getSettings(form).respondentIdentity === 'email') {
+      RespondentService.forgetEmail(id);
+      setRespondentToken(null);
+      setRespondent({ status: 'unverified' });
+    }
+    window.scrollTo({ top: 0 });
+  }, [reset, id, form, respondentToken]);
+
+  // Kiosk: a half-finished response is cleared once nobody has touched the screen for a while
+  useEffect(() => {
+    if (!kiosk || isSubmitted) return;
+
+    let timer = setTimeout(startNewResponse, kioskSettings.idleTimeoutSeconds * 1000);
+    const handleActivity = () => {
+      KioskService.enterFullscreen();
+      clearTimeout(timer);
+      timer = setTimeout(startNewResponse, kioskSettings.idleTimeoutSeconds * 1000);
+    };
+
+    const events = ['pointerdown', 'keydown', 'scroll'];
+    events.forEach(event => window.addEventListener(event, handleActivity, true));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, handleActivity, true));
+    };
+  }, [kiosk, isSubmitted, kioskSettings.idleTimeoutSeconds, startNewResponse]);
+
+  // Kiosk: the thank-you screen counts down to a fresh form
+  useEffect(() => {
+    if (!kiosk || !isSubmitted) return;
+
+    const resetAt = Date.now() + kioskSettings.thankYouSeconds * 1000;
+    setResetCountdown(kioskSettings.thankYouSeconds);
+    const timer = setInterval(() => {
+      const secondsLeft = Math.ceil((resetAt - Date.now()) / 1000);
+      if (secondsLeft <= 0) {
+        startNewResponse();
+      } else {
+        setResetCountdown(secondsLeft);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [kiosk, isSubmitted, kioskSettings.thankYouSeconds, startNewResponse]);
+
+  // Kiosk: keep respondents on the form by swallowing back navigation, reloads and the context menu
+  useEffect(() => {
+    if (!kiosk) return;
+
+    window.history.pushState(null, '', window.location.href);
+    const handlePopState = () => window.history.pushState(null, '', window.location.href);
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    const handleContextMenu = (event: MouseEvent) => event.preventDefault();
+
+    window.addEventListener('popstate', handlePopState);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('contextmenu', handleContextMenu);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('contextmenu', handleContextMenu);
+    };
+  }, [kiosk]);
+
   const loadForm = async (formId: string) => {
     try {
       setIsLoading(true);
-      const formData = await FormService.getFormById(formId);
+      const formData = await FormService.getFormById(formId, { linkId, qrCodeId });
       setForm(formData);
+
+      let restored = false;
+      if (formData && !kiosk && (formData.responseSettings || DEFAULT_RESPONSE_SETTINGS).saveProgress) {
+        restored = await restoreProgress(formId);
+      }
+
+      if (formData && RespondentService.isLimited(formData, kiosk)) {
+        const token = RespondentService.getToken(formData, searchParams.get('invite'));
+        setRespondentToken(token);
+        await checkRespondent(formId, token, !restored);
+      }
     } catch (error) {
       console.error('Failed to load form:', error);
     } finally {
@@ -32,114 +322,190 @@ const FeedbackForm: React.FC = () => {
     }
   };
 
+  // Picks up a resume link (?resume=) or progress saved earlier in this browser; true when it did
+  const restoreProgress = async (formId: string): Promise<boolean> => {
+    let progress = null;
+
+    try {
+      progress = await ResponseProgressService.getProgress(formId, searchParams.get('resume'));
+    } catch (error) {
+      console.warn('Failed to restore progress:', error);
+    }
+
+    if (progress) {
+      reset(progress.answers);
+      setCurrentPage(progress.page);
+      setRestoredAt(progress.updatedAt);
+    }
+    setResumeToken(progress?.token || ResponseProgressService.createToken());
+    return !!progress;
+  };
+
+  // Looks up an earlier response of this respondent; an editable one is loaded unless
+  // the respondent has newer unsubmitted changes
+  const checkRespondent = async (formId: string, token: string | null, loadAnswers = true) => {
+    try {
+      const status = await RespondentService.checkStatus(formId, token, responseSource);
+      setRespondent(status);
+
+      if (status.status === 'editable' && loadAnswers) {
+        reset(status.answers || {});
+        setCurrentPage(0);
+      }
+    } catch (error) {
+      // The submission is checked again, so the form stays usable
+      console.warn('Failed to check earlier responses:', error);
+    }
+  };
+
+  const handleEmailVerified = async (token: string) => {
+    if (!form) return;
+
+    setRespondentToken(token);
+    await checkRespondent(form.id, token);
+  };
+
+  const editResponse = async () => {
+    if (!form) return;
+
+    await checkRespondent(form.id, respondentToken);
+    setIsSubmitted(false);
+  };
+
+  const startOver = async () => {
+    if (!form || !resumeToken) return;
+
+    await ResponseProgressService.discardProgress(form.id, resumeToken);
+    reset({});
+    responseIdRef.current = crypto.randomUUID();
+    setCurrentPage(0);
+    setRestoredAt(null);
+    setProgressStatus('idle');
+    setResumeToken(ResponseProgressService.createToken());
+  };
+
+  const handleExitKiosk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      if (!await KioskService.checkExitPin(form.id, exitPin)) {
+        setExitError('Incorrect PIN');
+        setExitPin('');
+        return;
+      }
+    } catch (error) {
+      setExitError(error instanceof Error ? error.message : 'Failed to check the PIN');
+      setExitPin('');
+      return;
+    }
+
+    await KioskService.exitFullscreen();
+    navigate('/');
+  };
+
+  const copyResumeLink = async () => {
+    if (!form || !resumeToken) return;
+
+    try {
+      await navigator.clipboard.writeText(ResponseProgressService.getResumeUrl(form.id, resumeToken, { linkId, qrCodeId }));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy resume link:', error);
+    }
+  };
+
   const onSubmit = async (data: any) => {
     if (!form) return;
 
     try {
       setIsSubmitting(true);
-      await FormService.submitResponse(form.id, data, 'web');
+      // Usually settled long ago; otherwise the respondent waits for the proof-of-work here
+      let challenge = await challengeRef.current;
+      // Without a challenge the response would be quarantined, so a failed fetch is tried again
+      if (!challenge) {
+        challengeRef.current = SpamProtectionService.issueChallenge(form.id);
+        proofRef.current = challengeRef.current.then(retried =>
+          retried ? SpamProtectionService.solveChallenge(retried) : null
+        );
+        challenge = await challengeRef.current;
+      }
+      const options = {
+        versionId: form.versionId,
+        locale,
+        resumeToken: resumeToken || undefined,
+        deviceId: deviceId || undefined,
+        responseId: responseIdRef.current,
+        respondentToken: respondentToken || undefined,
+        linkId,
+        qrCodeId,
+        trackingParams,
+        proof: {
+          challengeId: challenge?.id,
+          nonce: (await proofRef.current) || undefined,
+          honeypot: honeypotRef.current?.value
+        }
+      };
+
+      try {
+        await FormService.submitResponse(form.id, data, responseSource, options);
+        setSubmissionStatus('sent');
+      } catch (error) {
+        // Without a connection the submission waits on this device and is sent once it returns
+        if (!OfflineQueueService.isNetworkError(error)) throw error;
+
+        await OfflineQueueService.enqueue(form.id, data, responseSource, options);
+        if (resumeToken) {
+          await ResponseProgressService.discardProgress(form.id, resumeToken);
+        }
+        setSubmissionStatus('queued');
+      }
+      // Count the response locally so a reached limit shows once the respondent continues
+      setForm({ ...form, responses: form.responses + 1 });
       setIsSubmitted(true);
+      // A further response is a new one
+      responseIdRef.current = crypto.randomUUID();
+      // and starts from a fresh partial
+      setResumeToken(ResponseProgressService.createToken());
+      setRestoredAt(null);
+      setProgressStatus('idle');
     } catch (error) {
       console.error('Failed to submit response:', error);
-      alert('Failed to submit response. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to submit response. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const RatingField: React.FC<{ field: any; fieldName: string; theme: any }> = ({ field, fieldName, theme }) => {
-    const [rating, setRating] = useState(0);
-    const [hoverRating, setHoverRating] = useState(0);
+  const goToNextPage = async () => {
+    const isPageValid = await trigger(page.fields.map(field => field.id));
+    if (!isPageValid) return;
 
-    const handleRatingClick = (value: number) => {
-      setRating(value);
-      setValue(fieldName, value);
-    };
+    setCurrentPage(pageIndex + 1);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-    const maxRating = field.maxRating || 5;
+  const goToPreviousPage = () => {
+    setCurrentPage(Math.max(pageIndex - 1, 0));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-    return (
-      <div className="space-y-4">
-        <div className="flex items-center justify-center space-x-1">
-          {Array.from({ length: maxRating }).map((_, i) => {
-            const starValue = i + 1;
-            const isActive = starValue <= (hoverRating || rating);
-            
-            return (
-              <button
-                key={i}
-                type="button"
-                onClick={() => handleRatingClick(starValue)}
-                onMouseEnter={() => setHoverRating(starValue)}
-                onMouseLeave={() => setHoverRating(0)}
-                className={`transition-all duration-200 transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 rounded-full p-1 ${
-                  isActive ? 'focus:ring-yellow-500' : 'focus:ring-gray-300'
-                }`}
-                style={{
-                  color: isActive ? '#F59E0B' : '#D1D5DB'
-                }}
-              >
-                <Star
-                  className={`w-8 h-8 transition-all duration-200 ${
-                    isActive 
-                      ? 'fill-current text-yellow-400 drop-shadow-sm' 
-                      : 'text-gray-300 hover:text-gray-400'
-                  }`}
-                />
-              </button>
-            );
-          })}
-        </div>
-        
-        {/* Fixed Rating Labels - Always positioned correctly */}
-        <div className="relative">
-          <div className="flex justify-between items-center px-1">
-            {/* Poor - Always under first star */}
-            <div className="flex flex-col items-center" style={{ width: '32px' }}>
-              <span className="text-xs text-gray-500 text-center" style={{ fontFamily: theme.fontFamily }}>
-                Poor
-              </span>
-            </div>
-            
-            {/* Average - Always under middle star (3rd for 5-star, proportional for others) */}
-            {maxRating >= 3 && (
-              <div className="flex flex-col items-center" style={{ width: '32px' }}>
-                <span className="text-xs text-gray-500 text-center" style={{ fontFamily: theme.fontFamily }}>
-                  Average
-                </span>
-              </div>
-            )}
-            
-            {/* Excellent - Always under last star */}
-            <div className="flex flex-col items-center" style={{ width: '32px' }}>
-              <span className="text-xs text-gray-500 text-center" style={{ fontFamily: theme.fontFamily }}>
-                Excellent
-              </span>
-            </div>
-          </div>
-        </div>
-        
-        {/* Selected Rating Display */}
-        {rating > 0 && (
-          <div className="text-sm text-center">
-            <span 
-              className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800"
-              style={{ fontFamily: theme.fontFamily }}
-            >
-              <Star className="w-4 h-4 mr-1 fill-current" />
-              {rating} out of {maxRating}
-            </span>
-          </div>
-        )}
-        
-        {/* Hidden input for form submission */}
-        <input
-          type="hidden"
-          {...register(fieldName, { required: field.required })}
-          value={rating}
-        />
-      </div>
-    );
+  // Send the respondent back to the first page that still has errors
+  const onInvalid = (formErrors: FieldErrors) => {
+    const invalidPage = pages.findIndex(p => p.fields.some(field => formErrors[field.id]));
+    if (invalidPage >= 0) {
+      setCurrentPage(invalidPage);
+    }
+  };
+
+  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    if (isLastPage) {
+      return handleSubmit(onSubmit, onInvalid)(e);
+    }
+
+    e.preventDefault();
+    goToNextPage();
   };
 
   // Convert Tailwind gradient directions to CSS linear-gradient directions
@@ -275,6 +641,82 @@ const FeedbackForm: React.FC = () => {
     );
   }
 
+  const status = FormAvailabilityService.getStatus(form);
+  const formText = FormTranslationService.translateForm(form, locale);
+
+  // Without an exit PIN there is no way out from the screen; staff close the browser on the device
+  const kioskControls = kiosk && kioskSettings.hasExitPin && (
+    <>
+      <button
+        type="button"
+        onClick={() => {
+          setExitPin('');
+          setExitError(null);
+          setShowExitPrompt(true);
+        }}
+        className="fixed bottom-3 right-3 p-2 rounded-full text-gray-400 opacity-40 hover:opacity-100"
+        aria-label="Exit kiosk mode"
+      >
+        <Lock className="w-4 h-4" />
+      </button>
+
+      {showExitPrompt && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleExitKiosk} className="bg-white rounded-xl shadow-xl max-w-xs w-full p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">Exit kiosk mode</h3>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              value={exitPin}
+              onChange={(e) => setExitPin(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg text-center tracking-widest"
+              placeholder="PIN"
+            />
+            {exitError && <p className="text-sm text-red-500">{exitError}</p>}
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowExitPrompt(false)}
+                className="flex-1 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Exit
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+
+  if (status.reason && !isSubmitted) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-gray-500" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{formText.title}</h1>
+          <p className="text-gray-600 whitespace-pre-line">
+            {FormAvailabilityService.getClosedMessage(form, status.reason)}
+          </p>
+          {status.reason === 'not_open' && status.nextChangeAt && (
+            <p className="text-sm text-gray-500 mt-4">
+              Opens {status.nextChangeAt.toLocaleString()}
+            </p>
+          )}
+        </div>
+        {kioskControls}
+      </div>
+    );
+  }
+
   if (isSubmitted) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -283,20 +725,98 @@ const FeedbackForm: React.FC = () => {
           animate={{ scale: 1, opacity: 1 }}
           className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full"
         >
+          {submissionStatus === 'queued' && offlineQueue.queued > 0 ? (
+            <>
+              <div className="w-16 h-16 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CloudOff className="w-8 h-8 text-amber-600" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Thank You!</h2>
+              <p className="text-gray-600 mb-6">
+                You're offline, so your feedback is saved on this device. It will be sent automatically once the connection is back.
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="w-8 h-8 text-green-600" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Thank You!</h2>
+              <p className="text-gray-600 mb-6">
+                {respondent?.status === 'editable'
+                  ? 'Your response has been updated. We appreciate your time and input.'
+                  : 'Your feedback has been submitted successfully. We appreciate your time and input.'}
+              </p>
+            </>
+          )}
+          {kiosk ? (
+            <button
+              onClick={startNewResponse}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Start Over ({resetCountdown})
+            </button>
+          ) : isLimited ? (
+            // Only one response per respondent; those allowed to edit it get it back
+            RespondentService.getSettings(form).allowEditing && submissionStatus === 'sent' && (
+              <button
+                onClick={editResponse}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Edit Your Response
+              </button>
+            )
+          ) : (
+            <button
+              onClick={() => {
+                setCurrentPage(0);
+                setIsSubmitted(false);
+              }}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Submit Another Response
+            </button>
+          )}
+        </motion.div>
+        {kioskControls}
+      </div>
+    );
+  }
+
+  if (isLimited && respondent?.status === 'unverified') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        {RespondentService.getSettings(form).respondentIdentity === 'email' ? (
+          <EmailVerification formId={form.id} title={formText.title} onVerified={handleEmailVerified} />
+        ) : (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Lock className="w-8 h-8 text-gray-500" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">{formText.title}</h1>
+            <p className="text-gray-600">
+              This form is by invitation only. Please open it from the personal link you were sent.
+            </p>
+          </div>
+        )}
+        {kioskControls}
+      </div>
+    );
+  }
+
+  if (isLimited && respondent?.status === 'responded') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
           <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
-            <CheckCircle className="w-8 h-8 text-green-600" />
+            <UserCheck className="w-8 h-8 text-green-600" />
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Thank You!</h2>
-          <p className="text-gray-600 mb-6">
-            Your feedback has been submitted successfully. We appreciate your time and input.
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{formText.title}</h1>
+          <p className="text-gray-600">
+            You have already responded to this form
+            {respondent.submittedAt && ` on ${new Date(respondent.submittedAt).toLocaleDateString()}`}. Thank you!
           </p>
-          <button
-            onClick={() => setIsSubmitted(false)}
-            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            Submit Another Response
-          </button>
-        </motion.div>
+        </div>
+        {kioskControls}
       </div>
     );
   }
@@ -304,6 +824,7 @@ const FeedbackForm: React.FC = () => {
   return (
     <div 
       className="min-h-screen py-12 px-4"
+      lang={locale}
       style={getBackgroundStyle()}
     >
       <div className={`${getLayoutClasses()} ${getAnimationClasses()}`}>
@@ -343,7 +864,7 @@ const FeedbackForm: React.FC = () => {
                   fontFamily: form.theme.fontFamily 
                 }}
               >
-                {form.title}
+                {formText.title}
               </h1>
               <p 
                 className="text-lg opacity-80"
@@ -352,18 +873,99 @@ const FeedbackForm: React.FC = () => {
                   fontFamily: form.theme.fontFamily 
                 }}
               >
-                {form.description}
+                {formText.description}
               </p>
             </div>
 
-            <form onSubmit={handleSubmit(onSubmit)} className={getSpacingClasses()}>
-              {form.fields.map((field, index) => (
+            {(!offlineQueue.isOnline || offlineQueue.queued > 0) && (
+              <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center space-x-2 text-sm text-amber-800">
+                <CloudOff className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  {!offlineQueue.isOnline ? "You're offline. Responses are saved on this device and sent later. " : ''}
+                  {offlineQueue.queued > 0 &&
+                    `${offlineQueue.queued} ${offlineQueue.queued === 1 ? 'response is' : 'responses are'} waiting to be sent.`}
+                </span>
+              </div>
+            )}
+
+            {offlineQueue.failed > 0 && (
+              <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-800">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  {offlineQueue.failed} saved {offlineQueue.failed === 1 ? 'response was' : 'responses were'} rejected, for example because the form closed while offline.
+                </span>
+              </div>
+            )}
+
+            {isLimited && respondent?.status === 'editable' && (
+              <div className="mb-6 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2 text-sm text-blue-800">
+                <PencilLine className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  You're editing the response you sent
+                  {respondent.submittedAt && ` on ${new Date(respondent.submittedAt).toLocaleString()}`}.
+                  Submitting replaces it{form.fields.some(field => field.type === 'file') && '; attach any files again'}.
+                </span>
+              </div>
+            )}
+
+            {restoredAt && (
+              <div className="mb-6 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between text-sm text-blue-800">
+                <span>We restored your answers from {new Date(restoredAt).toLocaleString()}.</span>
+                <button
+                  type="button"
+                  onClick={startOver}
+                  className="flex items-center space-x-1 font-medium hover:underline"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Start over</span>
+                </button>
+              </div>
+            )}
+
+            <form onSubmit={handleFormSubmit} className={getSpacingClasses()}>
+              {SpamProtectionService.getSettings(form).honeypot && (
+                <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                  <label>
+                    Leave this field empty
+                    <input
+                      ref={honeypotRef}
+                      type="text"
+                      name={SpamProtectionService.HONEYPOT_FIELD}
+                      tabIndex={-1}
+                      autoComplete="off"
+                    />
+                  </label>
+                </div>
+              )}
+
+              <FormProgress
+                currentPage={pageIndex}
+                totalPages={pages.length}
+                color={form.theme.primaryColor}
+                textColor={form.theme.textColor}
+                fontFamily={form.theme.fontFamily}
+              />
+
+              {page.pageBreak?.label && (
+                <h2
+                  className="text-xl font-semibold"
+                  style={{
+                    color: form.theme.textColor,
+                    fontFamily: form.theme.fontFamily
+                  }}
+                >
+                  {pipe(FormTranslationService.translateField(page.pageBreak, locale).label)}
+                </h2>
+              )}
+
+              {/* Every page stays mounted so answers on other pages are kept */}
+              {questionFields.map((field) => (
                 <motion.div
                   key={field.id}
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.1 }}
-                  className="space-y-2"
+                  transition={{ delay: Math.max(page.fields.indexOf(field), 0) * 0.1 }}
+                  className={`space-y-2 ${page.fields.includes(field) ? '' : 'hidden'}`}
                 >
                   <label 
                     className="block text-sm font-medium"
@@ -372,15 +974,18 @@ const FeedbackForm: React.FC = () => {
                       fontFamily: form.theme.fontFamily 
                     }}
                   >
-                    {field.label}
+                    {pipe(FormTranslationService.translateField(field, locale).label)}
                     {field.required && <span className="text-red-500 ml-1">*</span>}
                   </label>
 
                   {field.type === 'text' || field.type === 'email' || field.type === 'phone' ? (
                     <input
                       type={field.type}
-                      placeholder={field.placeholder}
-                      {...register(field.id, { required: field.required })}
+                      placeholder={pipe(FormTranslationService.translateField(field, locale).placeholder)}
+                      {...register(field.id, {
+                        required: field.required,
+                        validate: (value) => FieldValidationService.validate(field, value) || true
+                      })}
                       className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                       style={{ 
                         borderRadius: form.theme.borderRadius,
@@ -389,9 +994,12 @@ const FeedbackForm: React.FC = () => {
                     />
                   ) : field.type === 'textarea' ? (
                     <textarea
-                      placeholder={field.placeholder}
+                      placeholder={pipe(FormTranslationService.translateField(field, locale).placeholder)}
                       rows={4}
-                      {...register(field.id, { required: field.required })}
+                      {...register(field.id, {
+                        required: field.required,
+                        validate: (value) => FieldValidationService.validate(field, value) || true
+                      })}
                       className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all resize-none"
                       style={{ 
                         borderRadius: form.theme.borderRadius,
@@ -399,7 +1007,72 @@ const FeedbackForm: React.FC = () => {
                       }}
                     />
                   ) : field.type === 'rating' ? (
-                    <RatingField field={field} fieldName={field.id} theme={form.theme} />
+                    <Controller
+                      name={field.id}
+                      control={control}
+                      rules={{
+                        required: field.required,
+                        validate: (value) => FieldValidationService.validate(field, value) || true
+                      }}
+                      render={({ field: { value, onChange } }) => (
+                        <RatingField field={field} value={value} onChange={onChange} theme={form.theme} />
+                      )}
+                    />
+                  ) : field.type === 'nps' ? (
+                    <Controller
+                      name={field.id}
+                      control={control}
+                      rules={{
+                        required: field.required,
+                        validate: (value) => FieldValidationService.validate(field, value) || true
+                      }}
+                      render={({ field: { value, onChange } }) => (
+                        <NpsScale
+                          field={field}
+                          value={value}
+                          onChange={onChange}
+                          primaryColor={form.theme.primaryColor}
+                          fontFamily={form.theme.fontFamily}
+                        />
+                      )}
+                    />
+                  ) : field.type === 'matrix' ? (
+                    <Controller
+                      name={field.id}
+                      control={control}
+                      rules={{ validate: (value) => !field.required || FormLogicService.isComplete(field, value) }}
+                      render={({ field: { value, onChange } }) => (
+                        <MatrixGrid
+                          field={field}
+                          value={value}
+                          onChange={onChange}
+                          textColor={form.theme.textColor}
+                          fontFamily={form.theme.fontFamily}
+                          rowLabels={FormTranslationService.translateField(field, locale).matrixRows}
+                          columnLabels={FormTranslationService.translateField(field, locale).options}
+                        />
+                      )}
+                    />
+                  ) : field.type === 'file' ? (
+                    <Controller
+                      name={field.id}
+                      control={control}
+                      rules={{
+                        validate: (value: File[] | undefined) => {
+                          if (!value || value.length === 0) return !field.required;
+                          return FileUploadService.validateFiles(field, value) || true;
+                        }
+                      }}
+                      render={({ field: { value, onChange } }) => (
+                        <FileUploadInput
+                          field={field}
+                          value={value}
+                          onChange={onChange}
+                          primaryColor={form.theme.primaryColor}
+                          fontFamily={form.theme.fontFamily}
+                        />
+                      )}
+                    />
                   ) : field.type === 'multiple-choice' ? (
                     <div className="space-y-3">
                       {field.options?.map((option, i) => (
@@ -417,7 +1090,7 @@ const FeedbackForm: React.FC = () => {
                               fontFamily: form.theme.fontFamily 
                             }}
                           >
-                            {option}
+                            {FormTranslationService.translateField(field, locale).options[i]}
                           </span>
                         </label>
                       ))}
@@ -431,39 +1104,87 @@ const FeedbackForm: React.FC = () => {
                       className="text-red-500 text-sm flex items-center space-x-1"
                     >
                       <span>⚠️</span>
-                      <span>This field is required</span>
+                      <span>
+                        {(errors[field.id]?.message as string) ||
+                          (field.type === 'matrix' ? 'Please answer every row' : 'This field is required')}
+                      </span>
                     </motion.p>
                   )}
                 </motion.div>
               ))}
 
-              <motion.button
-                type="submit"
-                disabled={isSubmitting}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: form.fields.length * 0.1 + 0.2 }}
-                className={`w-full py-4 text-white font-medium rounded-lg transition-all flex items-center justify-center space-x-2 transform hover:scale-[1.02] active:scale-[0.98] ${
-                  isSubmitting ? 'opacity-70 cursor-not-allowed' : 'hover:shadow-lg'
-                }`}
-                style={{ 
-                  backgroundColor: form.theme.primaryColor,
-                  borderRadius: form.theme.borderRadius,
-                  fontFamily: form.theme.fontFamily 
-                }}
-              >
-                {isSubmitting ? (
-                  <>
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                    <span>Submitting...</span>
-                  </>
-                ) : (
-                  <>
-                    <Send className="w-5 h-5" />
-                    <span>Submit Feedback</span>
-                  </>
+              <div className="flex space-x-3">
+                {pageIndex > 0 && (
+                  <button
+                    type="button"
+                    onClick={goToPreviousPage}
+                    className="px-6 py-4 border border-gray-300 font-medium rounded-lg transition-all flex items-center justify-center space-x-2 hover:bg-gray-50"
+                    style={{
+                      color: form.theme.textColor,
+                      borderRadius: form.theme.borderRadius,
+                      fontFamily: form.theme.fontFamily
+                    }}
+                  >
+                    <ArrowLeft className="w-5 h-5" />
+                    <span>Back</span>
+                  </button>
                 )}
-              </motion.button>
+                <motion.button
+                  type="submit"
+                  disabled={isSubmitting}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: page.fields.length * 0.1 + 0.2 }}
+                  className={`flex-1 py-4 text-white font-medium rounded-lg transition-all flex items-center justify-center space-x-2 transform hover:scale-[1.02] active:scale-[0.98] ${
+                    isSubmitting ? 'opacity-70 cursor-not-allowed' : 'hover:shadow-lg'
+                  }`}
+                  style={{ 
+                    backgroundColor: form.theme.primaryColor,
+                    borderRadius: form.theme.borderRadius,
+                    fontFamily: form.theme.fontFamily 
+                  }}
+                >
+                  {!isLastPage ? (
+                    <>
+                      <span>Next</span>
+                      <ArrowRight className="w-5 h-5" />
+                    </>
+                  ) : isSubmitting ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      <span>Submitting...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Send className="w-5 h-5" />
+                      <span>Submit Feedback</span>
+                    </>
+                  )}
+                </motion.button>
+              </div>
+
+              {saveProgress && progressStatus !== 'idle' && (
+                <div
+                  className="flex items-center justify-between text-sm opacity-70"
+                  style={{
+                    color: form.theme.textColor,
+                    fontFamily: form.theme.fontFamily
+                  }}
+                >
+                  <span className="flex items-center space-x-1">
+                    <Bookmark className="w-4 h-4" />
+                    <span>{progressStatus === 'saving' ? 'Saving progress...' : 'Progress saved'}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={copyResumeLink}
+                    className="flex items-center space-x-1 hover:underline"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    <span>{linkCopied ? 'Link copied!' : 'Copy link to finish later'}</span>
+                  </button>
+                </div>
+              )}
             </form>
           </div>
 
@@ -487,7 +1208,8 @@ const FeedbackForm: React.FC = () => {
                     {form.theme.footer.text}
                   </p>
                 )}
-                {form.theme.footer.links && form.theme.footer.links.length > 0 && (
+                {/* Links would lead away from a kiosk */}
+                {!kiosk && form.theme.footer.links && form.theme.footer.links.length > 0 && (
                   <div className="flex justify-center space-x-6">
                     {form.theme.footer.links.map((link, index) => (
                       <a
@@ -511,6 +1233,7 @@ const FeedbackForm: React.FC = () => {
           )}
         </motion.div>
       </div>
+      {kioskControls}
     </div>
   );
 };
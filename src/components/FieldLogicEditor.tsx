@@ -0,0 +1,260 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { FormField, FieldCondition, FieldJump, ConditionOperator, END_OF_FORM } from '../context/FeedbackContext';
+import { CONDITION_OPERATORS } from '../services/formLogicService';
+
+interface FieldLogicEditorProps {
+  field: FormField;
+  fields: FormField[];
+  index: number;
+  onUpdate: (field: FormField) => void;
+}
+
+const ConditionValueInput: React.FC<{
+  source: FormField | undefined;
+  operator: ConditionOperator;
+  value: string | undefined;
+  onChange: (value: string) => void;
+}> = ({ source, operator, value, onChange }) => {
+  const operatorConfig = CONDITION_OPERATORS.find(op => op.value === operator);
+  if (!operatorConfig?.needsValue) return null;
+
+  if (source?.type === 'multiple-choice' && (operator === 'equals' || operator === 'not_equals')) {
+    return (
+      <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-xs"
+      >
+        <option value="">Select option</option>
+        {(source.options || []).map((option, i) => (
+          <option key={i} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  const isNumeric = source?.type === 'rating' || source?.type === 'nps';
+
+  return (
+    <input
+      type={isNumeric ? 'number' : 'text'}
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      min={source?.type === 'rating' ? 1 : source?.type === 'nps' ? 0 : undefined}
+      max={source?.type === 'rating' ? source.maxRating || 5 : source?.type === 'nps' ? 10 : undefined}
+      className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-xs"
+      placeholder="Value"
+    />
+  );
+};
+
+const FieldLogicEditor: React.FC<FieldLogicEditorProps> = ({ field, fields, index, onUpdate }) => {
+  // Rules may only depend on earlier questions and skip forward to later ones.
+  // Matrix and file answers have no single value to compare, so they cannot drive display rules.
+  const previousFields = fields.slice(0, index).filter(f => !['page-break', 'matrix', 'file'].includes(f.type));
+  const laterFields = fields.slice(index + 1).filter(f => f.type !== 'page-break');
+  const logic = field.logic;
+  const jumps = field.jumps || [];
+
+  const setDisplayMode = (mode: string) => {
+    if (mode === 'always') {
+      onUpdate({ ...field, logic: undefined });
+      return;
+    }
+
+    onUpdate({
+      ...field,
+      logic: {
+        action: mode as 'show' | 'hide',
+        match: logic?.match || 'all',
+        conditions: logic?.conditions.length
+          ? logic.conditions
+          : [{ fieldId: previousFields[previousFields.length - 1]?.id || '', operator: 'equals', value: '' }]
+      }
+    });
+  };
+
+  const updateCondition = (conditionIndex: number, updates: Partial<FieldCondition>) => {
+    if (!logic) return;
+    onUpdate({
+      ...field,
+      logic: {
+        ...logic,
+        conditions: logic.conditions.map((condition, i) =>
+          i === conditionIndex ? { ...condition, ...updates } : condition
+        )
+      }
+    });
+  };
+
+  const addCondition = () => {
+    if (!logic) return;
+    onUpdate({
+      ...field,
+      logic: {
+        ...logic,
+        conditions: [...logic.conditions, { fieldId: previousFields[0]?.id || '', operator: 'equals', value: '' }]
+      }
+    });
+  };
+
+  const removeCondition = (conditionIndex: number) => {
+    if (!logic) return;
+    const conditions = logic.conditions.filter((_, i) => i !== conditionIndex);
+    onUpdate({ ...field, logic: conditions.length > 0 ? { ...logic, conditions } : undefined });
+  };
+
+  const updateJump = (jumpIndex: number, updates: Partial<FieldJump>) => {
+    onUpdate({
+      ...field,
+      jumps: jumps.map((jump, i) => i === jumpIndex ? { ...jump, ...updates } : jump)
+    });
+  };
+
+  const addJump = () => {
+    onUpdate({
+      ...field,
+      jumps: [...jumps, { operator: 'equals', value: '', target: END_OF_FORM }]
+    });
+  };
+
+  const removeJump = (jumpIndex: number) => {
+    const remaining = jumps.filter((_, i) => i !== jumpIndex);
+    onUpdate({ ...field, jumps: remaining.length > 0 ? remaining : undefined });
+  };
+
+  const fieldName = (f: FormField) => f.label || 'Untitled field';
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-4">
+      {/* Display condition */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <span className="text-xs font-medium text-gray-700">Display</span>
+          <select
+            value={logic ? logic.action : 'always'}
+            onChange={(e) => setDisplayMode(e.target.value)}
+            disabled={previousFields.length === 0}
+            className="p-1 border border-gray-300 rounded text-xs"
+          >
+            <option value="always">Always show</option>
+            <option value="show">Show when</option>
+            <option value="hide">Hide when</option>
+          </select>
+          {logic && logic.conditions.length > 1 && (
+            <select
+              value={logic.match}
+              onChange={(e) => onUpdate({ ...field, logic: { ...logic, match: e.target.value as 'all' | 'any' } })}
+              className="p-1 border border-gray-300 rounded text-xs"
+            >
+              <option value="all">all conditions match</option>
+              <option value="any">any condition matches</option>
+            </select>
+          )}
+        </div>
+        {previousFields.length === 0 && (
+          <p className="text-xs text-gray-500">Add questions above this one to create display conditions.</p>
+        )}
+
+        {logic?.conditions.map((condition, i) => {
+          const source = previousFields.find(f => f.id === condition.fieldId);
+          return (
+            <div key={i} className="flex items-center space-x-2">
+              <select
+                value={condition.fieldId}
+                onChange={(e) => updateCondition(i, { fieldId: e.target.value, value: '' })}
+                className={`flex-1 min-w-0 p-1 border rounded text-xs ${source ? 'border-gray-300' : 'border-red-300'}`}
+              >
+                <option value="">Select question</option>
+                {previousFields.map(f => (
+                  <option key={f.id} value={f.id}>{fieldName(f)}</option>
+                ))}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(i, { operator: e.target.value as ConditionOperator })}
+                className="p-1 border border-gray-300 rounded text-xs"
+              >
+                {CONDITION_OPERATORS.map(op => (
+                  <option key={op.value} value={op.value}>{op.label}</option>
+                ))}
+              </select>
+              <ConditionValueInput
+                source={source}
+                operator={condition.operator}
+                value={condition.value}
+                onChange={(value) => updateCondition(i, { value })}
+              />
+              <button
+                onClick={() => removeCondition(i)}
+                className="p-1 text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+
+        {logic && (
+          <button
+            onClick={addCondition}
+            className="text-blue-600 hover:text-blue-700 text-xs"
+          >
+            + Add condition
+          </button>
+        )}
+      </div>
+
+      {/* Skip logic */}
+      <div className="space-y-2">
+        <span className="text-xs font-medium text-gray-700">Skip logic</span>
+        {jumps.map((jump, i) => (
+          <div key={i} className="flex items-center space-x-2">
+            <span className="text-xs text-gray-500">If answer</span>
+            <select
+              value={jump.operator}
+              onChange={(e) => updateJump(i, { operator: e.target.value as ConditionOperator })}
+              className="p-1 border border-gray-300 rounded text-xs"
+            >
+              {CONDITION_OPERATORS.map(op => (
+                <option key={op.value} value={op.value}>{op.label}</option>
+              ))}
+            </select>
+            <ConditionValueInput
+              source={field}
+              operator={jump.operator}
+              value={jump.value}
+              onChange={(value) => updateJump(i, { value })}
+            />
+            <span className="text-xs text-gray-500">go to</span>
+            <select
+              value={jump.target}
+              onChange={(e) => updateJump(i, { target: e.target.value })}
+              className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-xs"
+            >
+              {laterFields.map(f => (
+                <option key={f.id} value={f.id}>{fieldName(f)}</option>
+              ))}
+              <option value={END_OF_FORM}>End of form</option>
+            </select>
+            <button
+              onClick={() => removeJump(i)}
+              className="p-1 text-red-500 hover:text-red-700"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addJump}
+          className="text-blue-600 hover:text-blue-700 text-xs block"
+        >
+          + Add skip rule
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FieldLogicEditor;
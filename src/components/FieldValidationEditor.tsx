@@ -0,0 +1,143 @@
+import React from 'react';
+import { FormField, ValidationRules } from '../context/FeedbackContext';
+import { FieldValidationService } from '../services/fieldValidationService';
+
+interface FieldValidationEditorProps {
+  field: FormField;
+  onUpdate: (field: FormField) => void;
+}
+
+const parseNumber = (value: string): number | undefined =>
+  value === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+const FieldValidationEditor: React.FC<FieldValidationEditorProps> = ({ field, onUpdate }) => {
+  const rules = field.validation || {};
+  const patternIsInvalid = !!rules.pattern && !FieldValidationService.compilePattern(rules.pattern);
+  const lengthIsInverted = rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength;
+  const rangeIsInverted = rules.min !== undefined && rules.max !== undefined && rules.min > rules.max;
+
+  const updateRules = (updates: Partial<ValidationRules>) => {
+    const nextRules = { ...rules, ...updates };
+    onUpdate({ ...field, validation: nextRules });
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+      <span className="text-xs font-medium text-gray-700">Validation</span>
+
+      {field.type === 'text' && (
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-600 w-24">Format</span>
+          <select
+            value={rules.format || ''}
+            onChange={(e) => updateRules({ format: (e.target.value || undefined) as ValidationRules['format'] })}
+            className="p-1 border border-gray-300 rounded text-xs"
+          >
+            <option value="">Any text</option>
+            <option value="email">Email address</option>
+            <option value="phone">Phone number</option>
+          </select>
+        </div>
+      )}
+
+      {FieldValidationService.supportsLength(field.type) && (
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-600 w-24">Length</span>
+          <input
+            type="number"
+            min="0"
+            value={rules.minLength ?? ''}
+            onChange={(e) => updateRules({ minLength: parseNumber(e.target.value) })}
+            className="w-20 p-1 border border-gray-300 rounded text-xs"
+            placeholder="Min"
+          />
+          <span className="text-xs text-gray-400">to</span>
+          <input
+            type="number"
+            min="0"
+            value={rules.maxLength ?? ''}
+            onChange={(e) => updateRules({ maxLength: parseNumber(e.target.value) })}
+            className="w-20 p-1 border border-gray-300 rounded text-xs"
+            placeholder="Max"
+          />
+          <span className="text-xs text-gray-500">characters</span>
+        </div>
+      )}
+      {lengthIsInverted && (
+        <p className="text-xs text-red-500">Minimum length is greater than the maximum.</p>
+      )}
+
+      {FieldValidationService.supportsRange(field.type) && (
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-600 w-24">Number range</span>
+          <input
+            type="number"
+            value={rules.min ?? ''}
+            onChange={(e) => updateRules({ min: parseNumber(e.target.value) })}
+            className="w-20 p-1 border border-gray-300 rounded text-xs"
+            placeholder="Min"
+          />
+          <span className="text-xs text-gray-400">to</span>
+          <input
+            type="number"
+            value={rules.max ?? ''}
+            onChange={(e) => updateRules({ max: parseNumber(e.target.value) })}
+            className="w-20 p-1 border border-gray-300 rounded text-xs"
+            placeholder="Max"
+          />
+        </div>
+      )}
+      {rangeIsInverted && (
+        <p className="text-xs text-red-500">Minimum value is greater than the maximum.</p>
+      )}
+
+      {FieldValidationService.supportsPattern(field.type) && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-xs text-gray-600 w-24">Pattern</span>
+            <input
+              type="text"
+              value={rules.pattern || ''}
+              onChange={(e) => updateRules({ pattern: e.target.value || undefined })}
+              className={`flex-1 min-w-0 p-1 border rounded text-xs font-mono ${patternIsInvalid ? 'border-red-300' : 'border-gray-300'}`}
+              placeholder="Regular expression, e.g. ^[A-Z]{3}-\d{4}$"
+            />
+          </div>
+          {patternIsInvalid && (
+            <p className="text-xs text-red-500">This is not a valid regular expression and will be ignored.</p>
+          )}
+          {rules.pattern && (
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-gray-600 w-24">Error message</span>
+              <input
+                type="text"
+                value={rules.patternMessage || ''}
+                onChange={(e) => updateRules({ patternMessage: e.target.value || undefined })}
+                className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-xs"
+                placeholder="Please match the requested format"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {FieldValidationService.supportsDomains(field) && (
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-600 w-24">Allowed domains</span>
+          <input
+            type="text"
+            value={(rules.allowedDomains || []).join(', ')}
+            onChange={(e) => updateRules({
+              // Blank entries are kept while typing so commas stay editable; validation skips them
+              allowedDomains: e.target.value.split(',').map(domain => domain.trimStart())
+            })}
+            className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-xs"
+            placeholder="Any domain, e.g. acme.com, acme.co.uk"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldValidationEditor;
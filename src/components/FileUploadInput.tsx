@@ -0,0 +1,80 @@
+import React, { useRef } from 'react';
+import { Upload, X, FileText } from 'lucide-react';
+import { FormField } from '../context/FeedbackContext';
+import { DEFAULT_FILE_UPLOAD_SETTINGS } from '../context/formDefaults';
+
+interface FileUploadInputProps {
+  field: FormField;
+  value: File[] | undefined;
+  onChange: (files: File[]) => void;
+  primaryColor: string;
+  fontFamily?: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const FileUploadInput: React.FC<FileUploadInputProps> = ({ field, value, onChange, primaryColor, fontFamily }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const settings = field.upload || DEFAULT_FILE_UPLOAD_SETTINGS;
+  const allowedTypes = settings.allowedTypes.map(type => type.trim()).filter(Boolean);
+  const files = value || [];
+  const canAddMore = files.length < settings.maxFiles;
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    onChange([...files, ...Array.from(fileList)]);
+    // Reset so choosing the same file again still fires onChange
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-3" style={{ fontFamily }}>
+      {canAddMore && (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="w-full p-6 border-2 border-dashed border-gray-300 rounded-lg text-center hover:bg-gray-50 transition-colors"
+        >
+          <Upload className="w-6 h-6 mx-auto mb-2" style={{ color: primaryColor }} />
+          <span className="block text-sm text-gray-700">Click to choose files</span>
+          <span className="block text-xs text-gray-500 mt-1">
+            {allowedTypes.length > 0 ? allowedTypes.join(', ') : 'Any file type'}
+            {' · '}up to {settings.maxSizeMb} MB each · max {settings.maxFiles}
+          </span>
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        multiple={settings.maxFiles > 1}
+        accept={allowedTypes.join(',')}
+        onChange={(e) => addFiles(e.target.files)}
+        className="hidden"
+      />
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded border border-gray-200">
+              <div className="flex items-center space-x-2 min-w-0">
+                <FileText className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <span className="text-sm text-gray-700 truncate">{file.name}</span>
+                <span className="text-xs text-gray-400 flex-shrink-0">{formatSize(file.size)}</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-500"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileUploadInput;
@@ -26,21 +26,63 @@ import {
   Users,
   X,
   Download,
-  Code
+  Code,
+  GitBranch,
+  SeparatorHorizontal,
+  Gauge,
+  Grid3x3,
+  Paperclip,
+  ShieldCheck,
+  LayoutTemplate,
+  BookmarkPlus,
+  FileJson,
+  Upload,
+  Files,
+  Undo2,
+  Redo2,
+  Clock,
+  Languages
 } from 'lucide-react';
-import { useFeedback, FormField, FeedbackForm } from '../context/FeedbackContext';
-import { FormService } from '../services/formService';
+import { useFeedback, FormField, FeedbackForm, DEFAULT_THEME } from '../context/FeedbackContext';
+import { DEFAULT_NPS_LABELS, DEFAULT_FILE_UPLOAD_SETTINGS, DEFAULT_AVAILABILITY, DEFAULT_RESPONSE_SETTINGS, DEFAULT_KIOSK_SETTINGS, DEFAULT_PROTECTION_SETTINGS } from '../context/formDefaults';
+import { FormService, SavedForm } from '../services/formService';
 import QRCodeGenerator from './QRCodeGenerator';
 import ThemeCustomizer from './ThemeCustomizer';
 import FormPreview from './FormPreview';
+import FieldLogicEditor from './FieldLogicEditor';
+import FieldValidationEditor from './FieldValidationEditor';
+import TemplateGallery from './TemplateGallery';
+import AvailabilitySettings from './AvailabilitySettings';
+import KioskSettings from './KioskSettings';
+import SpamProtectionSettings from './SpamProtectionSettings';
+import RespondentLimitSettings from './RespondentLimitSettings';
+import FormLinksManager from './FormLinksManager';
+import { FormLinkService } from '../services/formLinkService';
+import PipingInput from './PipingInput';
+import TranslationEditor from './TranslationEditor';
+import { FieldValidationService } from '../services/fieldValidationService';
+import { TemplateService } from '../services/templateService';
+import { FormTemplate } from '../lib/formTemplates';
+import { FormExportService, SchemaError } from '../services/formExportService';
+import { DraftService, FormDraft } from '../services/draftService';
+import { useUndoableState } from '../hooks/useUndoableState';
+import { FormAvailabilityService } from '../services/formAvailabilityService';
+import { AnswerPipingService } from '../services/answerPipingService';
+import { FormTranslationService } from '../services/formTranslationService';
+import { KioskService } from '../services/kioskService';
+import { SpamProtectionService } from '../services/spamProtectionService';
 
 const fieldTypes = [
   { type: 'text', icon: Type, label: 'Text Input' },
   { type: 'textarea', icon: MessageSquare, label: 'Text Area' },
   { type: 'rating', icon: Star, label: 'Rating Scale' },
+  { type: 'nps', icon: Gauge, label: 'Net Promoter Score' },
   { type: 'multiple-choice', icon: List, label: 'Multiple Choice' },
+  { type: 'matrix', icon: Grid3x3, label: 'Matrix / Likert' },
+  { type: 'file', icon: Paperclip, label: 'File Upload' },
   { type: 'email', icon: Mail, label: 'Email' },
-  { type: 'phone', icon: Phone, label: 'Phone' }
+  { type: 'phone', icon: Phone, label: 'Phone' },
+  { type: 'page-break', icon: SeparatorHorizontal, label: 'Page Break' }
 ];
 
 const DraggableField: React.FC<{ fieldType: any; index: number }> = ({ fieldType, index }) => {
@@ -67,13 +109,57 @@ const DraggableField: React.FC<{ fieldType: any; index: number }> = ({ fieldType
   );
 };
 
+const EditableList: React.FC<{
+  title: string;
+  items: string[];
+  itemPlaceholder: string;
+  addLabel: string;
+  onChange: (items: string[]) => void;
+}> = ({ title, items, itemPlaceholder, addLabel, onChange }) => (
+  <div className="space-y-2">
+    <span className="text-xs font-medium text-gray-700">{title}</span>
+    {items.map((item, idx) => (
+      <div key={idx} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={item}
+          onChange={(e) => onChange(items.map((existing, i) => i === idx ? e.target.value : existing))}
+          className="flex-1 p-2 border border-gray-300 rounded text-sm"
+          placeholder={`${itemPlaceholder} ${idx + 1}`}
+        />
+        <button
+          onClick={() => onChange(items.filter((_, i) => i !== idx))}
+          className="p-1 text-red-500 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    ))}
+    <button
+      onClick={() => onChange([...items, ''])}
+      className="text-blue-600 hover:text-blue-700 text-sm block"
+    >
+      {addLabel}
+    </button>
+  </div>
+);
+
 const FormBuilderField: React.FC<{ 
   field: FormField; 
+  fields: FormField[];
   onUpdate: (field: FormField) => void; 
   onDelete: () => void;
   index: number;
   moveField: (dragIndex: number, hoverIndex: number) => void;
-}> = ({ field, onUpdate, onDelete, index, moveField }) => {
+}> = ({ field, fields, onUpdate, onDelete, index, moveField }) => {
+  const [showLogic, setShowLogic] = useState(false);
+  const [showValidation, setShowValidation] = useState(false);
+  const hasLogic = !!field.logic || !!field.jumps?.length;
+  const canValidate = FieldValidationService.supportsLength(field.type) || FieldValidationService.supportsRange(field.type);
+  const pipingTokens = AnswerPipingService.getAvailableTokens(fields, index);
+  const pipingProblems = AnswerPipingService.findReferenceProblems(fields)[field.id] || [];
+  const recallKeyIsTaken = !!field.recallKey && fields.some(other => other.id !== field.id && other.recallKey === field.recallKey);
+
   const [{ isDragging }, drag] = useDrag({
     type: 'form-field',
     item: { index },
@@ -92,6 +178,34 @@ const FormBuilderField: React.FC<{
     }
   });
 
+  if (field.type === 'page-break') {
+    return (
+      <div
+        ref={(node) => drag(drop(node))}
+        className={`flex items-center space-x-3 py-2 cursor-move ${
+          isDragging ? 'opacity-50' : ''
+        }`}
+      >
+        <div className="flex-1 border-t-2 border-dashed border-blue-300" />
+        <SeparatorHorizontal className="w-4 h-4 text-blue-500" />
+        <input
+          type="text"
+          value={field.label}
+          onChange={(e) => onUpdate({ ...field, label: e.target.value })}
+          className="w-48 text-sm text-center text-blue-700 bg-transparent border-none outline-none"
+          placeholder="Page title (optional)"
+        />
+        <div className="flex-1 border-t-2 border-dashed border-blue-300" />
+        <button
+          onClick={onDelete}
+          className="p-1 text-red-500 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div
       ref={(node) => drag(drop(node))}
@@ -101,10 +215,10 @@ const FormBuilderField: React.FC<{
     >
       <div className="flex justify-between items-start mb-3">
         <div className="flex-1">
-          <input
-            type="text"
+          <PipingInput
             value={field.label}
-            onChange={(e) => onUpdate({ ...field, label: e.target.value })}
+            onChange={(label) => onUpdate({ ...field, label })}
+            tokens={pipingTokens}
             className="w-full text-sm font-medium text-gray-900 bg-transparent border-none outline-none"
             placeholder="Field label"
           />
@@ -119,6 +233,22 @@ const FormBuilderField: React.FC<{
             />
             <span className="text-xs text-gray-600">Required</span>
           </label>
+          {canValidate && (
+            <button
+              onClick={() => setShowValidation(!showValidation)}
+              className={`p-1 ${FieldValidationService.hasRules(field) ? 'text-blue-600' : 'text-gray-400'} hover:text-blue-700`}
+              title="Validation rules"
+            >
+              <ShieldCheck className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowLogic(!showLogic)}
+            className={`p-1 ${hasLogic ? 'text-blue-600' : 'text-gray-400'} hover:text-blue-700`}
+            title="Conditional logic"
+          >
+            <GitBranch className="w-4 h-4" />
+          </button>
           <button
             onClick={onDelete}
             className="p-1 text-red-500 hover:text-red-700"
@@ -129,17 +259,19 @@ const FormBuilderField: React.FC<{
       </div>
 
       {field.type === 'text' || field.type === 'email' || field.type === 'phone' ? (
-        <input
-          type="text"
+        <PipingInput
           value={field.placeholder || ''}
-          onChange={(e) => onUpdate({ ...field, placeholder: e.target.value })}
+          onChange={(placeholder) => onUpdate({ ...field, placeholder })}
+          tokens={pipingTokens}
           className="w-full p-2 border border-gray-300 rounded text-sm"
           placeholder="Placeholder text"
         />
       ) : field.type === 'textarea' ? (
-        <textarea
+        <PipingInput
           value={field.placeholder || ''}
-          onChange={(e) => onUpdate({ ...field, placeholder: e.target.value })}
+          onChange={(placeholder) => onUpdate({ ...field, placeholder })}
+          tokens={pipingTokens}
+          multiline
           className="w-full p-2 border border-gray-300 rounded text-sm"
           placeholder="Placeholder text"
           rows={3}
@@ -156,6 +288,104 @@ const FormBuilderField: React.FC<{
             max="10"
           />
         </div>
+      ) : field.type === 'nps' ? (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-xs text-gray-600">Label for 0</span>
+            <input
+              type="text"
+              value={(field.npsLabels || DEFAULT_NPS_LABELS).low}
+              onChange={(e) => onUpdate({ ...field, npsLabels: { ...(field.npsLabels || DEFAULT_NPS_LABELS), low: e.target.value } })}
+              className="w-full p-2 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <div>
+            <span className="text-xs text-gray-600">Label for 10</span>
+            <input
+              type="text"
+              value={(field.npsLabels || DEFAULT_NPS_LABELS).high}
+              onChange={(e) => onUpdate({ ...field, npsLabels: { ...(field.npsLabels || DEFAULT_NPS_LABELS), high: e.target.value } })}
+              className="w-full p-2 border border-gray-300 rounded text-sm"
+            />
+          </div>
+        </div>
+      ) : field.type === 'matrix' ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <EditableList
+              title="Rows"
+              items={field.matrixRows || []}
+              itemPlaceholder="Statement"
+              addLabel="+ Add row"
+              onChange={(matrixRows) => onUpdate({ ...field, matrixRows })}
+            />
+            <EditableList
+              title="Columns"
+              items={field.options || []}
+              itemPlaceholder="Column"
+              addLabel="+ Add column"
+              onChange={(options) => onUpdate({ ...field, options })}
+            />
+          </div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={!!field.matrixMultiple}
+              onChange={(e) => onUpdate({ ...field, matrixMultiple: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="text-xs text-gray-600">Allow multiple answers per row</span>
+          </label>
+        </div>
+      ) : field.type === 'file' ? (
+        <div className="space-y-2">
+          <div>
+            <span className="text-xs text-gray-600">Allowed types (comma separated, e.g. image/*, application/pdf)</span>
+            <input
+              type="text"
+              value={(field.upload || DEFAULT_FILE_UPLOAD_SETTINGS).allowedTypes.join(', ')}
+              onChange={(e) => onUpdate({
+                ...field,
+                upload: {
+                  ...(field.upload || DEFAULT_FILE_UPLOAD_SETTINGS),
+                  allowedTypes: e.target.value.split(',').map(type => type.trimStart())
+                }
+              })}
+              className="w-full p-2 border border-gray-300 rounded text-sm"
+              placeholder="Any file type"
+            />
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Max size (MB):</span>
+              <input
+                type="number"
+                value={(field.upload || DEFAULT_FILE_UPLOAD_SETTINGS).maxSizeMb}
+                onChange={(e) => onUpdate({
+                  ...field,
+                  upload: { ...(field.upload || DEFAULT_FILE_UPLOAD_SETTINGS), maxSizeMb: parseInt(e.target.value) || 1 }
+                })}
+                className="w-16 p-1 border border-gray-300 rounded text-sm"
+                min="1"
+                max="50"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Max files:</span>
+              <input
+                type="number"
+                value={(field.upload || DEFAULT_FILE_UPLOAD_SETTINGS).maxFiles}
+                onChange={(e) => onUpdate({
+                  ...field,
+                  upload: { ...(field.upload || DEFAULT_FILE_UPLOAD_SETTINGS), maxFiles: parseInt(e.target.value) || 1 }
+                })}
+                className="w-16 p-1 border border-gray-300 rounded text-sm"
+                min="1"
+                max="10"
+              />
+            </div>
+          </div>
+        </div>
       ) : field.type === 'multiple-choice' ? (
         <div className="space-y-2">
           {(field.options || []).map((option, idx) => (
@@ -193,6 +423,47 @@ const FormBuilderField: React.FC<{
           </button>
         </div>
       ) : null}
+
+      <div className="mt-3 flex items-center space-x-2">
+        <span className="text-xs text-gray-500">Recall as</span>
+        <span className="font-mono text-xs text-gray-400">{'{{'}</span>
+        <input
+          type="text"
+          value={field.recallKey || ''}
+          onChange={(e) => onUpdate({
+            ...field,
+            recallKey: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '') || undefined
+          })}
+          className="w-32 p-1 border border-gray-300 rounded font-mono text-xs"
+          placeholder="name"
+        />
+        <span className="font-mono text-xs text-gray-400">{'}}'}</span>
+        {field.recallKey && !AnswerPipingService.isValidRecallKey(field.recallKey) && (
+          <span className="text-xs text-red-500">Must start with a letter</span>
+        )}
+        {recallKeyIsTaken && (
+          <span className="text-xs text-red-500">Another question uses this name</span>
+        )}
+      </div>
+
+      {pipingProblems.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {pipingProblems.map(problem => (
+            <p key={problem} className="flex items-center space-x-1 text-xs text-amber-600">
+              <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+              <span>{problem}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {showValidation && canValidate && (
+        <FieldValidationEditor field={field} onUpdate={onUpdate} />
+      )}
+
+      {showLogic && (
+        <FieldLogicEditor field={field} fields={fields} index={index} onUpdate={onUpdate} />
+      )}
     </div>
   );
 };
@@ -202,23 +473,6 @@ const CopyLinkModal: React.FC<{
   formTitle: string; 
   onClose: () => void; 
 }> = ({ formId, formTitle, onClose }) => {
-  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
-  const formUrl = `${window.location.origin}/form/${formId}`;
-
-  const copyToClipboard = async () => {
-    try {
-      await navigator.clipboard.writeText(formUrl);
-      setCopyStatus('copied');
-      
-      // Record invitation when link is copied
-      await FormService.recordInvitation(formId, 'public_link', 'copied_link');
-      
-      setTimeout(() => setCopyStatus('idle'), 2000);
-    } catch (error) {
-      console.error('Failed to copy:', error);
-    }
-  };
-
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -230,11 +484,11 @@ const CopyLinkModal: React.FC<{
         initial={{ scale: 0.9, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0.9, opacity: 0 }}
-        className="bg-white rounded-xl shadow-xl max-w-md w-full"
+        className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
       >
         <div className="p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
-            <h3 className="text-lg font-semibold text-gray-900">Share Form Link</h3>
+            <h3 className="text-lg font-semibold text-gray-900">Share Links</h3>
             <button
               onClick={onClose}
               className="text-gray-400 hover:text-gray-600"
@@ -247,48 +501,18 @@ const CopyLinkModal: React.FC<{
         <div className="p-6">
           <div className="mb-4">
             <h4 className="font-medium text-gray-900 mb-2">{formTitle}</h4>
-            <p className="text-sm text-gray-600">Share this link to collect feedback</p>
+            <p className="text-sm text-gray-600">Give each audience its own link to see which one brings in feedback</p>
           </div>
           
           <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Form URL
-            </label>
-            <div className="flex items-center space-x-2">
-              <input
-                type="text"
-                value={formUrl}
-                readOnly
-                className="flex-1 p-3 border border-gray-300 rounded-lg bg-gray-50 text-sm font-mono"
-              />
-              <button
-                onClick={copyToClipboard}
-                className={`px-4 py-3 rounded-lg font-medium transition-colors flex items-center space-x-2 ${
-                  copyStatus === 'copied'
-                    ? 'bg-green-100 text-green-700'
-                    : 'bg-blue-600 text-white hover:bg-blue-700'
-                }`}
-              >
-                {copyStatus === 'copied' ? (
-                  <>
-                    <CheckCircle className="w-4 h-4" />
-                    <span>Copied!</span>
-                  </>
-                ) : (
-                  <>
-                    <Copy className="w-4 h-4" />
-                    <span>Copy</span>
-                  </>
-                )}
-              </button>
-            </div>
+            <FormLinksManager formId={formId} />
           </div>
 
           <div className="space-y-3">
             <div className="p-3 bg-blue-50 rounded-lg">
               <h5 className="font-medium text-blue-900 mb-1">Direct Link</h5>
               <p className="text-sm text-blue-700">
-                Share this URL directly with your audience via email, social media, or messaging apps.
+                Share a link directly via email, social media, or messaging apps. Private links only open with their secret key.
               </p>
             </div>
             
@@ -313,8 +537,15 @@ const EmailSignatureModal: React.FC<{
   const [template, setTemplate] = useState('simple');
   const [customText, setCustomText] = useState('Please share your feedback');
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
-  
-  const formUrl = `${window.location.origin}/form/${formId}`;
+  const [formUrl, setFormUrl] = useState(`${window.location.origin}/form/${formId}`);
+
+  useEffect(() => {
+    let isMounted = true;
+    FormLinkService.getDefaultUrl(formId).then(url => isMounted && setFormUrl(url));
+    return () => {
+      isMounted = false;
+    };
+  }, [formId]);
 
   const templates = {
     simple: {
@@ -501,16 +732,373 @@ const EmailSignatureModal: React.FC<{
   );
 };
 
+const SaveTemplateModal: React.FC<{
+  form: FeedbackForm;
+  onClose: () => void;
+}> = ({ form, onClose }) => {
+  const [name, setName] = useState(form.title);
+  const [description, setDescription] = useState(form.description);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const saveTemplate = async () => {
+    if (!name.trim()) {
+      setSaveStatus('error');
+      setErrorMessage('Please enter a template name');
+      return;
+    }
+
+    try {
+      setSaveStatus('saving');
+      await TemplateService.saveFormAsTemplate(form, name.trim(), description.trim());
+      setSaveStatus('saved');
+      setTimeout(onClose, 1500);
+    } catch (error) {
+      setSaveStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-xl shadow-xl max-w-md w-full"
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">Save as Template</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Saves the questions and theme of this form as a private template for your account.
+            Responses are not included.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Template name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {saveStatus === 'error' && (
+            <p className="text-sm text-red-600">{errorMessage}</p>
+          )}
+
+          <button
+            onClick={saveTemplate}
+            disabled={saveStatus === 'saving' || saveStatus === 'saved'}
+            className={`w-full px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 ${
+              saveStatus === 'saved'
+                ? 'bg-green-100 text-green-700'
+                : 'bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50'
+            }`}
+          >
+            {saveStatus === 'saved' ? (
+              <>
+                <CheckCircle className="w-4 h-4" />
+                <span>Template saved!</span>
+              </>
+            ) : (
+              <>
+                <BookmarkPlus className="w-4 h-4" />
+                <span>{saveStatus === 'saving' ? 'Saving...' : 'Save Template'}</span>
+              </>
+            )}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+const savedFormToFeedbackForm = (savedForm: SavedForm): FeedbackForm => ({
+  id: savedForm.id,
+  title: savedForm.title,
+  description: savedForm.description,
+  fields: savedForm.fields,
+  theme: savedForm.theme,
+  isActive: savedForm.isActive,
+  createdAt: new Date(savedForm.createdAt),
+  responses: savedForm.responseCount,
+  versionId: savedForm.versionId,
+  availability: savedForm.availability,
+  localization: savedForm.localization,
+  responseSettings: savedForm.responseSettings,
+  kiosk: savedForm.kiosk,
+  protection: savedForm.protection
+});
+
+const DuplicateFormModal: React.FC<{
+  form: FeedbackForm;
+  onDuplicated: (form: FeedbackForm) => void;
+  onClose: () => void;
+}> = ({ form, onDuplicated, onClose }) => {
+  const [includeEmailSignatures, setIncludeEmailSignatures] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const duplicateForm = async () => {
+    try {
+      setIsDuplicating(true);
+      setErrorMessage('');
+      const savedForm = await FormService.duplicateForm(form.id, { includeEmailSignatures });
+      onDuplicated(savedFormToFeedbackForm(savedForm));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to duplicate form');
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-xl shadow-xl max-w-md w-full"
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">Duplicate Form</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">{form.title}</h4>
+            <p className="text-sm text-gray-600">
+              The copy keeps the questions, logic, theme and settings, and gets its own link and QR code.
+              It starts as an inactive draft. Responses are never copied.
+            </p>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeEmailSignatures}
+              onChange={(e) => setIncludeEmailSignatures(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Also copy email signature templates</span>
+          </label>
+
+          {errorMessage && (
+            <p className="text-sm text-red-600">{errorMessage}</p>
+          )}
+
+          <button
+            onClick={duplicateForm}
+            disabled={isDuplicating}
+            className="w-full px-4 py-3 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            <Files className="w-4 h-4" />
+            <span>{isDuplicating ? 'Duplicating...' : 'Duplicate'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+const ImportFormModal: React.FC<{
+  onImported: (form: FeedbackForm) => void;
+  onClose: () => void;
+}> = ({ onImported, onClose }) => {
+  const [json, setJson] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [errors, setErrors] = useState<SchemaError[]>([]);
+  const [saveError, setSaveError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setJson(await file.text());
+    setErrors([]);
+    setSaveError('');
+  };
+
+  const importForm = async () => {
+    const result = FormExportService.parse(json);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setErrors([]);
+    setSaveError('');
+    setIsImporting(true);
+
+    try {
+      const savedForm = await FormService.saveForm(result.data);
+      onImported(savedFormToFeedbackForm(savedForm));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to import form');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">Import Form</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            Choose a <code className="text-xs bg-gray-100 px-1 rounded">.form.json</code> file exported from this app,
+            or paste its contents below. The form is created as a new form in your account.
+          </p>
+
+          <label className="flex items-center justify-center space-x-2 p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+            <Upload className="w-5 h-5 text-gray-500" />
+            <span className="text-sm text-gray-700">{fileName || 'Choose a JSON file'}</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => readFile(e.target.files?.[0])}
+              className="hidden"
+            />
+          </label>
+
+          <textarea
+            value={json}
+            onChange={(e) => {
+              setJson(e.target.value);
+              setFileName('');
+            }}
+            rows={8}
+            className="w-full p-3 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder='{ "format": "feedback-form", "version": 1, "form": { ... } }'
+          />
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm font-medium text-red-800 mb-2">
+                The file does not match the form format ({errors.length} problem{errors.length === 1 ? '' : 's'}):
+              </p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {errors.map((error, index) => (
+                  <li key={index} className="text-xs text-red-700">
+                    <code className="font-mono">{error.path}</code>: {error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {saveError && (
+            <p className="text-sm text-red-600">{saveError}</p>
+          )}
+
+          <button
+            onClick={importForm}
+            disabled={!json.trim() || isImporting}
+            className="w-full px-4 py-3 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{isImporting ? 'Importing...' : 'Import Form'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
 const FormsList: React.FC<{ 
   forms: FeedbackForm[]; 
   onCreateNew: () => void; 
+  onUseTemplate: (template: FormTemplate) => void;
+  onFormCreated: (form: FeedbackForm) => void;
   onEditForm: (form: FeedbackForm) => void;
   onDeleteForm: (formId: string) => void;
-}> = ({ forms, onCreateNew, onEditForm, onDeleteForm }) => {
+  drafts: FormDraft[];
+  onRestoreDraft: (draft: FormDraft) => void;
+  onDiscardDraft: (key: string) => void;
+}> = ({ forms, onCreateNew, onUseTemplate, onFormCreated, onEditForm, onDeleteForm, drafts, onRestoreDraft, onDiscardDraft }) => {
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [showCopyLink, setShowCopyLink] = useState<string | null>(null);
   const [showEmailSignature, setShowEmailSignature] = useState<string | null>(null);
+  const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+  const [saveTemplateFor, setSaveTemplateFor] = useState<FeedbackForm | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [duplicateFor, setDuplicateFor] = useState<FeedbackForm | null>(null);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep countdowns and automatic closing current while the list is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const statuses = Object.fromEntries(
+    forms.map(form => [form.id, FormAvailabilityService.getStatus(form, now)])
+  );
 
   const copyFormUrl = (formId: string) => {
     setShowCopyLink(formId);
@@ -520,6 +1108,16 @@ const FormsList: React.FC<{
     setShowEmailSignature(formId);
   };
 
+  const exportForm = (form: FeedbackForm) => {
+    const blob = new Blob([FormExportService.toJson(form)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = FormExportService.getFileName(form);
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleDeleteForm = async (formId: string) => {
     try {
       setIsDeleting(formId);
@@ -551,27 +1149,84 @@ const FormsList: React.FC<{
           <h1 className="text-3xl font-bold text-gray-900">Forms</h1>
           <p className="text-gray-600 mt-2">Manage your feedback forms</p>
         </div>
-        <button
-          onClick={onCreateNew}
-          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Create New Form</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-6 py-3 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+          >
+            <Upload className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={() => setShowTemplateGallery(true)}
+            className="px-6 py-3 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+          >
+            <LayoutTemplate className="w-5 h-5" />
+            <span>Use Template</span>
+          </button>
+          <button
+            onClick={onCreateNew}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Create New Form</span>
+          </button>
+        </div>
       </div>
 
+      {drafts.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+          <h3 className="text-sm font-semibold text-amber-900 mb-3">Unsaved drafts</h3>
+          <ul className="space-y-2">
+            {drafts.map(draft => (
+              <li key={draft.key} className="flex items-center justify-between bg-white rounded-lg px-3 py-2 border border-amber-100">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{draft.form.title || 'Untitled form'}</p>
+                  <p className="text-xs text-gray-500">
+                    {draft.formId ? 'Changes to a saved form' : 'New form'} · {formatDraftTime(draft.updatedAt)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => onDiscardDraft(draft.key)}
+                    className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={() => onRestoreDraft(draft)}
+                    className="px-3 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700"
+                  >
+                    Restore
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {forms.length === 0 ? (
         <div className="text-center py-12">
           <MessageSquare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No forms yet</h3>
           <p className="text-gray-600 mb-6">Create your first feedback form to get started</p>
-          <button
-            onClick={onCreateNew}
-            className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 mx-auto"
-          >
-            <Plus className="w-5 h-5" />
-            <span>Create Your First Form</span>
-          </button>
+          <div className="flex items-center justify-center space-x-3">
+            <button
+              onClick={onCreateNew}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Create Your First Form</span>
+            </button>
+            <button
+              onClick={() => setShowTemplateGallery(true)}
+              className="px-6 py-3 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <LayoutTemplate className="w-5 h-5" />
+              <span>Start from a Template</span>
+            </button>
+          </div>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -594,18 +1249,32 @@ const FormsList: React.FC<{
                     </p>
                   </div>
                   <span className={`px-2 py-1 text-xs rounded-full ${
-                    form.isActive 
+                    statuses[form.id].isOpen
                       ? 'bg-green-100 text-green-800' 
-                      : 'bg-gray-100 text-gray-800'
+                      : statuses[form.id].reason === 'inactive'
+                      ? 'bg-gray-100 text-gray-800'
+                      : 'bg-amber-100 text-amber-800'
                   }`}>
-                    {form.isActive ? 'Active' : 'Inactive'}
+                    {FormAvailabilityService.getStatusLabel(statuses[form.id])}
                   </span>
                 </div>
 
+                {statuses[form.id].nextChangeAt && (
+                  <div className="flex items-center space-x-1 text-xs text-gray-500 mb-3">
+                    <Clock className="w-3.5 h-3.5" />
+                    <span>{FormAvailabilityService.describeNextChange(statuses[form.id], now)}</span>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
                   <div className="flex items-center space-x-1">
                     <Users className="w-4 h-4" />
                     <span>{form.responses} responses</span>
+                    {!!form.duplicateAttempts && (
+                      <span className="text-xs text-amber-700" title="Attempts to respond again that were turned away">
+                        · {form.duplicateAttempts} repeat {form.duplicateAttempts === 1 ? 'attempt' : 'attempts'}
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center space-x-1">
                     <Calendar className="w-4 h-4" />
@@ -622,6 +1291,13 @@ const FormsList: React.FC<{
                     >
                       <Edit className="w-4 h-4" />
                     </button>
+                    <button
+                      onClick={() => setDuplicateFor(form)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Duplicate form"
+                    >
+                      <Files className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => copyFormUrl(form.id)}
                       className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
@@ -636,6 +1312,20 @@ const FormsList: React.FC<{
                     >
                       <Mail className="w-4 h-4" />
                     </button>
+                    <button
+                      onClick={() => setSaveTemplateFor(form)}
+                      className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                      title="Save as template"
+                    >
+                      <BookmarkPlus className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => exportForm(form)}
+                      className="p-2 text-gray-400 hover:text-teal-600 hover:bg-teal-50 rounded-lg transition-colors"
+                      title="Export as JSON"
+                    >
+                      <FileJson className="w-4 h-4" />
+                    </button>
                     <a
                       href={`/form/${form.id}`}
                       target="_blank"
@@ -708,42 +1398,92 @@ const FormsList: React.FC<{
           />
         )}
       </AnimatePresence>
+
+      {/* Template Gallery */}
+      <AnimatePresence>
+        {showTemplateGallery && (
+          <TemplateGallery
+            onSelect={(template) => {
+              setShowTemplateGallery(false);
+              onUseTemplate(template);
+            }}
+            onClose={() => setShowTemplateGallery(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Save as Template Modal */}
+      <AnimatePresence>
+        {saveTemplateFor && (
+          <SaveTemplateModal
+            form={saveTemplateFor}
+            onClose={() => setSaveTemplateFor(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Duplicate Modal */}
+      <AnimatePresence>
+        {duplicateFor && (
+          <DuplicateFormModal
+            form={duplicateFor}
+            onDuplicated={(form) => {
+              setDuplicateFor(null);
+              onFormCreated(form);
+            }}
+            onClose={() => setDuplicateFor(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Import Modal */}
+      <AnimatePresence>
+        {showImport && (
+          <ImportFormModal
+            onImported={(form) => {
+              setShowImport(false);
+              onFormCreated(form);
+            }}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
 
+const createBlankForm = (): FeedbackForm => ({
+  id: Date.now().toString(),
+  title: 'New Feedback Form',
+  description: 'Please share your feedback with us',
+  fields: [],
+  theme: DEFAULT_THEME,
+  isActive: true,
+  createdAt: new Date(),
+  responses: 0
+});
+
+const formatDraftTime = (date: string) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(date));
+};
+
 const FormBuilder: React.FC = () => {
   const { state, dispatch } = useFeedback();
   const [view, setView] = useState<'list' | 'builder'>('list');
-  const [currentForm, setCurrentForm] = useState<FeedbackForm>({
-    id: Date.now().toString(),
-    title: 'New Feedback Form',
-    description: 'Please share your feedback with us',
-    fields: [],
-    theme: {
-      primaryColor: '#3B82F6',
-      backgroundColor: '#FFFFFF',
-      textColor: '#1F2937',
-      borderRadius: '8px',
-      backgroundType: 'color',
-      gradientDirection: 'to-br',
-      gradientColors: ['#3B82F6', '#8B5CF6'],
-      logoPosition: 'top-center',
-      logoSize: 'medium',
-      footer: {
-        enabled: false,
-        text: '© 2024 Your Company. All rights reserved.',
-        links: []
-      },
-      layout: 'centered',
-      fontFamily: 'Inter',
-      spacing: 'normal',
-      animation: 'fade'
-    },
-    isActive: true,
-    createdAt: new Date(),
-    responses: 0
-  });
+  const {
+    state: currentForm,
+    set: setCurrentForm,
+    reset: loadForm,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useUndoableState<FeedbackForm>(createBlankForm());
   
   const [isEditMode, setIsEditMode] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
@@ -751,9 +1491,13 @@ const FormBuilder: React.FC = () => {
   const [showThemeEditor, setShowThemeEditor] = useState(false);
   const [showCopyLink, setShowCopyLink] = useState(false);
   const [showEmailSignature, setShowEmailSignature] = useState(false);
+  const [showTranslations, setShowTranslations] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [saveMessage, setSaveMessage] = useState('');
+  const [drafts, setDrafts] = useState<FormDraft[]>([]);
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
 
   const [, drop] = useDrop({
     accept: 'field',
@@ -761,14 +1505,30 @@ const FormBuilder: React.FC = () => {
       const newField: FormField = {
         id: Date.now().toString(),
         type: item.type as any,
-        label: `New ${item.type} field`,
+        label: item.type === 'page-break'
+          ? ''
+          : item.type === 'nps'
+          ? 'How likely are you to recommend us to a friend or colleague?'
+          : `New ${item.type} field`,
         required: false,
         ...(item.type === 'rating' && { maxRating: 5 }),
+        ...(item.type === 'nps' && { npsLabels: DEFAULT_NPS_LABELS }),
+        ...(item.type === 'matrix' && {
+          matrixRows: ['Statement 1', 'Statement 2'],
+          options: ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'],
+          matrixMultiple: false
+        }),
+        ...(item.type === 'file' && { upload: DEFAULT_FILE_UPLOAD_SETTINGS }),
         ...(item.type === 'multiple-choice' && { options: ['Option 1', 'Option 2'] })
       };
       setCurrentForm(prev => ({
         ...prev,
-        fields: [...prev.fields, newField]
+        fields: [
+          ...prev.fields,
+          item.type === 'page-break'
+            ? newField
+            : { ...newField, recallKey: AnswerPipingService.createRecallKey(item.type, prev.fields) }
+        ]
       }));
     }
   });
@@ -778,6 +1538,50 @@ const FormBuilder: React.FC = () => {
     loadForms();
   }, []);
 
+  // Drafts are listed whenever the forms list is shown
+  useEffect(() => {
+    if (view === 'list') {
+      DraftService.getDrafts().then(setDrafts);
+    }
+  }, [view]);
+
+  const draftKey = DraftService.getDraftKey(currentForm, isEditMode);
+
+  // Autosave unsaved changes shortly after the last edit
+  useEffect(() => {
+    if (view !== 'builder' || !canUndo || saveStatus === 'success') return;
+
+    const timer = setTimeout(async () => {
+      await DraftService.saveDraft(draftKey, isEditMode ? currentForm.id : null, currentForm);
+      setDraftSavedAt(new Date().toISOString());
+    }, 1500);
+
+    return () => clearTimeout(timer);
+  }, [currentForm, view, canUndo, isEditMode, draftKey, saveStatus]);
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text inputs keep their own undo
+  useEffect(() => {
+    if (view !== 'builder') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [view, undo, redo]);
+
   const loadForms = async () => {
     try {
       const forms = await FormService.getForms();
@@ -791,7 +1595,7 @@ const FormBuilder: React.FC = () => {
     setCurrentForm(prev => ({
       ...prev,
       fields: prev.fields.map((field, i) => i === index ? updatedField : field)
-    }));
+    }), { coalesceKey: `field:${updatedField.id}` });
   };
 
   const deleteField = (index: number) => {
@@ -810,7 +1614,7 @@ const FormBuilder: React.FC = () => {
     setCurrentForm(prev => ({
       ...prev,
       fields: newFields
-    }));
+    }), { coalesceKey: 'move' });
   };
 
   const saveForm = async () => {
@@ -820,12 +1624,20 @@ const FormBuilder: React.FC = () => {
       return;
     }
 
-    if (currentForm.fields.length === 0) {
+    if (!currentForm.fields.some(field => field.type !== 'page-break')) {
       setSaveStatus('error');
       setSaveMessage('Please add at least one field to your form');
       return;
     }
 
+    const settingsError = KioskService.validate(currentForm.kiosk || DEFAULT_KIOSK_SETTINGS) ||
+      SpamProtectionService.validate(currentForm.protection || DEFAULT_PROTECTION_SETTINGS);
+    if (settingsError) {
+      setSaveStatus('error');
+      setSaveMessage(settingsError);
+      return;
+    }
+
     setIsSaving(true);
     setSaveStatus('idle');
 
@@ -839,15 +1651,28 @@ const FormBuilder: React.FC = () => {
           description: currentForm.description,
           fields: currentForm.fields,
           theme: currentForm.theme,
-          isActive: currentForm.isActive
+          isActive: currentForm.isActive,
+          availability: currentForm.availability,
+          localization: currentForm.localization,
+          responseSettings: currentForm.responseSettings,
+          kiosk: currentForm.kiosk,
+          protection: currentForm.protection
         });
         
-        // Update form in local state
+        // Update form in local state with the saved field IDs
         const updatedForm: FeedbackForm = {
           ...currentForm,
           id: savedForm.id,
+          fields: savedForm.fields,
+          theme: savedForm.theme,
           createdAt: new Date(savedForm.createdAt),
-          responses: savedForm.responseCount
+          responses: savedForm.responseCount,
+          versionId: savedForm.versionId,
+          availability: savedForm.availability,
+          localization: savedForm.localization,
+          responseSettings: savedForm.responseSettings,
+          kiosk: savedForm.kiosk,
+          protection: savedForm.protection
         };
         
         dispatch({ type: 'UPDATE_FORM', payload: updatedForm });
@@ -859,7 +1684,12 @@ const FormBuilder: React.FC = () => {
           description: currentForm.description,
           fields: currentForm.fields,
           theme: currentForm.theme,
-          isActive: currentForm.isActive
+          isActive: currentForm.isActive,
+          availability: currentForm.availability,
+          localization: currentForm.localization,
+          responseSettings: currentForm.responseSettings,
+          kiosk: currentForm.kiosk,
+          protection: currentForm.protection
         });
 
         // Add to local state
@@ -867,11 +1697,17 @@ const FormBuilder: React.FC = () => {
           id: savedForm.id,
           title: savedForm.title,
           description: savedForm.description,
-          fields: currentForm.fields,
-          theme: currentForm.theme,
+          fields: savedForm.fields,
+          theme: savedForm.theme,
           isActive: savedForm.isActive,
           createdAt: new Date(savedForm.createdAt),
-          responses: savedForm.responseCount
+          responses: savedForm.responseCount,
+          versionId: savedForm.versionId,
+          availability: savedForm.availability,
+          localization: savedForm.localization,
+          responseSettings: savedForm.responseSettings,
+          kiosk: savedForm.kiosk,
+          protection: savedForm.protection
         };
 
         dispatch({ type: 'ADD_FORM', payload: newForm });
@@ -879,6 +1715,7 @@ const FormBuilder: React.FC = () => {
       }
 
       setSaveStatus('success');
+      await DraftService.deleteDraft(draftKey);
 
       // Reset form after successful save
       setTimeout(() => {
@@ -898,35 +1735,9 @@ const FormBuilder: React.FC = () => {
   };
 
   const resetForm = () => {
-    setCurrentForm({
-      id: Date.now().toString(),
-      title: 'New Feedback Form',
-      description: 'Please share your feedback with us',
-      fields: [],
-      theme: {
-        primaryColor: '#3B82F6',
-        backgroundColor: '#FFFFFF',
-        textColor: '#1F2937',
-        borderRadius: '8px',
-        backgroundType: 'color',
-        gradientDirection: 'to-br',
-        gradientColors: ['#3B82F6', '#8B5CF6'],
-        logoPosition: 'top-center',
-        logoSize: 'medium',
-        footer: {
-          enabled: false,
-          text: '© 2024 Your Company. All rights reserved.',
-          links: []
-        },
-        layout: 'centered',
-        fontFamily: 'Inter',
-        spacing: 'normal',
-        animation: 'fade'
-      },
-      isActive: true,
-      createdAt: new Date(),
-      responses: 0
-    });
+    loadForm(createBlankForm());
+    setPendingDraft(null);
+    setDraftSavedAt(null);
   };
 
   const handleCreateNew = () => {
@@ -935,16 +1746,56 @@ const FormBuilder: React.FC = () => {
     setView('builder');
   };
 
+  const handleUseTemplate = (template: FormTemplate) => {
+    resetForm();
+    loadForm({
+      ...createBlankForm(),
+      ...TemplateService.instantiate(template)
+    });
+    setIsEditMode(false);
+    setView('builder');
+  };
+
   const handleEditForm = (form: FeedbackForm) => {
-    setCurrentForm(form);
+    resetForm();
+    loadForm(form);
+    setPendingDraft(drafts.find(draft => draft.key === form.id) || null);
     setIsEditMode(true);
     setView('builder');
   };
 
+  const handleRestoreDraft = (draft: FormDraft) => {
+    const isExistingForm = !!draft.formId && state.forms.some(form => form.id === draft.formId);
+
+    resetForm();
+    loadForm(draft.form);
+    setIsEditMode(isExistingForm);
+    setView('builder');
+  };
+
+  const applyPendingDraft = () => {
+    if (!pendingDraft) return;
+    // Applied as an edit so the restore itself can be undone
+    setCurrentForm(pendingDraft.form);
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = async (key: string) => {
+    await DraftService.deleteDraft(key);
+    setDrafts(prev => prev.filter(draft => draft.key !== key));
+    if (pendingDraft?.key === key) {
+      setPendingDraft(null);
+    }
+  };
+
   const handleDeleteForm = (formId: string) => {
     dispatch({ type: 'DELETE_FORM', payload: formId });
   };
 
+  const handleFormCreated = (form: FeedbackForm) => {
+    dispatch({ type: 'ADD_FORM', payload: form });
+  };
+
   const handleBackToList = () => {
     setView('list');
     resetForm();
@@ -957,7 +1808,7 @@ const FormBuilder: React.FC = () => {
     setCurrentForm(prev => ({
       ...prev,
       theme: newTheme
-    }));
+    }), { coalesceKey: 'theme' });
   };
 
   if (view === 'list') {
@@ -965,8 +1816,13 @@ const FormBuilder: React.FC = () => {
       <FormsList 
         forms={state.forms}
         onCreateNew={handleCreateNew}
+        onUseTemplate={handleUseTemplate}
+        onFormCreated={handleFormCreated}
         onEditForm={handleEditForm}
         onDeleteForm={handleDeleteForm}
+        drafts={drafts}
+        onRestoreDraft={handleRestoreDraft}
+        onDiscardDraft={handleDiscardDraft}
       />
     );
   }
@@ -991,6 +1847,27 @@ const FormBuilder: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center space-x-3">
+          {draftSavedAt && (
+            <span className="text-xs text-gray-500">Draft saved {formatDraftTime(draftSavedAt)}</span>
+          )}
+          <div className="flex items-center">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="p-2 text-gray-700 bg-white border border-gray-300 rounded-l-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="p-2 text-gray-700 bg-white border border-l-0 border-gray-300 rounded-r-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
           <button
             onClick={() => setShowCopyLink(true)}
             className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-2"
@@ -1057,6 +1934,32 @@ const FormBuilder: React.FC = () => {
         </div>
       </div>
 
+      {/* Draft Restore Banner */}
+      {pendingDraft && (
+        <div className="p-4 rounded-lg flex items-center justify-between bg-amber-50 text-amber-800 border border-amber-200">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5" />
+            <span className="text-sm">
+              You have unsaved changes to this form from {formatDraftTime(pendingDraft.updatedAt)}.
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleDiscardDraft(pendingDraft.key)}
+              className="px-3 py-1 text-sm text-amber-800 hover:bg-amber-100 rounded"
+            >
+              Discard
+            </button>
+            <button
+              onClick={applyPendingDraft}
+              className="px-3 py-1 text-sm bg-amber-600 text-white rounded hover:bg-amber-700"
+            >
+              Restore
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Save Status Message */}
       <AnimatePresence>
         {saveMessage && (
@@ -1098,13 +2001,13 @@ const FormBuilder: React.FC = () => {
               <input
                 type="text"
                 value={currentForm.title}
-                onChange={(e) => setCurrentForm(prev => ({ ...prev, title: e.target.value }))}
+                onChange={(e) => setCurrentForm(prev => ({ ...prev, title: e.target.value }), { coalesceKey: 'title' })}
                 className="w-full text-2xl font-bold text-gray-900 bg-transparent border-none outline-none mb-2"
                 placeholder="Form title"
               />
               <textarea
                 value={currentForm.description}
-                onChange={(e) => setCurrentForm(prev => ({ ...prev, description: e.target.value }))}
+                onChange={(e) => setCurrentForm(prev => ({ ...prev, description: e.target.value }), { coalesceKey: 'description' })}
                 className="w-full text-gray-600 bg-transparent border-none outline-none resize-none"
                 placeholder="Form description"
                 rows={2}
@@ -1125,6 +2028,7 @@ const FormBuilder: React.FC = () => {
                   <FormBuilderField
                     key={field.id}
                     field={field}
+                    fields={currentForm.fields}
                     index={index}
                     onUpdate={(updatedField) => updateField(index, updatedField)}
                     onDelete={() => deleteField(index)}
@@ -1153,6 +2057,91 @@ const FormBuilder: React.FC = () => {
             </label>
           </div>
 
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <h4 className="font-medium text-gray-900 mb-3">Languages</h4>
+            <p className="text-sm text-gray-600 mb-2">
+              {FormTranslationService.getFormLocales(currentForm).map(code => FormTranslationService.getLocaleName(code)).join(', ')}
+            </p>
+            {FormTranslationService.getLocalization(currentForm).locales.map(code => {
+              const missingCount = FormTranslationService.getMissing(currentForm, code).length;
+              return missingCount > 0 ? (
+                <p key={code} className="flex items-center space-x-1 text-xs text-amber-600 mb-1">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  <span>{FormTranslationService.getLocaleName(code)}: {missingCount} missing</span>
+                </p>
+              ) : null;
+            })}
+            <button
+              onClick={() => setShowTranslations(true)}
+              className="w-full text-left p-2 text-sm text-gray-700 hover:bg-gray-50 rounded flex items-center space-x-2"
+            >
+              <Languages className="w-4 h-4" />
+              <span>Edit translations</span>
+            </button>
+          </div>
+
+          <AvailabilitySettings
+            availability={currentForm.availability || DEFAULT_AVAILABILITY}
+            onChange={(availability) => setCurrentForm(prev => ({ ...prev, availability }), { coalesceKey: 'availability' })}
+          />
+
+          <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-2">
+            <h4 className="font-medium text-gray-900 mb-3">Responses</h4>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={(currentForm.responseSettings || DEFAULT_RESPONSE_SETTINGS).saveProgress}
+                onChange={(e) => setCurrentForm(prev => ({
+                  ...prev,
+                  responseSettings: { ...DEFAULT_RESPONSE_SETTINGS, ...prev.responseSettings, saveProgress: e.target.checked }
+                }))}
+                className="w-4 h-4 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Save progress and offer a resume link</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={(currentForm.responseSettings || DEFAULT_RESPONSE_SETTINGS).showPartialResponses}
+                onChange={(e) => setCurrentForm(prev => ({
+                  ...prev,
+                  responseSettings: { ...DEFAULT_RESPONSE_SETTINGS, ...prev.responseSettings, showPartialResponses: e.target.checked }
+                }))}
+                className="w-4 h-4 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Include partial responses in analytics</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={(currentForm.responseSettings || DEFAULT_RESPONSE_SETTINGS).linksOnly}
+                onChange={(e) => setCurrentForm(prev => ({
+                  ...prev,
+                  responseSettings: { ...DEFAULT_RESPONSE_SETTINGS, ...prev.responseSettings, linksOnly: e.target.checked }
+                }))}
+                className="w-4 h-4 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Only open through share links and QR codes</span>
+            </label>
+          </div>
+
+          <RespondentLimitSettings
+            settings={{ ...DEFAULT_RESPONSE_SETTINGS, ...currentForm.responseSettings }}
+            onChange={(responseSettings) => setCurrentForm(prev => ({ ...prev, responseSettings }), { coalesceKey: 'responseSettings' })}
+            formId={isEditMode ? currentForm.id : null}
+          />
+
+          <KioskSettings
+            settings={currentForm.kiosk || DEFAULT_KIOSK_SETTINGS}
+            onChange={(kiosk) => setCurrentForm(prev => ({ ...prev, kiosk }), { coalesceKey: 'kiosk' })}
+            formId={isEditMode ? currentForm.id : null}
+          />
+
+          <SpamProtectionSettings
+            settings={currentForm.protection || DEFAULT_PROTECTION_SETTINGS}
+            onChange={(protection) => setCurrentForm(prev => ({ ...prev, protection }), { coalesceKey: 'protection' })}
+          />
+
           <div className="bg-white p-4 rounded-lg border border-gray-200">
             <h4 className="font-medium text-gray-900 mb-3">Share Options</h4>
             <div className="space-y-2">
@@ -1193,6 +2182,17 @@ const FormBuilder: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Translations Modal */}
+      <AnimatePresence>
+        {showTranslations && (
+          <TranslationEditor
+            form={currentForm}
+            onChange={(form) => setCurrentForm(form, { coalesceKey: 'translations' })}
+            onClose={() => setShowTranslations(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Email Signature Modal */}
       <AnimatePresence>
         {showEmailSignature && (
@@ -1210,6 +2210,7 @@ const FormBuilder: React.FC = () => {
           <QRCodeGenerator
             formId={currentForm.id}
             formTitle={currentForm.title}
+            theme={currentForm.theme}
             onClose={() => setShowQRCode(false)}
           />
         )}
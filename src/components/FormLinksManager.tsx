@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, CheckCircle, Plus, Lock, Pencil, MousePointerClick, RefreshCw } from 'lucide-react';
+import { FormLinkService, FormLink, FormLinkType } from '../services/formLinkService';
+import { FormAvailabilityService } from '../services/formAvailabilityService';
+import { FormService } from '../services/formService';
+
+interface FormLinksManagerProps {
+  formId: string;
+}
+
+type SlugStatus = 'idle' | 'checking' | 'available' | 'taken';
+
+const FormLinksManager: React.FC<FormLinksManagerProps> = ({ formId }) => {
+  const [links, setLinks] = useState<FormLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; slug: string } | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [slug, setSlug] = useState('');
+  const [linkType, setLinkType] = useState<FormLinkType>('public');
+  const [label, setLabel] = useState('');
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [slugStatus, setSlugStatus] = useState<SlugStatus>('idle');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // The slug being typed, either for a new link or a rename
+  const draftSlug = renaming ? renaming.slug : slug;
+  const draftError = draftSlug ? FormLinkService.validateSlug(draftSlug) : null;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    FormLinkService.getLinks(formId)
+      .then(result => isMounted && setLinks(result))
+      .catch(error => isMounted && setLoadError(error instanceof Error ? error.message : 'Failed to load links'))
+      .finally(() => isMounted && setIsLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [formId]);
+
+  // Checks the name once typing pauses
+  useEffect(() => {
+    if (!draftSlug || draftError || links.some(link => link.slug === draftSlug)) {
+      setSlugStatus(draftSlug && !draftError ? 'taken' : 'idle');
+      return;
+    }
+
+    let isCurrent = true;
+    setSlugStatus('checking');
+    const timer = setTimeout(() => {
+      FormLinkService.isSlugAvailable(draftSlug)
+        .then(available => isCurrent && setSlugStatus(available ? 'available' : 'taken'))
+        .catch(() => isCurrent && setSlugStatus('idle'));
+    }, 400);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [draftSlug, draftError, links]);
+
+  const updateLink = async (link: FormLink, updates: Partial<FormLink>) => {
+    try {
+      setBusyId(link.id);
+      await FormLinkService.updateLink(link.id, updates);
+      setLinks(prev => prev.map(item => item.id === link.id ? { ...item, ...updates } : item));
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update link. Please try again.');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRename = async (link: FormLink) => {
+    if (!renaming || renaming.slug === link.slug) {
+      setRenaming(null);
+      return;
+    }
+    if (!confirm('Renaming a link breaks the old URL wherever it was shared. Continue?')) return;
+
+    if (await updateLink(link, { slug: renaming.slug })) {
+      setRenaming(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsCreating(true);
+      const link = await FormLinkService.createLink(formId, { slug, linkType, label, expiresAt });
+      setLinks(prev => [...prev, link]);
+      setShowCreate(false);
+      setSlug('');
+      setLabel('');
+      setExpiresAt(null);
+      setLinkType('public');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create link. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyLink = async (link: FormLink) => {
+    try {
+      await navigator.clipboard.writeText(FormLinkService.getShareUrl(link));
+      setCopiedId(link.id);
+
+      // Record invitation when link is copied
+      await FormService.recordInvitation(formId, 'public_link', `copied_link:${link.slug}`);
+
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const slugHint = draftError || {
+    idle: null,
+    checking: 'Checking...',
+    available: 'Available',
+    taken: 'Already taken'
+  }[slugStatus];
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading links...</p>;
+  }
+
+  if (loadError) {
+    return <p className="text-sm text-red-500">{loadError}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {links.length === 0 && (
+        <p className="text-sm text-gray-500">Save the form to get its first link.</p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        For a form that only opens through its links and QR codes, turning a link off, letting it expire or
+        giving it a key keeps out anyone without another way in. Otherwise the form's own address stays open.
+      </p>
+
+      {links.map(link => {
+        const isExpired = FormLinkService.isExpired(link);
+        const isRenaming = renaming?.id === link.id;
+
+        return (
+          <div key={link.id} className={`p-3 border rounded-lg space-y-2 ${link.isActive && !isExpired ? 'border-gray-200' : 'border-gray-200 bg-gray-50'}`}>
+            <div className="flex items-center flex-wrap gap-1 text-xs">
+              {link.isDefault && <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">Default</span>}
+              {link.linkType === 'private' && (
+                <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 flex items-center space-x-1">
+                  <Lock className="w-3 h-3" />
+                  <span>Private</span>
+                </span>
+              )}
+              {!link.isActive && <span className="px-2 py-0.5 rounded-full bg-gray-200 text-gray-700">Deactivated</span>}
+              {isExpired && <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">Expired</span>}
+              {link.label && <span className="text-gray-500">{link.label}</span>}
+              <span className="ml-auto text-gray-500 flex items-center space-x-1" title="Opens">
+                <MousePointerClick className="w-3 h-3" />
+                <span>{link.clickCount}</span>
+              </span>
+            </div>
+
+            {isRenaming ? (
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-500 font-mono">/f/</span>
+                  <input
+                    type="text"
+                    autoFocus
+                    value={renaming.slug}
+                    onChange={(e) => setRenaming({ id: link.id, slug: e.target.value.toLowerCase() })}
+                    onBlur={() => setRenaming(prev => prev && { ...prev, slug: FormLinkService.normalizeSlug(prev.slug) })}
+                    className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm font-mono"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRename(link)}
+                    disabled={busyId === link.id || !!draftError || slugStatus === 'taken' || slugStatus === 'checking'}
+                    className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRenaming(null)}
+                    className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                {renaming.slug !== link.slug && slugHint && (
+                  <p className={`text-xs ${slugStatus === 'available' && !draftError ? 'text-green-600' : 'text-red-500'}`}>{slugHint}</p>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={FormLinkService.getShareUrl(link)}
+                  readOnly
+                  className="flex-1 min-w-0 p-2 border border-gray-300 rounded bg-gray-50 text-xs font-mono"
+                />
+                <button
+                  type="button"
+                  onClick={() => copyLink(link)}
+                  className={`px-3 py-2 rounded text-sm font-medium flex items-center space-x-1 ${
+                    copiedId === link.id ? 'bg-green-100 text-green-700' : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }`}
+                >
+                  {copiedId === link.id ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  <span>{copiedId === link.id ? 'Copied!' : 'Copy'}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowCreate(false);
+                    setRenaming({ id: link.id, slug: link.slug });
+                  }}
+                  className="p-2 text-gray-400 hover:text-gray-600"
+                  title="Rename link"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              {link.isDefault ? (
+                <span>{link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleString()} with the form` : 'Follows the form schedule'}</span>
+              ) : (
+                <label className="flex items-center space-x-2">
+                  <span>Expires</span>
+                  <input
+                    type="datetime-local"
+                    value={FormAvailabilityService.toLocalInputValue(link.expiresAt)}
+                    onChange={(e) => updateLink(link, { expiresAt: FormAvailabilityService.fromLocalInputValue(e.target.value) })}
+                    disabled={busyId === link.id}
+                    className="p-1 border border-gray-300 rounded text-xs"
+                  />
+                </label>
+              )}
+              <label className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={link.isActive}
+                  onChange={(e) => updateLink(link, { isActive: e.target.checked })}
+                  disabled={busyId === link.id}
+                  className="w-3.5 h-3.5 text-blue-600"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+          </div>
+        );
+      })}
+
+      {showCreate ? (
+        <form onSubmit={handleCreate} className="p-3 border border-blue-200 rounded-lg space-y-3">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Link name</label>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-500 font-mono">/f/</span>
+              <input
+                type="text"
+                autoFocus
+                value={slug}
+                onChange={(e) => setSlug(e.target.value.toLowerCase())}
+                onBlur={() => setSlug(FormLinkService.normalizeSlug(slug))}
+                className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm font-mono"
+                placeholder="spring-survey"
+              />
+            </div>
+            {!renaming && slugHint && (
+              <p className={`text-xs mt-1 ${slugStatus === 'available' && !draftError ? 'text-green-600' : 'text-red-500'}`}>{slugHint}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Access</label>
+              <select
+                value={linkType}
+                onChange={(e) => setLinkType(e.target.value as FormLinkType)}
+                className="w-full p-2 border border-gray-300 rounded text-sm"
+              >
+                <option value="public">Anyone with the link</option>
+                <option value="private">Private (secret key)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Expires</label>
+              <input
+                type="datetime-local"
+                value={FormAvailabilityService.toLocalInputValue(expiresAt)}
+                onChange={(e) => setExpiresAt(FormAvailabilityService.fromLocalInputValue(e.target.value))}
+                className="w-full p-2 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Label</label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded text-sm"
+              placeholder="e.g. Newsletter, March"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowCreate(false)}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCreating || !slug || !!draftError || slugStatus !== 'available'}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center space-x-1 disabled:opacity-50"
+            >
+              {isCreating && <RefreshCw className="w-4 h-4 animate-spin" />}
+              <span>Create link</span>
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => {
+            setRenaming(null);
+            setShowCreate(true);
+          }}
+          className="w-full p-2 text-sm text-blue-600 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50 flex items-center justify-center space-x-1"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New link</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FormLinksManager;
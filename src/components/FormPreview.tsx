@@ -1,14 +1,112 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Star, Send } from 'lucide-react';
-import { FeedbackForm, FormField } from '../context/FeedbackContext';
+import { Star, Send, ArrowLeft, ArrowRight } from 'lucide-react';
+import { FeedbackForm, FormField, MatrixAnswer } from '../context/FeedbackContext';
+import { FormLogicService } from '../services/formLogicService';
+import { AnswerPipingService } from '../services/answerPipingService';
+import FormProgress from './FormProgress';
+import NpsScale from './NpsScale';
+import MatrixGrid from './MatrixGrid';
+import FileUploadInput from './FileUploadInput';
 
 interface FormPreviewProps {
   form: FeedbackForm;
   theme: any;
 }
 
+const RatingPreview: React.FC<{
+  field: FormField;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ field, value, onChange }) => {
+  const [hoverRating, setHoverRating] = useState(0);
+  const previewRating = value || 0;
+  const maxRating = field.maxRating || 5;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-center space-x-1">
+        {Array.from({ length: maxRating }).map((_, i) => {
+          const starValue = i + 1;
+          const isActive = starValue <= (hoverRating || previewRating);
+          
+          return (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onChange(starValue)}
+              onMouseEnter={() => setHoverRating(starValue)}
+              onMouseLeave={() => setHoverRating(0)}
+              className={`transition-all duration-200 transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 rounded-full p-1 ${
+                isActive ? 'focus:ring-yellow-500' : 'focus:ring-gray-300'
+              }`}
+              style={{
+                color: isActive ? '#F59E0B' : '#D1D5DB'
+              }}
+            >
+              <Star
+                className={`w-8 h-8 transition-all duration-200 ${
+                  isActive 
+                    ? 'fill-current text-yellow-400 drop-shadow-sm' 
+                    : 'text-gray-300 hover:text-gray-400'
+                }`}
+              />
+            </button>
+          );
+        })}
+      </div>
+      
+      {/* Fixed Rating Labels - Always positioned correctly */}
+      <div className="relative">
+        <div className="flex justify-between items-center px-1">
+          {/* Poor - Always under first star */}
+          <div className="flex flex-col items-center" style={{ width: '32px' }}>
+            <span className="text-xs text-gray-500 text-center">Poor</span>
+          </div>
+          
+          {/* Average - Always under middle star (3rd for 5-star, proportional for others) */}
+          {maxRating >= 3 && (
+            <div className="flex flex-col items-center" style={{ width: '32px' }}>
+              <span className="text-xs text-gray-500 text-center">Average</span>
+            </div>
+          )}
+          
+          {/* Excellent - Always under last star */}
+          <div className="flex flex-col items-center" style={{ width: '32px' }}>
+            <span className="text-xs text-gray-500 text-center">Excellent</span>
+          </div>
+        </div>
+      </div>
+      
+      {/* Selected Rating Display */}
+      {previewRating > 0 && (
+        <div className="text-sm text-center">
+          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+            <Star className="w-4 h-4 mr-1 fill-current" />
+            {previewRating} out of {maxRating}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const FormPreview: React.FC<FormPreviewProps> = ({ form, theme }) => {
+  // Preview answers drive conditional logic so branching can be tried out live
+  const [previewAnswers, setPreviewAnswers] = useState<Record<string, unknown>>({});
+  const [currentPage, setCurrentPage] = useState(0);
+  const visibleFields = FormLogicService.getVisibleFields(form.fields, previewAnswers);
+  const pages = FormLogicService.getPages(visibleFields);
+  const pageIndex = Math.min(currentPage, pages.length - 1);
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex === pages.length - 1;
+  const pipe = (text?: string) =>
+    AnswerPipingService.resolve(text, form.fields, previewAnswers, new URLSearchParams(window.location.search));
+
+  const setAnswer = (fieldId: string, value: unknown) => {
+    setPreviewAnswers(prev => ({ ...prev, [fieldId]: value }));
+  };
+
   // Get the CSS font family name for the selected font with proper fallbacks
   const getFontFamily = () => {
     const fontMap: Record<string, string> = {
@@ -151,79 +249,6 @@ const FormPreview: React.FC<FormPreviewProps> = ({ form, theme }) => {
     }
   };
 
-  const RatingPreview: React.FC<{ field: FormField }> = ({ field }) => {
-    const [previewRating, setPreviewRating] = useState(0);
-    const [hoverRating, setHoverRating] = useState(0);
-    const maxRating = field.maxRating || 5;
-
-    return (
-      <div className="space-y-4">
-        <div className="flex items-center justify-center space-x-1">
-          {Array.from({ length: maxRating }).map((_, i) => {
-            const starValue = i + 1;
-            const isActive = starValue <= (hoverRating || previewRating);
-            
-            return (
-              <button
-                key={i}
-                type="button"
-                onClick={() => setPreviewRating(starValue)}
-                onMouseEnter={() => setHoverRating(starValue)}
-                onMouseLeave={() => setHoverRating(0)}
-                className={`transition-all duration-200 transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-offset-2 rounded-full p-1 ${
-                  isActive ? 'focus:ring-yellow-500' : 'focus:ring-gray-300'
-                }`}
-                style={{
-                  color: isActive ? '#F59E0B' : '#D1D5DB'
-                }}
-              >
-                <Star
-                  className={`w-8 h-8 transition-all duration-200 ${
-                    isActive 
-                      ? 'fill-current text-yellow-400 drop-shadow-sm' 
-                      : 'text-gray-300 hover:text-gray-400'
-                  }`}
-                />
-              </button>
-            );
-          })}
-        </div>
-        
-        {/* Fixed Rating Labels - Always positioned correctly */}
-        <div className="relative">
-          <div className="flex justify-between items-center px-1">
-            {/* Poor - Always under first star */}
-            <div className="flex flex-col items-center" style={{ width: '32px' }}>
-              <span className="text-xs text-gray-500 text-center">Poor</span>
-            </div>
-            
-            {/* Average - Always under middle star (3rd for 5-star, proportional for others) */}
-            {maxRating >= 3 && (
-              <div className="flex flex-col items-center" style={{ width: '32px' }}>
-                <span className="text-xs text-gray-500 text-center">Average</span>
-              </div>
-            )}
-            
-            {/* Excellent - Always under last star */}
-            <div className="flex flex-col items-center" style={{ width: '32px' }}>
-              <span className="text-xs text-gray-500 text-center">Excellent</span>
-            </div>
-          </div>
-        </div>
-        
-        {/* Selected Rating Display */}
-        {previewRating > 0 && (
-          <div className="text-sm text-center">
-            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
-              <Star className="w-4 h-4 mr-1 fill-current" />
-              {previewRating} out of {maxRating}
-            </span>
-          </div>
-        )}
-      </div>
-    );
-  };
-
   const renderField = (field: FormField) => {
     const fieldProps = {
       style: { 
@@ -239,27 +264,70 @@ const FormPreview: React.FC<FormPreviewProps> = ({ form, theme }) => {
         return (
           <input
             type={field.type}
-            placeholder={field.placeholder}
+            placeholder={pipe(field.placeholder)}
+            value={(previewAnswers[field.id] as string) || ''}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
             {...fieldProps}
           />
         );
       case 'textarea':
         return (
           <textarea
-            placeholder={field.placeholder}
+            placeholder={pipe(field.placeholder)}
             rows={4}
+            value={(previewAnswers[field.id] as string) || ''}
+            onChange={(e) => setAnswer(field.id, e.target.value)}
             {...fieldProps}
             className={`${fieldProps.className} resize-none`}
           />
         );
       case 'rating':
-        return <RatingPreview field={field} />;
+        return (
+          <RatingPreview
+            field={field}
+            value={previewAnswers[field.id] as number}
+            onChange={(value) => setAnswer(field.id, value)}
+          />
+        );
+      case 'nps':
+        return (
+          <NpsScale
+            field={field}
+            value={previewAnswers[field.id] as number | undefined}
+            onChange={(value) => setAnswer(field.id, value)}
+            primaryColor={theme.primaryColor}
+          />
+        );
+      case 'matrix':
+        return (
+          <MatrixGrid
+            field={field}
+            value={previewAnswers[field.id] as MatrixAnswer | undefined}
+            onChange={(value) => setAnswer(field.id, value)}
+            textColor={theme.textColor}
+          />
+        );
+      case 'file':
+        return (
+          <FileUploadInput
+            field={field}
+            value={previewAnswers[field.id] as File[] | undefined}
+            onChange={(files) => setAnswer(field.id, files)}
+            primaryColor={theme.primaryColor}
+          />
+        );
       case 'multiple-choice':
         return (
           <div className="space-y-2">
             {field.options?.map((option, i) => (
               <label key={i} className="flex items-center space-x-2 cursor-pointer group">
-                <input type="radio" name={field.id} className="w-4 h-4 text-blue-600" />
+                <input
+                  type="radio"
+                  name={field.id}
+                  checked={previewAnswers[field.id] === option}
+                  onChange={() => setAnswer(field.id, option)}
+                  className="w-4 h-4 text-blue-600"
+                />
                 <span className="group-hover:text-blue-600 transition-colors" style={{ color: theme.textColor }}>
                   {option}
                 </span>
@@ -327,7 +395,23 @@ const FormPreview: React.FC<FormPreviewProps> = ({ form, theme }) => {
 
             {/* Form Fields */}
             <div className={getSpacingClasses()}>
-              {form.fields.map((field, index) => (
+              <FormProgress
+                currentPage={pageIndex}
+                totalPages={pages.length}
+                color={theme.primaryColor}
+                textColor={theme.textColor}
+              />
+
+              {page.pageBreak?.label && (
+                <h2
+                  className="text-xl font-semibold"
+                  style={{ color: theme.textColor }}
+                >
+                  {pipe(page.pageBreak.label)}
+                </h2>
+              )}
+
+              {page.fields.map((field, index) => (
                 <motion.div
                   key={field.id}
                   initial={{ opacity: 0, x: -20 }}
@@ -339,7 +423,7 @@ const FormPreview: React.FC<FormPreviewProps> = ({ form, theme }) => {
                     className="block text-sm font-medium"
                     style={{ color: theme.textColor }}
                   >
-                    {field.label}
+                    {pipe(field.label)}
                     {field.required && <span className="text-red-500 ml-1">*</span>}
                   </label>
                   {renderField(field)}
@@ -347,20 +431,47 @@ const FormPreview: React.FC<FormPreviewProps> = ({ form, theme }) => {
               ))}
             </div>
 
-            {/* Submit Button */}
-            <motion.button
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: form.fields.length * 0.1 + 0.2 }}
-              className="mt-8 w-full py-4 text-white font-medium rounded-lg transition-all flex items-center justify-center space-x-2 hover:opacity-90 transform hover:scale-[1.02]"
-              style={{ 
-                backgroundColor: theme.primaryColor,
-                borderRadius: theme.borderRadius
-              }}
-            >
-              <Send className="w-5 h-5" />
-              <span>Submit Feedback</span>
-            </motion.button>
+            {/* Navigation / Submit Buttons */}
+            <div className="mt-8 flex space-x-3">
+              {pageIndex > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setCurrentPage(pageIndex - 1)}
+                  className="px-6 py-4 border border-gray-300 font-medium rounded-lg transition-all flex items-center justify-center space-x-2 hover:bg-gray-50"
+                  style={{
+                    color: theme.textColor,
+                    borderRadius: theme.borderRadius
+                  }}
+                >
+                  <ArrowLeft className="w-5 h-5" />
+                  <span>Back</span>
+                </button>
+              )}
+              <motion.button
+                type="button"
+                onClick={() => !isLastPage && setCurrentPage(pageIndex + 1)}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: page.fields.length * 0.1 + 0.2 }}
+                className="flex-1 py-4 text-white font-medium rounded-lg transition-all flex items-center justify-center space-x-2 hover:opacity-90 transform hover:scale-[1.02]"
+                style={{ 
+                  backgroundColor: theme.primaryColor,
+                  borderRadius: theme.borderRadius
+                }}
+              >
+                {isLastPage ? (
+                  <>
+                    <Send className="w-5 h-5" />
+                    <span>Submit Feedback</span>
+                  </>
+                ) : (
+                  <>
+                    <span>Next</span>
+                    <ArrowRight className="w-5 h-5" />
+                  </>
+                )}
+              </motion.button>
+            </div>
           </div>
 
           {/* Footer */}
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface FormProgressProps {
+  currentPage: number;
+  totalPages: number;
+  color: string;
+  textColor?: string;
+  fontFamily?: string;
+}
+
+const FormProgress: React.FC<FormProgressProps> = ({ currentPage, totalPages, color, textColor, fontFamily }) => {
+  if (totalPages <= 1) return null;
+
+  const percentage = Math.round(((currentPage + 1) / totalPages) * 100);
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="flex justify-between text-xs opacity-70"
+        style={{ color: textColor, fontFamily }}
+      >
+        <span>Page {currentPage + 1} of {totalPages}</span>
+        <span>{percentage}%</span>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full rounded-full transition-all duration-300"
+          style={{ width: `${percentage}%`, backgroundColor: color }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default FormProgress;
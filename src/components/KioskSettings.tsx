@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Monitor } from 'lucide-react';
+import { FormKioskSettings } from '../context/FeedbackContext';
+import { KioskService } from '../services/kioskService';
+
+interface KioskSettingsProps {
+  settings: FormKioskSettings;
+  onChange: (settings: FormKioskSettings) => void;
+  // Only saved forms can be opened in kiosk mode
+  formId: string | null;
+}
+
+const KioskSettings: React.FC<KioskSettingsProps> = ({ settings, onChange, formId }) => {
+  const [deviceId, setDeviceId] = useState('');
+  const error = KioskService.validate(settings);
+
+  const update = (updates: Partial<FormKioskSettings>) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-3">
+      <h4 className="font-medium text-gray-900">Kiosk Mode</h4>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Reset when idle (s)</label>
+          <input
+            type="number"
+            min={KioskService.MIN_IDLE_TIMEOUT_SECONDS}
+            value={settings.idleTimeoutSeconds}
+            onChange={(e) => update({ idleTimeoutSeconds: Number(e.target.value) })}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Thank-you screen (s)</label>
+          <input
+            type="number"
+            min={KioskService.MIN_THANK_YOU_SECONDS}
+            value={settings.thankYouSeconds}
+            onChange={(e) => update({ thankYouSeconds: Number(e.target.value) })}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Exit PIN</label>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={settings.exitPin ?? ''}
+            // Leaving the field empty keeps a stored PIN
+            onChange={(e) => update({ exitPin: e.target.value.trim() || (settings.hasExitPin ? undefined : '') })}
+            className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm"
+            placeholder={settings.hasExitPin ? 'Set; type to change' : 'No exit button'}
+          />
+          {settings.hasExitPin && (
+            <button
+              type="button"
+              onClick={() => update({ exitPin: '', hasExitPin: false })}
+              className="text-xs text-red-600 hover:text-red-700"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {formId ? (
+        <div className="space-y-2 pt-1">
+          <label className="block text-xs text-gray-600 mb-1">Device name</label>
+          <input
+            type="text"
+            value={deviceId}
+            onChange={(e) => setDeviceId(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+            placeholder="e.g. lobby-desk"
+          />
+          <a
+            href={KioskService.getKioskUrl(formId, deviceId)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="w-full p-2 text-sm text-gray-700 hover:bg-gray-50 rounded flex items-center space-x-2"
+          >
+            <Monitor className="w-4 h-4" />
+            <span>Open in kiosk mode</span>
+          </a>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Save the form to open it in kiosk mode.</p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Kiosk responses are tagged with the device name, so each location can be filtered in Analytics.
+      </p>
+    </div>
+  );
+};
+
+export default KioskSettings;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { FormField, MatrixAnswer } from '../context/FeedbackContext';
+
+interface MatrixGridProps {
+  field: FormField;
+  value: MatrixAnswer | undefined;
+  onChange: (value: MatrixAnswer) => void;
+  textColor?: string;
+  fontFamily?: string;
+  // Translated display text in the same order as `matrixRows` and `options`; answers keep the originals
+  rowLabels?: string[];
+  columnLabels?: string[];
+}
+
+const MatrixGrid: React.FC<MatrixGridProps> = ({ field, value, onChange, textColor, fontFamily, rowLabels, columnLabels }) => {
+  const rows = field.matrixRows || [];
+  const columns = field.options || [];
+  const answer = value || {};
+
+  const isSelected = (row: string, column: string) => {
+    const selected = answer[row];
+    return Array.isArray(selected) ? selected.includes(column) : selected === column;
+  };
+
+  const toggle = (row: string, column: string) => {
+    if (!field.matrixMultiple) {
+      onChange({ ...answer, [row]: column });
+      return;
+    }
+
+    const selected = Array.isArray(answer[row]) ? answer[row] as string[] : [];
+    onChange({
+      ...answer,
+      [row]: selected.includes(column)
+        ? selected.filter(c => c !== column)
+        : [...selected, column]
+    });
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" style={{ color: textColor, fontFamily }}>
+        <thead>
+          <tr>
+            <th className="p-2" />
+            {columns.map((column, i) => (
+              <th key={i} className="p-2 text-xs font-medium text-center opacity-80">
+                {columnLabels?.[i] || column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className={rowIndex % 2 === 0 ? 'bg-gray-50 bg-opacity-60' : ''}>
+              <td className="p-2 text-left">{rowLabels?.[rowIndex] || row}</td>
+              {columns.map((column, i) => (
+                <td key={i} className="p-2 text-center">
+                  <input
+                    type={field.matrixMultiple ? 'checkbox' : 'radio'}
+                    name={`${field.id}-${rowIndex}`}
+                    checked={isSelected(row, column)}
+                    onChange={() => toggle(row, column)}
+                    aria-label={`${rowLabels?.[rowIndex] || row}: ${columnLabels?.[i] || column}`}
+                    className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default MatrixGrid;
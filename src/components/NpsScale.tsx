@@ -0,0 +1,49 @@
+import React from 'react';
+import { FormField } from '../context/FeedbackContext';
+import { DEFAULT_NPS_LABELS } from '../context/formDefaults';
+
+interface NpsScaleProps {
+  field: FormField;
+  value: number | undefined;
+  onChange: (value: number) => void;
+  primaryColor: string;
+  fontFamily?: string;
+}
+
+const NpsScale: React.FC<NpsScaleProps> = ({ field, value, onChange, primaryColor, fontFamily }) => {
+  const labels = field.npsLabels || DEFAULT_NPS_LABELS;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-11 gap-1">
+        {Array.from({ length: 11 }).map((_, score) => {
+          const isSelected = value === score;
+
+          return (
+            <button
+              key={score}
+              type="button"
+              onClick={() => onChange(score)}
+              className={`py-2 text-sm font-medium border rounded-md transition-all focus:outline-none focus:ring-2 focus:ring-offset-1 ${
+                isSelected ? 'text-white shadow-sm' : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+              style={{
+                backgroundColor: isSelected ? primaryColor : undefined,
+                borderColor: isSelected ? primaryColor : undefined,
+                fontFamily
+              }}
+            >
+              {score}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500" style={{ fontFamily }}>
+        <span>{labels.low}</span>
+        <span>{labels.high}</span>
+      </div>
+    </div>
+  );
+};
+
+export default NpsScale;
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { AnswerPipingService, PipingToken } from '../services/answerPipingService';
+
+interface PipingInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Tokens offered after typing "{{"
+  tokens: PipingToken[];
+  multiline?: boolean;
+  rows?: number;
+  className?: string;
+  placeholder?: string;
+}
+
+// Text before the caret that starts a token, e.g. "Why {{rat" -> "rat"
+const OPEN_TOKEN_PATTERN = /\{\{\s*([\w.-]*)$/;
+
+const PipingInput: React.FC<PipingInputProps> = ({
+  value,
+  onChange,
+  tokens,
+  multiline = false,
+  rows,
+  className,
+  placeholder
+}) => {
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : tokens.filter(({ token, label }) =>
+        token.startsWith(query.toLowerCase()) || label.toLowerCase().includes(query.toLowerCase())
+      );
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(OPEN_TOKEN_PATTERN);
+    setQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const insertToken = (token: string) => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    const caret = input.selectionStart ?? value.length;
+    const start = value.slice(0, caret).search(OPEN_TOKEN_PATTERN);
+    const nextValue = `${value.slice(0, start)}{{${token}}}${value.slice(caret)}`;
+    const nextCaret = start + token.length + 4;
+
+    onChange(nextValue);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (query === null) return;
+
+    if (e.key === 'Escape') {
+      setQuery(null);
+    } else if (suggestions.length > 0 && e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (suggestions.length > 0 && e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (suggestions.length > 0 && (e.key === 'Enter' || e.key === 'Tab')) {
+      e.preventDefault();
+      insertToken(suggestions[activeIndex].token);
+    }
+  };
+
+  const inputProps = {
+    ref: inputRef,
+    value,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    // Delay so a click on a suggestion lands before the list closes
+    onBlur: () => setTimeout(() => setQuery(null), 150),
+    className,
+    placeholder
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <textarea rows={rows} {...inputProps} /> : <input type="text" {...inputProps} />}
+
+      {query !== null && (
+        <div className="absolute left-0 top-full mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {suggestions.map(({ token, label }, index) => (
+            <button
+              key={token}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertToken(token)}
+              className={`w-full text-left px-3 py-1.5 text-sm ${
+                index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-mono text-xs">{`{{${token}}}`}</span>
+              <span className="block text-xs text-gray-500 truncate">{label}</span>
+            </button>
+          ))}
+          {suggestions.length === 0 && (
+            <p className="px-3 py-1.5 text-xs text-gray-500">No earlier questions match.</p>
+          )}
+          <p className="px-3 py-1.5 text-xs text-gray-400 border-t border-gray-100">
+            {`Use {{${AnswerPipingService.URL_TOKEN_EXAMPLE}}} for a URL parameter`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PipingInput;
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { FeedbackTheme } from '../context/FeedbackContext';
+import { FormService } from '../services/formService';
+import { PrintLayoutService, PrintTemplateId } from '../services/printLayoutService';
+import { QrCodeDesign } from '../services/qrCodeService';
+
+interface PrintLayoutDesignerProps {
+  formId: string;
+  formTitle: string;
+  theme: FeedbackTheme;
+  qrUrl: string;
+  qrDesign: QrCodeDesign;
+}
+
+// Width of the on-screen preview in CSS pixels; drawn at twice that for sharp text
+const PREVIEW_WIDTH = 280;
+
+const PrintLayoutDesigner: React.FC<PrintLayoutDesignerProps> = ({ formId, formTitle, theme, qrUrl, qrDesign }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [templateId, setTemplateId] = useState<PrintTemplateId>('a4-poster');
+  const [headline, setHeadline] = useState(PrintLayoutService.DEFAULT_HEADLINE);
+  const [callToAction, setCallToAction] = useState(PrintLayoutService.DEFAULT_CALL_TO_ACTION);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const template = PrintLayoutService.getTemplate(templateId);
+
+  // Redrawn once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (!canvasRef.current) return;
+      PrintLayoutService.render(
+        canvasRef.current,
+        template,
+        { theme, headline, callToAction, qrUrl, qrDesign },
+        (PREVIEW_WIDTH * 2) / template.widthMm
+      ).catch(renderError => console.error('Failed to draw the layout:', renderError));
+    }, 200);
+
+    return () => clearTimeout(timer);
+  }, [template, theme, headline, callToAction, qrUrl, qrDesign]);
+
+  const downloadPdf = async () => {
+    try {
+      setIsExporting(true);
+      setError(null);
+      const pdf = await PrintLayoutService.toPdf(template, { theme, headline, callToAction, qrUrl, qrDesign });
+
+      const link = document.createElement('a');
+      link.download = `${formTitle.replace(/\s+/g, '-').toLowerCase()}-${template.id}.pdf`;
+      link.href = URL.createObjectURL(pdf);
+      link.click();
+      URL.revokeObjectURL(link.href);
+
+      await FormService.recordInvitation(formId, 'qr_code', `printed:${template.id}`);
+    } catch (exportError) {
+      console.error('Failed to create the PDF:', exportError);
+      setError('Failed to create the PDF. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="flex justify-center items-start">
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <canvas ref={canvasRef} className="shadow-md" style={{ width: PREVIEW_WIDTH }} />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm text-gray-700 mb-2">Template</label>
+          <div className="grid grid-cols-2 gap-2">
+            {PrintLayoutService.TEMPLATES.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setTemplateId(option.id)}
+                className={`p-2 border rounded-lg text-left transition-colors ${
+                  templateId === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <span className="block text-sm font-medium text-gray-900">{option.name}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-700 mb-2">Headline</label>
+          <input
+            type="text"
+            value={headline}
+            onChange={(e) => setHeadline(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-700 mb-2">Call to action</label>
+          <textarea
+            value={callToAction}
+            onChange={(e) => setCallToAction(e.target.value)}
+            rows={2}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Colors, logo, font and footer come from the form's theme; the code uses the design from the Design tab.
+        </p>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <button
+          onClick={downloadPdf}
+          disabled={isExporting}
+          className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <FileDown className="w-4 h-4" />
+          <span>{isExporting ? 'Preparing...' : 'Download PDF'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PrintLayoutDesigner;
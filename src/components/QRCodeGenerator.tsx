@@ -1,48 +1,162 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import QRCode from 'qrcode';
-import { Download, X } from 'lucide-react';
+import { Download, MapPin, Palette, Printer, Save, ScanLine, X } from 'lucide-react';
+import { FeedbackTheme } from '../context/FeedbackContext';
 import { FormService } from '../services/formService';
+import { FormQrCode, QrCodeDesign, QrCodeFormat, QrCodeService } from '../services/qrCodeService';
+import QrLocationCodes from './QrLocationCodes';
+import PrintLayoutDesigner from './PrintLayoutDesigner';
 
 interface QRCodeGeneratorProps {
   formId: string;
   formTitle: string;
+  // Its logo is offered as the code's centre image; print layouts use all of it
+  theme: FeedbackTheme;
   onClose: () => void;
 }
 
-const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ formId, formTitle, onClose }) => {
+const SIZE_OPTIONS = [256, 512, 1024, 2048];
+// Printed widths for PDF downloads, in millimetres
+const PRINT_SIZE_OPTIONS = [25, 40, 60, 100];
+const FORMAT_LABELS: Record<QrCodeFormat, string> = {
+  png: 'PNG image',
+  svg: 'SVG vector',
+  pdf: 'PDF for print'
+};
+
+type LogoChoice = 'none' | 'form' | 'custom';
+
+const TABS = [
+  { id: 'design', name: 'Design', icon: Palette },
+  { id: 'locations', name: 'Locations', icon: MapPin },
+  { id: 'print', name: 'Print', icon: Printer }
+] as const;
+
+const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ formId, formTitle, theme, onClose }) => {
+  const logoUrl = theme.logo;
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const formUrl = `${window.location.origin}/form/${formId}`;
+  const [activeTab, setActiveTab] = useState<(typeof TABS)[number]['id']>('design');
+  const [qrCode, setQrCode] = useState<FormQrCode | null>(null);
+  const [design, setDesign] = useState<QrCodeDesign>(QrCodeService.DEFAULT_DESIGN);
+  const [logoChoice, setLogoChoice] = useState<LogoChoice>('none');
+  const [printSizeMm, setPrintSizeMm] = useState(40);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scanUrl = qrCode ? QrCodeService.getScanUrl(qrCode.id, qrCode.trackingParams) : '';
+  const validationError = QrCodeService.validateDesign(design);
+  const contrastWarning = QrCodeService.getContrastWarning(design);
+  const hasChanges = !!qrCode && (
+    design.size !== qrCode.size ||
+    design.format !== qrCode.format ||
+    design.foregroundColor !== qrCode.foregroundColor ||
+    design.backgroundColor !== qrCode.backgroundColor ||
+    design.logoUrl !== qrCode.logoUrl
+  );
 
+  // Forms saved before codes were created with them get one on first open
   useEffect(() => {
-    if (canvasRef.current) {
-      QRCode.toCanvas(canvasRef.current, formUrl, {
-        width: 256,
-        margin: 2,
-        color: {
-          dark: '#1F2937',
-          light: '#FFFFFF'
-        }
-      });
+    let isMounted = true;
+
+    const loadQrCode = async () => {
+      try {
+        const existing = await QrCodeService.getQrCode(formId);
+        const loaded = existing || await QrCodeService.saveDesign(formId, null, QrCodeService.DEFAULT_DESIGN);
+        if (!isMounted) return;
+        setQrCode(loaded);
+        setDesign({
+          size: loaded.size,
+          format: loaded.format,
+          foregroundColor: loaded.foregroundColor,
+          backgroundColor: loaded.backgroundColor,
+          logoUrl: loaded.logoUrl
+        });
+        setLogoChoice(!loaded.logoUrl ? 'none' : loaded.logoUrl === logoUrl ? 'form' : 'custom');
+      } catch (loadError) {
+        console.error('Failed to load QR code:', loadError);
+        if (isMounted) setError('Failed to load the QR code. Please try again.');
+      }
+    };
+
+    loadQrCode();
+    return () => {
+      isMounted = false;
+    };
+  }, [formId, logoUrl]);
+
+  useEffect(() => {
+    if (canvasRef.current && scanUrl && !validationError) {
+      QrCodeService.renderToCanvas(canvasRef.current, scanUrl, design, 256)
+        .catch(renderError => console.error('Failed to draw QR code:', renderError));
     }
-  }, [formUrl]);
+  }, [scanUrl, design, validationError]);
+
+  const updateDesign = (updates: Partial<QrCodeDesign>) => {
+    setDesign(current => ({ ...current, ...updates }));
+    setError(null);
+  };
+
+  const handleLogoChoice = (choice: LogoChoice) => {
+    setLogoChoice(choice);
+    updateDesign({ logoUrl: choice === 'form' ? logoUrl || null : null });
+  };
+
+  const handleSave = async () => {
+    if (!qrCode) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      setQrCode(await QrCodeService.saveDesign(formId, qrCode.id, design));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save the design. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const downloadBlob = (blob: Blob, extension: string) => {
+    const link = document.createElement('a');
+    link.download = `${formTitle.replace(/\s+/g, '-').toLowerCase()}-qr-code.${extension}`;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
 
   const downloadQRCode = async () => {
-    if (canvasRef.current) {
-      const link = document.createElement('a');
-      link.download = `${formTitle.replace(/\s+/g, '-').toLowerCase()}-qr-code.png`;
-      link.href = canvasRef.current.toDataURL();
-      link.click();
-      
+    if (!scanUrl || validationError) return;
+
+    try {
+      setIsDownloading(true);
+      setError(null);
+
+      if (design.format === 'svg') {
+        const svg = await QrCodeService.toSvg(scanUrl, design);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'svg');
+      } else if (design.format === 'pdf') {
+        downloadBlob(await QrCodeService.toPdf(scanUrl, design, printSizeMm), 'pdf');
+      } else {
+        const canvas = document.createElement('canvas');
+        await QrCodeService.renderToCanvas(canvas, scanUrl, design);
+        const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!png) throw new Error('Failed to create the image');
+        downloadBlob(png, 'png');
+      }
+
       // Record invitation when QR code is downloaded
       await FormService.recordInvitation(formId, 'qr_code', 'downloaded');
+    } catch (downloadError) {
+      console.error('Failed to download QR code:', downloadError);
+      setError('Failed to create the download. Please try again.');
+    } finally {
+      setIsDownloading(false);
     }
   };
 
   const copyLink = async () => {
     try {
-      await navigator.clipboard.writeText(formUrl);
-      
+      await navigator.clipboard.writeText(scanUrl);
+
       // Record invitation when link is copied from QR modal
       await FormService.recordInvitation(formId, 'qr_code', 'copied_link');
     } catch (error) {
@@ -50,6 +164,26 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ formId, formTitle, on
     }
   };
 
+  const renderColorInput = (label: string, key: 'foregroundColor' | 'backgroundColor') => (
+    <div>
+      <label className="block text-sm text-gray-700 mb-2">{label}</label>
+      <div className="flex items-center space-x-3">
+        <input
+          type="color"
+          value={design[key]}
+          onChange={(e) => updateDesign({ [key]: e.target.value.toUpperCase() })}
+          className="w-12 h-10 rounded border border-gray-300"
+        />
+        <input
+          type="text"
+          value={design[key]}
+          onChange={(e) => updateDesign({ [key]: e.target.value })}
+          className="flex-1 p-2 border border-gray-300 rounded-lg text-sm font-mono"
+        />
+      </div>
+    </div>
+  );
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -61,11 +195,11 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ formId, formTitle, on
         initial={{ scale: 0.9, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0.9, opacity: 0 }}
-        className="bg-white rounded-xl shadow-xl max-w-md w-full"
+        className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto"
       >
         <div className="p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
-            <h3 className="text-lg font-semibold text-gray-900">QR Code Generator</h3>
+            <h3 className="text-lg font-semibold text-gray-900">QR Code Designer</h3>
             <button
               onClick={onClose}
               className="text-gray-400 hover:text-gray-600"
@@ -73,45 +207,191 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ formId, formTitle, on
               <X className="w-5 h-5" />
             </button>
           </div>
+          <div className="flex space-x-2 mt-4">
+            {TABS.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  activeTab === tab.id
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <tab.icon className="w-4 h-4" />
+                <span className="font-medium">{tab.name}</span>
+              </button>
+            ))}
+          </div>
         </div>
-        
-        <div className="p-6 text-center">
-          <div className="mb-4">
-            <h4 className="font-medium text-gray-900 mb-2">{formTitle}</h4>
-            <p className="text-sm text-gray-600">Scan to access feedback form</p>
+
+        {activeTab === 'locations' ? (
+          <div className="p-6">
+            <QrLocationCodes formId={formId} formTitle={formTitle} design={design} />
           </div>
-          
-          <div className="flex justify-center mb-6">
-            <div className="p-4 bg-gray-50 rounded-lg">
-              <canvas ref={canvasRef} />
-            </div>
+        ) : !qrCode ? (
+          <div className="p-12 text-center">
+            {error ? (
+              <p className="text-sm text-red-500">{error}</p>
+            ) : (
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+            )}
+          </div>
+        ) : activeTab === 'print' ? (
+          <div className="p-6">
+            <PrintLayoutDesigner
+              formId={formId}
+              formTitle={formTitle}
+              theme={theme}
+              qrUrl={scanUrl}
+              qrDesign={validationError ? qrCode : design}
+            />
           </div>
-          
-          <div className="space-y-3">
-            <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded font-mono break-all">
-              {formUrl}
+        ) : (
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="text-center">
+              <div className="mb-4">
+                <h4 className="font-medium text-gray-900 mb-2">{formTitle}</h4>
+                <p className="text-sm text-gray-600">Scan to access feedback form</p>
+              </div>
+
+              <div className="flex justify-center mb-4">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  {validationError ? (
+                    <div className="w-64 h-64 flex items-center justify-center text-sm text-red-500 p-4">
+                      {validationError}
+                    </div>
+                  ) : (
+                    <canvas ref={canvasRef} />
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-center space-x-2 text-sm text-gray-600 mb-3">
+                <ScanLine className="w-4 h-4" />
+                <span>{qrCode.scanCount} {qrCode.scanCount === 1 ? 'scan' : 'scans'}</span>
+              </div>
+
+              <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded font-mono break-all">
+                {scanUrl}
+              </div>
             </div>
-            
-            <div className="flex space-x-3">
-              <button
-                onClick={downloadQRCode}
-                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center justify-center space-x-2"
-              >
-                <Download className="w-4 h-4" />
-                <span>Download</span>
-              </button>
-              <button
-                onClick={copyLink}
-                className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200"
-              >
-                Copy Link
-              </button>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {renderColorInput('Foreground', 'foregroundColor')}
+                {renderColorInput('Background', 'backgroundColor')}
+              </div>
+              {contrastWarning && (
+                <p className="text-xs text-amber-600">{contrastWarning}</p>
+              )}
+
+              <div>
+                <label className="block text-sm text-gray-700 mb-2">Logo</label>
+                <select
+                  value={logoChoice}
+                  onChange={(e) => handleLogoChoice(e.target.value as LogoChoice)}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="none">No logo</option>
+                  {logoUrl && <option value="form">Form logo</option>}
+                  <option value="custom">Image URL</option>
+                </select>
+                {logoChoice === 'custom' && (
+                  <input
+                    type="url"
+                    value={design.logoUrl || ''}
+                    onChange={(e) => updateDesign({ logoUrl: e.target.value.trim() || null })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm mt-2"
+                    placeholder="https://example.com/logo.png"
+                  />
+                )}
+                {design.logoUrl && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Codes with a logo use the highest error correction so they still scan.
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm text-gray-700 mb-2">Image size</label>
+                  <select
+                    value={design.size}
+                    onChange={(e) => updateDesign({ size: Number(e.target.value) })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {!SIZE_OPTIONS.includes(design.size) && (
+                      <option value={design.size}>{design.size} px</option>
+                    )}
+                    {SIZE_OPTIONS.map(size => (
+                      <option key={size} value={size}>{size} px</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-700 mb-2">Format</label>
+                  <select
+                    value={design.format}
+                    onChange={(e) => updateDesign({ format: e.target.value as QrCodeFormat })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {(Object.keys(FORMAT_LABELS) as QrCodeFormat[]).map(format => (
+                      <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {design.format === 'pdf' && (
+                <div>
+                  <label className="block text-sm text-gray-700 mb-2">Printed width</label>
+                  <select
+                    value={printSizeMm}
+                    onChange={(e) => setPrintSizeMm(Number(e.target.value))}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {PRINT_SIZE_OPTIONS.map(size => (
+                      <option key={size} value={size}>{size / 10} cm</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-500">{error}</p>}
+
+              <div className="space-y-3 pt-2">
+                <button
+                  onClick={handleSave}
+                  disabled={!hasChanges || isSaving || !!validationError}
+                  className="w-full bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>{isSaving ? 'Saving...' : hasChanges ? 'Save Design' : 'Design Saved'}</span>
+                </button>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={downloadQRCode}
+                    disabled={isDownloading || !!validationError}
+                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center justify-center space-x-2 disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>{isDownloading ? 'Preparing...' : `Download ${design.format.toUpperCase()}`}</span>
+                  </button>
+                  <button
+                    onClick={copyLink}
+                    className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200"
+                  >
+                    Copy Link
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </motion.div>
     </motion.div>
   );
 };
 
-export default QRCodeGenerator;
\ No newline at end of file
+export default QRCodeGenerator;
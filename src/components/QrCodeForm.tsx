@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { QrCode } from 'lucide-react';
+import { QrCodeService, OpenedQrCode } from '../services/qrCodeService';
+import FeedbackForm from './FeedbackForm';
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<OpenedQrCode['status'], 'ok'>, { title: string; message: string }> = {
+  not_found: {
+    title: 'Code Not Found',
+    message: "The QR code you scanned doesn't lead to a form."
+  },
+  inactive: {
+    title: 'Code Deactivated',
+    message: 'This QR code is no longer active.'
+  }
+};
+
+// Opens a form through a scanned QR code (/qr/<id>), counting the scan. The code's tracking
+// parameters are kept with the response.
+const QrCodeForm: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const [opened, setOpened] = useState<OpenedQrCode | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let isMounted = true;
+    QrCodeService.openQrCode(id)
+      .then(result => isMounted && setOpened(result))
+      .catch(error => {
+        console.error('Failed to open QR code:', error);
+        if (isMounted) setOpened({ status: 'not_found' });
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [id]);
+
+  if (!opened) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading form...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (opened.status === 'ok') {
+    return (
+      <FeedbackForm
+        formId={opened.formId}
+        source="qr"
+        qrCodeId={opened.qrCodeId}
+        trackingParams={Object.fromEntries(searchParams)}
+      />
+    );
+  }
+
+  const { title, message } = UNAVAILABLE_MESSAGES[opened.status];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <QrCode className="w-8 h-8 text-gray-500" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
+        <p className="text-gray-600">{message}</p>
+      </div>
+    </div>
+  );
+};
+
+export default QrCodeForm;
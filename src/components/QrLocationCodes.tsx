@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, CheckCircle, Download, FileText, MapPin, ScanLine, Trash2, Upload } from 'lucide-react';
+import { FormQrCode, ParsedLocationList, QrCodeDesign, QrCodeService } from '../services/qrCodeService';
+import { FormService } from '../services/formService';
+
+interface QrLocationCodesProps {
+  formId: string;
+  formTitle: string;
+  // Design new location codes start with
+  design: QrCodeDesign;
+}
+
+const EXAMPLE_LIST = 'name,id\nDowntown Store,store-001\nAirport Kiosk,store-002';
+
+const QrLocationCodes: React.FC<QrLocationCodesProps> = ({ formId, formTitle, design }) => {
+  const [codes, setCodes] = useState<FormQrCode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [listText, setListText] = useState('');
+  const [parsed, setParsed] = useState<ParsedLocationList | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isPreparingSheet, setIsPreparingSheet] = useState(false);
+  const fileSlug = formTitle.replace(/\s+/g, '-').toLowerCase();
+
+  const loadCodes = useCallback(async () => {
+    try {
+      setCodes(await QrCodeService.getLocationCodes(formId));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load location codes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    loadCodes();
+  }, [loadCodes]);
+
+  const handleListChange = (text: string) => {
+    setListText(text);
+    setParsed(text.trim() ? QrCodeService.parseLocationCsv(text) : null);
+    setImportResult(null);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      handleListChange(await file.text());
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.locations.length === 0) return;
+
+    try {
+      setIsImporting(true);
+      const { created, updated } = await QrCodeService.importLocationCodes(formId, parsed.locations, design);
+      setImportResult(`${created} created, ${updated} updated`);
+      setListText('');
+      setParsed(null);
+      await loadCodes();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import locations. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const updateCode = async (code: FormQrCode, updates: Partial<Pick<FormQrCode, 'label' | 'isActive'>>) => {
+    try {
+      setBusyId(code.id);
+      await QrCodeService.updateLocationCode(code.id, updates);
+      setCodes(prev => prev.map(item => item.id === code.id ? { ...item, ...updates } : item));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update location code. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteCode = async (code: FormQrCode) => {
+    if (!confirm(`Delete the code for "${code.label}"? Printed copies will stop working; its responses keep the location.`)) {
+      return;
+    }
+
+    try {
+      setBusyId(code.id);
+      await QrCodeService.deleteLocationCode(code.id);
+      setCodes(prev => prev.filter(item => item.id !== code.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete location code. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const downloadCode = async (code: FormQrCode) => {
+    try {
+      setBusyId(code.id);
+      const canvas = document.createElement('canvas');
+      await QrCodeService.renderToCanvas(canvas, QrCodeService.getScanUrl(code.id, code.trackingParams), code);
+      const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!png) throw new Error('Failed to create the image');
+      downloadBlob(png, `${fileSlug}-${code.locationCode}-qr-code.png`);
+
+      await FormService.recordInvitation(formId, 'qr_code', `downloaded:${code.locationCode}`);
+    } catch (error) {
+      console.error('Failed to download QR code:', error);
+      alert('Failed to create the download. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const downloadSheet = async () => {
+    try {
+      setIsPreparingSheet(true);
+      downloadBlob(await QrCodeService.toLocationSheetPdf(codes.filter(code => code.isActive)), `${fileSlug}-location-qr-codes.pdf`);
+
+      await FormService.recordInvitation(formId, 'qr_code', 'downloaded:location_sheet');
+    } catch (error) {
+      console.error('Failed to create the sheet:', error);
+      alert('Failed to create the sheet. Please try again.');
+    } finally {
+      setIsPreparingSheet(false);
+    }
+  };
+
+  const copyLink = async (code: FormQrCode) => {
+    try {
+      await navigator.clipboard.writeText(QrCodeService.getScanUrl(code.id, code.trackingParams));
+      setCopiedId(code.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading location codes...</p>;
+  }
+
+  if (loadError) {
+    return <p className="text-sm text-red-500">{loadError}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 border border-blue-200 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Import locations</h4>
+          <label className="text-sm text-blue-600 hover:text-blue-700 cursor-pointer flex items-center space-x-1">
+            <Upload className="w-4 h-4" />
+            <span>Choose CSV</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileSelect} className="hidden" />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          One location per row, with a header row naming a <code>name</code> column and optionally an <code>id</code> column.
+          Other columns are added to that code's link as tracking parameters. Importing an ID again updates its code.
+        </p>
+        <textarea
+          value={listText}
+          onChange={(e) => handleListChange(e.target.value)}
+          rows={4}
+          className="w-full p-2 border border-gray-300 rounded text-sm font-mono"
+          placeholder={EXAMPLE_LIST}
+        />
+        {parsed && parsed.errors.length > 0 && (
+          <ul className="text-xs text-red-500 space-y-0.5">
+            {parsed.errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-600">
+            {importResult || (parsed ? `${parsed.locations.length} ${parsed.locations.length === 1 ? 'location' : 'locations'} ready` : '')}
+          </span>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!parsed || parsed.locations.length === 0 || isImporting}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isImporting ? 'Creating...' : 'Create Codes'}
+          </button>
+        </div>
+      </div>
+
+      {codes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No location codes yet. Each location gets its own code, scan count and label on its responses.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">{codes.length} {codes.length === 1 ? 'location' : 'locations'}</span>
+            <button
+              type="button"
+              onClick={downloadSheet}
+              disabled={isPreparingSheet || !codes.some(code => code.isActive)}
+              className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 flex items-center space-x-1 disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              <span>{isPreparingSheet ? 'Preparing...' : 'Download Print Sheet'}</span>
+            </button>
+          </div>
+
+          {codes.map(code => (
+            <div key={code.id} className={`p-3 border rounded-lg space-y-2 ${code.isActive ? 'border-gray-200' : 'border-gray-200 bg-gray-50'}`}>
+              <div className="flex items-center space-x-2">
+                <MapPin className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <input
+                  type="text"
+                  defaultValue={code.label}
+                  onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== code.label && updateCode(code, { label: e.target.value })}
+                  className="flex-1 min-w-0 p-1 border border-transparent hover:border-gray-300 rounded text-sm font-medium"
+                />
+                <span className="text-xs text-gray-500 font-mono">{code.locationCode}</span>
+                <span className="text-xs text-gray-500 flex items-center space-x-1" title="Scans">
+                  <ScanLine className="w-3 h-3" />
+                  <span>{code.scanCount}</span>
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={code.isActive}
+                    onChange={(e) => updateCode(code, { isActive: e.target.checked })}
+                    disabled={busyId === code.id}
+                    className="w-3.5 h-3.5 text-blue-600"
+                  />
+                  <span>Active</span>
+                </label>
+                <div className="flex items-center space-x-1">
+                  <button
+                    type="button"
+                    onClick={() => copyLink(code)}
+                    className="p-1.5 text-gray-400 hover:text-gray-600"
+                    title="Copy link"
+                  >
+                    {copiedId === code.id ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => downloadCode(code)}
+                    disabled={busyId === code.id}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                    title="Download PNG"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteCode(code)}
+                    disabled={busyId === code.id}
+                    className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Delete code"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QrLocationCodes;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldAlert, Check, Trash2, RefreshCw } from 'lucide-react';
+import { FormService, EnrichedFormResponse } from '../services/formService';
+import { SpamProtectionService } from '../services/spamProtectionService';
+
+interface QuarantineReviewProps {
+  responses: EnrichedFormResponse[];
+  formTitles: Record<string, string>;
+  // Called after a response was released or deleted
+  onResolved: (responseId: string, released: boolean) => void;
+}
+
+const PREVIEW_ANSWERS = 3;
+
+const QuarantineReview: React.FC<QuarantineReviewProps> = ({ responses, formTitles, onResolved }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleRelease = async (responseId: string) => {
+    try {
+      setBusyId(responseId);
+      await FormService.releaseQuarantinedResponse(responseId);
+      onResolved(responseId, true);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to release response. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (responseId: string) => {
+    if (!confirm('Delete this quarantined response? This action cannot be undone.')) return;
+
+    try {
+      setBusyId(responseId);
+      await FormService.deleteFeedbackResponse(responseId);
+      onResolved(responseId, false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete response. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-xl shadow-sm border border-gray-100"
+    >
+      <div className="p-6 border-b border-gray-100 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Quarantine</h3>
+          <p className="text-sm text-gray-500">
+            Submissions flagged as possible spam. They are left out of every metric until you release them.
+          </p>
+        </div>
+        <span className="px-2 py-1 text-xs rounded-full bg-amber-100 text-amber-800">
+          {responses.length} to review
+        </span>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {responses.map(response => {
+          const answers = response.form_response_data.filter(data => data.field_value);
+          const isBusy = busyId === response.id;
+
+          return (
+            <div key={response.id} className="p-6 flex items-start justify-between space-x-4">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center flex-wrap gap-2 mb-2">
+                  <ShieldAlert className="w-4 h-4 text-amber-500" />
+                  {response.quarantine_reasons.map(reason => (
+                    <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-amber-50 text-amber-800 border border-amber-200">
+                      {SpamProtectionService.getReasonLabel(reason)}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-500 mb-2">
+                  {formTitles[response.form_id] || 'Unknown form'} · {new Date(response.submitted_at).toLocaleString()}
+                  {response.response_source !== 'web' && ` · ${response.response_source}`}
+                </p>
+                {answers.slice(0, PREVIEW_ANSWERS).map(data => (
+                  <p key={data.id} className="text-sm text-gray-800 truncate">
+                    <span className="text-gray-500">{data.field_label}:</span> {data.field_value}
+                  </p>
+                ))}
+                {answers.length > PREVIEW_ANSWERS && (
+                  <p className="text-xs text-gray-400 mt-1">+{answers.length - PREVIEW_ANSWERS} more answers</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <button
+                  onClick={() => handleRelease(response.id)}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 text-sm text-green-700 border border-green-200 rounded-lg hover:bg-green-50 flex items-center space-x-1 disabled:opacity-50"
+                >
+                  {isBusy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  <span>Not spam</span>
+                </button>
+                <button
+                  onClick={() => handleDelete(response.id)}
+                  disabled={isBusy}
+                  className="p-1.5 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                  title="Delete response"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default QuarantineReview;
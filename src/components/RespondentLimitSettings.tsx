@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Link as LinkIcon, Copy, Check } from 'lucide-react';
+import { FormResponseSettings, RespondentIdentity } from '../context/FeedbackContext';
+import { RespondentService } from '../services/respondentService';
+
+interface RespondentLimitSettingsProps {
+  settings: FormResponseSettings;
+  onChange: (settings: FormResponseSettings) => void;
+  // Invitation links can only be created for saved forms
+  formId: string | null;
+}
+
+const IDENTITY_HINTS: Record<RespondentIdentity, string> = {
+  browser: 'Recognises the browser. Easy for respondents, but a private window gets around it.',
+  email: 'Respondents confirm their email address with a one-time code before answering.',
+  invitation: 'Each recipient gets a personal link; the form cannot be answered without one.'
+};
+
+const RespondentLimitSettings: React.FC<RespondentLimitSettingsProps> = ({ settings, onChange, formId }) => {
+  const [recipient, setRecipient] = useState('');
+  const [invitationUrl, setInvitationUrl] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const update = (updates: Partial<FormResponseSettings>) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  const handleCreateInvitation = async () => {
+    if (!formId) return;
+
+    try {
+      setIsCreating(true);
+      setInvitationUrl(await RespondentService.createInvitationLink(formId, recipient));
+      setRecipient('');
+      setCopied(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create invitation. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!invitationUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(invitationUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy invitation link:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-3">
+      <h4 className="font-medium text-gray-900">Respondent Limit</h4>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={settings.onePerRespondent}
+          onChange={(e) => update({ onePerRespondent: e.target.checked })}
+          className="w-4 h-4 text-blue-600"
+        />
+        <span className="text-sm text-gray-700">One response per respondent</span>
+      </label>
+
+      {settings.onePerRespondent && (
+        <>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Identify respondents by</label>
+            <select
+              value={settings.respondentIdentity}
+              onChange={(e) => update({ respondentIdentity: e.target.value as RespondentIdentity })}
+              className="w-full p-2 border border-gray-300 rounded text-sm"
+            >
+              {(Object.keys(RespondentService.IDENTITY_LABELS) as RespondentIdentity[]).map(identity => (
+                <option key={identity} value={identity}>{RespondentService.IDENTITY_LABELS[identity]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">{IDENTITY_HINTS[settings.respondentIdentity]}</p>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.allowEditing}
+              onChange={(e) => update({ allowEditing: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="text-sm text-gray-700">Let respondents edit their earlier response</span>
+          </label>
+
+          {settings.respondentIdentity === 'invitation' && (
+            formId ? (
+              <div className="space-y-2 pt-1">
+                <label className="block text-xs text-gray-600 mb-1">Recipient</label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value)}
+                    className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm"
+                    placeholder="e.g. jamie@example.com"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCreateInvitation}
+                    disabled={isCreating}
+                    className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 flex items-center space-x-1 disabled:opacity-50"
+                  >
+                    <LinkIcon className="w-4 h-4" />
+                    <span>Create</span>
+                  </button>
+                </div>
+                {invitationUrl && (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      readOnly
+                      value={invitationUrl}
+                      className="flex-1 min-w-0 p-2 border border-gray-200 rounded text-xs text-gray-600 bg-gray-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleCopy}
+                      className="p-2 text-gray-500 hover:text-gray-700"
+                      title="Copy invitation link"
+                    >
+                      {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Save the form to create invitation links.</p>
+            )
+          )}
+
+          <p className="text-xs text-gray-500">
+            {settings.respondentIdentity === 'browser' && 'Kiosks are exempt, since everyone shares their browser. '}
+            {settings.allowEditing
+              ? 'Answering again replaces the earlier response.'
+              : 'Repeat attempts are turned away and counted on the form card.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RespondentLimitSettings;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Link2Off } from 'lucide-react';
+import { FormLinkService, OpenedFormLink } from '../services/formLinkService';
+import FeedbackForm from './FeedbackForm';
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<OpenedFormLink['status'], 'ok'>, { title: string; message: string }> = {
+  not_found: {
+    title: 'Link Not Found',
+    message: "The link you followed doesn't exist. Please check it and try again."
+  },
+  inactive: {
+    title: 'Link Deactivated',
+    message: 'This link is no longer active. Please ask the sender for a new one.'
+  },
+  expired: {
+    title: 'Link Expired',
+    message: 'This link has expired. Please ask the sender for a new one.'
+  }
+};
+
+// Opens a form through a share link (/f/<slug>, with ?key= for private links)
+const SharedLinkForm: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams] = useSearchParams();
+  const key = searchParams.get('key');
+  const [opened, setOpened] = useState<OpenedFormLink | null>(null);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    let isMounted = true;
+    FormLinkService.openLink(slug, key)
+      .then(result => isMounted && setOpened(result))
+      .catch(error => {
+        console.error('Failed to open link:', error);
+        if (isMounted) setOpened({ status: 'not_found' });
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [slug, key]);
+
+  if (!opened) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading form...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (opened.status === 'ok') {
+    return <FeedbackForm formId={opened.formId} linkId={opened.linkId} />;
+  }
+
+  const { title, message } = UNAVAILABLE_MESSAGES[opened.status];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Link2Off className="w-8 h-8 text-gray-500" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
+        <p className="text-gray-600">{message}</p>
+        {opened.status === 'expired' && (
+          <p className="text-sm text-gray-500 mt-4">
+            Expired {new Date(opened.expiresAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedLinkForm;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { FormProtectionSettings } from '../context/FeedbackContext';
+import { SpamProtectionService } from '../services/spamProtectionService';
+
+interface SpamProtectionSettingsProps {
+  settings: FormProtectionSettings;
+  onChange: (settings: FormProtectionSettings) => void;
+}
+
+const DIFFICULTY_OPTIONS = [
+  { value: 12, label: 'Light (instant)' },
+  { value: 14, label: 'Standard (under a second)' },
+  { value: 16, label: 'Strong (a few seconds)' },
+  { value: 18, label: 'Very strong (slow on phones)' }
+];
+
+const SpamProtectionSettings: React.FC<SpamProtectionSettingsProps> = ({ settings, onChange }) => {
+  const error = SpamProtectionService.validate(settings);
+
+  const update = (updates: Partial<FormProtectionSettings>) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-3">
+      <h4 className="font-medium text-gray-900">Spam Protection</h4>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={settings.honeypot}
+          onChange={(e) => update({ honeypot: e.target.checked })}
+          className="w-4 h-4 text-blue-600"
+        />
+        <span className="text-sm text-gray-700">Hidden honeypot field</span>
+      </label>
+
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Minimum seconds to submit</label>
+        <input
+          type="number"
+          min="0"
+          value={settings.minSecondsToSubmit}
+          onChange={(e) => update({ minSecondsToSubmit: Number(e.target.value) })}
+          className="w-full p-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Per network / hour</label>
+          <input
+            type="number"
+            min="0"
+            value={settings.maxPerIpPerHour}
+            onChange={(e) => update({ maxPerIpPerHour: Number(e.target.value) })}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Per form / minute</label>
+          <input
+            type="number"
+            min="0"
+            value={settings.maxPerFormPerMinute}
+            onChange={(e) => update({ maxPerFormPerMinute: Number(e.target.value) })}
+            className="w-full p-2 border border-gray-300 rounded text-sm"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        0 turns a limit off. Raise the network limit for kiosks or venues where respondents share Wi-Fi.
+      </p>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={settings.proofOfWork}
+          onChange={(e) => update({ proofOfWork: e.target.checked })}
+          className="w-4 h-4 text-blue-600"
+        />
+        <span className="text-sm text-gray-700">Proof-of-work challenge</span>
+      </label>
+
+      {settings.proofOfWork && (
+        <select
+          value={settings.powDifficulty}
+          onChange={(e) => update({ powDifficulty: Number(e.target.value) })}
+          className="w-full p-2 border border-gray-300 rounded text-sm"
+        >
+          {DIFFICULTY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <p className="text-xs text-gray-500">
+        Flagged submissions are quarantined for review in Analytics instead of being counted.
+      </p>
+    </div>
+  );
+};
+
+export default SpamProtectionSettings;
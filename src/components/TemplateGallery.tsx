@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  X,
+  Smile,
+  Gauge,
+  Zap,
+  Package,
+  Calendar,
+  Bug,
+  HeartPulse,
+  LayoutTemplate,
+  Trash2
+} from 'lucide-react';
+import { FORM_TEMPLATES, FormTemplate, TemplateCategory } from '../lib/formTemplates';
+import { TemplateService } from '../services/templateService';
+
+interface TemplateGalleryProps {
+  onSelect: (template: FormTemplate) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_ICONS: Record<TemplateCategory, React.ElementType> = {
+  csat: Smile,
+  nps: Gauge,
+  ces: Zap,
+  product: Package,
+  event: Calendar,
+  bug: Bug,
+  employee: HeartPulse,
+  custom: LayoutTemplate
+};
+
+const TemplateCard: React.FC<{
+  template: FormTemplate;
+  onSelect: () => void;
+  onDelete?: () => void;
+  isDeleting?: boolean;
+}> = ({ template, onSelect, onDelete, isDeleting }) => {
+  const Icon = CATEGORY_ICONS[template.category] || LayoutTemplate;
+  const questionCount = template.fields.filter(field => field.type !== 'page-break').length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 flex flex-col hover:shadow-md transition-shadow">
+      <div className="flex items-start justify-between mb-3">
+        <div
+          className="w-10 h-10 rounded-lg flex items-center justify-center"
+          style={{ backgroundColor: `${template.theme.primaryColor}1A`, color: template.theme.primaryColor }}
+        >
+          <Icon className="w-5 h-5" />
+        </div>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            disabled={isDeleting}
+            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            title="Delete template"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <h4 className="font-medium text-gray-900 mb-1">{template.name}</h4>
+      <p className="text-sm text-gray-600 line-clamp-2 flex-1">{template.description}</p>
+      <div className="flex items-center justify-between mt-4">
+        <span className="text-xs text-gray-500">
+          {questionCount} question{questionCount === 1 ? '' : 's'}
+        </span>
+        <button
+          onClick={onSelect}
+          className="px-3 py-1.5 text-sm text-white rounded-lg transition-opacity hover:opacity-90"
+          style={{ backgroundColor: template.theme.primaryColor }}
+        >
+          Use template
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onSelect, onClose }) => {
+  const [privateTemplates, setPrivateTemplates] = useState<FormTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setPrivateTemplates(await TemplateService.getTemplates());
+      } catch (error) {
+        setLoadError(error instanceof Error ? error.message : 'Failed to load your templates');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      setIsDeleting(templateId);
+      await TemplateService.deleteTemplate(templateId);
+      setPrivateTemplates(prev => prev.filter(template => template.id !== templateId));
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      alert('Failed to delete template. Please try again.');
+    } finally {
+      setIsDeleting(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Start from a Template</h3>
+              <p className="text-sm text-gray-600">Pick a template to open it in the builder</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-8">
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-3">My Templates</h4>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading your templates...</p>
+            ) : loadError ? (
+              <p className="text-sm text-red-600">{loadError}</p>
+            ) : privateTemplates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                You have no saved templates yet. Use "Save as template" on any form to reuse it here.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {privateTemplates.map(template => (
+                  <TemplateCard
+                    key={template.id}
+                    template={template}
+                    onSelect={() => onSelect(template)}
+                    onDelete={() => handleDelete(template.id)}
+                    isDeleting={isDeleting === template.id}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-3">Gallery</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {FORM_TEMPLATES.map(template => (
+                <TemplateCard
+                  key={template.id}
+                  template={template}
+                  onSelect={() => onSelect(template)}
+                />
+              ))}
+            </div>
+          </section>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TemplateGallery;
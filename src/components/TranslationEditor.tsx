@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Languages, Trash2, AlertCircle } from 'lucide-react';
+import { FeedbackForm } from '../context/FeedbackContext';
+import { FormTranslationService } from '../services/formTranslationService';
+
+interface TranslationEditorProps {
+  form: FeedbackForm;
+  onChange: (form: FeedbackForm) => void;
+  onClose: () => void;
+}
+
+const TranslationEditor: React.FC<TranslationEditorProps> = ({ form, onChange, onClose }) => {
+  const localization = FormTranslationService.getLocalization(form);
+  const [selectedLocale, setSelectedLocale] = useState<string | null>(localization.locales[0] || null);
+  const [showMissingOnly, setShowMissingOnly] = useState(false);
+  const usedLocales = FormTranslationService.getFormLocales(form);
+  const addableLocales = FormTranslationService.LOCALES.filter(locale => !usedLocales.includes(locale.code));
+  const activeLocale = selectedLocale && localization.locales.includes(selectedLocale) ? selectedLocale : null;
+  const entries = activeLocale ? FormTranslationService.getEntries(form, activeLocale) : [];
+  const visibleEntries = showMissingOnly ? entries.filter(entry => !entry.value.trim()) : entries;
+
+  const handleAddLocale = (code: string) => {
+    if (!code) return;
+    onChange(FormTranslationService.addLocale(form, code));
+    setSelectedLocale(code);
+  };
+
+  const handleRemoveLocale = (code: string) => {
+    if (!confirm(`Remove ${FormTranslationService.getLocaleName(code)} and all of its translations?`)) return;
+    onChange(FormTranslationService.removeLocale(form, code));
+    setSelectedLocale(localization.locales.find(locale => locale !== code) || null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Translations</h3>
+              <p className="text-sm text-gray-600">
+                Respondents see their language from <code>?lang=</code> or their browser, and the default language otherwise
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Default language</span>
+            <select
+              value={localization.defaultLocale}
+              onChange={(e) => onChange({ ...form, localization: { ...localization, defaultLocale: e.target.value } })}
+              className="p-1.5 border border-gray-300 rounded text-sm"
+            >
+              {FormTranslationService.LOCALES
+                .filter(locale => !localization.locales.includes(locale.code))
+                .map(locale => (
+                  <option key={locale.code} value={locale.code}>{locale.name}</option>
+                ))}
+            </select>
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2 flex-1">
+            {localization.locales.map(code => {
+              const missingCount = FormTranslationService.getMissing(form, code).length;
+              return (
+                <button
+                  key={code}
+                  onClick={() => setSelectedLocale(code)}
+                  className={`px-3 py-1.5 rounded-lg text-sm flex items-center space-x-2 border ${
+                    code === activeLocale
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span>{FormTranslationService.getLocaleName(code)}</span>
+                  {missingCount > 0 ? (
+                    <span className="px-1.5 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">
+                      {missingCount} missing
+                    </span>
+                  ) : (
+                    <span className="px-1.5 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Complete</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <select
+            value=""
+            onChange={(e) => handleAddLocale(e.target.value)}
+            className="p-1.5 border border-gray-300 rounded text-sm"
+          >
+            <option value="">+ Add language</option>
+            {addableLocales.map(locale => (
+              <option key={locale.code} value={locale.code}>{locale.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {!activeLocale ? (
+            <div className="text-center py-12">
+              <Languages className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">Add a language to start translating this form.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={showMissingOnly}
+                    onChange={(e) => setShowMissingOnly(e.target.checked)}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <span>Show missing translations only</span>
+                </label>
+                <button
+                  onClick={() => handleRemoveLocale(activeLocale)}
+                  className="text-sm text-red-600 hover:text-red-700 flex items-center space-x-1"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Remove {FormTranslationService.getLocaleName(activeLocale)}</span>
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 mb-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                <span>{FormTranslationService.getLocaleName(localization.defaultLocale)} (default)</span>
+                <span>{FormTranslationService.getLocaleName(activeLocale)}</span>
+              </div>
+
+              <div className="space-y-3">
+                {visibleEntries.map(entry => {
+                  const isMissing = !entry.value.trim();
+                  return (
+                    <div key={entry.key} className="grid grid-cols-2 gap-4 items-start">
+                      <div>
+                        <span className="block text-xs text-gray-500 mb-1">{entry.label}</span>
+                        <p className="p-2 bg-gray-50 rounded text-sm text-gray-800 whitespace-pre-wrap">{entry.source}</p>
+                      </div>
+                      <div>
+                        <span className={`flex items-center space-x-1 text-xs mb-1 ${isMissing ? 'text-amber-600' : 'text-transparent'}`}>
+                          <AlertCircle className="w-3.5 h-3.5" />
+                          <span>Missing, the default text is shown</span>
+                        </span>
+                        <textarea
+                          value={entry.value}
+                          onChange={(e) => onChange(FormTranslationService.setTranslation(form, activeLocale, entry.key, e.target.value))}
+                          rows={Math.min(4, Math.max(1, Math.ceil(entry.source.length / 60)))}
+                          className={`w-full p-2 border rounded text-sm resize-none ${
+                            isMissing ? 'border-amber-300 bg-amber-50' : 'border-gray-300'
+                          }`}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+                {visibleEntries.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">Every string is translated.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TranslationEditor;
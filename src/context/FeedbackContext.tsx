@@ -1,13 +1,96 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
 
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'is_answered'
+  | 'is_not_answered';
+
+export interface FieldCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+// Display rule: show or hide a field based on answers to earlier fields
+export interface FieldLogic {
+  action: 'show' | 'hide';
+  match: 'all' | 'any';
+  conditions: FieldCondition[];
+}
+
+// Branching rule on a field's own answer: skip ahead to a later field or to the end
+export interface FieldJump {
+  operator: ConditionOperator;
+  value?: string;
+  target: string;
+}
+
+export const END_OF_FORM = 'end';
+
+// Anchor text shown under the 0 and 10 ends of an NPS scale
+export interface NpsLabels {
+  low: string;
+  high: string;
+}
+
+// Matrix answers map each row label to the chosen column, or columns when multi-select
+export type MatrixAnswer = Record<string, string | string[]>;
+
+// Restrictions for `file` fields; `allowedTypes` accepts MIME types and wildcards such as `image/*`
+export interface FileUploadSettings {
+  allowedTypes: string[];
+  maxSizeMb: number;
+  maxFiles: number;
+}
+
+// Answer rules checked in the respondent form and again before a response is stored
+export interface ValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  patternMessage?: string;
+  min?: number;
+  max?: number;
+  // Text fields can opt in to a format; email and phone fields always check theirs
+  format?: 'email' | 'phone';
+  allowedDomains?: string[];
+}
+
+// Strings of a field in one additional locale; missing entries fall back to the default language.
+// Option and row translations are display text only; answers keep the default-language value
+export interface FieldTranslation {
+  label?: string;
+  placeholder?: string;
+  options?: string[];
+  matrixRows?: string[];
+}
+
 export interface FormField {
   id: string;
-  type: 'text' | 'textarea' | 'rating' | 'multiple-choice' | 'email' | 'phone';
+  // 'page-break' is a structural element that starts a new page rather than a question
+  type: 'text' | 'textarea' | 'rating' | 'nps' | 'multiple-choice' | 'matrix' | 'file' | 'email' | 'phone' | 'page-break';
   label: string;
   required: boolean;
   options?: string[];
   placeholder?: string;
+  // Name used to recall this answer in later labels and placeholders, e.g. {{rating}}
+  recallKey?: string;
   maxRating?: number;
+  npsLabels?: NpsLabels;
+  // Matrix statements; the shared answer scale is kept in `options`
+  matrixRows?: string[];
+  matrixMultiple?: boolean;
+  upload?: FileUploadSettings;
+  validation?: ValidationRules;
+  logic?: FieldLogic;
+  jumps?: FieldJump[];
+  translations?: Record<string, FieldTranslation>;
 }
 
 export interface FeedbackTheme {
@@ -54,6 +137,67 @@ export const DEFAULT_THEME: FeedbackTheme = {
   animation: 'fade'
 };
 
+// When a form accepts responses; times are ISO strings and every limit is optional
+export interface FormAvailability {
+  opensAt: string | null;
+  closesAt: string | null;
+  maxResponses: number | null;
+  // Shown to respondents once the form is closed; a default is used when empty
+  closedMessage: string;
+}
+
+// Languages a form is offered in; field strings are translated on each field
+export interface FormLocalization {
+  defaultLocale: string;
+  // Additional locales, without the default
+  locales: string[];
+  translations: Record<string, { title?: string; description?: string }>;
+}
+
+// How a respondent is recognised when the form allows one response each
+export type RespondentIdentity = 'browser' | 'email' | 'invitation';
+
+export interface FormResponseSettings {
+  // Save progress while respondents answer so they can resume later
+  saveProgress: boolean;
+  // Include unfinished responses in Analytics
+  showPartialResponses: boolean;
+  // Accept a single response from each respondent
+  onePerRespondent: boolean;
+  respondentIdentity: RespondentIdentity;
+  // Respondents who already answered may change their response instead of being turned away
+  allowEditing: boolean;
+  // Only open through the form's share links and QR codes, not at /form/<id>
+  linksOnly: boolean;
+}
+
+// How the form behaves on an unattended tablet opened at /kiosk/<form id>
+export interface FormKioskSettings {
+  // Seconds without a touch before a half-finished response is cleared
+  idleTimeoutSeconds: number;
+  // Seconds the thank-you screen stays before a fresh form is shown
+  thankYouSeconds: number;
+  // Staff enter a PIN to leave kiosk mode; without one there is no exit control.
+  // It keeps respondents on the form and is not access control
+  hasExitPin: boolean;
+  // A new PIN for the database to store, or '' to remove it; the PIN itself is never read back
+  exitPin?: string;
+}
+
+// Spam screening applied by the database to every submission; flagged ones are quarantined
+export interface FormProtectionSettings {
+  // Hidden field that people never see and bots tend to fill in
+  honeypot: boolean;
+  minSecondsToSubmit: number;
+  // 0 turns a limit off
+  maxPerIpPerHour: number;
+  maxPerFormPerMinute: number;
+  // Respondents' browsers solve a small hashing puzzle before submitting
+  proofOfWork: boolean;
+  // Leading zero bits required; every extra bit doubles the average work
+  powDifficulty: number;
+}
+
 export interface FeedbackForm {
   id: string;
   title: string;
@@ -63,6 +207,15 @@ export interface FeedbackForm {
   isActive: boolean;
   createdAt: Date;
   responses: number;
+  // Times a respondent who already answered tried again; only loaded for the owner
+  duplicateAttempts?: number;
+  // Schema version the form was loaded at; recorded on submitted responses
+  versionId?: string;
+  availability?: FormAvailability;
+  localization?: FormLocalization;
+  responseSettings?: FormResponseSettings;
+  kiosk?: FormKioskSettings;
+  protection?: FormProtectionSettings;
 }
 
 export interface FeedbackResponse {
@@ -70,7 +223,7 @@ export interface FeedbackResponse {
   formId: string;
   responses: Record<string, any>;
   sentiment: 'positive' | 'neutral' | 'negative';
-  source: 'web' | 'email' | 'qr' | 'sms' | 'social';
+  source: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'kiosk';
   createdAt: Date;
 }
 
@@ -0,0 +1,58 @@
+import {
+  NpsLabels,
+  FileUploadSettings,
+  FormAvailability,
+  FormLocalization,
+  FormResponseSettings,
+  FormKioskSettings,
+  FormProtectionSettings
+} from './FeedbackContext';
+
+// Settings a form or field starts with, and falls back to where a saved value is missing
+export const DEFAULT_NPS_LABELS: NpsLabels = {
+  low: 'Not at all likely',
+  high: 'Extremely likely'
+};
+
+export const DEFAULT_FILE_UPLOAD_SETTINGS: FileUploadSettings = {
+  allowedTypes: ['image/*', 'application/pdf'],
+  maxSizeMb: 10,
+  maxFiles: 3
+};
+
+export const DEFAULT_AVAILABILITY: FormAvailability = {
+  opensAt: null,
+  closesAt: null,
+  maxResponses: null,
+  closedMessage: ''
+};
+
+export const DEFAULT_LOCALIZATION: FormLocalization = {
+  defaultLocale: 'en',
+  locales: [],
+  translations: {}
+};
+
+export const DEFAULT_RESPONSE_SETTINGS: FormResponseSettings = {
+  saveProgress: true,
+  showPartialResponses: false,
+  onePerRespondent: false,
+  respondentIdentity: 'browser',
+  allowEditing: false,
+  linksOnly: false
+};
+
+export const DEFAULT_KIOSK_SETTINGS: FormKioskSettings = {
+  idleTimeoutSeconds: 60,
+  thankYouSeconds: 8,
+  hasExitPin: false
+};
+
+export const DEFAULT_PROTECTION_SETTINGS: FormProtectionSettings = {
+  honeypot: true,
+  minSecondsToSubmit: 3,
+  maxPerIpPerHour: 30,
+  maxPerFormPerMinute: 60,
+  proofOfWork: false,
+  powDifficulty: 14
+};
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { OfflineQueueService, QueueSummary } from '../services/offlineQueueService';
+
+export interface UseOfflineQueueReturn extends QueueSummary {
+  isOnline: boolean;
+}
+
+// navigator.onLine misses captive portals and flaky venue Wi-Fi, so sending is also retried on a timer
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * Sends submissions queued on this device whenever the connection returns, and reports
+ * how many of `formId`'s submissions are still waiting.
+ */
+export const useOfflineQueue = (formId?: string): UseOfflineQueueReturn => {
+  const [summary, setSummary] = useState<QueueSummary>({ queued: 0, failed: 0 });
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const refresh = () => {
+      OfflineQueueService.getSummary(formId)
+        .then(next => isMounted && setSummary(next))
+        .catch(error => console.warn('Failed to read the offline queue:', error));
+    };
+    const sync = () => {
+      OfflineQueueService.flush();
+    };
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    const unsubscribe = OfflineQueueService.subscribe(refresh);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const timer = setInterval(sync, RETRY_INTERVAL_MS);
+    refresh();
+    sync();
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(timer);
+    };
+  }, [formId]);
+
+  return { ...summary, isOnline };
+};
@@ -0,0 +1,109 @@
+import { useReducer, useCallback } from 'react';
+
+export interface UndoableSetOptions {
+  // Consecutive updates with the same key within a short window become one undo step,
+  // so typing a label or dragging a field is undone in one go
+  coalesceKey?: string;
+}
+
+export interface UseUndoableStateReturn<T> {
+  state: T;
+  set: (update: T | ((prev: T) => T), options?: UndoableSetOptions) => void;
+  reset: (state: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastChangeAt: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'SET'; update: T | ((prev: T) => T); coalesceKey?: string; at: number }
+  | { type: 'RESET'; state: T }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
+
+const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+const historyReducer = <T>(history: History<T>, action: HistoryAction<T>): History<T> => {
+  switch (action.type) {
+    case 'SET': {
+      const next = typeof action.update === 'function'
+        ? (action.update as (prev: T) => T)(history.present)
+        : action.update;
+
+      if (Object.is(next, history.present)) return history;
+
+      const coalesce = !!action.coalesceKey &&
+        action.coalesceKey === history.lastKey &&
+        action.at - history.lastChangeAt < COALESCE_WINDOW_MS;
+
+      return {
+        past: coalesce ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastKey: action.coalesceKey || null,
+        lastChangeAt: action.at
+      };
+    }
+    case 'RESET':
+      return { past: [], present: action.state, future: [], lastKey: null, lastChangeAt: 0 };
+    case 'UNDO':
+      if (history.past.length === 0) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        lastKey: null,
+        lastChangeAt: 0
+      };
+    case 'REDO':
+      if (history.future.length === 0) return history;
+      return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        lastKey: null,
+        lastChangeAt: 0
+      };
+    default:
+      return history;
+  }
+};
+
+/**
+ * useState with an undo/redo history. `reset` replaces the state and clears the
+ * history, e.g. when a different form is loaded.
+ */
+export const useUndoableState = <T>(initialState: T): UseUndoableStateReturn<T> => {
+  const [history, dispatch] = useReducer(
+    historyReducer as (history: History<T>, action: HistoryAction<T>) => History<T>,
+    { past: [], present: initialState, future: [], lastKey: null, lastChangeAt: 0 }
+  );
+
+  const set = useCallback((update: T | ((prev: T) => T), options: UndoableSetOptions = {}) => {
+    dispatch({ type: 'SET', update, coalesceKey: options.coalesceKey, at: Date.now() });
+  }, []);
+
+  const reset = useCallback((state: T) => dispatch({ type: 'RESET', state }), []);
+  const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
+  const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -0,0 +1,326 @@
+import { FormField, FeedbackTheme, DEFAULT_THEME } from '../context/FeedbackContext';
+import { DEFAULT_NPS_LABELS, DEFAULT_FILE_UPLOAD_SETTINGS } from '../context/formDefaults';
+
+export type TemplateCategory = 'csat' | 'nps' | 'ces' | 'product' | 'event' | 'bug' | 'employee' | 'custom';
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  description: string;
+  category: TemplateCategory;
+  fields: FormField[];
+  theme: FeedbackTheme;
+  // Set for templates saved from an account's own forms
+  isPrivate?: boolean;
+}
+
+const AGREEMENT_SCALE = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+export const FORM_TEMPLATES: FormTemplate[] = [
+  {
+    id: 'builtin-csat',
+    name: 'Customer Satisfaction (CSAT)',
+    description: 'Measure how satisfied customers are with a recent purchase or interaction',
+    category: 'csat',
+    fields: [
+      {
+        id: 'csat-rating',
+        type: 'rating',
+        label: 'How satisfied were you with your experience?',
+        required: true,
+        maxRating: 5
+      },
+      {
+        id: 'csat-liked',
+        type: 'textarea',
+        label: 'What did you like most?',
+        required: false,
+        placeholder: 'Tell us what went well'
+      },
+      {
+        id: 'csat-improve',
+        type: 'textarea',
+        label: 'What could we have done better?',
+        required: false,
+        placeholder: 'Tell us what we could improve',
+        logic: {
+          action: 'show',
+          match: 'all',
+          conditions: [{ fieldId: 'csat-rating', operator: 'less_than_or_equal', value: '3' }]
+        }
+      },
+      {
+        id: 'csat-email',
+        type: 'email',
+        label: 'Email (optional, if you would like a reply)',
+        required: false,
+        placeholder: 'you@example.com'
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#10B981',
+      gradientColors: ['#10B981', '#3B82F6']
+    }
+  },
+  {
+    id: 'builtin-nps',
+    name: 'Net Promoter Score (NPS)',
+    description: 'Track customer loyalty with the standard 0-10 recommendation question',
+    category: 'nps',
+    fields: [
+      {
+        id: 'nps-score',
+        type: 'nps',
+        label: 'How likely are you to recommend us to a friend or colleague?',
+        required: true,
+        npsLabels: DEFAULT_NPS_LABELS
+      },
+      {
+        id: 'nps-reason',
+        type: 'textarea',
+        label: 'What is the main reason for your score?',
+        required: false,
+        placeholder: 'Share the reason behind your score'
+      },
+      {
+        id: 'nps-detractor',
+        type: 'textarea',
+        label: 'What is one thing we could do to earn a higher score?',
+        required: false,
+        logic: {
+          action: 'show',
+          match: 'all',
+          conditions: [{ fieldId: 'nps-score', operator: 'less_than_or_equal', value: '6' }]
+        }
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#6366F1',
+      gradientColors: ['#6366F1', '#8B5CF6']
+    }
+  },
+  {
+    id: 'builtin-ces',
+    name: 'Customer Effort Score (CES)',
+    description: 'Find out how easy it was for customers to get what they needed',
+    category: 'ces',
+    fields: [
+      {
+        id: 'ces-effort',
+        type: 'rating',
+        label: 'How easy was it to get your issue resolved today?',
+        required: true,
+        maxRating: 7
+      },
+      {
+        id: 'ces-channel',
+        type: 'multiple-choice',
+        label: 'How did you contact us?',
+        required: false,
+        options: ['Live chat', 'Email', 'Phone', 'Help center', 'In person']
+      },
+      {
+        id: 'ces-friction',
+        type: 'textarea',
+        label: 'What made it harder than it should have been?',
+        required: false,
+        logic: {
+          action: 'show',
+          match: 'all',
+          conditions: [{ fieldId: 'ces-effort', operator: 'less_than_or_equal', value: '4' }]
+        }
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#0EA5E9',
+      gradientColors: ['#0EA5E9', '#22D3EE'],
+      layout: 'card'
+    }
+  },
+  {
+    id: 'builtin-product',
+    name: 'Product Feedback',
+    description: 'Learn how people use your product and what they want next',
+    category: 'product',
+    fields: [
+      {
+        id: 'product-usage',
+        type: 'multiple-choice',
+        label: 'How often do you use the product?',
+        required: true,
+        options: ['Daily', 'Weekly', 'Monthly', 'Rarely']
+      },
+      {
+        id: 'product-features',
+        type: 'matrix',
+        label: 'How much do you agree with the following statements?',
+        required: false,
+        matrixRows: ['The product is easy to use', 'The product is reliable', 'The product is good value for money'],
+        options: AGREEMENT_SCALE,
+        matrixMultiple: false
+      },
+      {
+        id: 'product-missing',
+        type: 'textarea',
+        label: 'Which feature would you like us to build next?',
+        required: false
+      },
+      {
+        id: 'product-overall',
+        type: 'rating',
+        label: 'Overall, how would you rate the product?',
+        required: true,
+        maxRating: 5
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#8B5CF6',
+      backgroundType: 'gradient',
+      gradientColors: ['#EDE9FE', '#FFFFFF']
+    }
+  },
+  {
+    id: 'builtin-event',
+    name: 'Event Feedback',
+    description: 'Collect attendee feedback after a conference, webinar or meetup',
+    category: 'event',
+    fields: [
+      {
+        id: 'event-overall',
+        type: 'rating',
+        label: 'How would you rate the event overall?',
+        required: true,
+        maxRating: 5
+      },
+      {
+        id: 'event-aspects',
+        type: 'matrix',
+        label: 'How would you rate each part of the event?',
+        required: false,
+        matrixRows: ['Speakers', 'Content', 'Venue', 'Organization', 'Networking'],
+        options: ['Poor', 'Fair', 'Good', 'Very good', 'Excellent'],
+        matrixMultiple: false
+      },
+      {
+        id: 'event-highlight',
+        type: 'textarea',
+        label: 'What was the highlight for you?',
+        required: false
+      },
+      {
+        id: 'event-return',
+        type: 'multiple-choice',
+        label: 'Would you attend again?',
+        required: false,
+        options: ['Yes', 'Maybe', 'No']
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#F59E0B',
+      gradientColors: ['#F59E0B', '#EF4444']
+    }
+  },
+  {
+    id: 'builtin-bug',
+    name: 'Bug Report',
+    description: 'Let users report problems with steps to reproduce and screenshots',
+    category: 'bug',
+    fields: [
+      {
+        id: 'bug-summary',
+        type: 'text',
+        label: 'Summary of the problem',
+        required: true,
+        placeholder: 'e.g. Checkout button does nothing',
+        validation: { maxLength: 120 }
+      },
+      {
+        id: 'bug-severity',
+        type: 'multiple-choice',
+        label: 'How much does this affect you?',
+        required: true,
+        options: ['Blocks my work', 'Major inconvenience', 'Minor annoyance']
+      },
+      {
+        id: 'bug-steps',
+        type: 'textarea',
+        label: 'Steps to reproduce',
+        required: true,
+        placeholder: '1. Go to...\n2. Click on...\n3. See the error'
+      },
+      {
+        id: 'bug-screenshots',
+        type: 'file',
+        label: 'Screenshots or recordings',
+        required: false,
+        upload: {
+          ...DEFAULT_FILE_UPLOAD_SETTINGS,
+          allowedTypes: ['image/*', 'video/*']
+        }
+      },
+      {
+        id: 'bug-email',
+        type: 'email',
+        label: 'Email for follow-up questions',
+        required: false
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#EF4444',
+      layout: 'left-aligned',
+      spacing: 'compact'
+    }
+  },
+  {
+    id: 'builtin-employee',
+    name: 'Employee Pulse',
+    description: 'Run a short, regular check-in on team engagement and wellbeing',
+    category: 'employee',
+    fields: [
+      {
+        id: 'pulse-engagement',
+        type: 'matrix',
+        label: 'How much do you agree with the following statements?',
+        required: true,
+        matrixRows: [
+          'I feel valued for the work I do',
+          'I have the tools I need to do my job',
+          'My workload is manageable',
+          'I would recommend this team as a great place to work'
+        ],
+        options: AGREEMENT_SCALE,
+        matrixMultiple: false
+      },
+      {
+        id: 'pulse-mood',
+        type: 'rating',
+        label: 'How are you feeling about work this week?',
+        required: true,
+        maxRating: 5
+      },
+      {
+        id: 'pulse-comments',
+        type: 'textarea',
+        label: 'Anything else you would like to share?',
+        required: false,
+        placeholder: 'Your answers are anonymous'
+      }
+    ],
+    theme: {
+      ...DEFAULT_THEME,
+      primaryColor: '#14B8A6',
+      gradientColors: ['#14B8A6', '#3B82F6'],
+      animation: 'slide'
+    }
+  }
+];
+
+export const getTemplateById = (id: string): FormTemplate | undefined => {
+  return FORM_TEMPLATES.find(template => template.id === id);
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { FeedbackForm, FeedbackTheme, FormField } from '../context/FeedbackContext';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -23,8 +24,13 @@ export interface Database {
           created_at: string;
           updated_at: string;
           response_count: number;
+          duplicate_attempts: number;
           settings: any;
           metadata: any;
+          opens_at: string | null;
+          closes_at: string | null;
+          max_responses: number | null;
+          closed_message: string;
         };
         Insert: {
           id?: string;
@@ -35,8 +41,13 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           response_count?: number;
+          duplicate_attempts?: number;
           settings?: any;
           metadata?: any;
+          opens_at?: string | null;
+          closes_at?: string | null;
+          max_responses?: number | null;
+          closed_message?: string;
         };
         Update: {
           id?: string;
@@ -47,15 +58,20 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           response_count?: number;
+          duplicate_attempts?: number;
           settings?: any;
           metadata?: any;
+          opens_at?: string | null;
+          closes_at?: string | null;
+          max_responses?: number | null;
+          closed_message?: string;
         };
       };
       form_fields: {
         Row: {
           id: string;
           form_id: string;
-          field_type: 'text' | 'textarea' | 'rating' | 'multiple-choice' | 'email' | 'phone';
+          field_type: 'text' | 'textarea' | 'rating' | 'nps' | 'multiple-choice' | 'matrix' | 'file' | 'email' | 'phone' | 'page-break';
           label: string;
           placeholder: string | null;
           is_required: boolean;
@@ -63,12 +79,13 @@ export interface Database {
           options: any;
           validation_rules: any;
           settings: any;
+          archived_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           form_id: string;
-          field_type: 'text' | 'textarea' | 'rating' | 'multiple-choice' | 'email' | 'phone';
+          field_type: 'text' | 'textarea' | 'rating' | 'nps' | 'multiple-choice' | 'matrix' | 'file' | 'email' | 'phone' | 'page-break';
           label: string;
           placeholder?: string | null;
           is_required?: boolean;
@@ -76,12 +93,13 @@ export interface Database {
           options?: any;
           validation_rules?: any;
           settings?: any;
+          archived_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           form_id?: string;
-          field_type?: 'text' | 'textarea' | 'rating' | 'multiple-choice' | 'email' | 'phone';
+          field_type?: 'text' | 'textarea' | 'rating' | 'nps' | 'multiple-choice' | 'matrix' | 'file' | 'email' | 'phone' | 'page-break';
           label?: string;
           placeholder?: string | null;
           is_required?: boolean;
@@ -89,6 +107,7 @@ export interface Database {
           options?: any;
           validation_rules?: any;
           settings?: any;
+          archived_at?: string | null;
           created_at?: string;
         };
       };
@@ -207,6 +226,8 @@ export interface Database {
           is_active: boolean;
           expires_at: string | null;
           click_count: number;
+          access_token: string;
+          label: string;
           settings: any;
           created_at: string;
         };
@@ -218,6 +239,8 @@ export interface Database {
           is_active?: boolean;
           expires_at?: string | null;
           click_count?: number;
+          access_token?: string;
+          label?: string;
           settings?: any;
           created_at?: string;
         };
@@ -229,6 +252,8 @@ export interface Database {
           is_active?: boolean;
           expires_at?: string | null;
           click_count?: number;
+          access_token?: string;
+          label?: string;
           settings?: any;
           created_at?: string;
         };
@@ -243,6 +268,9 @@ export interface Database {
           foreground_color: string;
           background_color: string;
           logo_url: string | null;
+          label: string;
+          location_code: string | null;
+          tracking_params: Record<string, string>;
           scan_count: number;
           is_active: boolean;
           created_at: string;
@@ -256,6 +284,9 @@ export interface Database {
           foreground_color?: string;
           background_color?: string;
           logo_url?: string | null;
+          label?: string;
+          location_code?: string | null;
+          tracking_params?: Record<string, string>;
           scan_count?: number;
           is_active?: boolean;
           created_at?: string;
@@ -269,6 +300,9 @@ export interface Database {
           foreground_color?: string;
           background_color?: string;
           logo_url?: string | null;
+          label?: string;
+          location_code?: string | null;
+          tracking_params?: Record<string, string>;
           scan_count?: number;
           is_active?: boolean;
           created_at?: string;
@@ -313,40 +347,82 @@ export interface Database {
         Row: {
           id: string;
           form_id: string;
-          response_source: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'embedded';
+          form_version_id: string | null;
+          locale: string | null;
+          device_id: string | null;
+          ip_hash: string | null;
+          quarantined: boolean;
+          quarantine_reasons: string[];
+          respondent_key: string | null;
+          link_id: string | null;
+          qr_code_id: string | null;
+          location_label: string | null;
+          response_source: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'embedded' | 'kiosk';
           user_agent: string | null;
           ip_address: string | null;
           location_data: any;
           sentiment: 'positive' | 'neutral' | 'negative' | null;
           overall_rating: number | null;
+          nps_score: number | null;
           is_complete: boolean;
+          resume_token: string | null;
           submitted_at: string;
+          received_at: string;
+          updated_at: string;
           metadata: any;
         };
         Insert: {
           id?: string;
           form_id: string;
-          response_source?: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'embedded';
+          form_version_id?: string | null;
+          locale?: string | null;
+          device_id?: string | null;
+          ip_hash?: string | null;
+          quarantined?: boolean;
+          quarantine_reasons?: string[];
+          respondent_key?: string | null;
+          link_id?: string | null;
+          qr_code_id?: string | null;
+          location_label?: string | null;
+          response_source?: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'embedded' | 'kiosk';
           user_agent?: string | null;
           ip_address?: string | null;
           location_data?: any;
           sentiment?: 'positive' | 'neutral' | 'negative' | null;
           overall_rating?: number | null;
+          nps_score?: number | null;
           is_complete?: boolean;
+          resume_token?: string | null;
           submitted_at?: string;
+          received_at?: string;
+          updated_at?: string;
           metadata?: any;
         };
         Update: {
           id?: string;
           form_id?: string;
-          response_source?: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'embedded';
+          form_version_id?: string | null;
+          locale?: string | null;
+          device_id?: string | null;
+          ip_hash?: string | null;
+          quarantined?: boolean;
+          quarantine_reasons?: string[];
+          respondent_key?: string | null;
+          link_id?: string | null;
+          qr_code_id?: string | null;
+          location_label?: string | null;
+          response_source?: 'web' | 'email' | 'qr' | 'sms' | 'social' | 'embedded' | 'kiosk';
           user_agent?: string | null;
           ip_address?: string | null;
           location_data?: any;
           sentiment?: 'positive' | 'neutral' | 'negative' | null;
           overall_rating?: number | null;
+          nps_score?: number | null;
           is_complete?: boolean;
+          resume_token?: string | null;
           submitted_at?: string;
+          received_at?: string;
+          updated_at?: string;
           metadata?: any;
         };
       };
@@ -354,7 +430,7 @@ export interface Database {
         Row: {
           id: string;
           response_id: string;
-          field_id: string;
+          field_id: string | null;
           field_value: string | null;
           field_data: any;
           created_at: string;
@@ -362,7 +438,7 @@ export interface Database {
         Insert: {
           id?: string;
           response_id: string;
-          field_id: string;
+          field_id: string | null;
           field_value?: string | null;
           field_data?: any;
           created_at?: string;
@@ -370,12 +446,402 @@ export interface Database {
         Update: {
           id?: string;
           response_id?: string;
-          field_id?: string;
+          field_id?: string | null;
           field_value?: string | null;
           field_data?: any;
           created_at?: string;
         };
       };
+      form_versions: {
+        Row: {
+          id: string;
+          form_id: string;
+          version_number: number;
+          title: string;
+          description: string | null;
+          fields: FormVersionField[];
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          form_id: string;
+          version_number: number;
+          title: string;
+          description?: string | null;
+          fields?: FormVersionField[];
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          form_id?: string;
+          version_number?: number;
+          title?: string;
+          description?: string | null;
+          fields?: FormVersionField[];
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      form_templates: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          description: string | null;
+          category: string;
+          fields: FormField[];
+          theme: Partial<FeedbackTheme>;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          description?: string | null;
+          category?: string;
+          fields?: FormField[];
+          theme?: Partial<FeedbackTheme>;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          description?: string | null;
+          category?: string;
+          fields?: FormField[];
+          theme?: Partial<FeedbackTheme>;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      form_drafts: {
+        Row: {
+          id: string;
+          user_id: string;
+          draft_key: string;
+          form_id: string | null;
+          title: string;
+          data: FeedbackForm;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          draft_key: string;
+          form_id?: string | null;
+          title?: string;
+          data: FeedbackForm;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          draft_key?: string;
+          form_id?: string | null;
+          title?: string;
+          data?: FeedbackForm;
+          updated_at?: string;
+        };
+      };
+      submission_challenges: {
+        Row: {
+          id: string;
+          form_id: string;
+          difficulty: number;
+          created_at: string;
+          used_at: string | null;
+          ip_hash: string | null;
+        };
+        Insert: {
+          id?: string;
+          form_id: string;
+          difficulty?: number;
+          created_at?: string;
+          used_at?: string | null;
+          ip_hash?: string | null;
+        };
+        Update: {
+          id?: string;
+          form_id?: string;
+          difficulty?: number;
+          created_at?: string;
+          used_at?: string | null;
+          ip_hash?: string | null;
+        };
+      };
+      respondent_passes: {
+        Row: {
+          id: string;
+          form_id: string;
+          respondent_key: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          form_id: string;
+          respondent_key: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          form_id?: string;
+          respondent_key?: string;
+          created_at?: string;
+        };
+      };
+      respondent_email_codes: {
+        Row: {
+          id: string;
+          form_id: string;
+          respondent_key: string;
+          code_hash: string;
+          failed_attempts: number;
+          expires_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          form_id: string;
+          respondent_key: string;
+          code_hash: string;
+          failed_attempts?: number;
+          expires_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          form_id?: string;
+          respondent_key?: string;
+          code_hash?: string;
+          failed_attempts?: number;
+          expires_at?: string;
+          created_at?: string;
+        };
+      };
+      replaced_uploads: {
+        Row: {
+          path: string;
+          form_id: string;
+          created_at: string;
+        };
+        Insert: {
+          path: string;
+          form_id: string;
+          created_at?: string;
+        };
+        Update: {
+          path?: string;
+          form_id?: string;
+          created_at?: string;
+        };
+      };
+      form_kiosk_pins: {
+        Row: {
+          form_id: string;
+          pin_hash: string;
+          failed_attempts: number;
+          locked_until: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          form_id: string;
+          pin_hash: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          form_id?: string;
+          pin_hash?: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          updated_at?: string;
+        };
+      };
+    };
+    Functions: {
+      save_form: {
+        Args: {
+          p_form_id: string | null;
+          p_form: Pick<
+            Database['public']['Tables']['forms']['Insert'],
+            'title' | 'description' | 'is_active' | 'opens_at' | 'closes_at' | 'max_responses' | 'closed_message' | 'settings'
+          >;
+          p_fields: Omit<Database['public']['Tables']['form_fields']['Insert'], 'form_id'>[];
+          p_theme: Omit<Database['public']['Tables']['form_themes']['Insert'], 'form_id'>;
+          p_origin: string;
+        };
+        Returns: SavedFormRecord;
+      };
+      duplicate_form: {
+        Args: {
+          p_form_id: string;
+          p_include_signatures: boolean;
+          p_origin: string;
+        };
+        Returns: SavedFormRecord;
+      };
+      form_closed_reason: {
+        Args: {
+          p_form_id: string;
+        };
+        Returns: 'inactive' | 'not_open' | 'ended' | 'full' | null;
+      };
+      latest_form_version_id: {
+        Args: {
+          p_form_id: string;
+        };
+        Returns: string | null;
+      };
+      get_shared_form: {
+        Args: {
+          p_form_id: string;
+          p_link_id: string | null;
+          p_qr_code_id: string | null;
+        };
+        // The columns anonymous respondents may read, with the form's fields and themes
+        Returns: (Pick<
+          Database['public']['Tables']['forms']['Row'],
+          'id' | 'title' | 'description' | 'is_active' | 'settings' | 'created_at' | 'response_count' |
+          'opens_at' | 'closes_at' | 'max_responses' | 'closed_message'
+        > & {
+          form_fields: Database['public']['Tables']['form_fields']['Row'][];
+          form_themes: Database['public']['Tables']['form_themes']['Row'][];
+        }) | null;
+      };
+      check_kiosk_exit_pin: {
+        Args: {
+          p_form_id: string;
+          p_pin: string;
+        };
+        Returns: boolean;
+      };
+      submit_form_response: {
+        Args: {
+          p_response: Record<string, unknown>;
+          p_answers: Array<Record<string, unknown>>;
+        };
+        Returns: { status: 'stored' | 'exists' | 'duplicate' };
+      };
+      save_partial_response: {
+        Args: {
+          p_form_id: string;
+          p_token: string;
+          p_answers: Record<string, unknown>;
+          p_page: number;
+          p_source: string;
+          p_locale: string | null;
+          p_version_id: string | null;
+        };
+        Returns: string;
+      };
+      get_partial_response: {
+        Args: {
+          p_token: string;
+        };
+        Returns: {
+          response_id: string;
+          form_id: string;
+          answers: Record<string, unknown>;
+          page: number;
+          locale: string | null;
+          updated_at: string;
+        } | null;
+      };
+      discard_partial_response: {
+        Args: {
+          p_token: string;
+        };
+        Returns: undefined;
+      };
+      issue_submission_challenge: {
+        Args: {
+          p_form_id: string;
+        };
+        // Null when the form does not ask for a challenge
+        Returns: { id: string; difficulty: number; issued_at: string } | null;
+      };
+      release_quarantined_response: {
+        Args: {
+          p_response_id: string;
+        };
+        Returns: undefined;
+      };
+      create_respondent_email_code: {
+        Args: {
+          p_form_id: string;
+          p_email: string;
+        };
+        Returns: string;
+      };
+      verify_respondent_email_code: {
+        Args: {
+          p_form_id: string;
+          p_email: string;
+          p_code: string;
+        };
+        Returns: string | null;
+      };
+      check_respondent: {
+        Args: {
+          p_form_id: string;
+          p_token: string | null;
+          p_source: string;
+          p_response_id: string | null;
+        };
+        Returns: {
+          status: 'open' | 'unverified' | 'new' | 'editable' | 'responded';
+          response_id?: string;
+          submitted_at?: string;
+          answers?: Record<string, unknown>;
+        };
+      };
+      form_link_slug_available: {
+        Args: {
+          p_slug: string;
+        };
+        Returns: boolean;
+      };
+      open_form_link: {
+        Args: {
+          p_slug: string;
+          p_key: string | null;
+        };
+        Returns: {
+          status: 'ok' | 'expired' | 'inactive' | 'not_found';
+          form_id?: string;
+          link_id?: string;
+          expires_at?: string | null;
+        };
+      };
+      open_qr_code: {
+        Args: {
+          p_id: string;
+        };
+        Returns: {
+          status: 'ok' | 'inactive' | 'not_found';
+          form_id?: string;
+          qr_code_id?: string;
+        };
+      };
     };
   };
-}
\ No newline at end of file
+}
+
+// A field as kept in a form version snapshot
+export type FormVersionField = Omit<Database['public']['Tables']['form_fields']['Row'], 'archived_at' | 'created_at'>;
+
+// What save_form and duplicate_form return: every row the form was saved to
+export interface SavedFormRecord {
+  form: Database['public']['Tables']['forms']['Row'];
+  fields: Database['public']['Tables']['form_fields']['Row'][];
+  theme: Database['public']['Tables']['form_themes']['Row'] | null;
+  link: Database['public']['Tables']['form_links']['Row'];
+  qr_code: Database['public']['Tables']['form_qr_codes']['Row'];
+  version: Database['public']['Tables']['form_versions']['Row'];
+}
@@ -0,0 +1,114 @@
+import { FormField } from '../context/FeedbackContext';
+
+export interface PipingToken {
+  token: string;
+  label: string;
+}
+
+// {{rating}} recalls the answer of the field with that recall key; {{url.source}} a URL parameter
+const TOKEN_PATTERN = /\{\{\s*([A-Za-z][\w-]*(?:\.[\w-]+)?)\s*\}\}/g;
+const RECALL_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+const URL_PREFIX = 'url.';
+
+export class AnswerPipingService {
+  static readonly URL_TOKEN_EXAMPLE = `${URL_PREFIX}name`;
+
+  static isValidRecallKey(key: string): boolean {
+    return RECALL_KEY_PATTERN.test(key) && key !== 'url';
+  }
+
+  // Lowercase key from a label or field type that no other field uses yet, e.g. "rating_2"
+  static createRecallKey(base: string, fields: FormField[]): string {
+    const slug = base
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^[^a-z]+|_+$/g, '')
+      .slice(0, 30) || 'answer';
+    const key = slug === 'url' ? 'url_param' : slug;
+    const taken = new Set(fields.map(field => field.recallKey).filter(Boolean));
+
+    if (!taken.has(key)) return key;
+
+    let suffix = 2;
+    while (taken.has(`${key}_${suffix}`)) suffix++;
+    return `${key}_${suffix}`;
+  }
+
+  static getTokens(text: string | undefined): string[] {
+    return Array.from((text || '').matchAll(TOKEN_PATTERN), match => match[1]);
+  }
+
+  // Earlier questions that can be recalled by the field at `index`
+  static getAvailableTokens(fields: FormField[], index: number): PipingToken[] {
+    return fields
+      .slice(0, index)
+      .filter(field => field.type !== 'page-break' && field.recallKey)
+      .map(field => ({ token: field.recallKey as string, label: field.label }));
+  }
+
+  // Warnings per field ID for tokens that point at unknown, the same or later questions
+  static findReferenceProblems(fields: FormField[]): Record<string, string[]> {
+    const problems: Record<string, string[]> = {};
+
+    fields.forEach((field, index) => {
+      const tokens = [...this.getTokens(field.label), ...this.getTokens(field.placeholder)];
+      const fieldProblems = new Set<string>();
+
+      tokens
+        .filter(token => !token.startsWith(URL_PREFIX))
+        .forEach(token => {
+          const targetIndex = fields.findIndex(other => other.recallKey === token);
+
+          if (targetIndex === -1) {
+            fieldProblems.add(`{{${token}}} does not match any question`);
+          } else if (targetIndex === index) {
+            fieldProblems.add(`{{${token}}} refers to this question itself and will be empty`);
+          } else if (targetIndex > index) {
+            fieldProblems.add(`{{${token}}} refers to a later question and will be empty here`);
+          }
+        });
+
+      if (fieldProblems.size > 0) {
+        problems[field.id] = Array.from(fieldProblems);
+      }
+    });
+
+    return problems;
+  }
+
+  // Turns an answer into the text shown inside a label; unanswered questions become empty
+  static formatAnswer(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (value instanceof File) return value.name;
+    if (Array.isArray(value)) {
+      return value.map(item => this.formatAnswer(item)).filter(Boolean).join(', ');
+    }
+    if (typeof value === 'object') {
+      return Object.values(value as Record<string, unknown>)
+        .map(item => this.formatAnswer(item))
+        .filter(Boolean)
+        .join(', ');
+    }
+    return '';
+  }
+
+  static resolve(
+    text: string | undefined,
+    fields: FormField[],
+    answers: Record<string, unknown>,
+    params: URLSearchParams
+  ): string {
+    if (!text) return '';
+
+    return text.replace(TOKEN_PATTERN, (_match, token: string) => {
+      if (token.startsWith(URL_PREFIX)) {
+        return params.get(token.slice(URL_PREFIX.length)) || '';
+      }
+
+      const field = fields.find(other => other.recallKey === token);
+      return field ? this.formatAnswer(answers[field.id]) : '';
+    });
+  }
+}
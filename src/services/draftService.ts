@@ -0,0 +1,165 @@
+import { supabase } from '../lib/supabase';
+import { FeedbackForm } from '../context/FeedbackContext';
+
+// Unsaved builder state for a new form (`formId` null) or an existing one
+export interface FormDraft {
+  key: string;
+  formId: string | null;
+  form: FeedbackForm;
+  updatedAt: string;
+}
+
+export class DraftService {
+  private static readonly STORAGE_PREFIX = 'formBuilderDraft:';
+
+  static getDraftKey(form: FeedbackForm, isEditMode: boolean): string {
+    return isEditMode ? form.id : `new-${form.id}`;
+  }
+
+  // Read from the stored session so drafts are still kept while offline
+  private static async getUserId(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id || null;
+  }
+
+  // Drafts in this browser are kept per account, so another user signing in never sees them
+  private static getStorageKey(userId: string, key: string): string {
+    return `${this.STORAGE_PREFIX}${userId}:${key}`;
+  }
+
+  // JSON turns dates into strings, so restore them when a draft is read back
+  private static toDraft(key: string, formId: string | null, form: FeedbackForm, updatedAt: string): FormDraft {
+    return {
+      key,
+      formId,
+      form: { ...form, createdAt: new Date(form.createdAt) },
+      updatedAt
+    };
+  }
+
+  // A new kiosk exit PIN is only handed to the database when the form is saved, never kept in a
+  // draft; '' (remove the PIN) is kept, since it reveals nothing
+  private static withoutExitPin(form: FeedbackForm): FeedbackForm {
+    if (!form.kiosk?.exitPin) return form;
+
+    const kiosk = { ...form.kiosk };
+    delete kiosk.exitPin;
+    return { ...form, kiosk };
+  }
+
+  private static getLocalDrafts(userId: string): FormDraft[] {
+    const drafts: FormDraft[] = [];
+    const prefix = this.getStorageKey(userId, '');
+
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const storageKey = localStorage.key(i);
+        if (!storageKey?.startsWith(prefix)) continue;
+
+        const draft = JSON.parse(localStorage.getItem(storageKey) || 'null');
+        if (draft?.form) {
+          drafts.push(this.toDraft(draft.key, draft.formId, draft.form, draft.updatedAt));
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read local drafts:', error);
+    }
+
+    return drafts;
+  }
+
+  /**
+   * Stores the draft in this browser right away and in the account so it can be
+   * restored on another device. Remote failures are logged, not thrown.
+   */
+  static async saveDraft(key: string, formId: string | null, form: FeedbackForm): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    form = this.withoutExitPin(form);
+
+    try {
+      localStorage.setItem(this.getStorageKey(userId, key), JSON.stringify({ key, formId, form, updatedAt }));
+    } catch (error) {
+      console.warn('Failed to store draft locally:', error);
+    }
+
+    try {
+      const { error } = await supabase
+        .from('form_drafts')
+        .upsert({
+          user_id: userId,
+          draft_key: key,
+          form_id: formId,
+          title: form.title,
+          data: form,
+          updated_at: updatedAt
+        }, { onConflict: 'user_id,draft_key' });
+
+      if (error) {
+        console.warn('Failed to sync draft:', error.message);
+      }
+    } catch (error) {
+      console.warn('Failed to sync draft:', error);
+      // Don't fail the builder for this; the local copy is still available
+    }
+  }
+
+  // Drafts from this browser and the account, newest copy of each key first
+  static async getDrafts(): Promise<FormDraft[]> {
+    const drafts = new Map<string, FormDraft>();
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    this.getLocalDrafts(userId).forEach(draft => drafts.set(draft.key, draft));
+
+    try {
+      const { data, error } = await supabase
+        .from('form_drafts')
+        .select('draft_key, form_id, data, updated_at')
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to fetch drafts: ${error.message}`);
+      }
+
+      (data || []).forEach(row => {
+        const existing = drafts.get(row.draft_key);
+        if (!existing || new Date(row.updated_at) > new Date(existing.updatedAt)) {
+          drafts.set(row.draft_key, this.toDraft(row.draft_key, row.form_id, row.data, row.updated_at));
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to load synced drafts:', error);
+    }
+
+    return Array.from(drafts.values())
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  static async deleteDraft(key: string): Promise<void> {
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    try {
+      localStorage.removeItem(this.getStorageKey(userId, key));
+    } catch (error) {
+      console.warn('Failed to remove local draft:', error);
+    }
+
+    try {
+      const { error } = await supabase
+        .from('form_drafts')
+        .delete()
+        .eq('user_id', userId)
+        .eq('draft_key', key);
+
+      if (error) {
+        console.warn('Failed to delete synced draft:', error.message);
+      }
+    } catch (error) {
+      console.warn('Failed to delete synced draft:', error);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { SentimentService } from './sentimentService';
+import { FileUploadService } from './fileUploadService';
 
 export interface FeedbackUpdateData {
   id: string;
@@ -195,7 +196,10 @@ export class FeedbackUpdateService {
         };
       }
 
-      // Step 4: Perform deletion with retry logic
+      // Step 4: Collect attachments before the cascade removes their references
+      const attachmentPaths = await FileUploadService.getResponseFilePaths(feedbackId);
+
+      // Step 5: Perform deletion with retry logic
       const deleteResult = await this.deleteFeedbackFromDatabase(feedbackId);
       if (!deleteResult.success) {
         return {
@@ -205,7 +209,14 @@ export class FeedbackUpdateService {
         };
       }
 
-      // Step 5: Invalidate related caches
+      // Step 6: Remove uploaded attachments from storage
+      try {
+        await FileUploadService.removeFiles(attachmentPaths);
+      } catch (error) {
+        console.warn('Failed to delete feedback attachments:', error);
+      }
+
+      // Step 7: Invalidate related caches
       await this.invalidateRelatedCaches(feedbackId);
 
       return {
@@ -0,0 +1,143 @@
+import { FormField, ValidationRules } from '../context/FeedbackContext';
+import { FormLogicService } from './formLogicService';
+
+export class FieldValidationService {
+  private static readonly EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  private static readonly PHONE_PATTERN = /^\+?[0-9\s\-().]+$/;
+
+  // Which rule groups the builder offers for each field type
+  static supportsLength(type: FormField['type']): boolean {
+    return ['text', 'textarea', 'email', 'phone'].includes(type);
+  }
+
+  static supportsPattern(type: FormField['type']): boolean {
+    return ['text', 'textarea', 'phone'].includes(type);
+  }
+
+  static supportsRange(type: FormField['type']): boolean {
+    return ['text', 'rating', 'nps'].includes(type);
+  }
+
+  static supportsDomains(field: FormField): boolean {
+    return field.type === 'email' || (field.type === 'text' && field.validation?.format === 'email');
+  }
+
+  static hasRules(field: FormField): boolean {
+    return !!field.validation && Object.values(field.validation).some(value =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+    );
+  }
+
+  // Returns the author's pattern as a RegExp, or null when it is missing or invalid
+  static compilePattern(pattern: string | undefined): RegExp | null {
+    if (!pattern) return null;
+
+    try {
+      return new RegExp(pattern);
+    } catch {
+      return null;
+    }
+  }
+
+  private static getFormat(field: FormField): 'email' | 'phone' | undefined {
+    if (field.type === 'email' || field.type === 'phone') return field.type;
+    if (field.type === 'text') return field.validation?.format;
+    return undefined;
+  }
+
+  /**
+   * Checks a single answer against the field's format and validation rules.
+   * Empty answers pass; whether they are allowed is decided by `required`.
+   */
+  static validate(field: FormField, value: unknown): string | null {
+    if (!FormLogicService.isAnswered(value)) return null;
+
+    const rules: ValidationRules = field.validation || {};
+
+    if (typeof value === 'number') {
+      return this.validateRange(rules, value);
+    }
+
+    if (typeof value !== 'string') return null;
+
+    const text = value.trim();
+    const format = this.getFormat(field);
+
+    if (format === 'email' && !this.EMAIL_PATTERN.test(text)) {
+      return 'Please enter a valid email address';
+    }
+
+    if (format === 'phone') {
+      const digits = text.replace(/\D/g, '');
+      if (!this.PHONE_PATTERN.test(text) || digits.length < 7 || digits.length > 15) {
+        return 'Please enter a valid phone number';
+      }
+    }
+
+    if (rules.minLength !== undefined && text.length < rules.minLength) {
+      return `Please enter at least ${rules.minLength} characters`;
+    }
+
+    if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+      return `Please enter no more than ${rules.maxLength} characters`;
+    }
+
+    const pattern = this.compilePattern(rules.pattern);
+    if (pattern && !pattern.test(text)) {
+      return rules.patternMessage || 'Please match the requested format';
+    }
+
+    if (rules.min !== undefined || rules.max !== undefined) {
+      const numericValue = Number(text);
+      if (Number.isNaN(numericValue)) {
+        return 'Please enter a number';
+      }
+
+      const rangeError = this.validateRange(rules, numericValue);
+      if (rangeError) return rangeError;
+    }
+
+    const allowedDomains = (rules.allowedDomains || [])
+      .map(allowedDomain => allowedDomain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean);
+
+    if (format === 'email' && allowedDomains.length > 0) {
+      const domain = text.split('@').pop()!.toLowerCase();
+      const allowed = allowedDomains.some(allowedDomain =>
+        domain === allowedDomain || domain.endsWith(`.${allowedDomain}`)
+      );
+
+      if (!allowed) {
+        return `Please use an email address from ${allowedDomains.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  private static validateRange(rules: ValidationRules, value: number): string | null {
+    if (rules.min !== undefined && value < rules.min) {
+      return `Please enter a value of at least ${rules.min}`;
+    }
+
+    if (rules.max !== undefined && value > rules.max) {
+      return `Please enter a value no greater than ${rules.max}`;
+    }
+
+    return null;
+  }
+
+  // Validates every answered field and returns readable errors keyed by field ID
+  static validateAnswers(fields: FormField[], answers: Record<string, unknown>): Record<string, string> {
+    const errors: Record<string, string> = {};
+
+    fields.forEach(field => {
+      const error = this.validate(field, answers[field.id]);
+      if (error) {
+        errors[field.id] = error;
+      }
+    });
+
+    return errors;
+  }
+}
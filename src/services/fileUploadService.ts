@@ -0,0 +1,218 @@
+import { supabase } from '../lib/supabase';
+import { FormField } from '../context/FeedbackContext';
+import { DEFAULT_FILE_UPLOAD_SETTINGS } from '../context/formDefaults';
+
+// Reference to an uploaded object, stored in form_response_data.field_data.files
+export interface StoredFile {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export class FileUploadService {
+  static readonly BUCKET = 'form-uploads';
+
+  // Types the bucket accepts whatever a question allows; kept in sync with its `allowed_mime_types`
+  static readonly STORAGE_TYPES = [
+    'image/*',
+    'video/*',
+    'audio/*',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ];
+
+  // Signed download links are short-lived because attachments may contain personal data
+  private static readonly SIGNED_URL_TTL_SECONDS = 60 * 10;
+  // Rows per request when listing a form's attachments, and paths per storage delete
+  private static readonly PAGE_SIZE = 1000;
+
+  static matchesType(file: File, allowedTypes: string[]): boolean {
+    const patterns = allowedTypes.map(allowed => allowed.trim().toLowerCase()).filter(Boolean);
+    if (patterns.length === 0) return true;
+
+    return patterns.some(pattern => {
+      if (pattern.endsWith('/*')) {
+        return file.type.toLowerCase().startsWith(pattern.slice(0, -1));
+      }
+      return file.type.toLowerCase() === pattern;
+    });
+  }
+
+  // Returns a readable error for the first rule the files break, or null when they are acceptable
+  static validateFiles(field: FormField, files: File[]): string | null {
+    const settings = field.upload || DEFAULT_FILE_UPLOAD_SETTINGS;
+
+    if (files.length > settings.maxFiles) {
+      return `You can upload at most ${settings.maxFiles} file${settings.maxFiles === 1 ? '' : 's'}`;
+    }
+
+    for (const file of files) {
+      if (!this.matchesType(file, this.STORAGE_TYPES)) {
+        return `${file.name} is a type of file that cannot be uploaded`;
+      }
+      if (!this.matchesType(file, settings.allowedTypes)) {
+        return `${file.name} is not an allowed file type (${settings.allowedTypes.filter(type => type.trim()).join(', ')})`;
+      }
+      if (file.size > settings.maxSizeMb * 1024 * 1024) {
+        return `${file.name} is larger than ${settings.maxSizeMb} MB`;
+      }
+    }
+
+    return null;
+  }
+
+  // Files are grouped by form and response so they can be found again when either is deleted.
+  // The paths are stored with the response, which is what allows uploading to them, and derived
+  // from it so a retried submission uploads to the same paths.
+  static createFileReferences(formId: string, responseId: string, fieldId: string, files: File[]): StoredFile[] {
+    return files.map((file, index) => {
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      return {
+        path: `${formId}/${responseId}/${fieldId}/${index + 1}-${safeName}`,
+        name: file.name,
+        size: file.size,
+        type: file.type
+      };
+    });
+  }
+
+  static async uploadFiles(references: StoredFile[], files: File[]): Promise<void> {
+    try {
+      for (const [index, file] of files.entries()) {
+        const { error } = await supabase.storage
+          .from(this.BUCKET)
+          .upload(references[index].path, file, { contentType: file.type, upsert: false });
+
+        // Files that arrived with an earlier attempt are not uploaded again
+        if (error && !this.isAlreadyStored(error)) {
+          throw new Error(`Failed to upload ${file.name}: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error uploading files:', error);
+      throw error;
+    }
+  }
+
+  private static isAlreadyStored(error: Error & { status?: number }): boolean {
+    return error.status === 409 || /already exists/i.test(error.message);
+  }
+
+  static async getSignedUrls(paths: string[]): Promise<Record<string, string>> {
+    if (paths.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase.storage
+        .from(this.BUCKET)
+        .createSignedUrls(paths, this.SIGNED_URL_TTL_SECONDS);
+
+      if (error) {
+        throw new Error(`Failed to create download links: ${error.message}`);
+      }
+
+      const urls: Record<string, string> = {};
+      (data || []).forEach(item => {
+        if (item.path && item.signedUrl) {
+          urls[item.path] = item.signedUrl;
+        }
+      });
+      return urls;
+    } catch (error) {
+      console.error('Error creating signed URLs:', error);
+      throw error;
+    }
+  }
+
+  // Collects attachment paths from response data rows before the rows are deleted
+  static getFilePaths(responseData: Array<{ field_data: { files?: StoredFile[] } | null }>): string[] {
+    return responseData.flatMap(data =>
+      Array.isArray(data.field_data?.files)
+        ? data.field_data.files.map(file => file.path)
+        : []
+    );
+  }
+
+  static async getResponseFilePaths(responseId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('form_response_data')
+      .select('field_data')
+      .eq('response_id', responseId);
+
+    if (error) {
+      throw new Error(`Failed to fetch response attachments: ${error.message}`);
+    }
+
+    return this.getFilePaths(data || []);
+  }
+
+  // Read in pages, since the API returns at most 1000 rows per request
+  static async getFormFilePaths(formId: string): Promise<string[]> {
+    const paths: string[] = [];
+
+    for (let from = 0; ; from += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('form_response_data')
+        .select('id, field_data, form_responses!inner(form_id)')
+        .eq('form_responses.form_id', formId)
+        .not('field_data->files', 'is', null)
+        .order('id')
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch form attachments: ${error.message}`);
+      }
+
+      paths.push(...this.getFilePaths(data || []));
+      if (!data || data.length < this.PAGE_SIZE) return paths;
+    }
+  }
+
+  // Attachments of responses an edit replaced, which the database queues but cannot delete
+  static async removeReplacedFiles(formId: string): Promise<void> {
+    for (;;) {
+      const { data, error } = await supabase
+        .from('replaced_uploads')
+        .select('path')
+        .eq('form_id', formId)
+        .limit(this.PAGE_SIZE);
+
+      if (error) {
+        throw new Error(`Failed to fetch replaced attachments: ${error.message}`);
+      }
+
+      const paths: string[] = (data || []).map(row => row.path);
+      if (paths.length === 0) return;
+
+      await this.removeFiles(paths);
+
+      const { error: deleteError } = await supabase
+        .from('replaced_uploads')
+        .delete()
+        .in('path', paths);
+
+      if (deleteError) {
+        throw new Error(`Failed to clear replaced attachments: ${deleteError.message}`);
+      }
+    }
+  }
+
+  static async removeFiles(paths: string[]): Promise<void> {
+    for (let start = 0; start < paths.length; start += this.PAGE_SIZE) {
+      const { error } = await supabase.storage
+        .from(this.BUCKET)
+        .remove(paths.slice(start, start + this.PAGE_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to delete attachments: ${error.message}`);
+      }
+    }
+  }
+}
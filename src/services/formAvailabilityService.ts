@@ -0,0 +1,110 @@
+import { FeedbackForm, FormAvailability } from '../context/FeedbackContext';
+import { DEFAULT_AVAILABILITY } from '../context/formDefaults';
+
+// Mirrors the reasons returned by the form_closed_reason database function
+export type FormClosedReason = 'inactive' | 'not_open' | 'ended' | 'full';
+
+export interface FormStatus {
+  isOpen: boolean;
+  reason: FormClosedReason | null;
+  // Next scheduled change: the open time before opening, the close time while open
+  nextChangeAt: Date | null;
+}
+
+export class FormAvailabilityService {
+  static readonly CLOSED_REASON_LABELS: Record<FormClosedReason, string> = {
+    inactive: 'Inactive',
+    not_open: 'Not open yet',
+    ended: 'Closed',
+    full: 'Response limit reached'
+  };
+
+  static readonly DEFAULT_CLOSED_MESSAGES: Record<FormClosedReason, string> = {
+    inactive: 'This form is not accepting responses.',
+    not_open: 'This form is not open for responses yet. Please check back later.',
+    ended: 'This form is closed and no longer accepting responses.',
+    full: 'This form has reached its response limit and is no longer accepting responses.'
+  };
+
+  static getAvailability(form: FeedbackForm): FormAvailability {
+    return form.availability || DEFAULT_AVAILABILITY;
+  }
+
+  // Same order of checks as form_closed_reason, so the UI and the server agree
+  static getStatus(form: FeedbackForm, now: Date = new Date()): FormStatus {
+    const { opensAt, closesAt, maxResponses } = this.getAvailability(form);
+    const opens = opensAt ? new Date(opensAt) : null;
+    const closes = closesAt ? new Date(closesAt) : null;
+
+    if (!form.isActive) {
+      return { isOpen: false, reason: 'inactive', nextChangeAt: null };
+    }
+
+    if (opens && opens > now) {
+      return { isOpen: false, reason: 'not_open', nextChangeAt: opens };
+    }
+
+    if (closes && closes <= now) {
+      return { isOpen: false, reason: 'ended', nextChangeAt: null };
+    }
+
+    if (maxResponses !== null && form.responses >= maxResponses) {
+      return { isOpen: false, reason: 'full', nextChangeAt: null };
+    }
+
+    return { isOpen: true, reason: null, nextChangeAt: closes };
+  }
+
+  static getStatusLabel(status: FormStatus): string {
+    return status.reason ? this.CLOSED_REASON_LABELS[status.reason] : 'Active';
+  }
+
+  // "Closes in 2d 4h" / "Opens in 45m", or null when nothing is scheduled
+  static describeNextChange(status: FormStatus, now: Date = new Date()): string | null {
+    if (!status.nextChangeAt) return null;
+    return `${status.isOpen ? 'Closes' : 'Opens'} in ${this.formatCountdown(status.nextChangeAt, now)}`;
+  }
+
+  static getClosedMessage(form: FeedbackForm, reason: FormClosedReason): string {
+    return this.getAvailability(form).closedMessage.trim() || this.DEFAULT_CLOSED_MESSAGES[reason];
+  }
+
+  // Opening and closing times must be in order; a limit must be a positive whole number
+  static validate(availability: FormAvailability): string | null {
+    const { opensAt, closesAt, maxResponses } = availability;
+
+    if (opensAt && closesAt && new Date(opensAt) >= new Date(closesAt)) {
+      return 'The closing time must be after the opening time';
+    }
+
+    if (maxResponses !== null && (!Number.isInteger(maxResponses) || maxResponses < 1)) {
+      return 'The response limit must be a whole number of at least 1';
+    }
+
+    return null;
+  }
+
+  // Coarse "2d 4h" / "3h 12m" / "45m" countdown for lists
+  static formatCountdown(target: Date, now: Date = new Date()): string {
+    const totalMinutes = Math.max(0, Math.ceil((target.getTime() - now.getTime()) / 60000));
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+  }
+
+  // <input type="datetime-local"> works in local time without a zone
+  static toLocalInputValue(iso: string | null): string {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const offsetMs = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+  }
+
+  static fromLocalInputValue(value: string): string | null {
+    return value ? new Date(value).toISOString() : null;
+  }
+}
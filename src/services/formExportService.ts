@@ -0,0 +1,497 @@
+import {
+  FeedbackForm,
+  FeedbackTheme,
+  FormField,
+  FormLocalization,
+  DEFAULT_THEME,
+  END_OF_FORM
+} from '../context/FeedbackContext';
+import { CONDITION_OPERATORS, FormLogicService } from './formLogicService';
+import { FieldValidationService } from './fieldValidationService';
+import { AnswerPipingService } from './answerPipingService';
+import { SaveFormData } from './formService';
+
+export const FORM_EXPORT_FORMAT = 'feedback-form';
+export const FORM_EXPORT_VERSION = 1;
+
+/**
+ * Serialized form, version 1. Fields use the same shape as `FormField`; field IDs
+ * are only used to connect logic conditions and jumps inside the file and are
+ * replaced on import. See "Form JSON Format" in the README for every property.
+ */
+export interface ExportedForm {
+  format: typeof FORM_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  form: {
+    title: string;
+    description: string;
+    isActive: boolean;
+    fields: FormField[];
+    theme: FeedbackTheme;
+    localization?: FormLocalization;
+  };
+}
+
+// A problem found while reading an import, e.g. { path: 'form.fields[2].type', message: '...' }
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+export type ImportResult =
+  | { success: true; data: SaveFormData }
+  | { success: false; errors: SchemaError[] };
+
+type JsonObject = Record<string, unknown>;
+
+const FIELD_TYPES: FormField['type'][] = [
+  'text', 'textarea', 'rating', 'nps', 'multiple-choice', 'matrix', 'file', 'email', 'phone', 'page-break'
+];
+
+const THEME_CHOICES: Partial<Record<keyof FeedbackTheme, string[]>> = {
+  backgroundType: ['color', 'gradient', 'image'],
+  logoPosition: ['top-left', 'top-center', 'top-right'],
+  logoSize: ['small', 'medium', 'large'],
+  layout: ['centered', 'left-aligned', 'full-width', 'card', 'minimal'],
+  spacing: ['compact', 'normal', 'relaxed'],
+  animation: ['none', 'fade', 'slide', 'bounce']
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export class FormExportService {
+  static toExport(form: FeedbackForm): ExportedForm {
+    return {
+      format: FORM_EXPORT_FORMAT,
+      version: FORM_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      form: {
+        title: form.title,
+        description: form.description,
+        isActive: form.isActive,
+        fields: form.fields,
+        theme: form.theme,
+        ...(!!form.localization?.locales.length && { localization: form.localization })
+      }
+    };
+  }
+
+  static toJson(form: FeedbackForm): string {
+    return JSON.stringify(this.toExport(form), null, 2);
+  }
+
+  static getFileName(form: FeedbackForm): string {
+    const slug = form.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'form';
+    return `${slug}.form.json`;
+  }
+
+  /**
+   * Reads an exported form and returns it ready for `FormService.saveForm`, or
+   * every schema error found. Imported fields always get fresh IDs.
+   */
+  static parse(json: string): ImportResult {
+    let document: unknown;
+
+    try {
+      document = JSON.parse(json);
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{ path: '$', message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}` }]
+      };
+    }
+
+    const errors: SchemaError[] = [];
+
+    if (!isObject(document)) {
+      return { success: false, errors: [{ path: '$', message: 'Expected an object' }] };
+    }
+
+    if (document.format !== FORM_EXPORT_FORMAT) {
+      errors.push({ path: 'format', message: `Expected "${FORM_EXPORT_FORMAT}"` });
+    }
+
+    if (document.version !== FORM_EXPORT_VERSION) {
+      errors.push({
+        path: 'version',
+        message: typeof document.version === 'number'
+          ? `Unsupported version ${document.version}; this app reads version ${FORM_EXPORT_VERSION}`
+          : `Expected the number ${FORM_EXPORT_VERSION}`
+      });
+    }
+
+    const form = document.form;
+    if (!isObject(form)) {
+      errors.push({ path: 'form', message: 'Expected an object' });
+      return { success: false, errors };
+    }
+
+    if (typeof form.title !== 'string' || !form.title.trim()) {
+      errors.push({ path: 'form.title', message: 'Expected a non-empty string' });
+    }
+
+    if (form.description !== undefined && typeof form.description !== 'string') {
+      errors.push({ path: 'form.description', message: 'Expected a string' });
+    }
+
+    if (form.isActive !== undefined && typeof form.isActive !== 'boolean') {
+      errors.push({ path: 'form.isActive', message: 'Expected true or false' });
+    }
+
+    if (!Array.isArray(form.fields)) {
+      errors.push({ path: 'form.fields', message: 'Expected an array' });
+    } else {
+      this.validateFields(form.fields, errors);
+    }
+
+    if (form.theme !== undefined) {
+      this.validateTheme(form.theme, errors);
+    }
+
+    if (form.localization !== undefined) {
+      this.validateLocalization(form.localization, errors);
+    }
+
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    const fields = form.fields as FormField[];
+
+    return {
+      success: true,
+      data: {
+        title: (form.title as string).trim(),
+        description: (form.description as string | undefined) || '',
+        isActive: form.isActive !== undefined ? form.isActive as boolean : true,
+        fields: FormLogicService.cloneFields(fields).map(field => ({
+          ...field,
+          required: field.required === true,
+          placeholder: field.placeholder || undefined
+        })),
+        theme: {
+          ...DEFAULT_THEME,
+          ...(form.theme as Partial<FeedbackTheme> | undefined),
+          footer: {
+            ...DEFAULT_THEME.footer,
+            ...(form.theme as Partial<FeedbackTheme> | undefined)?.footer
+          }
+        },
+        ...(form.localization !== undefined && { localization: form.localization as FormLocalization })
+      }
+    };
+  }
+
+  private static validateFields(fields: unknown[], errors: SchemaError[]) {
+    const ids = fields.map(field => (isObject(field) ? field.id : undefined));
+    const recallKeys = fields.map(field => (isObject(field) ? field.recallKey : undefined));
+
+    fields.forEach((field, index) => {
+      const path = `form.fields[${index}]`;
+
+      if (!isObject(field)) {
+        errors.push({ path, message: 'Expected an object' });
+        return;
+      }
+
+      if (typeof field.id !== 'string' || !field.id) {
+        errors.push({ path: `${path}.id`, message: 'Expected a non-empty string' });
+      } else if (ids.indexOf(field.id) !== index) {
+        errors.push({ path: `${path}.id`, message: `Duplicate field ID "${field.id}"` });
+      }
+
+      if (!FIELD_TYPES.includes(field.type as FormField['type'])) {
+        errors.push({ path: `${path}.type`, message: `Expected one of ${FIELD_TYPES.join(', ')}` });
+      }
+
+      if (typeof field.label !== 'string' || (field.type !== 'page-break' && !field.label.trim())) {
+        errors.push({ path: `${path}.label`, message: 'Expected a non-empty string' });
+      }
+
+      if (field.required !== undefined && typeof field.required !== 'boolean') {
+        errors.push({ path: `${path}.required`, message: 'Expected true or false' });
+      }
+
+      if (field.placeholder !== undefined && field.placeholder !== null && typeof field.placeholder !== 'string') {
+        errors.push({ path: `${path}.placeholder`, message: 'Expected a string' });
+      }
+
+      if (field.recallKey !== undefined && (typeof field.recallKey !== 'string' || !AnswerPipingService.isValidRecallKey(field.recallKey))) {
+        errors.push({ path: `${path}.recallKey`, message: 'Expected lowercase letters, digits and underscores, starting with a letter' });
+      } else if (field.recallKey !== undefined && recallKeys.indexOf(field.recallKey) !== index) {
+        errors.push({ path: `${path}.recallKey`, message: `Duplicate recall key "${field.recallKey}"` });
+      }
+
+      const needsOptions = field.type === 'multiple-choice' || field.type === 'matrix';
+      if (field.options !== undefined || needsOptions) {
+        if (!isStringArray(field.options) || (needsOptions && field.options.length === 0)) {
+          errors.push({ path: `${path}.options`, message: needsOptions ? 'Expected a non-empty array of strings' : 'Expected an array of strings' });
+        }
+      }
+
+      if (field.maxRating !== undefined && (!Number.isInteger(field.maxRating) || (field.maxRating as number) < 2 || (field.maxRating as number) > 10)) {
+        errors.push({ path: `${path}.maxRating`, message: 'Expected a whole number from 2 to 10' });
+      }
+
+      if (field.npsLabels !== undefined && (!isObject(field.npsLabels) || typeof field.npsLabels.low !== 'string' || typeof field.npsLabels.high !== 'string')) {
+        errors.push({ path: `${path}.npsLabels`, message: 'Expected { "low": string, "high": string }' });
+      }
+
+      if (field.matrixRows !== undefined || field.type === 'matrix') {
+        if (!isStringArray(field.matrixRows) || (field.type === 'matrix' && field.matrixRows.length === 0)) {
+          errors.push({ path: `${path}.matrixRows`, message: 'Expected a non-empty array of strings' });
+        }
+      }
+
+      if (field.matrixMultiple !== undefined && typeof field.matrixMultiple !== 'boolean') {
+        errors.push({ path: `${path}.matrixMultiple`, message: 'Expected true or false' });
+      }
+
+      if (field.upload !== undefined) {
+        this.validateUpload(field.upload, `${path}.upload`, errors);
+      }
+
+      if (field.translations !== undefined) {
+        this.validateFieldTranslations(field.translations, `${path}.translations`, errors);
+      }
+
+      if (field.validation !== undefined) {
+        this.validateRules(field.validation, `${path}.validation`, errors);
+      }
+
+      if (field.logic !== undefined) {
+        this.validateLogic(field.logic, `${path}.logic`, ids.slice(0, index), errors);
+      }
+
+      if (field.jumps !== undefined) {
+        this.validateJumps(field.jumps, `${path}.jumps`, ids.slice(index + 1), errors);
+      }
+    });
+  }
+
+  private static validateLocalization(localization: unknown, errors: SchemaError[]) {
+    const path = 'form.localization';
+
+    if (!isObject(localization)) {
+      errors.push({ path, message: 'Expected an object' });
+      return;
+    }
+
+    if (typeof localization.defaultLocale !== 'string' || !localization.defaultLocale) {
+      errors.push({ path: `${path}.defaultLocale`, message: 'Expected a language code such as "en"' });
+    }
+
+    if (!isStringArray(localization.locales)) {
+      errors.push({ path: `${path}.locales`, message: 'Expected an array of language codes' });
+    }
+
+    if (!isObject(localization.translations)) {
+      errors.push({ path: `${path}.translations`, message: 'Expected an object keyed by language code' });
+      return;
+    }
+
+    Object.entries(localization.translations).forEach(([locale, strings]) => {
+      if (!isObject(strings) ||
+        (strings.title !== undefined && typeof strings.title !== 'string') ||
+        (strings.description !== undefined && typeof strings.description !== 'string')) {
+        errors.push({ path: `${path}.translations.${locale}`, message: 'Expected { "title"?: string, "description"?: string }' });
+      }
+    });
+  }
+
+  private static validateFieldTranslations(translations: unknown, path: string, errors: SchemaError[]) {
+    if (!isObject(translations)) {
+      errors.push({ path, message: 'Expected an object keyed by language code' });
+      return;
+    }
+
+    Object.entries(translations).forEach(([locale, strings]) => {
+      const localePath = `${path}.${locale}`;
+
+      if (!isObject(strings)) {
+        errors.push({ path: localePath, message: 'Expected an object' });
+        return;
+      }
+
+      (['label', 'placeholder'] as const).forEach(key => {
+        if (strings[key] !== undefined && typeof strings[key] !== 'string') {
+          errors.push({ path: `${localePath}.${key}`, message: 'Expected a string' });
+        }
+      });
+
+      (['options', 'matrixRows'] as const).forEach(key => {
+        if (strings[key] !== undefined && !isStringArray(strings[key])) {
+          errors.push({ path: `${localePath}.${key}`, message: 'Expected an array of strings' });
+        }
+      });
+    });
+  }
+
+  private static validateUpload(upload: unknown, path: string, errors: SchemaError[]) {
+    if (!isObject(upload)) {
+      errors.push({ path, message: 'Expected an object' });
+      return;
+    }
+
+    if (!isStringArray(upload.allowedTypes)) {
+      errors.push({ path: `${path}.allowedTypes`, message: 'Expected an array of MIME types' });
+    }
+
+    if (typeof upload.maxSizeMb !== 'number' || upload.maxSizeMb <= 0) {
+      errors.push({ path: `${path}.maxSizeMb`, message: 'Expected a number greater than 0' });
+    }
+
+    if (!Number.isInteger(upload.maxFiles) || (upload.maxFiles as number) < 1) {
+      errors.push({ path: `${path}.maxFiles`, message: 'Expected a whole number of at least 1' });
+    }
+  }
+
+  private static validateRules(rules: unknown, path: string, errors: SchemaError[]) {
+    if (!isObject(rules)) {
+      errors.push({ path, message: 'Expected an object' });
+      return;
+    }
+
+    (['minLength', 'maxLength', 'min', 'max'] as const).forEach(key => {
+      if (rules[key] !== undefined && typeof rules[key] !== 'number') {
+        errors.push({ path: `${path}.${key}`, message: 'Expected a number' });
+      }
+    });
+
+    (['pattern', 'patternMessage'] as const).forEach(key => {
+      if (rules[key] !== undefined && typeof rules[key] !== 'string') {
+        errors.push({ path: `${path}.${key}`, message: 'Expected a string' });
+      }
+    });
+
+    if (typeof rules.pattern === 'string' && rules.pattern && !FieldValidationService.compilePattern(rules.pattern)) {
+      errors.push({ path: `${path}.pattern`, message: 'Expected a valid regular expression' });
+    }
+
+    if (rules.format !== undefined && rules.format !== 'email' && rules.format !== 'phone') {
+      errors.push({ path: `${path}.format`, message: 'Expected "email" or "phone"' });
+    }
+
+    if (rules.allowedDomains !== undefined && !isStringArray(rules.allowedDomains)) {
+      errors.push({ path: `${path}.allowedDomains`, message: 'Expected an array of strings' });
+    }
+  }
+
+  private static validateLogic(logic: unknown, path: string, earlierIds: unknown[], errors: SchemaError[]) {
+    if (!isObject(logic)) {
+      errors.push({ path, message: 'Expected an object' });
+      return;
+    }
+
+    if (logic.action !== 'show' && logic.action !== 'hide') {
+      errors.push({ path: `${path}.action`, message: 'Expected "show" or "hide"' });
+    }
+
+    if (logic.match !== 'all' && logic.match !== 'any') {
+      errors.push({ path: `${path}.match`, message: 'Expected "all" or "any"' });
+    }
+
+    if (!Array.isArray(logic.conditions)) {
+      errors.push({ path: `${path}.conditions`, message: 'Expected an array' });
+      return;
+    }
+
+    logic.conditions.forEach((condition, index) => {
+      const conditionPath = `${path}.conditions[${index}]`;
+
+      if (!isObject(condition)) {
+        errors.push({ path: conditionPath, message: 'Expected an object' });
+        return;
+      }
+
+      if (!earlierIds.includes(condition.fieldId)) {
+        errors.push({ path: `${conditionPath}.fieldId`, message: 'Expected the ID of an earlier field' });
+      }
+
+      this.validateOperator(condition, conditionPath, errors);
+    });
+  }
+
+  private static validateJumps(jumps: unknown, path: string, laterIds: unknown[], errors: SchemaError[]) {
+    if (!Array.isArray(jumps)) {
+      errors.push({ path, message: 'Expected an array' });
+      return;
+    }
+
+    jumps.forEach((jump, index) => {
+      const jumpPath = `${path}[${index}]`;
+
+      if (!isObject(jump)) {
+        errors.push({ path: jumpPath, message: 'Expected an object' });
+        return;
+      }
+
+      if (jump.target !== END_OF_FORM && !laterIds.includes(jump.target)) {
+        errors.push({ path: `${jumpPath}.target`, message: `Expected the ID of a later field or "${END_OF_FORM}"` });
+      }
+
+      this.validateOperator(jump, jumpPath, errors);
+    });
+  }
+
+  private static validateOperator(rule: JsonObject, path: string, errors: SchemaError[]) {
+    const operator = CONDITION_OPERATORS.find(option => option.value === rule.operator);
+
+    if (!operator) {
+      errors.push({ path: `${path}.operator`, message: `Expected one of ${CONDITION_OPERATORS.map(option => option.value).join(', ')}` });
+    } else if (operator.needsValue && typeof rule.value !== 'string') {
+      errors.push({ path: `${path}.value`, message: 'Expected a string' });
+    }
+  }
+
+  private static validateTheme(theme: unknown, errors: SchemaError[]) {
+    if (!isObject(theme)) {
+      errors.push({ path: 'form.theme', message: 'Expected an object' });
+      return;
+    }
+
+    (['primaryColor', 'backgroundColor', 'textColor', 'borderRadius', 'fontFamily', 'gradientDirection', 'backgroundImage', 'logo'] as const).forEach(key => {
+      if (theme[key] !== undefined && typeof theme[key] !== 'string') {
+        errors.push({ path: `form.theme.${key}`, message: 'Expected a string' });
+      }
+    });
+
+    Object.entries(THEME_CHOICES).forEach(([key, choices]) => {
+      if (theme[key] !== undefined && !choices!.includes(theme[key] as string)) {
+        errors.push({ path: `form.theme.${key}`, message: `Expected one of ${choices!.join(', ')}` });
+      }
+    });
+
+    if (theme.gradientColors !== undefined && !isStringArray(theme.gradientColors)) {
+      errors.push({ path: 'form.theme.gradientColors', message: 'Expected an array of strings' });
+    }
+
+    if (theme.footer !== undefined) {
+      const footer = theme.footer;
+
+      if (!isObject(footer)) {
+        errors.push({ path: 'form.theme.footer', message: 'Expected an object' });
+        return;
+      }
+
+      if (footer.enabled !== undefined && typeof footer.enabled !== 'boolean') {
+        errors.push({ path: 'form.theme.footer.enabled', message: 'Expected true or false' });
+      }
+
+      if (footer.text !== undefined && typeof footer.text !== 'string') {
+        errors.push({ path: 'form.theme.footer.text', message: 'Expected a string' });
+      }
+
+      if (footer.links !== undefined && (!Array.isArray(footer.links) || !footer.links.every(link =>
+        isObject(link) && typeof link.text === 'string' && typeof link.url === 'string'
+      ))) {
+        errors.push({ path: 'form.theme.footer.links', message: 'Expected an array of { "text": string, "url": string }' });
+      }
+    }
+  }
+}
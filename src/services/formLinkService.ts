@@ -0,0 +1,205 @@
+import { supabase, Database } from '../lib/supabase';
+
+export type FormLinkType = 'public' | 'private';
+
+type FormLinkRow = Database['public']['Tables']['form_links']['Row'];
+
+export interface FormLink {
+  id: string;
+  formId: string;
+  slug: string;
+  // 'private' links only open with their access token
+  linkType: FormLinkType;
+  label: string;
+  isActive: boolean;
+  expiresAt: string | null;
+  clickCount: number;
+  accessToken: string;
+  createdAt: string;
+  // The link save_form creates; its expiry follows the form's close date
+  isDefault: boolean;
+}
+
+export interface CreateFormLinkInput {
+  slug: string;
+  linkType: FormLinkType;
+  label?: string;
+  expiresAt?: string | null;
+}
+
+// What a /f/<slug> visit resolved to
+export type OpenedFormLink =
+  | { status: 'ok'; formId: string; linkId: string }
+  | { status: 'not_found' | 'inactive' }
+  | { status: 'expired'; expiresAt: string };
+
+export class FormLinkService {
+  static readonly MIN_SLUG_LENGTH = 3;
+  static readonly MAX_SLUG_LENGTH = 64;
+
+  // Lowercase letters, digits and single hyphens, the same shape the database checks
+  static normalizeSlug(input: string): string {
+    return input
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, this.MAX_SLUG_LENGTH);
+  }
+
+  static validateSlug(slug: string): string | null {
+    if (slug.length < this.MIN_SLUG_LENGTH || slug.length > this.MAX_SLUG_LENGTH) {
+      return `Link names must be ${this.MIN_SLUG_LENGTH}-${this.MAX_SLUG_LENGTH} characters long`;
+    }
+    if (!/^[a-z0-9][a-z0-9-]*[a-z0-9]$/.test(slug)) {
+      return 'Use lowercase letters, numbers and hyphens';
+    }
+    return null;
+  }
+
+  static getShareUrl(link: Pick<FormLink, 'slug' | 'linkType' | 'accessToken'>): string {
+    const key = link.linkType === 'private' ? `?key=${link.accessToken}` : '';
+    return `${window.location.origin}/f/${link.slug}${key}`;
+  }
+
+  static isExpired(link: FormLink, now: Date = new Date()): boolean {
+    return !!link.expiresAt && new Date(link.expiresAt) <= now;
+  }
+
+  private static databaseToLink(dbLink: FormLinkRow, defaultLinkId: string | null): FormLink {
+    return {
+      id: dbLink.id,
+      formId: dbLink.form_id,
+      slug: dbLink.slug || '',
+      linkType: dbLink.link_type === 'private' ? 'private' : 'public',
+      label: dbLink.label || '',
+      isActive: dbLink.is_active,
+      expiresAt: dbLink.expires_at || null,
+      clickCount: dbLink.click_count || 0,
+      accessToken: dbLink.access_token,
+      createdAt: dbLink.created_at,
+      isDefault: dbLink.id === defaultLinkId
+    };
+  }
+
+  // Oldest first, so the default link leads the list
+  static async getLinks(formId: string): Promise<FormLink[]> {
+    const { data, error } = await supabase
+      .from('form_links')
+      .select('*')
+      .eq('form_id', formId)
+      .in('link_type', ['public', 'private'])
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch links: ${error.message}`);
+    }
+
+    const defaultLink = data.find(link => link.link_type === 'public');
+    return data.map(link => this.databaseToLink(link, defaultLink?.id || null));
+  }
+
+  /**
+   * URL for share surfaces that offer a single link: the default link, or the plain form
+   * URL for forms saved before links were used and when the links cannot be read.
+   */
+  static async getDefaultUrl(formId: string): Promise<string> {
+    try {
+      const defaultLink = (await this.getLinks(formId)).find(link => link.isDefault);
+      if (defaultLink) return this.getShareUrl(defaultLink);
+    } catch (error) {
+      console.warn('Failed to load the form link:', error);
+    }
+
+    return `${window.location.origin}/form/${formId}`;
+  }
+
+  static async isSlugAvailable(slug: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('form_link_slug_available', { p_slug: slug });
+
+    if (error) {
+      throw new Error(`Failed to check the link name: ${error.message}`);
+    }
+
+    return !!data;
+  }
+
+  // The unique index has the final say when two owners pick a name at the same time
+  private static toSaveError(error: { code?: string; message: string }): Error {
+    return error.code === '23505'
+      ? new Error('That link name is already taken')
+      : new Error(`Failed to save link: ${error.message}`);
+  }
+
+  static async createLink(formId: string, input: CreateFormLinkInput): Promise<FormLink> {
+    const slugError = this.validateSlug(input.slug);
+    if (slugError) {
+      throw new Error(slugError);
+    }
+
+    const { data, error } = await supabase
+      .from('form_links')
+      .insert({
+        form_id: formId,
+        slug: input.slug,
+        link_type: input.linkType,
+        label: input.label?.trim() || '',
+        expires_at: input.expiresAt || null,
+        is_active: true
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw this.toSaveError(error);
+    }
+
+    return this.databaseToLink(data, null);
+  }
+
+  static async updateLink(
+    linkId: string,
+    updates: Partial<Pick<FormLink, 'slug' | 'label' | 'isActive' | 'expiresAt'>>
+  ): Promise<void> {
+    if (updates.slug !== undefined) {
+      const slugError = this.validateSlug(updates.slug);
+      if (slugError) {
+        throw new Error(slugError);
+      }
+    }
+
+    const { error } = await supabase
+      .from('form_links')
+      .update({
+        ...(updates.slug !== undefined && { slug: updates.slug }),
+        ...(updates.label !== undefined && { label: updates.label.trim() }),
+        ...(updates.isActive !== undefined && { is_active: updates.isActive }),
+        ...(updates.expiresAt !== undefined && { expires_at: updates.expiresAt })
+      })
+      .eq('id', linkId);
+
+    if (error) {
+      throw this.toSaveError(error);
+    }
+  }
+
+  // Counts the click; a private link needs its key
+  static async openLink(slug: string, key: string | null): Promise<OpenedFormLink> {
+    const { data, error } = await supabase.rpc('open_form_link', { p_slug: slug, p_key: key });
+
+    if (error) {
+      throw new Error(`Failed to open link: ${error.message}`);
+    }
+
+    switch (data?.status) {
+      case 'ok':
+        return { status: 'ok', formId: data.form_id, linkId: data.link_id };
+      case 'expired':
+        return { status: 'expired', expiresAt: data.expires_at };
+      case 'inactive':
+        return { status: 'inactive' };
+      default:
+        return { status: 'not_found' };
+    }
+  }
+}
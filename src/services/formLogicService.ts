@@ -0,0 +1,190 @@
+import { FormField, FieldCondition, FieldLogic, FieldJump, ConditionOperator, MatrixAnswer, END_OF_FORM } from '../context/FeedbackContext';
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not_equals', label: 'is not', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'less_than', label: '<', needsValue: true },
+  { value: 'less_than_or_equal', label: '≤', needsValue: true },
+  { value: 'greater_than', label: '>', needsValue: true },
+  { value: 'greater_than_or_equal', label: '≥', needsValue: true },
+  { value: 'is_answered', label: 'is answered', needsValue: false },
+  { value: 'is_not_answered', label: 'is not answered', needsValue: false }
+];
+
+export interface FormPage {
+  pageBreak: FormField | null;
+  fields: FormField[];
+}
+
+export class FormLogicService {
+  static isAnswered(value: unknown): boolean {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'object') return Object.values(value).some(item => this.isAnswered(item));
+    return true;
+  }
+
+  // Required matrix questions need an answer on every row, other fields just need a value
+  static isComplete(field: FormField, value: unknown): boolean {
+    if (field.type === 'matrix') {
+      const answer = (value || {}) as MatrixAnswer;
+      return (field.matrixRows || []).every(row => this.isAnswered(answer[row]));
+    }
+
+    return this.isAnswered(value);
+  }
+
+  static evaluate(operator: ConditionOperator, answer: unknown, expected?: string): boolean {
+    if (operator === 'is_answered') return this.isAnswered(answer);
+    if (operator === 'is_not_answered') return !this.isAnswered(answer);
+    if (!this.isAnswered(answer)) return false;
+
+    // Matrix answers map each row to the chosen column(s); they match on any chosen column
+    if (typeof answer === 'object' && !Array.isArray(answer)) {
+      const chosen = Object.values(answer as MatrixAnswer).flat().map(column => String(column).trim().toLowerCase());
+      const normalized = String(expected ?? '').trim().toLowerCase();
+
+      switch (operator) {
+        case 'equals':
+          return chosen.includes(normalized);
+        case 'not_equals':
+          return !chosen.includes(normalized);
+        case 'contains':
+          return chosen.some(column => column.includes(normalized));
+        default:
+          return false;
+      }
+    }
+
+    const normalizedAnswer = String(answer).trim().toLowerCase();
+    const normalizedExpected = String(expected ?? '').trim().toLowerCase();
+
+    switch (operator) {
+      case 'equals':
+        return normalizedAnswer === normalizedExpected;
+      case 'not_equals':
+        return normalizedAnswer !== normalizedExpected;
+      case 'contains':
+        return normalizedAnswer.includes(normalizedExpected);
+      default: {
+        const numericAnswer = Number(answer);
+        const numericExpected = Number(expected);
+        if (Number.isNaN(numericAnswer) || Number.isNaN(numericExpected)) return false;
+
+        switch (operator) {
+          case 'less_than':
+            return numericAnswer < numericExpected;
+          case 'less_than_or_equal':
+            return numericAnswer <= numericExpected;
+          case 'greater_than':
+            return numericAnswer > numericExpected;
+          case 'greater_than_or_equal':
+            return numericAnswer >= numericExpected;
+          default:
+            return false;
+        }
+      }
+    }
+  }
+
+  static evaluateCondition(condition: FieldCondition, answers: Record<string, unknown>): boolean {
+    return this.evaluate(condition.operator, answers[condition.fieldId], condition.value);
+  }
+
+  static isDisplayed(logic: FieldLogic | undefined, answers: Record<string, unknown>): boolean {
+    if (!logic || logic.conditions.length === 0) return true;
+
+    const results = logic.conditions.map(condition => this.evaluateCondition(condition, answers));
+    const matched = logic.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+
+    return logic.action === 'show' ? matched : !matched;
+  }
+
+  static findJump(field: FormField, answer: unknown): FieldJump | undefined {
+    return field.jumps?.find(jump => this.evaluate(jump.operator, answer, jump.value));
+  }
+
+  /**
+   * Walks the fields in order and returns the ones the respondent should see.
+   * Answers to hidden or skipped fields are ignored, so rules that depend on
+   * them behave as if the question was never asked. Page breaks are always
+   * kept so skipped questions never pull later pages forward.
+   */
+  static getVisibleFields(fields: FormField[], answers: Record<string, unknown>): FormField[] {
+    const visibleFields: FormField[] = [];
+    const visibleAnswers: Record<string, unknown> = {};
+    let skipUntil: string | null = null;
+
+    for (const field of fields) {
+      if (field.type === 'page-break') {
+        visibleFields.push(field);
+        continue;
+      }
+
+      if (skipUntil) {
+        if (skipUntil !== field.id) continue;
+        skipUntil = null;
+      }
+
+      if (!this.isDisplayed(field.logic, visibleAnswers)) continue;
+
+      visibleFields.push(field);
+      visibleAnswers[field.id] = answers[field.id];
+
+      const jump = this.findJump(field, answers[field.id]);
+      if (jump) {
+        if (jump.target === END_OF_FORM) break;
+        skipUntil = jump.target;
+      }
+    }
+
+    return visibleFields;
+  }
+
+  // Splits fields into pages at each page break, dropping pages with no questions
+  static getPages(fields: FormField[]): FormPage[] {
+    const pages: FormPage[] = [{ pageBreak: null, fields: [] }];
+
+    fields.forEach(field => {
+      if (field.type === 'page-break') {
+        pages.push({ pageBreak: field, fields: [] });
+      } else {
+        pages[pages.length - 1].fields.push(field);
+      }
+    });
+
+    const nonEmptyPages = pages.filter(page => page.fields.length > 0);
+    return nonEmptyPages.length > 0 ? nonEmptyPages : [{ pageBreak: null, fields: [] }];
+  }
+
+  // Rewrites field references after builder IDs are swapped for database IDs
+  static remapFieldReferences(field: FormField, idMap: Map<string, string>): Pick<FormField, 'logic' | 'jumps'> {
+    return {
+      logic: field.logic && {
+        ...field.logic,
+        conditions: field.logic.conditions.map(condition => ({
+          ...condition,
+          fieldId: idMap.get(condition.fieldId) || condition.fieldId
+        }))
+      },
+      jumps: field.jumps?.map(jump => ({
+        ...jump,
+        target: idMap.get(jump.target) || jump.target
+      }))
+    };
+  }
+
+  // Deep-copies fields under fresh IDs, keeping logic and jumps pointed at the copies
+  static cloneFields(fields: FormField[]): FormField[] {
+    const copies: FormField[] = JSON.parse(JSON.stringify(fields));
+    const idMap = new Map(copies.map(field => [field.id, crypto.randomUUID()]));
+
+    return copies.map(field => ({
+      ...field,
+      ...this.remapFieldReferences(field, idMap),
+      id: idMap.get(field.id)!
+    }));
+  }
+}
@@ -1,6 +1,42 @@
-import { supabase } from '../lib/supabase';
-import { FeedbackForm, FormField, FeedbackTheme, DEFAULT_THEME } from '../context/FeedbackContext';
+import { supabase, Database, SavedFormRecord } from '../lib/supabase';
+import {
+  FeedbackForm,
+  FormField,
+  FeedbackTheme,
+  FormAvailability,
+  FormLocalization,
+  FormResponseSettings,
+  MatrixAnswer,
+  DEFAULT_THEME,
+  FormKioskSettings,
+  FormProtectionSettings
+} from '../context/FeedbackContext';
+import {
+  DEFAULT_AVAILABILITY,
+  DEFAULT_LOCALIZATION,
+  DEFAULT_RESPONSE_SETTINGS,
+  DEFAULT_KIOSK_SETTINGS,
+  DEFAULT_PROTECTION_SETTINGS
+} from '../context/formDefaults';
 import { SentimentService } from './sentimentService';
+import { FormLogicService } from './formLogicService';
+import { NpsService } from './npsService';
+import { FieldValidationService } from './fieldValidationService';
+import { FileUploadService, StoredFile } from './fileUploadService';
+import { FormAvailabilityService, FormClosedReason } from './formAvailabilityService';
+import { ResponseProgressService } from './responseProgressService';
+import { RespondentService } from './respondentService';
+
+type FormRow = Database['public']['Tables']['forms']['Row'];
+type FormFieldRow = Database['public']['Tables']['form_fields']['Row'];
+
+// The form-level options kept in `forms.settings`
+interface FormSettingsRow {
+  localization?: Partial<FormLocalization>;
+  responses?: Partial<FormResponseSettings>;
+  kiosk?: Partial<FormKioskSettings>;
+  protection?: Partial<FormProtectionSettings>;
+}
 
 export interface SaveFormData {
   title: string;
@@ -8,6 +44,59 @@ export interface SaveFormData {
   fields: FormField[];
   theme: FeedbackTheme;
   isActive: boolean;
+  availability?: FormAvailability;
+  localization?: FormLocalization;
+  responseSettings?: FormResponseSettings;
+  kiosk?: FormKioskSettings;
+  protection?: FormProtectionSettings;
+}
+
+// What the respondent's browser sends for the database's spam screening
+export interface SubmissionProof {
+  challengeId?: string;
+  // Proof-of-work solution for the challenge
+  nonce?: string;
+  // Value of the hidden honeypot field; empty for people
+  honeypot?: string;
+}
+
+export interface SubmitResponseOptions {
+  // Schema version the respondent loaded; defaults to the current version
+  versionId?: string;
+  // Locale the respondent answered in
+  locale?: string;
+  // Partial response to discard once this submission is stored
+  resumeToken?: string;
+  // Kiosk that collected the response
+  deviceId?: string;
+  // Set when replaying a submission queued offline: the ID it was queued under, which makes
+  // the replay idempotent, and the time the respondent originally submitted
+  responseId?: string;
+  submittedAt?: string;
+  proof?: SubmissionProof;
+  // Identifies the respondent on forms that accept one response each
+  respondentToken?: string;
+  // Share link the respondent came through
+  linkId?: string;
+  // QR code the respondent scanned, and the tracking parameters its URL carried
+  qrCodeId?: string;
+  trackingParams?: Record<string, string>;
+}
+
+export interface SavedFormLink {
+  id: string;
+  slug: string | null;
+  linkType: string;
+  isActive: boolean;
+}
+
+export interface SavedFormQrCode {
+  id: string;
+  data: string;
+  size: number;
+  format: string;
+  foregroundColor: string;
+  backgroundColor: string;
 }
 
 export interface SavedForm {
@@ -19,12 +108,28 @@ export interface SavedForm {
   responseCount: number;
   publicUrl: string;
   qrCodeUrl?: string;
+  fields: FormField[];
+  theme: FeedbackTheme;
+  availability: FormAvailability;
+  localization: FormLocalization;
+  responseSettings: FormResponseSettings;
+  kiosk: FormKioskSettings;
+  protection: FormProtectionSettings;
+  versionId: string;
+  link: SavedFormLink;
+  qrCode: SavedFormQrCode;
 }
 
 export interface DashboardStats {
   totalResponses: number;
   totalInvitations: number;
   avgSatisfaction: number;
+  npsScore: number | null;
+  npsBreakdown: {
+    promoters: number;
+    passives: number;
+    detractors: number;
+  };
   activeFormsCount: number;
   responseRate: number;
   sentimentBreakdown: {
@@ -36,12 +141,14 @@ export interface DashboardStats {
     id: string;
     title: string;
     responses: number;
+    duplicateAttempts: number;
     isActive: boolean;
     createdAt: Date;
   }>;
   monthlyTrend: {
     responsesChange: number;
     satisfactionChange: number;
+    npsChange: number;
   };
 }
 
@@ -54,9 +161,17 @@ export interface EnrichedFormResponse {
   location_data: any;
   sentiment: string | null;
   overall_rating: number | null;
+  nps_score: number | null;
   is_complete: boolean;
   submitted_at: string;
   metadata: any;
+  form_version_id: string | null;
+  form_version_number: number | null;
+  locale: string | null;
+  device_id: string | null;
+  location_label: string | null;
+  quarantined: boolean;
+  quarantine_reasons: string[];
   form_response_data: Array<{
     id: string;
     response_id: string;
@@ -135,124 +250,218 @@ export class FormService {
     };
   }
 
-  static async saveForm(formData: SaveFormData): Promise<SavedForm> {
-    try {
-      // Get current user
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      if (userError) {
-        throw new Error(`Authentication error: ${userError.message}`);
-      }
-      
-      if (!user) {
-        throw new Error('User not authenticated. Please sign in to save forms.');
-      }
+  // Helper method to convert fields to database rows. Builder-generated IDs are
+  // replaced with UUIDs up front so logic rules can reference them.
+  private static fieldsToDatabase(fields: FormField[]) {
+    const idMap = new Map(fields.map(field => [
+      field.id,
+      this.isValidUUID(field.id) ? field.id : crypto.randomUUID()
+    ]));
 
-      // Start a transaction by saving the form first
-      const { data: formResult, error: formError } = await supabase
-        .from('forms')
-        .insert({
-          user_id: user.id,
-          title: formData.title,
-          description: formData.description,
-          is_active: formData.isActive,
-          settings: {},
-          metadata: {}
-        })
-        .select()
-        .single();
+    return fields.map((field, index) => {
+      const { logic, jumps } = FormLogicService.remapFieldReferences(field, idMap);
 
-      if (formError) {
-        throw new Error(`Failed to save form: ${formError.message}`);
-      }
+      return {
+        id: idMap.get(field.id)!,
+        field_type: field.type,
+        label: field.label,
+        placeholder: field.placeholder || null,
+        is_required: field.required,
+        field_order: index,
+        options: field.options || [],
+        validation_rules: field.validation || {},
+        settings: {
+          translations: field.translations,
+          recallKey: field.recallKey,
+          maxRating: field.maxRating,
+          npsLabels: field.npsLabels,
+          matrixRows: field.matrixRows,
+          matrixMultiple: field.matrixMultiple,
+          upload: field.upload,
+          logic,
+          jumps
+        }
+      };
+    });
+  }
 
-      const formId = formResult.id;
+  // Helper method to convert a matrix answer into one entry per configured row,
+  // dropping rows and columns that are not part of the field
+  private static matrixToRows(field: FormField, value: MatrixAnswer) {
+    const columns = field.options || [];
 
-      // Save form fields
-      if (formData.fields.length > 0) {
-        const fieldsToInsert = formData.fields.map((field, index) => ({
-          form_id: formId,
-          field_type: field.type,
-          label: field.label,
-          placeholder: field.placeholder || null,
-          is_required: field.required,
-          field_order: index,
-          options: field.options || [],
-          validation_rules: {},
-          settings: {
-            maxRating: field.maxRating
-          }
-        }));
+    return (field.matrixRows || []).map(row => {
+      const selected = value?.[row];
+      const selectedColumns = (Array.isArray(selected) ? selected : selected ? [selected] : [])
+        .filter(column => columns.includes(column));
 
-        const { error: fieldsError } = await supabase
-          .from('form_fields')
-          .insert(fieldsToInsert);
+      return {
+        row,
+        columns: field.matrixMultiple ? selectedColumns : selectedColumns.slice(0, 1)
+      };
+    });
+  }
 
-        if (fieldsError) {
-          // Cleanup: delete the form if fields failed to save
-          await supabase.from('forms').delete().eq('id', formId);
-          throw new Error(`Failed to save form fields: ${fieldsError.message}`);
-        }
-      }
+  // Version snapshots are private to the owner; respondents only get the current version's ID
+  private static async getLatestVersionId(formId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('latest_form_version_id', { p_form_id: formId });
 
-      // Save form theme with all customization settings
-      const themeData = this.themeToDatabase(formData.theme);
-      const { error: themeError } = await supabase
-        .from('form_themes')
-        .insert({
-          form_id: formId,
-          ...themeData
-        });
+    if (error) {
+      console.warn('Failed to fetch form version:', error.message);
+      return null;
+    }
 
-      if (themeError) {
-        console.warn('Failed to save theme:', themeError.message);
-        // Don't fail the entire operation for theme errors
-      }
+    return data || null;
+  }
 
-      // Create a public link
-      const slug = `form-${formId.slice(0, 8)}-${Date.now()}`;
-      const { error: linkError } = await supabase
-        .from('form_links')
-        .insert({
-          form_id: formId,
-          link_type: 'public',
-          slug: slug,
-          is_active: true,
-          settings: {}
-        });
+  // Helper method to convert a database row to a form field
+  private static databaseToField(dbField: FormFieldRow): FormField {
+    return {
+      id: dbField.id,
+      type: dbField.field_type,
+      label: dbField.label,
+      required: dbField.is_required,
+      placeholder: dbField.placeholder || undefined,
+      options: dbField.options,
+      recallKey: dbField.settings?.recallKey,
+      maxRating: dbField.settings?.maxRating,
+      npsLabels: dbField.settings?.npsLabels,
+      matrixRows: dbField.settings?.matrixRows,
+      matrixMultiple: dbField.settings?.matrixMultiple,
+      upload: dbField.settings?.upload,
+      validation: dbField.validation_rules && Object.keys(dbField.validation_rules).length > 0
+        ? dbField.validation_rules
+        : undefined,
+      logic: dbField.settings?.logic,
+      jumps: dbField.settings?.jumps,
+      translations: dbField.settings?.translations
+    };
+  }
 
-      if (linkError) {
-        console.warn('Failed to create public link:', linkError.message);
-      }
+  // Helper method to build `forms.settings` from the form-level options
+  private static formSettingsToDatabase(formData: SaveFormData) {
+    return {
+      localization: formData.localization || DEFAULT_LOCALIZATION,
+      responses: formData.responseSettings || DEFAULT_RESPONSE_SETTINGS,
+      kiosk: formData.kiosk || DEFAULT_KIOSK_SETTINGS,
+      protection: formData.protection || DEFAULT_PROTECTION_SETTINGS
+    };
+  }
 
-      // Create QR code entry
-      const formUrl = `${window.location.origin}/form/${formId}`;
-      const { error: qrError } = await supabase
-        .from('form_qr_codes')
-        .insert({
-          form_id: formId,
-          qr_data: formUrl,
-          size: 256,
-          format: 'png',
-          foreground_color: '#1F2937',
-          background_color: '#FFFFFF',
-          is_active: true
-        });
+  // Helper method to read the form-level options kept in `forms.settings`
+  private static databaseToLocalization(settings: FormSettingsRow | null): FormLocalization {
+    return settings?.localization
+      ? { ...DEFAULT_LOCALIZATION, ...settings.localization }
+      : DEFAULT_LOCALIZATION;
+  }
+
+  private static databaseToResponseSettings(settings: FormSettingsRow | null): FormResponseSettings {
+    return { ...DEFAULT_RESPONSE_SETTINGS, ...settings?.responses };
+  }
+
+  private static databaseToKioskSettings(settings: FormSettingsRow | null): FormKioskSettings {
+    return { ...DEFAULT_KIOSK_SETTINGS, ...settings?.kiosk };
+  }
+
+  private static databaseToProtectionSettings(settings: FormSettingsRow | null): FormProtectionSettings {
+    return { ...DEFAULT_PROTECTION_SETTINGS, ...settings?.protection };
+  }
 
-      if (qrError) {
-        console.warn('Failed to create QR code entry:', qrError.message);
+  // Helper method to read the schedule and quota columns of a form row
+  private static databaseToAvailability(
+    dbForm: Pick<FormRow, 'opens_at' | 'closes_at' | 'max_responses' | 'closed_message'>
+  ): FormAvailability {
+    return {
+      opensAt: dbForm.opens_at || null,
+      closesAt: dbForm.closes_at || null,
+      maxResponses: dbForm.max_responses ?? null,
+      closedMessage: dbForm.closed_message || ''
+    };
+  }
+
+  // Helper method to convert the save_form result into the saved form
+  private static databaseToSavedForm(result: SavedFormRecord): SavedForm {
+    const { form, fields, theme, link, qr_code: qrCode, version } = result;
+
+    return {
+      id: form.id,
+      title: form.title,
+      description: form.description || '',
+      isActive: form.is_active,
+      createdAt: form.created_at,
+      responseCount: form.response_count,
+      publicUrl: link.slug ? `${window.location.origin}/f/${link.slug}` : `${window.location.origin}/form/${form.id}`,
+      qrCodeUrl: `${window.location.origin}/qr/${qrCode.id}`,
+      fields: (fields || []).map(field => this.databaseToField(field)),
+      theme: theme ? this.databaseToTheme(theme) : DEFAULT_THEME,
+      availability: this.databaseToAvailability(form),
+      localization: this.databaseToLocalization(form.settings),
+      responseSettings: this.databaseToResponseSettings(form.settings),
+      kiosk: this.databaseToKioskSettings(form.settings),
+      protection: this.databaseToProtectionSettings(form.settings),
+      versionId: version.id,
+      link: {
+        id: link.id,
+        slug: link.slug,
+        linkType: link.link_type,
+        isActive: link.is_active
+      },
+      qrCode: {
+        id: qrCode.id,
+        data: qrCode.qr_data,
+        size: qrCode.size,
+        format: qrCode.format,
+        foregroundColor: qrCode.foreground_color,
+        backgroundColor: qrCode.background_color
       }
+    };
+  }
 
-      // Return the saved form data
-      return {
-        id: formId,
+  // Saves the form, fields, theme, public link, QR code and version in one transaction
+  private static async persistForm(formId: string | null, formData: SaveFormData): Promise<SavedForm> {
+    const availability = formData.availability || DEFAULT_AVAILABILITY;
+    const availabilityError = FormAvailabilityService.validate(availability);
+    if (availabilityError) {
+      throw new Error(availabilityError);
+    }
+
+    const { data, error } = await supabase.rpc('save_form', {
+      p_form_id: formId,
+      p_form: {
         title: formData.title,
         description: formData.description,
-        isActive: formData.isActive,
-        createdAt: formResult.created_at,
-        responseCount: 0,
-        publicUrl: `${window.location.origin}/form/${formId}`,
-        qrCodeUrl: `${window.location.origin}/qr/${formId}`
-      };
+        is_active: formData.isActive,
+        opens_at: availability.opensAt,
+        closes_at: availability.closesAt,
+        max_responses: availability.maxResponses,
+        closed_message: availability.closedMessage,
+        settings: this.formSettingsToDatabase(formData)
+      },
+      p_fields: this.fieldsToDatabase(formData.fields),
+      p_theme: this.themeToDatabase(formData.theme),
+      p_origin: window.location.origin
+    });
+
+    if (error) {
+      throw new Error(`Failed to save form: ${error.message}`);
+    }
+
+    return this.databaseToSavedForm(data);
+  }
+
+  static async saveForm(formData: SaveFormData): Promise<SavedForm> {
+    try {
+      // Get current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) {
+        throw new Error(`Authentication error: ${userError.message}`);
+      }
+      
+      if (!user) {
+        throw new Error('User not authenticated. Please sign in to save forms.');
+      }
+
+      return await this.persistForm(null, formData);
 
     } catch (error) {
       console.error('Error saving form:', error);
@@ -277,120 +486,45 @@ export class FormService {
         throw new Error('Invalid form ID format');
       }
 
-      // Verify the form belongs to the current user
-      const { data: existingForm, error: formCheckError } = await supabase
-        .from('forms')
-        .select('id, user_id, created_at, response_count')
-        .eq('id', formId)
-        .eq('user_id', user.id)
-        .single();
+      // Ownership is checked by save_form
+      return await this.persistForm(formId, formData);
 
-      if (formCheckError || !existingForm) {
-        throw new Error('Form not found or you do not have permission to edit it');
-      }
-
-      // Update the form
-      const { data: formResult, error: formError } = await supabase
-        .from('forms')
-        .update({
-          title: formData.title,
-          description: formData.description,
-          is_active: formData.isActive,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', formId)
-        .eq('user_id', user.id)
-        .select()
-        .single();
+    } catch (error) {
+      console.error('Error updating form:', error);
+      throw error;
+    }
+  }
 
-      if (formError) {
-        throw new Error(`Failed to update form: ${formError.message}`);
+  // Copies a form into an inactive draft with fresh links and QR code; responses are never copied
+  static async duplicateForm(formId: string, options: { includeEmailSignatures: boolean }): Promise<SavedForm> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) {
+        throw new Error(`Authentication error: ${userError.message}`);
       }
 
-      // Delete existing fields and insert new ones
-      const { error: deleteFieldsError } = await supabase
-        .from('form_fields')
-        .delete()
-        .eq('form_id', formId);
-
-      if (deleteFieldsError) {
-        throw new Error(`Failed to update form fields: ${deleteFieldsError.message}`);
+      if (!user) {
+        throw new Error('User not authenticated. Please sign in to duplicate forms.');
       }
 
-      // Insert new fields
-      if (formData.fields.length > 0) {
-        const fieldsToInsert = formData.fields.map((field, index) => ({
-          form_id: formId,
-          field_type: field.type,
-          label: field.label,
-          placeholder: field.placeholder || null,
-          is_required: field.required,
-          field_order: index,
-          options: field.options || [],
-          validation_rules: {},
-          settings: {
-            maxRating: field.maxRating
-          }
-        }));
-
-        const { error: fieldsError } = await supabase
-          .from('form_fields')
-          .insert(fieldsToInsert);
-
-        if (fieldsError) {
-          throw new Error(`Failed to save form fields: ${fieldsError.message}`);
-        }
+      if (!this.isValidUUID(formId)) {
+        throw new Error('Invalid form ID format');
       }
 
-      // Update or insert theme with all customization settings
-      const themeData = this.themeToDatabase(formData.theme);
-      const { data: existingTheme, error: themeCheckError } = await supabase
-        .from('form_themes')
-        .select('id')
-        .eq('form_id', formId)
-        .single();
-
-      if (existingTheme) {
-        // Update existing theme
-        const { error: themeError } = await supabase
-          .from('form_themes')
-          .update({
-            ...themeData,
-            updated_at: new Date().toISOString()
-          })
-          .eq('form_id', formId);
-
-        if (themeError) {
-          console.warn('Failed to update theme:', themeError.message);
-        }
-      } else {
-        // Insert new theme
-        const { error: themeError } = await supabase
-          .from('form_themes')
-          .insert({
-            form_id: formId,
-            ...themeData
-          });
+      const { data, error } = await supabase.rpc('duplicate_form', {
+        p_form_id: formId,
+        p_include_signatures: options.includeEmailSignatures,
+        p_origin: window.location.origin
+      });
 
-        if (themeError) {
-          console.warn('Failed to save theme:', themeError.message);
-        }
+      if (error) {
+        throw new Error(`Failed to duplicate form: ${error.message}`);
       }
 
-      // Return the updated form data
-      return {
-        id: formId,
-        title: formData.title,
-        description: formData.description,
-        isActive: formData.isActive,
-        createdAt: existingForm.created_at,
-        responseCount: existingForm.response_count,
-        publicUrl: `${window.location.origin}/form/${formId}`,
-        qrCodeUrl: `${window.location.origin}/qr/${formId}`
-      };
+      return this.databaseToSavedForm(data);
 
     } catch (error) {
-      console.error('Error updating form:', error);
+      console.error('Error duplicating form:', error);
       throw error;
     }
   }
@@ -414,6 +548,7 @@ export class FormService {
           form_themes (*)
         `)
         .eq('user_id', user.id)
+        .is('form_fields.archived_at', null)
         .order('created_at', { ascending: false });
 
       if (formsError) {
@@ -426,21 +561,19 @@ export class FormService {
         description: form.description || '',
         fields: form.form_fields
           .sort((a: any, b: any) => a.field_order - b.field_order)
-          .map((field: any) => ({
-            id: field.id,
-            type: field.field_type,
-            label: field.label,
-            required: field.is_required,
-            placeholder: field.placeholder,
-            options: field.options,
-            maxRating: field.settings?.maxRating
-          })),
+          .map((field: any) => this.databaseToField(field)),
         theme: form.form_themes?.[0] 
           ? this.databaseToTheme(form.form_themes[0])
           : DEFAULT_THEME,
         isActive: form.is_active,
         createdAt: new Date(form.created_at),
-        responses: form.response_count
+        responses: form.response_count,
+        duplicateAttempts: form.duplicate_attempts || 0,
+        availability: this.databaseToAvailability(form),
+        localization: this.databaseToLocalization(form.settings),
+        responseSettings: this.databaseToResponseSettings(form.settings),
+        kiosk: this.databaseToKioskSettings(form.settings),
+        protection: this.databaseToProtectionSettings(form.settings)
       }));
 
     } catch (error) {
@@ -449,7 +582,8 @@ export class FormService {
     }
   }
 
-  static async getFormById(formId: string): Promise<FeedbackForm | null> {
+  // The link or QR code a respondent came through lets them read a form that only opens through those
+  static async getFormById(formId: string, access: { linkId?: string; qrCodeId?: string } = {}): Promise<FeedbackForm | null> {
     try {
       // Validate UUID format before making the database query
       if (!this.isValidUUID(formId)) {
@@ -457,42 +591,38 @@ export class FormService {
         return null;
       }
 
-      const { data: form, error: formError } = await supabase
-        .from('forms')
-        .select(`
-          *,
-          form_fields (*),
-          form_themes (*)
-        `)
-        .eq('id', formId)
-        .eq('is_active', true)
-        .single();
+      // Returns only the columns exposed to respondents, also to a signed-in visitor
+      const { data: form, error: formError } = await supabase.rpc('get_shared_form', {
+        p_form_id: formId,
+        p_link_id: access.linkId || null,
+        p_qr_code_id: access.qrCodeId || null
+      });
 
       if (formError || !form) {
         return null;
       }
 
+      const versionId = await this.getLatestVersionId(formId);
+
       return {
         id: form.id,
         title: form.title,
         description: form.description || '',
         fields: form.form_fields
           .sort((a: any, b: any) => a.field_order - b.field_order)
-          .map((field: any) => ({
-            id: field.id,
-            type: field.field_type,
-            label: field.label,
-            required: field.is_required,
-            placeholder: field.placeholder,
-            options: field.options,
-            maxRating: field.settings?.maxRating
-          })),
+          .map((field: any) => this.databaseToField(field)),
         theme: form.form_themes?.[0] 
           ? this.databaseToTheme(form.form_themes[0])
           : DEFAULT_THEME,
         isActive: form.is_active,
         createdAt: new Date(form.created_at),
-        responses: form.response_count
+        responses: form.response_count,
+        versionId: versionId || undefined,
+        availability: this.databaseToAvailability(form),
+        localization: this.databaseToLocalization(form.settings),
+        responseSettings: this.databaseToResponseSettings(form.settings),
+        kiosk: this.databaseToKioskSettings(form.settings),
+        protection: this.databaseToProtectionSettings(form.settings)
       };
 
     } catch (error) {
@@ -530,6 +660,12 @@ export class FormService {
         throw new Error('Form not found or you do not have permission to delete it');
       }
 
+      // Remove attachments first: their paths live in response data and the storage
+      // policy checks form ownership, both of which are gone once the form is deleted
+      const attachmentPaths = await FileUploadService.getFormFilePaths(formId);
+      await FileUploadService.removeFiles(attachmentPaths);
+      await FileUploadService.removeReplacedFiles(formId);
+
       // Delete the form (cascade will handle related records)
       const { error: deleteError } = await supabase
         .from('forms')
@@ -604,8 +740,88 @@ export class FormService {
     }
   }
 
-  static async submitResponse(formId: string, responseData: Record<string, any>, source: string = 'web') {
+  // Why the form is not accepting responses, or null while it is open; checked by the database
+  static async getClosedReason(formId: string): Promise<FormClosedReason | null> {
+    const { data, error } = await supabase.rpc('form_closed_reason', { p_form_id: formId });
+
+    if (error) {
+      throw new Error(`Failed to check form availability: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async submitResponse(
+    formId: string,
+    submittedData: Record<string, any>,
+    source: string = 'web',
+    options: SubmitResponseOptions = {}
+  ) {
+    const { versionId, locale, resumeToken, deviceId, submittedAt, proof, respondentToken, linkId, qrCodeId, trackingParams } = options;
+
     try {
+      // The insert policy enforces this too; checking first gives the respondent a clear message
+      const closedReason = await this.getClosedReason(formId);
+      if (closedReason) {
+        throw new Error(FormAvailabilityService.DEFAULT_CLOSED_MESSAGES[closedReason]);
+      }
+
+      // A second response is left to the insert trigger, which counts it when turning it away
+      const respondent = await RespondentService.checkStatus(formId, respondentToken, source, options.responseId);
+      if (respondent.status === 'unverified') {
+        throw new Error('Please verify who you are before responding to this form.');
+      }
+
+      // Get form fields to validate and map the response data
+      const { data: fields, error: fieldsError } = await supabase
+        .from('form_fields')
+        .select('*')
+        .eq('form_id', formId)
+        .is('archived_at', null)
+        .order('field_order', { ascending: true });
+
+      if (fieldsError) {
+        throw new Error(`Failed to fetch form fields: ${fieldsError.message}`);
+      }
+
+      // Re-evaluate display logic so hidden questions are neither required nor stored
+      const formFields = fields.map(field => this.databaseToField(field));
+      const visibleFields = FormLogicService.getVisibleFields(formFields, submittedData);
+
+      const missingFields = visibleFields.filter(field =>
+        field.required && !FormLogicService.isComplete(field, submittedData[field.id])
+      );
+
+      if (missingFields.length > 0) {
+        throw new Error(`Please answer the required questions: ${missingFields.map(field => field.label).join(', ')}`);
+      }
+
+      // submit_form_response enforces the same rules; checking first avoids uploading for a response it rejects
+      const validationErrors = FieldValidationService.validateAnswers(visibleFields, submittedData);
+      const invalidFields = visibleFields.filter(field => validationErrors[field.id]);
+
+      if (invalidFields.length > 0) {
+        throw new Error(`Please correct the following answers: ${invalidFields.map(field => `${field.label}: ${validationErrors[field.id]}`).join('; ')}`);
+      }
+
+      const fileFields = visibleFields.filter(field =>
+        field.type === 'file' && Array.isArray(submittedData[field.id]) && submittedData[field.id].length > 0
+      );
+
+      for (const field of fileFields) {
+        const fileError = FileUploadService.validateFiles(field, submittedData[field.id]);
+        if (fileError) {
+          throw new Error(`${field.label}: ${fileError}`);
+        }
+      }
+
+      const responseData: Record<string, unknown> = {};
+      visibleFields.forEach(field => {
+        if (FormLogicService.isAnswered(submittedData[field.id])) {
+          responseData[field.id] = submittedData[field.id];
+        }
+      });
+
       // Combine all text responses for sentiment analysis
       const textResponses = Object.values(responseData)
         .filter(value => typeof value === 'string' && value.length > 10)
@@ -621,25 +837,77 @@ export class FormService {
         categorization = SentimentService.categorizeFeedback(textResponses, sentimentAnalysis);
       }
 
-      // Extract overall rating from rating fields
-      const ratingValues = Object.values(responseData).filter(value => 
-        typeof value === 'number' && value >= 1 && value <= 10
-      );
+      // Extract overall rating from star rating fields only; NPS answers use a 0-10 scale
+      const ratingValues = visibleFields
+        .filter(field => field.type === 'rating' && typeof responseData[field.id] === 'number')
+        .map(field => Number(responseData[field.id]));
       
       if (ratingValues.length > 0) {
-        overallRating = ratingValues.reduce((sum, rating) => sum + Number(rating), 0) / ratingValues.length;
+        overallRating = ratingValues.reduce((sum, rating) => sum + rating, 0) / ratingValues.length;
       }
 
-      // Create the response record with sentiment analysis
-      const { data: response, error: responseError } = await supabase
-        .from('form_responses')
-        .insert({
+      // A form is expected to ask NPS once; the first answered NPS question is the response's score
+      const npsField = visibleFields.find(field =>
+        field.type === 'nps' && NpsService.isValidScore(responseData[field.id])
+      );
+      const npsScore = npsField ? Number(responseData[npsField.id]) : null;
+
+      // Respondents may be anonymous and cannot read form_responses back,
+      // so the response ID is generated client-side instead of using RETURNING
+      const responseId = options.responseId || crypto.randomUUID();
+
+      // Link the response to the version the respondent loaded, or the current one
+      const formVersionId = versionId && this.isValidUUID(versionId)
+        ? versionId
+        : await this.getLatestVersionId(formId);
+
+      // File answers reference the paths their attachments are uploaded to afterwards
+      const fileReferences: Record<string, StoredFile[]> = {};
+      fileFields.forEach(field => {
+        fileReferences[field.id] = FileUploadService.createFileReferences(formId, responseId, field.id, submittedData[field.id]);
+      });
+
+      const responseDataEntries = Object.entries(responseData).map(([fieldId, value]) => {
+        const field = formFields.find(f => f.id === fieldId);
+
+        if (field?.type === 'file') {
+          const files = fileReferences[fieldId] || [];
+          return {
+            field_id: fieldId,
+            field_value: files.map(file => file.name).join(', '),
+            field_data: {
+              field_type: field.type,
+              files
+            }
+          };
+        }
+
+        return {
+          field_id: fieldId,
+          field_value: typeof value === 'string' ? value : JSON.stringify(value),
+          field_data: {
+            field_type: field?.type,
+            raw_value: value,
+            ...(field?.type === 'matrix' && { rows: this.matrixToRows(field, value as MatrixAnswer) })
+          }
+        };
+      });
+
+      // The response and its answers are stored together or not at all
+      const { data: submitResult, error: submitError } = await supabase.rpc('submit_form_response', {
+        p_response: {
+          id: responseId,
           form_id: formId,
+          form_version_id: formVersionId,
           response_source: source,
-          user_agent: navigator.userAgent,
+          locale: locale || null,
+          device_id: deviceId || null,
+          link_id: linkId || null,
+          qr_code_id: qrCodeId || null,
+          submitted_at: submittedAt || null,
           sentiment: sentimentAnalysis?.sentiment || null,
           overall_rating: overallRating,
-          is_complete: true,
+          nps_score: npsScore,
           metadata: {
             sentimentAnalysis,
             categorization,
@@ -648,51 +916,40 @@ export class FormService {
             actionRequired: categorization?.actionRequired || false,
             suggestedActions: categorization?.suggestedActions || [],
             keywords: sentimentAnalysis?.keywords || [],
-            emotions: sentimentAnalysis?.emotions || {}
+            emotions: sentimentAnalysis?.emotions || {},
+            // Read by the database's spam screening
+            protection: {
+              challenge_id: proof?.challengeId || null,
+              nonce: proof?.nonce || null,
+              honeypot: proof?.honeypot || ''
+            },
+            ...(trackingParams && Object.keys(trackingParams).length > 0 && { tracking_params: trackingParams }),
+            // Turned into respondent_key and removed by the database
+            ...(respondentToken && { respondent_token: respondentToken })
           }
-        })
-        .select()
-        .single();
+        },
+        p_answers: responseDataEntries
+      });
 
-      if (responseError) {
-        throw new Error(`Failed to save response: ${responseError.message}`);
+      if (submitError) {
+        throw new Error(`Failed to save response: ${submitError.message}`);
       }
-
-      // Get form fields to map the response data
-      const { data: fields, error: fieldsError } = await supabase
-        .from('form_fields')
-        .select('id, field_type')
-        .eq('form_id', formId);
-
-      if (fieldsError) {
-        throw new Error(`Failed to fetch form fields: ${fieldsError.message}`);
+      if (submitResult?.status === 'duplicate') {
+        throw new Error('You have already responded to this form.');
       }
 
-      // Save individual field responses
-      const responseDataEntries = Object.entries(responseData).map(([fieldId, value]) => {
-        const field = fields.find(f => f.id === fieldId);
-        return {
-          response_id: response.id,
-          field_id: fieldId,
-          field_value: typeof value === 'string' ? value : JSON.stringify(value),
-          field_data: {
-            field_type: field?.field_type,
-            raw_value: value
-          }
-        };
-      });
-
-      if (responseDataEntries.length > 0) {
-        const { error: dataError } = await supabase
-          .from('form_response_data')
-          .insert(responseDataEntries);
+      // Also run when a replay finds its response already stored: the paths are the same,
+      // so only the attachments that did not arrive the first time are uploaded
+      for (const field of fileFields) {
+        await FileUploadService.uploadFiles(fileReferences[field.id], submittedData[field.id]);
+      }
 
-        if (dataError) {
-          throw new Error(`Failed to save response data: ${dataError.message}`);
-        }
+      // The complete response replaces the saved progress
+      if (resumeToken) {
+        await ResponseProgressService.discardProgress(formId, resumeToken);
       }
 
-      return response.id;
+      return responseId;
 
     } catch (error) {
       console.error('Error submitting response:', error);
@@ -723,7 +980,13 @@ export class FormService {
         throw new Error('Form not found or access denied');
       }
 
-      // Get form fields to enrich response data
+      try {
+        await FileUploadService.removeReplacedFiles(formId);
+      } catch (removeError) {
+        console.warn('Failed to delete attachments of replaced responses:', removeError);
+      }
+
+      // Get form fields, including archived ones, to enrich response data
       const { data: formFields, error: fieldsError } = await supabase
         .from('form_fields')
         .select('id, label, field_type')
@@ -736,6 +999,26 @@ export class FormService {
       // Create a map for quick field lookup
       const fieldMap = new Map(formFields.map(field => [field.id, { label: field.label, type: field.field_type }]));
 
+      // Version snapshots hold the label and type each respondent actually saw
+      const { data: versions, error: versionsError } = await supabase
+        .from('form_versions')
+        .select('id, version_number, fields')
+        .eq('form_id', formId);
+
+      if (versionsError) {
+        throw new Error(`Failed to fetch form versions: ${versionsError.message}`);
+      }
+
+      const versionFieldMaps = new Map(versions.map(version => [
+        version.id,
+        {
+          versionNumber: version.version_number,
+          fields: new Map<string, { label: string; type: string }>(
+            (version.fields || []).map((field: { id: string; label: string; field_type: string }) => [field.id, { label: field.label, type: field.field_type }])
+          )
+        }
+      ]));
+
       // Get responses with analysis data - ONLY fetch non-deleted responses
       const { data: responses, error: responsesError } = await supabase
         .from('form_responses')
@@ -760,17 +1043,22 @@ export class FormService {
       });
 
       // Enrich response data with field labels and types
-      return activeResponses.map(response => ({
-        ...response,
-        form_response_data: response.form_response_data.map((data: any) => {
-          const fieldInfo = fieldMap.get(data.field_id);
-          return {
-            ...data,
-            field_label: fieldInfo?.label || 'Unknown Field',
-            field_type: fieldInfo?.type || 'unknown'
-          };
-        })
-      }));
+      return activeResponses.map(response => {
+        const version = versionFieldMaps.get(response.form_version_id);
+
+        return {
+          ...response,
+          form_version_number: version?.versionNumber ?? null,
+          form_response_data: response.form_response_data.map((data: any) => {
+            const fieldInfo = version?.fields.get(data.field_id) || fieldMap.get(data.field_id);
+            return {
+              ...data,
+              field_label: fieldInfo?.label || 'Unknown Field',
+              field_type: fieldInfo?.type || 'unknown'
+            };
+          })
+        };
+      });
 
     } catch (error) {
       console.error('Error fetching form responses:', error);
@@ -870,6 +1158,8 @@ export class FormService {
         throw new Error('Response not found or access denied');
       }
 
+      const attachmentPaths = await FileUploadService.getResponseFilePaths(responseId);
+
       // HARD DELETE: Actually remove the response from the database
       // This will cascade and delete related form_response_data records
       const { error: deleteError } = await supabase
@@ -881,13 +1171,10 @@ export class FormService {
         throw new Error(`Failed to delete response: ${deleteError.message}`);
       }
 
-      // Also update the form's response count
-      const { error: updateCountError } = await supabase.rpc('decrement_form_response_count', {
-        form_id: response.form_id
-      });
-
-      if (updateCountError) {
-        console.warn('Failed to update form response count:', updateCountError.message);
+      try {
+        await FileUploadService.removeFiles(attachmentPaths);
+      } catch (removeError) {
+        console.warn('Failed to delete response attachments:', removeError);
         // Don't fail the entire operation for this
       }
 
@@ -897,10 +1184,28 @@ export class FormService {
     }
   }
 
+  // Marks a quarantined response as genuine so it counts and shows up in analytics
+  static async releaseQuarantinedResponse(responseId: string): Promise<void> {
+    try {
+      if (!this.isValidUUID(responseId)) {
+        throw new Error('Invalid response ID format');
+      }
+
+      const { error } = await supabase.rpc('release_quarantined_response', { p_response_id: responseId });
+
+      if (error) {
+        throw new Error(`Failed to release response: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error releasing quarantined response:', error);
+      throw error;
+    }
+  }
+
   static async getFormAnalytics(formId: string) {
     try {
       const responses = await this.getFormResponses(formId);
-      return SentimentService.generateInsights(responses);
+      return SentimentService.generateInsights(responses.filter(response => response.is_complete && !response.quarantined));
     } catch (error) {
       console.error('Error generating form analytics:', error);
       throw error;
@@ -921,7 +1226,7 @@ export class FormService {
       // Get all forms for the user
       const { data: forms, error: formsError } = await supabase
         .from('forms')
-        .select('id, title, is_active, response_count, created_at')
+        .select('id, title, is_active, response_count, duplicate_attempts, created_at')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -936,6 +1241,8 @@ export class FormService {
       let totalResponses = 0;
       let totalInvitations = 0;
       let avgSatisfaction = 0;
+      let npsScore: number | null = null;
+      let npsBreakdown = { promoters: 0, passives: 0, detractors: 0 };
       let sentimentBreakdown = { positive: 0, neutral: 0, negative: 0 };
 
       // Get invitation count from form_invitations table
@@ -954,6 +1261,8 @@ export class FormService {
           .from('form_responses')
           .select('*')
           .in('form_id', formIds)
+          .eq('is_complete', true)
+          .eq('quarantined', false)
           .order('submitted_at', { ascending: false });
 
         if (responsesError) {
@@ -974,6 +1283,17 @@ export class FormService {
             avgSatisfaction = ratingsWithValues.reduce((sum, r) => sum + r.overall_rating, 0) / ratingsWithValues.length;
           }
 
+          // Calculate NPS from responses that answered an NPS question
+          const nps = NpsService.summarize(allResponses.map(r => r.nps_score).filter(NpsService.isValidScore));
+          if (nps.total > 0) {
+            npsScore = nps.score;
+            npsBreakdown = {
+              promoters: Math.round((nps.promoters / nps.total) * 100),
+              passives: Math.round((nps.passives / nps.total) * 100),
+              detractors: Math.round((nps.detractors / nps.total) * 100)
+            };
+          }
+
           // Calculate sentiment breakdown
           const sentimentCounts = { positive: 0, neutral: 0, negative: 0 };
           allResponses.forEach(response => {
@@ -1009,6 +1329,7 @@ export class FormService {
         id: form.id,
         title: form.title,
         responses: form.response_count || 0,
+        duplicateAttempts: form.duplicate_attempts || 0,
         isActive: form.is_active,
         createdAt: new Date(form.created_at)
       }));
@@ -1022,6 +1343,7 @@ export class FormService {
 
       let responsesChange = 0;
       let satisfactionChange = 0;
+      let npsChange = 0;
 
       if (olderResponses.length > 0) {
         responsesChange = Math.round(((recentResponses.length - olderResponses.length) / olderResponses.length) * 100);
@@ -1037,6 +1359,14 @@ export class FormService {
         if (olderAvgSatisfaction > 0) {
           satisfactionChange = Number(((recentAvgSatisfaction - olderAvgSatisfaction) / olderAvgSatisfaction * 100).toFixed(1));
         }
+
+        // NPS can be negative, so its change is reported in points rather than percent
+        const recentNps = NpsService.summarize(recentResponses.map(r => r.nps_score).filter(NpsService.isValidScore));
+        const olderNps = NpsService.summarize(olderResponses.map(r => r.nps_score).filter(NpsService.isValidScore));
+
+        if (recentNps.total > 0 && olderNps.total > 0) {
+          npsChange = recentNps.score - olderNps.score;
+        }
       } else if (recentResponses.length > 0) {
         responsesChange = 100; // All responses are new
       }
@@ -1045,13 +1375,16 @@ export class FormService {
         totalResponses,
         totalInvitations,
         avgSatisfaction: Number(avgSatisfaction.toFixed(1)),
+        npsScore,
+        npsBreakdown,
         activeFormsCount,
         responseRate,
         sentimentBreakdown,
         recentForms,
         monthlyTrend: {
           responsesChange,
-          satisfactionChange
+          satisfactionChange,
+          npsChange
         }
       };
 
@@ -1062,13 +1395,16 @@ export class FormService {
         totalResponses: 0,
         totalInvitations: 0,
         avgSatisfaction: 0,
+        npsScore: null,
+        npsBreakdown: { promoters: 0, passives: 0, detractors: 0 },
         activeFormsCount: 0,
         responseRate: 0,
         sentimentBreakdown: { positive: 0, neutral: 0, negative: 0 },
         recentForms: [],
         monthlyTrend: {
           responsesChange: 0,
-          satisfactionChange: 0
+          satisfactionChange: 0,
+          npsChange: 0
         }
       };
     }
@@ -0,0 +1,195 @@
+import { FeedbackForm, FormField, FieldTranslation, FormLocalization } from '../context/FeedbackContext';
+import { DEFAULT_LOCALIZATION } from '../context/formDefaults';
+
+export interface LocaleOption {
+  code: string;
+  name: string;
+}
+
+// One translatable string: the default-language `source` and its translation (empty when missing)
+export interface TranslationEntry {
+  key: string;
+  label: string;
+  source: string;
+  value: string;
+}
+
+// Display strings of a field in the respondent's locale
+export interface TranslatedField {
+  label: string;
+  placeholder?: string;
+  // Same order and length as `field.options`; answers still use the original option
+  options: string[];
+  matrixRows: string[];
+}
+
+export class FormTranslationService {
+  static readonly LOCALES: LocaleOption[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'sv', name: 'Swedish' },
+    { code: 'da', name: 'Danish' },
+    { code: 'fi', name: 'Finnish' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'zh', name: 'Chinese' },
+    { code: 'ar', name: 'Arabic' }
+  ];
+
+  static getLocaleName(code: string): string {
+    return this.LOCALES.find(locale => locale.code === code)?.name || code;
+  }
+
+  static getLocalization(form: FeedbackForm): FormLocalization {
+    return form.localization || DEFAULT_LOCALIZATION;
+  }
+
+  static getFormLocales(form: FeedbackForm): string[] {
+    const { defaultLocale, locales } = this.getLocalization(form);
+    return [defaultLocale, ...locales];
+  }
+
+  /**
+   * Picks the locale to show: `?lang=` first, then the browser languages in order of
+   * preference, then the form's default. "fr-CA" matches "fr" when only "fr" exists.
+   */
+  static resolveLocale(form: FeedbackForm, requested: string | null, browserLanguages: readonly string[]): string {
+    const available = this.getFormLocales(form);
+    const candidates = [requested, ...browserLanguages].filter((code): code is string => !!code);
+
+    for (const candidate of candidates) {
+      const code = candidate.toLowerCase();
+      const match = available.find(locale => locale === code) ||
+        available.find(locale => locale === code.split('-')[0]);
+      if (match) return match;
+    }
+
+    return this.getLocalization(form).defaultLocale;
+  }
+
+  static translateForm(form: FeedbackForm, locale: string): { title: string; description: string } {
+    const strings = this.getLocalization(form).translations[locale] || {};
+    return {
+      title: strings.title?.trim() || form.title,
+      description: strings.description?.trim() || form.description
+    };
+  }
+
+  static translateField(field: FormField, locale: string): TranslatedField {
+    const strings: FieldTranslation = field.translations?.[locale] || {};
+    const pick = (translated: string | undefined, original: string) => translated?.trim() || original;
+
+    return {
+      label: pick(strings.label, field.label),
+      placeholder: field.placeholder ? pick(strings.placeholder, field.placeholder) : field.placeholder,
+      options: (field.options || []).map((option, i) => pick(strings.options?.[i], option)),
+      matrixRows: (field.matrixRows || []).map((row, i) => pick(strings.matrixRows?.[i], row))
+    };
+  }
+
+  // Every non-empty default-language string of the form with its translation in `locale`
+  static getEntries(form: FeedbackForm, locale: string): TranslationEntry[] {
+    const entries: TranslationEntry[] = [];
+    const formStrings = this.getLocalization(form).translations[locale] || {};
+    const add = (key: string, label: string, source: string | undefined, value: string | undefined) => {
+      if (source?.trim()) {
+        entries.push({ key, label, source, value: value || '' });
+      }
+    };
+
+    add('title', 'Form title', form.title, formStrings.title);
+    add('description', 'Form description', form.description, formStrings.description);
+
+    form.fields.forEach((field, index) => {
+      const strings = field.translations?.[locale] || {};
+      const name = field.type === 'page-break' ? `Page title ${index + 1}` : `Question ${index + 1}`;
+
+      add(`${field.id}.label`, name, field.label, strings.label);
+      add(`${field.id}.placeholder`, `${name} placeholder`, field.placeholder, strings.placeholder);
+      (field.options || []).forEach((option, i) => {
+        add(`${field.id}.options.${i}`, `${name} option ${i + 1}`, option, strings.options?.[i]);
+      });
+      (field.matrixRows || []).forEach((row, i) => {
+        add(`${field.id}.matrixRows.${i}`, `${name} row ${i + 1}`, row, strings.matrixRows?.[i]);
+      });
+    });
+
+    return entries;
+  }
+
+  static getMissing(form: FeedbackForm, locale: string): TranslationEntry[] {
+    return this.getEntries(form, locale).filter(entry => !entry.value.trim());
+  }
+
+  // Sets one string by the key from getEntries and returns the updated form
+  static setTranslation(form: FeedbackForm, locale: string, key: string, value: string): FeedbackForm {
+    const localization = this.getLocalization(form);
+
+    if (key === 'title' || key === 'description') {
+      return {
+        ...form,
+        localization: {
+          ...localization,
+          translations: {
+            ...localization.translations,
+            [locale]: { ...localization.translations[locale], [key]: value }
+          }
+        }
+      };
+    }
+
+    const [fieldId, property, position] = key.split('.');
+
+    return {
+      ...form,
+      fields: form.fields.map(field => {
+        if (field.id !== fieldId) return field;
+
+        const strings: FieldTranslation = { ...field.translations?.[locale] };
+        if (property === 'options' || property === 'matrixRows') {
+          const list = [...(strings[property] || [])];
+          list[Number(position)] = value;
+          // Sparse arrays become null in JSON, so fill the gaps
+          strings[property] = Array.from(list, item => item || '');
+        } else {
+          strings[property as 'label' | 'placeholder'] = value;
+        }
+
+        return { ...field, translations: { ...field.translations, [locale]: strings } };
+      })
+    };
+  }
+
+  static addLocale(form: FeedbackForm, locale: string): FeedbackForm {
+    const localization = this.getLocalization(form);
+    if (this.getFormLocales(form).includes(locale)) return form;
+
+    return { ...form, localization: { ...localization, locales: [...localization.locales, locale] } };
+  }
+
+  // Drops the locale and every string translated into it
+  static removeLocale(form: FeedbackForm, locale: string): FeedbackForm {
+    const localization = this.getLocalization(form);
+    const without = <T>(translations: Record<string, T>) =>
+      Object.fromEntries(Object.entries(translations).filter(([code]) => code !== locale));
+
+    return {
+      ...form,
+      localization: {
+        ...localization,
+        locales: localization.locales.filter(code => code !== locale),
+        translations: without(localization.translations)
+      },
+      fields: form.fields.map(field =>
+        field.translations?.[locale] ? { ...field, translations: without(field.translations) } : field
+      )
+    };
+  }
+}
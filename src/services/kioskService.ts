@@ -0,0 +1,98 @@
+import { supabase } from '../lib/supabase';
+import { FeedbackForm, FormKioskSettings } from '../context/FeedbackContext';
+import { DEFAULT_KIOSK_SETTINGS } from '../context/formDefaults';
+
+export class KioskService {
+  private static readonly DEVICE_STORAGE_KEY = 'feedbackKioskDevice';
+  static readonly MIN_IDLE_TIMEOUT_SECONDS = 15;
+  static readonly MIN_THANK_YOU_SECONDS = 3;
+
+  static getSettings(form: FeedbackForm): FormKioskSettings {
+    return { ...DEFAULT_KIOSK_SETTINGS, ...form.kiosk };
+  }
+
+  static getKioskUrl(formId: string, deviceId?: string): string {
+    const device = deviceId?.trim() ? `?device=${encodeURIComponent(this.normalizeDeviceId(deviceId))}` : '';
+    return `${window.location.origin}/kiosk/${formId}${device}`;
+  }
+
+  // Lowercase letters, digits, "-" and "_", so ids read well in reports and URLs
+  static normalizeDeviceId(deviceId: string): string {
+    return deviceId
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 64);
+  }
+
+  /**
+   * The tablet's device id: `?device=` when given, otherwise the id this browser used
+   * before, otherwise a new random one. The result is remembered so a reload keeps it.
+   */
+  static getDeviceId(requested: string | null): string {
+    let stored: string | null = null;
+    try {
+      stored = localStorage.getItem(this.DEVICE_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to read kiosk device id:', error);
+    }
+
+    const deviceId = (requested && this.normalizeDeviceId(requested)) ||
+      stored ||
+      `kiosk-${crypto.randomUUID().slice(0, 8)}`;
+
+    try {
+      localStorage.setItem(this.DEVICE_STORAGE_KEY, deviceId);
+    } catch (error) {
+      console.warn('Failed to store kiosk device id:', error);
+    }
+
+    return deviceId;
+  }
+
+  static validate(settings: FormKioskSettings): string | null {
+    if (settings.idleTimeoutSeconds < this.MIN_IDLE_TIMEOUT_SECONDS) {
+      return `The idle timeout must be at least ${this.MIN_IDLE_TIMEOUT_SECONDS} seconds`;
+    }
+    if (settings.thankYouSeconds < this.MIN_THANK_YOU_SECONDS) {
+      return `The thank-you screen must show for at least ${this.MIN_THANK_YOU_SECONDS} seconds`;
+    }
+    if (settings.exitPin && !/^\d{4,8}$/.test(settings.exitPin)) {
+      return 'The exit PIN must be 4 to 8 digits';
+    }
+    return null;
+  }
+
+  // The PIN is only known to the database, which locks it after repeated wrong entries
+  static async checkExitPin(formId: string, pin: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('check_kiosk_exit_pin', { p_form_id: formId, p_pin: pin });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data === true;
+  }
+
+  // Browsers only allow fullscreen from a user gesture, so this is called on the first touch
+  static async enterFullscreen(): Promise<void> {
+    if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+
+    try {
+      await document.documentElement.requestFullscreen();
+    } catch (error) {
+      console.warn('Failed to enter fullscreen:', error);
+    }
+  }
+
+  static async exitFullscreen(): Promise<void> {
+    if (!document.fullscreenElement) return;
+
+    try {
+      await document.exitFullscreen();
+    } catch (error) {
+      console.warn('Failed to exit fullscreen:', error);
+    }
+  }
+}
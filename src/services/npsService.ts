@@ -0,0 +1,54 @@
+export type NpsCategory = 'promoter' | 'passive' | 'detractor';
+
+export interface NpsSummary {
+  score: number;
+  total: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  // Number of answers for each point on the 0-10 scale
+  distribution: number[];
+}
+
+export class NpsService {
+  static readonly CATEGORY_COLORS: Record<NpsCategory, string> = {
+    promoter: '#10B981',
+    passive: '#F59E0B',
+    detractor: '#EF4444'
+  };
+
+  static isValidScore(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 10;
+  }
+
+  static classify(score: number): NpsCategory {
+    if (score >= 9) return 'promoter';
+    if (score >= 7) return 'passive';
+    return 'detractor';
+  }
+
+  // Expects scores already checked with isValidScore.
+  // NPS is the percentage of promoters minus the percentage of detractors (-100 to 100)
+  static summarize(scores: number[]): NpsSummary {
+    const distribution = Array.from({ length: 11 }, () => 0);
+    let promoters = 0;
+    let passives = 0;
+    let detractors = 0;
+
+    scores.forEach(score => {
+      distribution[score]++;
+
+      const category = this.classify(score);
+      if (category === 'promoter') promoters++;
+      else if (category === 'passive') passives++;
+      else detractors++;
+    });
+
+    const total = promoters + passives + detractors;
+    const score = total > 0
+      ? Math.round(((promoters - detractors) / total) * 100)
+      : 0;
+
+    return { score, total, promoters, passives, detractors, distribution };
+  }
+}
@@ -0,0 +1,184 @@
+import { FormService, SubmitResponseOptions } from './formService';
+import { SpamProtectionService } from './spamProtectionService';
+
+// A submission waiting on this device until it can reach the server
+export interface QueuedSubmission {
+  // Response ID the submission is stored under; the same on every attempt
+  id: string;
+  formId: string;
+  // Answers as submitted; IndexedDB keeps file answers as the original File objects
+  data: Record<string, unknown>;
+  source: string;
+  options: SubmitResponseOptions;
+  submittedAt: string;
+  attempts: number;
+  // 'failed' once the server rejected it, e.g. because the form closed meanwhile
+  status: 'queued' | 'failed';
+  lastError?: string;
+}
+
+export interface QueueSummary {
+  queued: number;
+  failed: number;
+}
+
+export class OfflineQueueService {
+  private static readonly DB_NAME = 'feedbackOfflineQueue';
+  private static readonly STORE_NAME = 'submissions';
+  private static isFlushing = false;
+  private static listeners = new Set<() => void>();
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static async runRequest<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(this.STORE_NAME, mode).objectStore(this.STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private static notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Called whenever the queue changes; returns the unsubscribe function
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether a failed submission should be queued rather than reported: the browser is
+   * offline or the request never reached the server. Supabase reports the fetch failure
+   * in the error message rather than throwing it.
+   */
+  static isNetworkError(error: unknown): boolean {
+    if (!navigator.onLine) return true;
+
+    const message = error instanceof Error ? error.message : String(error);
+    return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+  }
+
+  static async enqueue(
+    formId: string,
+    data: Record<string, unknown>,
+    source: string,
+    options: SubmitResponseOptions = {}
+  ): Promise<QueuedSubmission> {
+    const submission: QueuedSubmission = {
+      id: options.responseId || crypto.randomUUID(),
+      formId,
+      data,
+      source,
+      options,
+      submittedAt: options.submittedAt || new Date().toISOString(),
+      attempts: 0,
+      status: 'queued'
+    };
+
+    await this.runRequest('readwrite', store => store.put(submission));
+    this.notify();
+    return submission;
+  }
+
+  static async getQueued(formId?: string): Promise<QueuedSubmission[]> {
+    const submissions = await this.runRequest<QueuedSubmission[]>('readonly', store => store.getAll());
+
+    return submissions
+      .filter(submission => !formId || submission.formId === formId)
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  }
+
+  static async getSummary(formId?: string): Promise<QueueSummary> {
+    const submissions = await this.getQueued(formId);
+
+    return {
+      queued: submissions.filter(submission => submission.status === 'queued').length,
+      failed: submissions.filter(submission => submission.status === 'failed').length
+    };
+  }
+
+  // A submission made offline never got a challenge; without one it would be quarantined
+  private static async withChallenge(submission: QueuedSubmission): Promise<SubmitResponseOptions> {
+    const { proof } = submission.options;
+    if (proof?.challengeId) return submission.options;
+
+    const challenge = await SpamProtectionService.issueChallenge(submission.formId);
+    if (!challenge) return submission.options;
+
+    return {
+      ...submission.options,
+      proof: {
+        ...proof,
+        challengeId: challenge.id,
+        nonce: (await SpamProtectionService.solveChallenge(challenge)) || undefined
+      }
+    };
+  }
+
+  /**
+   * Sends queued submissions in the order they were made and returns how many arrived.
+   * Stops at the first network failure; the rest wait for the next attempt.
+   */
+  static async flush(): Promise<number> {
+    if (this.isFlushing) return 0;
+
+    this.isFlushing = true;
+    let sent = 0;
+
+    try {
+      const submissions = (await this.getQueued()).filter(submission => submission.status === 'queued');
+
+      for (const submission of submissions) {
+        try {
+          await FormService.submitResponse(submission.formId, submission.data, submission.source, {
+            ...(await this.withChallenge(submission)),
+            responseId: submission.id,
+            submittedAt: submission.submittedAt
+          });
+          await this.runRequest('readwrite', store => store.delete(submission.id));
+          sent++;
+        } catch (error) {
+          const isNetworkError = this.isNetworkError(error);
+
+          await this.runRequest('readwrite', store => store.put({
+            ...submission,
+            attempts: submission.attempts + 1,
+            status: isNetworkError ? 'queued' : 'failed',
+            lastError: error instanceof Error ? error.message : String(error)
+          }));
+
+          if (isNetworkError) break;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to send queued submissions:', error);
+    } finally {
+      this.isFlushing = false;
+      this.notify();
+    }
+
+    return sent;
+  }
+}
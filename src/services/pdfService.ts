@@ -0,0 +1,117 @@
+// A page of a generated PDF: a rendered canvas stretched over the whole page
+export interface PdfPage {
+  canvas: HTMLCanvasElement;
+  // Page size in points (1/72 inch)
+  width: number;
+  height: number;
+}
+
+/**
+ * Writes PDFs in the browser without a PDF library. Each page is one lossless image, so
+ * whatever can be drawn on a canvas prints exactly as previewed; render the canvas at
+ * print resolution (see pixelsForPrint) to keep edges sharp.
+ */
+export class PdfService {
+  static readonly PRINT_DPI = 300;
+
+  static mmToPoints(mm: number): number {
+    return (mm / 25.4) * 72;
+  }
+
+  static pixelsForPrint(mm: number): number {
+    return Math.round((mm / 25.4) * this.PRINT_DPI);
+  }
+
+  // Flattens the canvas onto white, since PDF images here carry no alpha channel
+  private static canvasToRgb(canvas: HTMLCanvasElement): Uint8Array {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to read the canvas');
+    }
+
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+
+    for (let pixel = 0, offset = 0; pixel < data.length; pixel += 4, offset += 3) {
+      const alpha = data[pixel + 3] / 255;
+      rgb[offset] = Math.round(data[pixel] * alpha + 255 * (1 - alpha));
+      rgb[offset + 1] = Math.round(data[pixel + 1] * alpha + 255 * (1 - alpha));
+      rgb[offset + 2] = Math.round(data[pixel + 2] * alpha + 255 * (1 - alpha));
+    }
+
+    return rgb;
+  }
+
+  // The browser's 'deflate' stream is zlib-wrapped, which is what PDF's FlateDecode expects
+  private static async deflate(bytes: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  static async createPdf(pages: PdfPage[]): Promise<Blob> {
+    if (pages.length === 0) {
+      throw new Error('A PDF needs at least one page');
+    }
+
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    const writeObject = (id: number, dictionary: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${dictionary}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // Objects 1 and 2 are the catalog and page tree; each page then takes three: the page,
+    // its content stream and its image
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+    const objectCount = 3 + pages.length * 3;
+
+    write('%PDF-1.4\n%âãÏÓ\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+    for (const [index, page] of pages.entries()) {
+      const pageId = pageIds[index];
+      const width = page.width.toFixed(2);
+      const height = page.height.toFixed(2);
+      const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+      const image = await this.deflate(this.canvasToRgb(page.canvas));
+
+      writeObject(
+        pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+          `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      );
+      writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+      writeObject(
+        pageId + 2,
+        `<< /Type /XObject /Subtype /Image /Width ${page.canvas.width} /Height ${page.canvas.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>`,
+        image
+      );
+    }
+
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,242 @@
+import { FeedbackTheme } from '../context/FeedbackContext';
+import { PdfService } from './pdfService';
+import { QrCodeDesign, QrCodeService } from './qrCodeService';
+
+export type PrintTemplateId = 'a4-poster' | 'letter-poster' | 'a6-table-tent' | 'sticker';
+
+export interface PrintTemplate {
+  id: PrintTemplateId;
+  name: string;
+  description: string;
+  // Size of the printed sheet
+  widthMm: number;
+  heightMm: number;
+  // Prints the face twice, the upper copy upside down, so the sheet folds into a tent
+  folded: boolean;
+}
+
+export interface PrintLayoutContent {
+  theme: FeedbackTheme;
+  headline: string;
+  callToAction: string;
+  qrUrl: string;
+  qrDesign: QrCodeDesign;
+}
+
+export class PrintLayoutService {
+  static readonly TEMPLATES: PrintTemplate[] = [
+    { id: 'a4-poster', name: 'A4 poster', description: '210 × 297 mm', widthMm: 210, heightMm: 297, folded: false },
+    { id: 'letter-poster', name: 'Letter poster', description: '8.5 × 11 in', widthMm: 215.9, heightMm: 279.4, folded: false },
+    {
+      id: 'a6-table-tent',
+      name: 'A6 table tent',
+      description: 'Two A6 faces on an A5 sheet, folded along the dashed line',
+      widthMm: 148,
+      heightMm: 210,
+      folded: true
+    },
+    { id: 'sticker', name: 'Sticker', description: '80 × 80 mm', widthMm: 80, heightMm: 80, folded: false }
+  ];
+
+  static readonly DEFAULT_HEADLINE = "We'd love your feedback";
+  static readonly DEFAULT_CALL_TO_ACTION = 'Scan the code with your phone camera to tell us how we did';
+
+  static getTemplate(id: PrintTemplateId): PrintTemplate {
+    return this.TEMPLATES.find(template => template.id === id) || this.TEMPLATES[0];
+  }
+
+  private static wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && context.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  /**
+   * Stacks logo, headline, code, call to action and the theme's footer text down the middle of
+   * the face. Sizes follow the face's width and shrink together until the stack fits its height,
+   * so the same layout serves posters, landscape tent faces and small stickers.
+   */
+  private static async drawFace(
+    context: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    content: PrintLayoutContent,
+    logo: HTMLImageElement | null
+  ): Promise<void> {
+    const { theme } = content;
+
+    if (theme.backgroundType === 'gradient' && theme.gradientColors.length > 1) {
+      const gradient = context.createLinearGradient(0, 0, width, height);
+      theme.gradientColors.forEach((color, index) => {
+        gradient.addColorStop(index / (theme.gradientColors.length - 1), color);
+      });
+      context.fillStyle = gradient;
+    } else {
+      context.fillStyle = theme.backgroundColor;
+    }
+    context.fillRect(0, 0, width, height);
+
+    // Brand bands along the top and bottom edges
+    const band = Math.min(width, height) * 0.03;
+    context.fillStyle = theme.primaryColor;
+    context.fillRect(0, 0, width, band);
+    context.fillRect(0, height - band, width, band);
+
+    const font = `"${theme.fontFamily}", sans-serif`;
+    const padding = Math.min(width, height) * 0.08;
+    const innerWidth = width - padding * 2;
+    const available = height - band * 2 - padding * 2;
+    const footerText = theme.footer.enabled ? theme.footer.text.trim() : '';
+
+    // Natural sizes; everything is scaled down together when the stack is too tall
+    const headlineSize = width * 0.075;
+    const callToActionSize = width * 0.04;
+    const footerSize = width * 0.025;
+    const gap = Math.min(width, height) * 0.04;
+    const qrSize = Math.min(width * 0.55, height * 0.45);
+    const logoScale = logo ? Math.min((innerWidth * 0.5) / logo.width, (height * 0.12) / logo.height) : 0;
+
+    const layout = (scale: number) => {
+      context.font = `bold ${headlineSize * scale}px ${font}`;
+      const headlineLines = this.wrapText(context, content.headline, innerWidth);
+      context.font = `${callToActionSize * scale}px ${font}`;
+      const callToActionLines = this.wrapText(context, content.callToAction, innerWidth);
+      context.font = `${footerSize * scale}px ${font}`;
+      const footerLines = this.wrapText(context, footerText, innerWidth);
+
+      const blocks = [
+        logo ? logo.height * logoScale * scale : 0,
+        headlineLines.length * headlineSize * 1.2 * scale,
+        qrSize * scale,
+        callToActionLines.length * callToActionSize * 1.3 * scale,
+        footerLines.length * footerSize * 1.3 * scale
+      ].filter(blockHeight => blockHeight > 0);
+
+      return {
+        headlineLines,
+        callToActionLines,
+        footerLines,
+        total: blocks.reduce((sum, blockHeight) => sum + blockHeight, 0) + gap * scale * (blocks.length - 1)
+      };
+    };
+
+    // Shrinking can rewrap lines, so settle over a few passes
+    let scale = 1;
+    let stack = layout(scale);
+    for (let pass = 0; pass < 4 && stack.total > available; pass++) {
+      scale *= available / stack.total;
+      stack = layout(scale);
+    }
+
+    const centre = width / 2;
+    let y = band + padding + Math.max(0, (available - stack.total) / 2);
+    context.textAlign = 'center';
+    context.textBaseline = 'top';
+    context.fillStyle = theme.textColor;
+
+    const drawLines = (lines: string[], fontStyle: string, size: number, lineHeight: number) => {
+      if (lines.length === 0) return;
+      context.font = `${fontStyle}${size * scale}px ${font}`;
+      lines.forEach((line, index) => context.fillText(line, centre, y + index * size * lineHeight * scale));
+      y += lines.length * size * lineHeight * scale + gap * scale;
+    };
+
+    if (logo) {
+      const logoWidth = logo.width * logoScale * scale;
+      const logoHeight = logo.height * logoScale * scale;
+      context.drawImage(logo, centre - logoWidth / 2, y, logoWidth, logoHeight);
+      y += logoHeight + gap * scale;
+    }
+
+    drawLines(stack.headlineLines, 'bold ', headlineSize, 1.2);
+
+    const qrCanvas = document.createElement('canvas');
+    await QrCodeService.renderToCanvas(qrCanvas, content.qrUrl, content.qrDesign, Math.round(qrSize * scale));
+    context.drawImage(qrCanvas, centre - qrCanvas.width / 2, y);
+    y += qrCanvas.width + gap * scale;
+
+    drawLines(stack.callToActionLines, '', callToActionSize, 1.3);
+    drawLines(stack.footerLines, '', footerSize, 1.3);
+  }
+
+  // Sizes the canvas to the template at the given resolution and draws the layout on it
+  static async render(
+    canvas: HTMLCanvasElement,
+    template: PrintTemplate,
+    content: PrintLayoutContent,
+    pixelsPerMm: number
+  ): Promise<void> {
+    canvas.width = Math.round(template.widthMm * pixelsPerMm);
+    canvas.height = Math.round(template.heightMm * pixelsPerMm);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to draw the layout');
+    }
+
+    // Canvas text falls back to sans-serif unless the theme font has been loaded
+    try {
+      await document.fonts.load(`bold 16px "${content.theme.fontFamily}"`);
+    } catch (error) {
+      console.warn('Failed to load the theme font:', error);
+    }
+
+    let logo: HTMLImageElement | null = null;
+    if (content.theme.logo) {
+      try {
+        logo = await QrCodeService.loadImage(content.theme.logo);
+      } catch (error) {
+        console.warn('Failed to load the logo:', error);
+      }
+    }
+
+    if (!template.folded) {
+      await this.drawFace(context, canvas.width, canvas.height, content, logo);
+      return;
+    }
+
+    const faceHeight = canvas.height / 2;
+
+    // The upper face is turned upside down so both read upright once folded
+    context.save();
+    context.translate(canvas.width, faceHeight);
+    context.rotate(Math.PI);
+    await this.drawFace(context, canvas.width, faceHeight, content, logo);
+    context.restore();
+
+    context.save();
+    context.translate(0, faceHeight);
+    await this.drawFace(context, canvas.width, faceHeight, content, logo);
+    context.restore();
+
+    context.strokeStyle = '#9CA3AF';
+    context.lineWidth = Math.max(1, pixelsPerMm * 0.2);
+    context.setLineDash([pixelsPerMm * 2, pixelsPerMm * 2]);
+    context.beginPath();
+    context.moveTo(0, faceHeight);
+    context.lineTo(canvas.width, faceHeight);
+    context.stroke();
+  }
+
+  static async toPdf(template: PrintTemplate, content: PrintLayoutContent): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    await this.render(canvas, template, content, PdfService.PRINT_DPI / 25.4);
+
+    return PdfService.createPdf([{
+      canvas,
+      width: PdfService.mmToPoints(template.widthMm),
+      height: PdfService.mmToPoints(template.heightMm)
+    }]);
+  }
+}
@@ -0,0 +1,564 @@
+import QRCode from 'qrcode';
+import { supabase, Database } from '../lib/supabase';
+import { PdfPage, PdfService } from './pdfService';
+
+export type QrCodeFormat = 'png' | 'svg' | 'pdf';
+
+type FormQrCodeRow = Database['public']['Tables']['form_qr_codes']['Row'];
+
+// The look of a code, as stored on its form_qr_codes row
+export interface QrCodeDesign {
+  // Width in pixels of PNG and SVG downloads
+  size: number;
+  // Download format the designer offers first
+  format: QrCodeFormat;
+  foregroundColor: string;
+  backgroundColor: string;
+  // Image drawn over the middle of the code; a URL or a data URL
+  logoUrl: string | null;
+}
+
+export interface FormQrCode extends QrCodeDesign {
+  id: string;
+  formId: string;
+  // Placement of a location code, e.g. a store name; empty for the form's main code
+  label: string;
+  // The owner's ID for the placement; null for the form's main code
+  locationCode: string | null;
+  // Query parameters the scan URL carries
+  trackingParams: Record<string, string>;
+  scanCount: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// A row of an imported location list
+export interface LocationCodeInput {
+  label: string;
+  locationCode: string;
+  trackingParams: Record<string, string>;
+}
+
+export interface ParsedLocationList {
+  locations: LocationCodeInput[];
+  // One message per skipped row
+  errors: string[];
+}
+
+// What a /qr/<id> scan resolved to
+export type OpenedQrCode =
+  | { status: 'ok'; formId: string; qrCodeId: string }
+  | { status: 'not_found' | 'inactive' };
+
+export class QrCodeService {
+  static readonly MIN_SIZE = 128;
+  static readonly MAX_SIZE = 2048;
+  static readonly DEFAULT_DESIGN: QrCodeDesign = {
+    size: 256,
+    format: 'png',
+    foregroundColor: '#1F2937',
+    backgroundColor: '#FFFFFF',
+    logoUrl: null
+  };
+
+  // Quiet zone around the code, in modules
+  private static readonly MARGIN = 2;
+  // Share of the code's width a logo covers; level H error correction still reads codes with
+  // up to 30% of their modules hidden
+  private static readonly LOGO_SCALE = 0.22;
+  // Column names a location list may use for the placement's name and ID; any other column
+  // becomes a tracking parameter
+  private static readonly LABEL_COLUMNS = ['label', 'name', 'location', 'location name', 'store', 'store name', 'room'];
+  private static readonly CODE_COLUMNS = ['id', 'code', 'location id', 'location code', 'store id', 'store code', 'store number'];
+
+  static getScanUrl(qrCodeId: string, trackingParams: Record<string, string> = {}): string {
+    const query = new URLSearchParams(trackingParams).toString();
+    return `${window.location.origin}/qr/${qrCodeId}${query ? `?${query}` : ''}`;
+  }
+
+  private static databaseToQrCode(dbQrCode: FormQrCodeRow): FormQrCode {
+    return {
+      id: dbQrCode.id,
+      formId: dbQrCode.form_id,
+      size: dbQrCode.size || this.DEFAULT_DESIGN.size,
+      format: ['png', 'svg', 'pdf'].includes(dbQrCode.format) ? dbQrCode.format as QrCodeFormat : 'png',
+      foregroundColor: dbQrCode.foreground_color || this.DEFAULT_DESIGN.foregroundColor,
+      backgroundColor: dbQrCode.background_color || this.DEFAULT_DESIGN.backgroundColor,
+      logoUrl: dbQrCode.logo_url || null,
+      label: dbQrCode.label || '',
+      locationCode: dbQrCode.location_code || null,
+      trackingParams: dbQrCode.tracking_params || {},
+      scanCount: dbQrCode.scan_count || 0,
+      isActive: dbQrCode.is_active,
+      createdAt: dbQrCode.created_at
+    };
+  }
+
+  // The code save_form created with the form; null for forms saved before it did
+  static async getQrCode(formId: string): Promise<FormQrCode | null> {
+    const { data, error } = await supabase
+      .from('form_qr_codes')
+      .select('*')
+      .eq('form_id', formId)
+      .is('location_code', null)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to fetch QR code: ${error.message}`);
+    }
+
+    return data[0] ? this.databaseToQrCode(data[0]) : null;
+  }
+
+  static validateDesign(design: QrCodeDesign): string | null {
+    const hexColor = /^#[0-9a-f]{6}$/i;
+    if (!hexColor.test(design.foregroundColor) || !hexColor.test(design.backgroundColor)) {
+      return 'Colors must be hex values like #1F2937';
+    }
+    if (design.size < this.MIN_SIZE || design.size > this.MAX_SIZE) {
+      return `Size must be ${this.MIN_SIZE}-${this.MAX_SIZE} pixels`;
+    }
+    return null;
+  }
+
+  private static luminance(hex: string): number {
+    const [r, g, b] = [1, 3, 5].map(start => {
+      const channel = parseInt(hex.slice(start, start + 2), 16) / 255;
+      return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  }
+
+  // Codes still save with a warning; some scanners cope with low contrast or inverted colors
+  static getContrastWarning(design: QrCodeDesign): string | null {
+    if (this.validateDesign(design)) return null;
+
+    const foreground = this.luminance(design.foregroundColor);
+    const background = this.luminance(design.backgroundColor);
+    if (foreground > background) {
+      return 'Many phones only scan codes that are darker than their background';
+    }
+    if ((background + 0.05) / (foreground + 0.05) < 4) {
+      return 'Low contrast between the colors may make the code hard to scan';
+    }
+    return null;
+  }
+
+  // Creates the form's code when it has none, so every design has a scan URL
+  static async saveDesign(formId: string, qrCodeId: string | null, design: QrCodeDesign): Promise<FormQrCode> {
+    const validationError = this.validateDesign(design);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const row = {
+      size: design.size,
+      format: design.format,
+      foreground_color: design.foregroundColor,
+      background_color: design.backgroundColor,
+      logo_url: design.logoUrl || null
+    };
+
+    const { data, error } = qrCodeId
+      ? await supabase.from('form_qr_codes').update(row).eq('id', qrCodeId).select('*').single()
+      : await supabase.from('form_qr_codes').insert(this.withScanUrl({ ...row, form_id: formId })).select('*').single();
+
+    if (error) {
+      throw new Error(`Failed to save QR code: ${error.message}`);
+    }
+
+    return this.databaseToQrCode(data);
+  }
+
+  // New rows get their ID up front so the stored scan URL can include it
+  private static withScanUrl(row: Record<string, unknown> & { tracking_params?: Record<string, string> }) {
+    const id = crypto.randomUUID();
+    return { ...row, id, qr_data: this.getScanUrl(id, row.tracking_params) };
+  }
+
+  // Location codes of the form, alphabetically by label
+  static async getLocationCodes(formId: string): Promise<FormQrCode[]> {
+    const { data, error } = await supabase
+      .from('form_qr_codes')
+      .select('*')
+      .eq('form_id', formId)
+      .not('location_code', 'is', null)
+      .order('label', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch location codes: ${error.message}`);
+    }
+
+    return data.map(qrCode => this.databaseToQrCode(qrCode));
+  }
+
+  private static normalizeColumn(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  }
+
+  // Quoted cells may hold delimiters, line breaks and doubled quotes
+  private static parseCsvRows(text: string): string[][] {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    // Spreadsheets in many locales save with semicolons
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+
+      if (inQuotes) {
+        if (char === '"' && text[index + 1] === '"') {
+          cell += '"';
+          index++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[index + 1] === '\n') index++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    row.push(cell);
+    rows.push(row);
+    return rows.filter(cells => cells.some(value => value.trim()));
+  }
+
+  /**
+   * Reads a location list whose first row names the columns. A name column is required; without
+   * an ID column the name doubles as the ID. Every other column becomes a tracking parameter
+   * of that location's code, next to the utm_* defaults.
+   */
+  static parseLocationCsv(text: string): ParsedLocationList {
+    const [header, ...rows] = this.parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header) {
+      return { locations: [], errors: ['The list is empty'] };
+    }
+
+    const columns = header.map(name => this.normalizeColumn(name));
+    const labelIndex = columns.findIndex(name => this.LABEL_COLUMNS.includes(name));
+    const codeIndex = columns.findIndex((name, index) => index !== labelIndex && this.CODE_COLUMNS.includes(name));
+    if (labelIndex === -1) {
+      return {
+        locations: [],
+        errors: [`The first row must name the columns, including a location name column (${this.LABEL_COLUMNS.join(', ')})`]
+      };
+    }
+
+    const locations: LocationCodeInput[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    rows.forEach((cells, index) => {
+      const rowNumber = index + 2;
+      const label = (cells[labelIndex] || '').trim();
+      const locationCode = (codeIndex === -1 ? label : cells[codeIndex] || '').trim();
+
+      if (!label || !locationCode) {
+        errors.push(`Row ${rowNumber}: missing location ${label ? 'ID' : 'name'}`);
+        return;
+      }
+      if (seen.has(locationCode)) {
+        errors.push(`Row ${rowNumber}: location ID "${locationCode}" is listed twice`);
+        return;
+      }
+      seen.add(locationCode);
+
+      const trackingParams: Record<string, string> = { utm_source: 'qr', utm_medium: 'print', utm_content: locationCode };
+      header.forEach((name, column) => {
+        const value = (cells[column] || '').trim();
+        if (column !== labelIndex && column !== codeIndex && name.trim() && value) {
+          trackingParams[name.trim()] = value;
+        }
+      });
+
+      locations.push({ label, locationCode, trackingParams });
+    });
+
+    return { locations, errors };
+  }
+
+  /**
+   * Creates a code per new location in the given design. Locations whose ID already has a code
+   * get the new label and tracking parameters instead, keeping their scan count and the code
+   * already printed.
+   */
+  static async importLocationCodes(
+    formId: string,
+    locations: LocationCodeInput[],
+    design: QrCodeDesign
+  ): Promise<{ created: number; updated: number }> {
+    const existing = new Map((await this.getLocationCodes(formId)).map(code => [code.locationCode, code]));
+    const newRows = [];
+    let updated = 0;
+
+    for (const location of locations) {
+      const code = existing.get(location.locationCode);
+
+      if (!code) {
+        newRows.push(this.withScanUrl({
+          form_id: formId,
+          label: location.label,
+          location_code: location.locationCode,
+          tracking_params: location.trackingParams,
+          size: design.size,
+          format: design.format,
+          foreground_color: design.foregroundColor,
+          background_color: design.backgroundColor,
+          logo_url: design.logoUrl || null,
+          is_active: true
+        }));
+        continue;
+      }
+
+      const { error } = await supabase
+        .from('form_qr_codes')
+        .update({
+          label: location.label,
+          tracking_params: location.trackingParams,
+          qr_data: this.getScanUrl(code.id, location.trackingParams)
+        })
+        .eq('id', code.id);
+
+      if (error) {
+        throw new Error(`Failed to update location code: ${error.message}`);
+      }
+      updated++;
+    }
+
+    if (newRows.length > 0) {
+      const { error } = await supabase.from('form_qr_codes').insert(newRows);
+
+      if (error) {
+        throw new Error(`Failed to create location codes: ${error.message}`);
+      }
+    }
+
+    return { created: newRows.length, updated };
+  }
+
+  static async updateLocationCode(
+    qrCodeId: string,
+    updates: Partial<Pick<FormQrCode, 'label' | 'isActive'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('form_qr_codes')
+      .update({
+        ...(updates.label !== undefined && { label: updates.label.trim() }),
+        ...(updates.isActive !== undefined && { is_active: updates.isActive })
+      })
+      .eq('id', qrCodeId);
+
+    if (error) {
+      throw new Error(`Failed to update location code: ${error.message}`);
+    }
+  }
+
+  // Responses keep the location label they were submitted with
+  static async deleteLocationCode(qrCodeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('form_qr_codes')
+      .delete()
+      .eq('id', qrCodeId);
+
+    if (error) {
+      throw new Error(`Failed to delete location code: ${error.message}`);
+    }
+  }
+
+  // Counts the scan; also accepts a form ID, the scan URL older saves handed out
+  static async openQrCode(id: string): Promise<OpenedQrCode> {
+    const { data, error } = await supabase.rpc('open_qr_code', { p_id: id });
+
+    if (error) {
+      throw new Error(`Failed to open QR code: ${error.message}`);
+    }
+
+    switch (data?.status) {
+      case 'ok':
+        return { status: 'ok', formId: data.form_id, qrCodeId: data.qr_code_id };
+      case 'inactive':
+        return { status: 'inactive' };
+      default:
+        return { status: 'not_found' };
+    }
+  }
+
+  private static getOptions(design: QrCodeDesign) {
+    return {
+      margin: this.MARGIN,
+      errorCorrectionLevel: design.logoUrl ? 'H' : 'M',
+      color: {
+        dark: design.foregroundColor,
+        light: design.backgroundColor
+      }
+    } as const;
+  }
+
+  static loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      // Without CORS a remote logo would taint the canvas and block the download
+      if (!url.startsWith('data:')) image.crossOrigin = 'anonymous';
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error(`Failed to load image ${url}`));
+      image.src = url;
+    });
+  }
+
+  // A logo that cannot be loaded is left out rather than failing the whole code
+  static async renderToCanvas(
+    canvas: HTMLCanvasElement,
+    url: string,
+    design: QrCodeDesign,
+    width: number = design.size
+  ): Promise<void> {
+    await QRCode.toCanvas(canvas, url, { ...this.getOptions(design), width });
+    if (!design.logoUrl) return;
+
+    try {
+      const logo = await this.loadImage(design.logoUrl);
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const box = canvas.width * this.LOGO_SCALE;
+      const padding = box * 0.1;
+      const left = (canvas.width - box) / 2;
+      const scale = Math.min(box / logo.width, box / logo.height);
+
+      context.fillStyle = design.backgroundColor;
+      context.fillRect(left - padding, left - padding, box + padding * 2, box + padding * 2);
+      context.drawImage(
+        logo,
+        left + (box - logo.width * scale) / 2,
+        left + (box - logo.height * scale) / 2,
+        logo.width * scale,
+        logo.height * scale
+      );
+    } catch (error) {
+      console.warn('Failed to draw the QR code logo:', error);
+    }
+  }
+
+  private static async toDataUrl(url: string): Promise<string> {
+    if (url.startsWith('data:')) return url;
+
+    const blob = await (await fetch(url)).blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  static async toSvg(url: string, design: QrCodeDesign): Promise<string> {
+    const svg = await QRCode.toString(url, { ...this.getOptions(design), type: 'svg', width: design.size });
+    if (!design.logoUrl) return svg;
+
+    // qrcode draws in module units, so the logo is placed in the same units
+    const modules = Number(svg.match(/viewBox="0 0 (\d+) \d+"/)?.[1]);
+    if (!modules) return svg;
+
+    // Embedded when the logo's host allows it, so the file works offline and in print tools
+    let href = design.logoUrl;
+    try {
+      href = await this.toDataUrl(design.logoUrl);
+    } catch (error) {
+      console.warn('Failed to embed the QR code logo, linking it instead:', error);
+    }
+
+    const box = modules * this.LOGO_SCALE;
+    const padding = box * 0.1;
+    const left = (modules - box) / 2;
+    const logo =
+      `<rect x="${left - padding}" y="${left - padding}" width="${box + padding * 2}" height="${box + padding * 2}" fill="${design.backgroundColor}"/>` +
+      `<image x="${left}" y="${left}" width="${box}" height="${box}" preserveAspectRatio="xMidYMid meet" xlink:href="${href}"/>`;
+
+    return svg
+      .replace('<svg xmlns="http://www.w3.org/2000/svg"', '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"')
+      .replace('</svg>', `${logo}</svg>`);
+  }
+
+  // One page exactly the code's printed size, rendered at print resolution
+  static async toPdf(url: string, design: QrCodeDesign, printSizeMm: number): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    await this.renderToCanvas(canvas, url, design, PdfService.pixelsForPrint(printSizeMm));
+
+    const size = PdfService.mmToPoints(printSizeMm);
+    return PdfService.createPdf([{ canvas, width: size, height: size }]);
+  }
+
+  // A4 sheets of labelled codes, 3 by 4 to a page, with guides to cut them apart
+  static async toLocationSheetPdf(codes: FormQrCode[]): Promise<Blob> {
+    const columns = 3;
+    const rows = 4;
+    const pageWidthMm = 210;
+    const pageHeightMm = 297;
+    const cellWidth = PdfService.pixelsForPrint(pageWidthMm / columns);
+    const cellHeight = PdfService.pixelsForPrint(pageHeightMm / rows);
+    const codeSize = PdfService.pixelsForPrint(50);
+    const gap = PdfService.pixelsForPrint(6);
+    const pages: PdfPage[] = [];
+
+    for (let start = 0; start < codes.length; start += columns * rows) {
+      const canvas = document.createElement('canvas');
+      canvas.width = PdfService.pixelsForPrint(pageWidthMm);
+      canvas.height = PdfService.pixelsForPrint(pageHeightMm);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Failed to draw the sheet');
+      }
+
+      context.fillStyle = '#FFFFFF';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.textAlign = 'center';
+
+      const pageCodes = codes.slice(start, start + columns * rows);
+      for (const [index, code] of pageCodes.entries()) {
+        const left = (index % columns) * cellWidth;
+        const top = Math.floor(index / columns) * cellHeight;
+        const codeCanvas = document.createElement('canvas');
+        await this.renderToCanvas(codeCanvas, this.getScanUrl(code.id, code.trackingParams), code, codeSize);
+
+        context.drawImage(codeCanvas, left + (cellWidth - codeCanvas.width) / 2, top + gap);
+        context.fillStyle = '#111827';
+        context.font = `bold ${PdfService.pixelsForPrint(4)}px sans-serif`;
+        context.fillText(code.label, left + cellWidth / 2, top + gap * 2 + codeSize, cellWidth - gap);
+        context.fillStyle = '#6B7280';
+        context.font = `${PdfService.pixelsForPrint(3)}px sans-serif`;
+        context.fillText(code.locationCode || '', left + cellWidth / 2, top + gap * 3 + codeSize, cellWidth - gap);
+
+        context.strokeStyle = '#D1D5DB';
+        context.lineWidth = 2;
+        context.setLineDash([gap / 2, gap / 2]);
+        context.strokeRect(left, top, cellWidth, cellHeight);
+        context.setLineDash([]);
+      }
+
+      pages.push({
+        canvas,
+        width: PdfService.mmToPoints(pageWidthMm),
+        height: PdfService.mmToPoints(pageHeightMm)
+      });
+    }
+
+    return PdfService.createPdf(pages);
+  }
+}
@@ -0,0 +1,197 @@
+import { supabase } from '../lib/supabase';
+import { FeedbackForm, FormResponseSettings } from '../context/FeedbackContext';
+import { DEFAULT_RESPONSE_SETTINGS } from '../context/formDefaults';
+
+// Whether the person behind a respondent token may respond to a form that allows one response each
+export interface RespondentStatus {
+  // 'open': the form does not limit respondents; 'unverified': the token does not identify anyone;
+  // 'editable' / 'responded': they answered before and may / may not change their response
+  status: 'open' | 'unverified' | 'new' | 'editable' | 'responded';
+  responseId?: string;
+  submittedAt?: string;
+  // Earlier answers by field ID, for 'editable'
+  answers?: Record<string, unknown>;
+}
+
+export class RespondentService {
+  private static readonly BROWSER_TOKEN_KEY = 'feedbackRespondentToken';
+  private static readonly EMAIL_PASS_PREFIX = 'feedbackRespondentPass:';
+  private static readonly UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+  static readonly IDENTITY_LABELS: Record<FormResponseSettings['respondentIdentity'], string> = {
+    browser: 'Browser',
+    email: 'Verified email',
+    invitation: 'Invitation link'
+  };
+
+  static getSettings(form: FeedbackForm): FormResponseSettings {
+    return { ...DEFAULT_RESPONSE_SETTINGS, ...form.responseSettings };
+  }
+
+  // A kiosk is shared by many respondents, so its browser cannot stand for one of them
+  static isLimited(form: FeedbackForm, kiosk: boolean): boolean {
+    const settings = this.getSettings(form);
+    return settings.onePerRespondent && !(kiosk && settings.respondentIdentity === 'browser');
+  }
+
+  static getInvitationUrl(formId: string, invitationId: string): string {
+    return `${window.location.origin}/form/${formId}?invite=${invitationId}`;
+  }
+
+  // Random and kept for every form, so it only recognises the browser rather than the person
+  private static getBrowserToken(): string {
+    let token: string | null = null;
+    try {
+      token = localStorage.getItem(this.BROWSER_TOKEN_KEY);
+    } catch (error) {
+      console.warn('Failed to read respondent token:', error);
+    }
+
+    if (!token) {
+      token = crypto.randomUUID();
+      try {
+        localStorage.setItem(this.BROWSER_TOKEN_KEY, token);
+      } catch (error) {
+        console.warn('Failed to store respondent token:', error);
+      }
+    }
+
+    return token;
+  }
+
+  private static getEmailPass(formId: string): string | null {
+    try {
+      return localStorage.getItem(`${this.EMAIL_PASS_PREFIX}${formId}`);
+    } catch (error) {
+      console.warn('Failed to read respondent pass:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The token identifying this respondent under the form's identity setting: the browser
+   * token, the `?invite=` of their invitation link or the pass from a verified email.
+   * Returns null when they have not been identified yet.
+   */
+  static getToken(form: FeedbackForm, invitation: string | null): string | null {
+    switch (this.getSettings(form).respondentIdentity) {
+      case 'invitation':
+        return invitation && this.UUID_PATTERN.test(invitation) ? invitation : null;
+      case 'email':
+        return this.getEmailPass(form.id);
+      default:
+        return this.getBrowserToken();
+    }
+  }
+
+  /**
+   * Asks the database whether the respondent may respond. A respondent turned away is
+   * counted as a duplicate attempt. `responseId` is left out of the check, so a retried
+   * submission is not mistaken for a second one.
+   */
+  static async checkStatus(
+    formId: string,
+    token: string | null | undefined,
+    source: string = 'web',
+    responseId?: string
+  ): Promise<RespondentStatus> {
+    const { data, error } = await supabase.rpc('check_respondent', {
+      p_form_id: formId,
+      p_token: token || null,
+      p_source: source,
+      p_response_id: responseId || null
+    });
+
+    if (error) {
+      throw new Error(`Failed to check earlier responses: ${error.message}`);
+    }
+
+    return {
+      status: data.status,
+      responseId: data.response_id || undefined,
+      submittedAt: data.submitted_at || undefined,
+      answers: data.answers || undefined
+    };
+  }
+
+  // Emails a one-time code through the respondent-email-code edge function
+  static async sendEmailCode(formId: string, email: string): Promise<void> {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/respondent-email-code`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({
+        form_id: formId,
+        email: email.trim(),
+      }),
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(`Failed to send the code: ${error}`);
+    }
+  }
+
+  /**
+   * Checks the emailed code and returns the pass to this form it unlocks, which is
+   * remembered in the browser.
+   */
+  static async verifyEmailCode(formId: string, email: string, code: string): Promise<string> {
+    const { data: pass, error } = await supabase.rpc('verify_respondent_email_code', {
+      p_form_id: formId,
+      p_email: email.trim(),
+      p_code: code.trim()
+    });
+
+    if (error) {
+      throw new Error(`Failed to verify your email: ${error.message}`);
+    }
+
+    if (!pass) {
+      throw new Error('That code did not work. Please check it and try again.');
+    }
+
+    try {
+      localStorage.setItem(`${this.EMAIL_PASS_PREFIX}${formId}`, pass);
+    } catch (storageError) {
+      console.warn('Failed to store respondent pass:', storageError);
+    }
+
+    return pass;
+  }
+
+  // Lets someone else verify their address in this browser
+  static forgetEmail(formId: string): void {
+    try {
+      localStorage.removeItem(`${this.EMAIL_PASS_PREFIX}${formId}`);
+    } catch (error) {
+      console.warn('Failed to remove respondent pass:', error);
+    }
+  }
+
+  // Records an invitation for one recipient and returns their personal link
+  static async createInvitationLink(formId: string, recipient: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('form_invitations')
+      .insert({
+        form_id: formId,
+        invitation_type: 'email',
+        recipient_identifier: recipient.trim() || null,
+        status: 'sent',
+        metadata: {
+          personal_link: true,
+          timestamp: new Date().toISOString()
+        }
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create invitation: ${error?.message || 'no invitation returned'}`);
+    }
+
+    return this.getInvitationUrl(formId, data.id);
+  }
+}
@@ -0,0 +1,131 @@
+import { supabase } from '../lib/supabase';
+import { FormField } from '../context/FeedbackContext';
+
+// An unfinished response, saved in this browser and as a partial response on the server
+export interface ResponseProgress {
+  token: string;
+  answers: Record<string, unknown>;
+  page: number;
+  locale?: string;
+  updatedAt: string;
+}
+
+export interface SaveProgressOptions {
+  source?: string;
+  locale?: string;
+  versionId?: string;
+}
+
+export class ResponseProgressService {
+  private static readonly STORAGE_PREFIX = 'feedbackFormProgress:';
+
+  static createToken(): string {
+    return crypto.randomUUID();
+  }
+
+  // Keeps the link or QR code the respondent came through, which a links-only form needs
+  static getResumeUrl(formId: string, token: string, access: { linkId?: string; qrCodeId?: string } = {}): string {
+    const query = new URLSearchParams({
+      resume: token,
+      ...(access.linkId && { link: access.linkId }),
+      ...(access.qrCodeId && { qr: access.qrCodeId })
+    });
+    return `${window.location.origin}/form/${formId}?${query}`;
+  }
+
+  // Files cannot be saved until the response is submitted, so their answers are left out
+  static getSavableAnswers(fields: FormField[], answers: Record<string, unknown>): Record<string, unknown> {
+    const savable: Record<string, unknown> = {};
+
+    fields.forEach(field => {
+      if (field.type === 'file' || field.type === 'page-break') return;
+      if (answers[field.id] !== undefined) {
+        savable[field.id] = answers[field.id];
+      }
+    });
+
+    return savable;
+  }
+
+  private static getLocalProgress(formId: string): ResponseProgress | null {
+    try {
+      return JSON.parse(localStorage.getItem(`${this.STORAGE_PREFIX}${formId}`) || 'null');
+    } catch (error) {
+      console.warn('Failed to read saved progress:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Progress to restore: the partial response behind a resume link, or the copy saved
+   * in this browser. Returns null when there is nothing to resume.
+   */
+  static async getProgress(formId: string, token?: string | null): Promise<ResponseProgress | null> {
+    if (!token) {
+      return this.getLocalProgress(formId);
+    }
+
+    const { data, error } = await supabase.rpc('get_partial_response', { p_token: token });
+
+    if (error) {
+      throw new Error(`Failed to load saved progress: ${error.message}`);
+    }
+
+    if (!data || data.form_id !== formId) {
+      return null;
+    }
+
+    return {
+      token,
+      answers: data.answers || {},
+      page: data.page || 0,
+      locale: data.locale || undefined,
+      updatedAt: data.updated_at
+    };
+  }
+
+  // Saves locally right away; a failed server save is logged and retried with the next change
+  static async saveProgress(formId: string, progress: ResponseProgress, options: SaveProgressOptions = {}): Promise<boolean> {
+    try {
+      localStorage.setItem(`${this.STORAGE_PREFIX}${formId}`, JSON.stringify(progress));
+    } catch (error) {
+      console.warn('Failed to store progress locally:', error);
+    }
+
+    const { error } = await supabase.rpc('save_partial_response', {
+      p_form_id: formId,
+      p_token: progress.token,
+      p_answers: progress.answers,
+      p_page: progress.page,
+      p_source: options.source || 'web',
+      p_locale: options.locale || null,
+      p_version_id: options.versionId || null
+    });
+
+    if (error) {
+      console.warn('Failed to save progress:', error.message);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Removes the saved progress once the response is submitted or the respondent starts over
+  static async discardProgress(formId: string, token: string): Promise<void> {
+    try {
+      // A submission replayed later must not remove progress on a newer response
+      if (this.getLocalProgress(formId)?.token === token) {
+        localStorage.removeItem(`${this.STORAGE_PREFIX}${formId}`);
+      }
+    } catch (error) {
+      console.warn('Failed to remove local progress:', error);
+    }
+
+    const { error } = await supabase.rpc('discard_partial_response', { p_token: token });
+
+    if (error) {
+      console.warn('Failed to discard partial response:', error.message);
+      // Don't fail the submission for this; the partial stays visible to the owner
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { supabase } from '../lib/supabase';
+import { FeedbackForm, FormProtectionSettings } from '../context/FeedbackContext';
+import { DEFAULT_PROTECTION_SETTINGS } from '../context/formDefaults';
+
+// Issued by the database when a respondent opens the form
+export interface SubmissionChallenge {
+  id: string;
+  // Leading zero bits the proof-of-work needs; 0 when the form does not ask for one
+  difficulty: number;
+  issuedAt: string;
+}
+
+export class SpamProtectionService {
+  // Name of the hidden honeypot input; generic enough that form-filling bots complete it
+  static readonly HONEYPOT_FIELD = 'website';
+  static readonly MAX_POW_DIFFICULTY = 24;
+
+  static readonly QUARANTINE_REASON_LABELS: Record<string, string> = {
+    honeypot: 'Filled in the hidden field',
+    too_fast: 'Submitted too quickly',
+    challenge_missing: 'Missing or unknown challenge',
+    challenge_reused: 'Reused a challenge',
+    proof_of_work: 'Missing or invalid proof-of-work',
+    ip_rate_limit: 'Too many submissions from one network',
+    form_rate_limit: 'Too many submissions to the form'
+  };
+
+  static getSettings(form: FeedbackForm): FormProtectionSettings {
+    return { ...DEFAULT_PROTECTION_SETTINGS, ...form.protection };
+  }
+
+  static getReasonLabel(reason: string): string {
+    return this.QUARANTINE_REASON_LABELS[reason] || reason;
+  }
+
+  static validate(settings: FormProtectionSettings): string | null {
+    const limits = [settings.minSecondsToSubmit, settings.maxPerIpPerHour, settings.maxPerFormPerMinute];
+    if (limits.some(limit => !Number.isInteger(limit) || limit < 0)) {
+      return 'Spam protection limits must be whole numbers of 0 or more';
+    }
+    if (settings.proofOfWork && (settings.powDifficulty < 1 || settings.powDifficulty > this.MAX_POW_DIFFICULTY)) {
+      return `Proof-of-work difficulty must be between 1 and ${this.MAX_POW_DIFFICULTY}`;
+    }
+    return null;
+  }
+
+  // A missing challenge only weakens the screening, so failures are logged rather than thrown
+  static async issueChallenge(formId: string): Promise<SubmissionChallenge | null> {
+    const { data, error } = await supabase.rpc('issue_submission_challenge', { p_form_id: formId });
+
+    if (error || !data) {
+      console.warn('Failed to fetch submission challenge:', error?.message);
+      return null;
+    }
+
+    return { id: data.id, difficulty: data.difficulty, issuedAt: data.issued_at };
+  }
+
+  private static hasLeadingZeroBits(hash: Uint8Array, bits: number): boolean {
+    for (let i = 0; i < bits; i++) {
+      if (hash[i >> 3] & (0x80 >> (i & 7))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Finds a nonce so that sha256("<challenge id>:<nonce>") starts with `difficulty` zero
+   * bits, the same check the database runs. Takes about 2^difficulty hashes; yields to the
+   * page between batches so the form stays responsive. Returns null once `signal` aborts.
+   */
+  static async solveChallenge(challenge: SubmissionChallenge, signal?: AbortSignal): Promise<string | null> {
+    if (challenge.difficulty === 0) return null;
+
+    const encoder = new TextEncoder();
+
+    for (let nonce = 0; ; nonce++) {
+      if (nonce % 500 === 0) {
+        if (signal?.aborted) return null;
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      const hash = await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge.id}:${nonce}`));
+      if (this.hasLeadingZeroBits(new Uint8Array(hash), challenge.difficulty)) {
+        return String(nonce);
+      }
+    }
+  }
+}
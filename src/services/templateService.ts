@@ -0,0 +1,124 @@
+import { supabase, Database } from '../lib/supabase';
+import { FeedbackForm, DEFAULT_THEME } from '../context/FeedbackContext';
+import { FormTemplate, TemplateCategory } from '../lib/formTemplates';
+import { FormLogicService } from './formLogicService';
+
+type FormTemplateRow = Database['public']['Tables']['form_templates']['Row'];
+
+export class TemplateService {
+  // Helper method to convert a database row to a template
+  private static databaseToTemplate(dbTemplate: FormTemplateRow): FormTemplate {
+    return {
+      id: dbTemplate.id,
+      name: dbTemplate.name,
+      description: dbTemplate.description || '',
+      category: dbTemplate.category as TemplateCategory,
+      fields: dbTemplate.fields || [],
+      theme: { ...DEFAULT_THEME, ...dbTemplate.theme },
+      isPrivate: true
+    };
+  }
+
+  // Private templates saved by the current user, newest first
+  static async getTemplates(): Promise<FormTemplate[]> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) {
+        throw new Error(`Authentication error: ${userError.message}`);
+      }
+
+      if (!user) {
+        throw new Error('User not authenticated. Please sign in to view templates.');
+      }
+
+      const { data, error } = await supabase
+        .from('form_templates')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch templates: ${error.message}`);
+      }
+
+      return (data || []).map(template => this.databaseToTemplate(template));
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      throw error;
+    }
+  }
+
+  static async saveFormAsTemplate(form: FeedbackForm, name: string, description: string): Promise<FormTemplate> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) {
+        throw new Error(`Authentication error: ${userError.message}`);
+      }
+
+      if (!user) {
+        throw new Error('User not authenticated. Please sign in to save templates.');
+      }
+
+      const { data, error } = await supabase
+        .from('form_templates')
+        .insert({
+          user_id: user.id,
+          name,
+          description,
+          category: 'custom',
+          fields: form.fields,
+          theme: form.theme
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save template: ${error.message}`);
+      }
+
+      return this.databaseToTemplate(data);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      throw error;
+    }
+  }
+
+  static async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) {
+        throw new Error(`Authentication error: ${userError.message}`);
+      }
+
+      if (!user) {
+        throw new Error('User not authenticated.');
+      }
+
+      const { error } = await supabase
+        .from('form_templates')
+        .delete()
+        .eq('id', templateId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        throw new Error(`Failed to delete template: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copies a template into a new, unsaved form. Fields get fresh IDs so a form
+   * created from a private template never reuses the source form's field rows.
+   */
+  static instantiate(template: FormTemplate): Pick<FeedbackForm, 'title' | 'description' | 'fields' | 'theme'> {
+    return {
+      title: template.name,
+      description: template.description,
+      fields: FormLogicService.cloneFields(template.fields),
+      theme: JSON.parse(JSON.stringify(template.theme))
+    };
+  }
+}
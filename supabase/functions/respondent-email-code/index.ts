@@ -0,0 +1,85 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+// Codes are sent through Resend, so respondents never get a Supabase Auth account
+const resendApiKey = Deno.env.get('RESEND_API_KEY')!;
+const emailFrom = Deno.env.get('RESPONDENT_EMAIL_FROM')!;
+
+// Helper function to create responses with CORS headers
+function corsResponse(body: string | object | null, status = 200) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+  };
+
+  // For 204 No Content, don't include Content-Type or body
+  if (status === 204) {
+    return new Response(null, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      return corsResponse({}, 204);
+    }
+
+    if (req.method !== 'POST') {
+      return corsResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { form_id, email } = await req.json();
+
+    if (typeof form_id !== 'string' || typeof email !== 'string') {
+      return corsResponse({ error: 'Expected form_id and email' }, 400);
+    }
+
+    // Checks the address and the form, and limits how many codes one address gets
+    const { data: code, error: codeError } = await supabase.rpc('create_respondent_email_code', {
+      p_form_id: form_id,
+      p_email: email,
+    });
+
+    if (codeError) {
+      return corsResponse({ error: codeError.message }, 400);
+    }
+
+    const { data: form } = await supabase.from('forms').select('title').eq('id', form_id).maybeSingle();
+    const title = form?.title || 'a form';
+
+    const sendResponse = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${resendApiKey}`,
+      },
+      body: JSON.stringify({
+        from: emailFrom,
+        to: [email.trim()],
+        subject: `Your code for ${title}`,
+        text: `Your code to respond to ${title} is ${code}. It expires in 10 minutes.`,
+      }),
+    });
+
+    if (!sendResponse.ok) {
+      console.error(`Failed to send respondent code: ${await sendResponse.text()}`);
+      return corsResponse({ error: 'Failed to send the code' }, 502);
+    }
+
+    return corsResponse({ sent: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Respondent code error: ${message}`);
+    return corsResponse({ error: message }, 500);
+  }
+});
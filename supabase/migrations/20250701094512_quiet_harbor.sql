@@ -0,0 +1,92 @@
+/*
+  # Public respondent read path
+
+  1. Security
+    - Allow anonymous and non-owner visitors to read active forms, their fields and their themes
+    - Limit the anonymous column grant on `forms` to the columns the respondent form renders
+    - Replace the `form_response_data` insert policy so it no longer depends on the caller
+      being able to read `form_responses`
+
+  2. Functions
+    - `form_accepts_responses(form_id)` - security definer check used by the insert policy
+    - `increment_form_response_count()` now runs as security definer so anonymous
+      submissions update `forms.response_count`
+
+  3. Notes
+    - Responses are still written through the existing
+      "Anyone can submit responses to active forms" policy
+*/
+
+-- Anonymous visitors only see the columns needed to render a form
+REVOKE SELECT ON forms FROM anon;
+GRANT SELECT (id, title, description, is_active, settings, created_at, response_count) ON forms TO anon;
+
+CREATE POLICY "Anyone can view active forms"
+  ON forms
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Anyone can view fields of active forms"
+  ON form_fields
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_fields.form_id
+      AND forms.is_active = true
+    )
+  );
+
+CREATE POLICY "Anyone can view themes of active forms"
+  ON form_themes
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_themes.form_id
+      AND forms.is_active = true
+    )
+  );
+
+-- Checks a response belongs to an active form without requiring read access to form_responses
+CREATE OR REPLACE FUNCTION form_accepts_responses(p_response_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM form_responses fr
+    JOIN forms f ON f.id = fr.form_id
+    WHERE fr.id = p_response_id
+    AND f.is_active = true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION form_accepts_responses(uuid) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Anyone can submit response data" ON form_response_data;
+
+CREATE POLICY "Anyone can submit response data"
+  ON form_response_data
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (form_accepts_responses(response_id));
+
+-- Anonymous submitters cannot update forms, so the counter must bypass RLS
+CREATE OR REPLACE FUNCTION increment_form_response_count()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE forms
+  SET response_count = response_count + 1
+  WHERE id = NEW.form_id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,12 @@
+/*
+  # Page breaks for multi-page forms
+
+  1. Schema Updates
+    - Allow `page-break` in `form_fields.field_type`
+    - Page breaks are stored as ordinary rows so their position is kept by `field_order`
+*/
+
+ALTER TABLE form_fields DROP CONSTRAINT IF EXISTS form_fields_field_type_check;
+
+ALTER TABLE form_fields ADD CONSTRAINT form_fields_field_type_check
+  CHECK (field_type IN ('text', 'textarea', 'rating', 'multiple-choice', 'email', 'phone', 'page-break'));
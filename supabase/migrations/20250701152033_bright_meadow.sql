@@ -0,0 +1,20 @@
+/*
+  # Net Promoter Score questions
+
+  1. Schema Updates
+    - Allow `nps` in `form_fields.field_type`
+    - Add `nps_score` to `form_responses` holding the 0-10 answer to the form's NPS question
+
+  2. Notes
+    - `nps_score` is kept separate from `overall_rating` so a score of 0 is recorded
+      and NPS answers are not averaged together with star ratings
+    - Anchor labels for the scale are stored in `form_fields.settings.npsLabels`
+*/
+
+ALTER TABLE form_fields DROP CONSTRAINT IF EXISTS form_fields_field_type_check;
+
+ALTER TABLE form_fields ADD CONSTRAINT form_fields_field_type_check
+  CHECK (field_type IN ('text', 'textarea', 'rating', 'nps', 'multiple-choice', 'email', 'phone', 'page-break'));
+
+ALTER TABLE form_responses
+  ADD COLUMN IF NOT EXISTS nps_score smallint CHECK (nps_score BETWEEN 0 AND 10);
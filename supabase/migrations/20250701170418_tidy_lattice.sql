@@ -0,0 +1,17 @@
+/*
+  # Matrix (Likert) questions
+
+  1. Schema Updates
+    - Allow `matrix` in `form_fields.field_type`
+
+  2. Notes
+    - Matrix columns (the answer scale) are stored in `form_fields.options`
+    - Matrix rows and the single/multi-select flag are stored in
+      `form_fields.settings.matrixRows` and `form_fields.settings.matrixMultiple`
+    - Answers are stored in `form_response_data.field_data.rows` as one entry per row
+*/
+
+ALTER TABLE form_fields DROP CONSTRAINT IF EXISTS form_fields_field_type_check;
+
+ALTER TABLE form_fields ADD CONSTRAINT form_fields_field_type_check
+  CHECK (field_type IN ('text', 'textarea', 'rating', 'nps', 'multiple-choice', 'matrix', 'email', 'phone', 'page-break'));
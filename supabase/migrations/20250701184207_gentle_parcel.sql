@@ -0,0 +1,85 @@
+/*
+  # File upload questions
+
+  1. Schema Updates
+    - Allow `file` in `form_fields.field_type`
+    - Upload restrictions are stored in `form_fields.settings.upload`
+      (`allowedTypes`, `maxSizeMb`, `maxFiles`)
+
+  2. Storage
+    - Private `form-uploads` bucket; objects are stored at `<form_id>/<response_id>/<file>`
+    - Respondents may upload into the folder of a response to an active form that has a file field
+    - Form owners may read and delete the objects stored for their forms
+
+  3. Notes
+    - Object references are kept in `form_response_data.field_data.files`
+    - Objects are removed by the app when a form or response is deleted
+*/
+
+ALTER TABLE form_fields DROP CONSTRAINT IF EXISTS form_fields_field_type_check;
+
+ALTER TABLE form_fields ADD CONSTRAINT form_fields_field_type_check
+  CHECK (field_type IN ('text', 'textarea', 'rating', 'nps', 'multiple-choice', 'matrix', 'file', 'email', 'phone', 'page-break'));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('form-uploads', 'form-uploads', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+-- Checks an upload path points at a response of an active form that asks for files
+CREATE OR REPLACE FUNCTION form_accepts_uploads(p_object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM form_responses fr
+    JOIN forms f ON f.id = fr.form_id
+    WHERE f.id::text = (storage.foldername(p_object_name))[1]
+    AND fr.id::text = (storage.foldername(p_object_name))[2]
+    AND f.is_active = true
+    AND EXISTS (
+      SELECT 1 FROM form_fields ff
+      WHERE ff.form_id = f.id
+      AND ff.field_type = 'file'
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION form_accepts_uploads(text) TO anon, authenticated;
+
+CREATE POLICY "Respondents can upload form attachments"
+  ON storage.objects
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'form-uploads'
+    AND form_accepts_uploads(name)
+  );
+
+CREATE POLICY "Owners can read form attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id::text = (storage.foldername(name))[1]
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can delete form attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'form-uploads'
+    AND EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id::text = (storage.foldername(name))[1]
+      AND forms.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,166 @@
+/*
+  # Stable field identities and form versions
+
+  1. Schema Updates
+    - `form_fields.archived_at` - fields removed in the builder are archived instead of deleted,
+      so existing `form_response_data.field_id` values keep resolving
+    - `form_response_data.field_id` no longer cascades; deleting a field keeps its answers
+    - `form_responses.form_version_id` - the schema version the respondent answered
+
+  2. New Tables
+    - `form_versions` - snapshot of a form's title, description and field rows each time
+      its schema changes, numbered per form
+
+  3. Security
+    - Owners can read and create versions of their own forms
+    - Anyone can read versions of active forms so submissions can record the current version
+    - Archived fields are hidden from the public read path and no longer accept uploads
+
+  4. Notes
+    - Existing forms get version 1 built from their current fields, and existing responses
+      are linked to it
+*/
+
+ALTER TABLE form_fields ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_form_fields_active ON form_fields(form_id) WHERE archived_at IS NULL;
+
+ALTER TABLE form_response_data DROP CONSTRAINT IF EXISTS form_response_data_field_id_fkey;
+
+ALTER TABLE form_response_data ADD CONSTRAINT form_response_data_field_id_fkey
+  FOREIGN KEY (field_id) REFERENCES form_fields(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS form_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid REFERENCES forms(id) ON DELETE CASCADE NOT NULL,
+  version_number integer NOT NULL,
+  title text NOT NULL,
+  description text,
+  fields jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (form_id, version_number)
+);
+
+ALTER TABLE form_responses
+  ADD COLUMN IF NOT EXISTS form_version_id uuid REFERENCES form_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_form_versions_form_id ON form_versions(form_id, version_number DESC);
+
+ALTER TABLE form_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of their own forms"
+  ON form_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_versions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create versions of their own forms"
+  ON form_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_versions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view versions of active forms"
+  ON form_versions
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_versions.form_id
+      AND forms.is_active = true
+    )
+  );
+
+-- Respondents only need the fields that are still part of the form
+DROP POLICY IF EXISTS "Anyone can view fields of active forms" ON form_fields;
+
+CREATE POLICY "Anyone can view fields of active forms"
+  ON form_fields
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    form_fields.archived_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_fields.form_id
+      AND forms.is_active = true
+    )
+  );
+
+CREATE OR REPLACE FUNCTION form_accepts_uploads(p_object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM form_responses fr
+    JOIN forms f ON f.id = fr.form_id
+    WHERE f.id::text = (storage.foldername(p_object_name))[1]
+    AND fr.id::text = (storage.foldername(p_object_name))[2]
+    AND f.is_active = true
+    AND EXISTS (
+      SELECT 1 FROM form_fields ff
+      WHERE ff.form_id = f.id
+      AND ff.field_type = 'file'
+      AND ff.archived_at IS NULL
+    )
+  );
+$$;
+
+-- Version 1 for forms created before versioning
+INSERT INTO form_versions (form_id, version_number, title, description, fields, created_by)
+SELECT
+  f.id,
+  1,
+  f.title,
+  f.description,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', ff.id,
+          'form_id', ff.form_id,
+          'field_type', ff.field_type,
+          'label', ff.label,
+          'placeholder', ff.placeholder,
+          'is_required', ff.is_required,
+          'field_order', ff.field_order,
+          'options', ff.options,
+          'validation_rules', ff.validation_rules,
+          'settings', ff.settings
+        )
+        ORDER BY ff.field_order
+      )
+      FROM form_fields ff
+      WHERE ff.form_id = f.id
+    ),
+    '[]'::jsonb
+  ),
+  f.user_id
+FROM forms f
+WHERE NOT EXISTS (
+  SELECT 1 FROM form_versions fv WHERE fv.form_id = f.id
+);
+
+UPDATE form_responses fr
+SET form_version_id = fv.id
+FROM form_versions fv
+WHERE fv.form_id = fr.form_id
+AND fv.version_number = 1
+AND fr.form_version_id IS NULL;
@@ -0,0 +1,38 @@
+/*
+  # Private form templates
+
+  1. New Tables
+    - `form_templates` - forms saved as reusable templates for one account
+      - `fields` holds the builder field list and `theme` the builder theme, as JSON
+      - `category` groups templates in the gallery
+
+  2. Security
+    - Enable RLS on `form_templates`
+    - Users can only read, create, update and delete their own templates
+
+  3. Notes
+    - Built-in templates ship with the app and are not stored in the database
+*/
+
+CREATE TABLE IF NOT EXISTS form_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text DEFAULT '',
+  category text NOT NULL DEFAULT 'custom',
+  fields jsonb NOT NULL DEFAULT '[]',
+  theme jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_templates_user_id ON form_templates(user_id);
+
+ALTER TABLE form_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own templates"
+  ON form_templates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,168 @@
+/*
+  # Duplicate forms
+
+  1. Functions
+    - `duplicate_form(p_form_id, p_include_signatures, p_origin)` copies a form the caller owns
+      into a new inactive draft in a single transaction and returns the same JSON as `save_form`
+
+  2. What is copied
+    - The form's description and `settings`; the title gets a " (Copy)" suffix
+    - Active fields, under new IDs, with logic and jump references pointed at the new fields
+    - The theme and the design of the first QR code
+    - Email signature templates, when `p_include_signatures` is true; links to the
+      original form inside them are rewritten to the copy
+
+  3. Notes
+    - Responses, links, QR scan counts and version history are never copied
+    - The copy gets a new public link, a new QR code and version 1 through `save_form`
+    - `forms.metadata.duplicated_from` records the source form
+*/
+
+CREATE OR REPLACE FUNCTION duplicate_form(
+  p_form_id uuid,
+  p_include_signatures boolean,
+  p_origin text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_source forms%ROWTYPE;
+  v_form forms%ROWTYPE;
+  v_field form_fields%ROWTYPE;
+  v_id_map jsonb := '{}'::jsonb;
+  v_old_id text;
+  v_new_id text;
+  v_settings text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated. Please sign in to duplicate forms.'
+      USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_source
+  FROM forms
+  WHERE id = p_form_id
+  AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found or you do not have permission to duplicate it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO forms (user_id, title, description, is_active, settings, metadata)
+  VALUES (
+    v_user_id,
+    v_source.title || ' (Copy)',
+    v_source.description,
+    false,
+    COALESCE(v_source.settings, '{}'::jsonb),
+    jsonb_build_object('duplicated_from', v_source.id)
+  )
+  RETURNING * INTO v_form;
+
+  SELECT COALESCE(jsonb_object_agg(id::text, gen_random_uuid()::text), '{}'::jsonb)
+  INTO v_id_map
+  FROM form_fields
+  WHERE form_id = p_form_id
+  AND archived_at IS NULL;
+
+  FOR v_field IN
+    SELECT * FROM form_fields
+    WHERE form_id = p_form_id
+    AND archived_at IS NULL
+    ORDER BY field_order
+  LOOP
+    -- Field IDs are UUIDs, so replacing them as text only touches logic and jump references
+    v_settings := COALESCE(v_field.settings, '{}'::jsonb)::text;
+    FOR v_old_id, v_new_id IN SELECT key, value FROM jsonb_each_text(v_id_map) LOOP
+      v_settings := replace(v_settings, v_old_id, v_new_id);
+    END LOOP;
+
+    INSERT INTO form_fields (
+      id, form_id, field_type, label, placeholder, is_required,
+      field_order, options, validation_rules, settings
+    )
+    VALUES (
+      (v_id_map->>v_field.id::text)::uuid,
+      v_form.id,
+      v_field.field_type,
+      v_field.label,
+      v_field.placeholder,
+      v_field.is_required,
+      v_field.field_order,
+      v_field.options,
+      v_field.validation_rules,
+      v_settings::jsonb
+    );
+  END LOOP;
+
+  INSERT INTO form_themes
+  SELECT (jsonb_populate_record(
+    NULL::form_themes,
+    to_jsonb(t) || jsonb_build_object(
+      'id', gen_random_uuid(),
+      'form_id', v_form.id,
+      'created_at', now(),
+      'updated_at', now()
+    )
+  )).*
+  FROM form_themes t
+  WHERE t.form_id = p_form_id
+  ORDER BY t.created_at
+  LIMIT 1;
+
+  INSERT INTO form_qr_codes (form_id, qr_data, size, format, foreground_color, background_color, logo_url, is_active)
+  SELECT
+    v_form.id,
+    rtrim(p_origin, '/') || '/form/' || v_form.id,
+    q.size,
+    q.format,
+    q.foreground_color,
+    q.background_color,
+    q.logo_url,
+    true
+  FROM form_qr_codes q
+  WHERE q.form_id = p_form_id
+  ORDER BY q.created_at
+  LIMIT 1;
+
+  IF p_include_signatures THEN
+    INSERT INTO form_email_signatures (form_id, template_name, html_content, text_content, is_active)
+    SELECT
+      v_form.id,
+      s.template_name,
+      replace(s.html_content, p_form_id::text, v_form.id::text),
+      replace(s.text_content, p_form_id::text, v_form.id::text),
+      s.is_active
+    FROM form_email_signatures s
+    WHERE s.form_id = p_form_id;
+  END IF;
+
+  -- save_form adds the public link, any missing theme or QR code and version 1
+  RETURN save_form(
+    v_form.id,
+    jsonb_build_object(
+      'title', v_form.title,
+      'description', v_form.description,
+      'is_active', false
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(ff) ORDER BY ff.field_order), '[]'::jsonb)
+      FROM form_fields ff
+      WHERE ff.form_id = v_form.id
+    ),
+    COALESCE(
+      (SELECT to_jsonb(t) FROM form_themes t WHERE t.form_id = v_form.id LIMIT 1),
+      '{}'::jsonb
+    ),
+    p_origin
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION duplicate_form(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION duplicate_form(uuid, boolean, text) TO authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Form builder drafts
+
+  1. New Tables
+    - `form_drafts` - unsaved builder state, autosaved so it can be restored after a reload
+      or on another device
+      - `draft_key` is the form ID when editing, or a builder-generated key for a new form
+      - `data` holds the builder form as JSON
+
+  2. Security
+    - Enable RLS on `form_drafts`
+    - Users can only read and write their own drafts
+
+  3. Notes
+    - Drafts of an existing form are removed with the form
+    - The app deletes a draft once the form is saved or the draft is discarded
+*/
+
+CREATE TABLE IF NOT EXISTS form_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  draft_key text NOT NULL,
+  form_id uuid REFERENCES forms(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT '',
+  data jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, draft_key)
+);
+
+ALTER TABLE form_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own drafts"
+  ON form_drafts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,373 @@
+/*
+  # Scheduled open/close windows and response quotas
+
+  1. Changes to `forms`
+    - `opens_at` / `closes_at` - optional window in which responses are accepted
+    - `max_responses` - optional limit on the number of responses
+    - `closed_message` - shown to respondents once the form is closed
+
+  2. Functions
+    - `form_closed_reason(form_id)` returns why a form is not accepting responses
+      ('inactive', 'not_open', 'ended' or 'full'), or null while it is open
+    - `save_form` now saves the new columns and keeps the public link's `expires_at`
+      in step with `closes_at`
+
+  3. Security
+    - The response insert policy rejects submissions whenever `form_closed_reason` is not null,
+      so late submissions fail even when they bypass the form UI
+    - Anonymous visitors can read the new columns to render the closed message
+
+  4. Notes
+    - Forms close automatically; `is_active` stays the manual switch
+    - An expired public link closes the form even if `closes_at` is not set
+    - Response data is still accepted for a response that was itself accepted, so the
+      response that reaches the limit is stored in full
+*/
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS opens_at timestamptz;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS closes_at timestamptz;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS max_responses integer CHECK (max_responses IS NULL OR max_responses > 0);
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS closed_message text NOT NULL DEFAULT '';
+
+ALTER TABLE forms ADD CONSTRAINT forms_open_before_close
+  CHECK (opens_at IS NULL OR closes_at IS NULL OR opens_at < closes_at);
+
+GRANT SELECT (opens_at, closes_at, max_responses, closed_message) ON forms TO anon;
+
+-- Checked in the same order as FormAvailabilityService.getStatus
+CREATE OR REPLACE FUNCTION form_closed_reason(p_form_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN f.id IS NULL OR NOT f.is_active THEN 'inactive'
+    WHEN f.opens_at IS NOT NULL AND f.opens_at > now() THEN 'not_open'
+    WHEN f.closes_at IS NOT NULL AND f.closes_at <= now() THEN 'ended'
+    WHEN EXISTS (
+      SELECT 1 FROM form_links l
+      WHERE l.form_id = f.id
+      AND l.link_type = 'public'
+      AND l.expires_at IS NOT NULL
+      AND l.expires_at <= now()
+    ) THEN 'ended'
+    WHEN f.max_responses IS NOT NULL AND f.response_count >= f.max_responses THEN 'full'
+    ELSE NULL
+  END
+  FROM (SELECT p_form_id AS id) requested
+  LEFT JOIN forms f ON f.id = requested.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION form_closed_reason(uuid) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Anyone can submit responses to active forms" ON form_responses;
+
+CREATE POLICY "Anyone can submit responses to open forms"
+  ON form_responses
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (form_closed_reason(form_id) IS NULL);
+
+CREATE OR REPLACE FUNCTION save_form(
+  p_form_id uuid,
+  p_form jsonb,
+  p_fields jsonb,
+  p_theme jsonb,
+  p_origin text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_fields jsonb := COALESCE(p_fields, '[]'::jsonb);
+  v_form forms%ROWTYPE;
+  v_theme_input form_themes%ROWTYPE;
+  v_theme form_themes%ROWTYPE;
+  v_link form_links%ROWTYPE;
+  v_qr form_qr_codes%ROWTYPE;
+  v_version form_versions%ROWTYPE;
+  v_snapshot jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated. Please sign in to save forms.'
+      USING ERRCODE = '28000';
+  END IF;
+
+  IF p_form_id IS NULL THEN
+    INSERT INTO forms (
+      user_id, title, description, is_active, settings, metadata,
+      opens_at, closes_at, max_responses, closed_message
+    )
+    VALUES (
+      v_user_id,
+      p_form->>'title',
+      COALESCE(p_form->>'description', ''),
+      COALESCE((p_form->>'is_active')::boolean, true),
+      '{}',
+      '{}',
+      (p_form->>'opens_at')::timestamptz,
+      (p_form->>'closes_at')::timestamptz,
+      (p_form->>'max_responses')::integer,
+      COALESCE(p_form->>'closed_message', '')
+    )
+    RETURNING * INTO v_form;
+  ELSE
+    -- Locks the form row, so concurrent saves of the same form run one after another
+    UPDATE forms
+    SET
+      title = p_form->>'title',
+      description = COALESCE(p_form->>'description', ''),
+      is_active = COALESCE((p_form->>'is_active')::boolean, is_active),
+      opens_at = (p_form->>'opens_at')::timestamptz,
+      closes_at = (p_form->>'closes_at')::timestamptz,
+      max_responses = (p_form->>'max_responses')::integer,
+      closed_message = COALESCE(p_form->>'closed_message', ''),
+      updated_at = now()
+    WHERE id = p_form_id
+    AND user_id = v_user_id
+    RETURNING * INTO v_form;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Form not found or you do not have permission to edit it'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Upsert fields by ID so existing answers keep pointing at the same rows
+  INSERT INTO form_fields (
+    id, form_id, field_type, label, placeholder, is_required,
+    field_order, options, validation_rules, settings, archived_at
+  )
+  SELECT
+    f.id,
+    v_form.id,
+    f.field_type,
+    f.label,
+    f.placeholder,
+    COALESCE(f.is_required, false),
+    f.field_order,
+    COALESCE(f.options, '[]'::jsonb),
+    COALESCE(f.validation_rules, '{}'::jsonb),
+    COALESCE(f.settings, '{}'::jsonb),
+    NULL
+  FROM jsonb_to_recordset(v_fields) AS f(
+    id uuid,
+    field_type text,
+    label text,
+    placeholder text,
+    is_required boolean,
+    field_order integer,
+    options jsonb,
+    validation_rules jsonb,
+    settings jsonb
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET
+    field_type = EXCLUDED.field_type,
+    label = EXCLUDED.label,
+    placeholder = EXCLUDED.placeholder,
+    is_required = EXCLUDED.is_required,
+    field_order = EXCLUDED.field_order,
+    options = EXCLUDED.options,
+    validation_rules = EXCLUDED.validation_rules,
+    settings = EXCLUDED.settings,
+    archived_at = NULL
+  WHERE form_fields.form_id = v_form.id;
+
+  -- A conflicting ID from another form is skipped by the upsert above
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_fields) AS f
+    WHERE NOT EXISTS (
+      SELECT 1 FROM form_fields ff
+      WHERE ff.id = (f->>'id')::uuid
+      AND ff.form_id = v_form.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Field IDs must belong to this form'
+      USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE form_fields
+  SET archived_at = now()
+  WHERE form_id = v_form.id
+  AND archived_at IS NULL
+  AND id NOT IN (
+    SELECT (f->>'id')::uuid FROM jsonb_array_elements(v_fields) AS f
+  );
+
+  v_theme_input := jsonb_populate_record(NULL::form_themes, COALESCE(p_theme, '{}'::jsonb));
+
+  UPDATE form_themes
+  SET
+    primary_color = v_theme_input.primary_color,
+    background_color = v_theme_input.background_color,
+    text_color = v_theme_input.text_color,
+    border_radius = v_theme_input.border_radius,
+    font_family = v_theme_input.font_family,
+    background_type = v_theme_input.background_type,
+    background_image = v_theme_input.background_image,
+    gradient_direction = v_theme_input.gradient_direction,
+    gradient_colors = v_theme_input.gradient_colors,
+    logo_url = v_theme_input.logo_url,
+    logo_position = v_theme_input.logo_position,
+    logo_size = v_theme_input.logo_size,
+    footer_enabled = v_theme_input.footer_enabled,
+    footer_text = v_theme_input.footer_text,
+    footer_links = v_theme_input.footer_links,
+    layout_style = v_theme_input.layout_style,
+    spacing = v_theme_input.spacing,
+    animation = v_theme_input.animation,
+    custom_css = COALESCE(v_theme_input.custom_css, ''),
+    updated_at = now()
+  WHERE form_id = v_form.id
+  RETURNING * INTO v_theme;
+
+  IF NOT FOUND THEN
+    INSERT INTO form_themes (
+      form_id, primary_color, background_color, text_color, border_radius, font_family,
+      background_type, background_image, gradient_direction, gradient_colors,
+      logo_url, logo_position, logo_size, footer_enabled, footer_text, footer_links,
+      layout_style, spacing, animation, custom_css
+    )
+    VALUES (
+      v_form.id,
+      v_theme_input.primary_color,
+      v_theme_input.background_color,
+      v_theme_input.text_color,
+      v_theme_input.border_radius,
+      v_theme_input.font_family,
+      v_theme_input.background_type,
+      v_theme_input.background_image,
+      v_theme_input.gradient_direction,
+      v_theme_input.gradient_colors,
+      v_theme_input.logo_url,
+      v_theme_input.logo_position,
+      v_theme_input.logo_size,
+      v_theme_input.footer_enabled,
+      v_theme_input.footer_text,
+      v_theme_input.footer_links,
+      v_theme_input.layout_style,
+      v_theme_input.spacing,
+      v_theme_input.animation,
+      COALESCE(v_theme_input.custom_css, '')
+    )
+    RETURNING * INTO v_theme;
+  END IF;
+
+  SELECT * INTO v_link
+  FROM form_links
+  WHERE form_id = v_form.id
+  AND link_type = 'public'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    INSERT INTO form_links (form_id, link_type, slug, is_active, settings)
+    VALUES (
+      v_form.id,
+      'public',
+      'form-' || left(v_form.id::text, 8) || '-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+      true,
+      '{}'
+    )
+    RETURNING * INTO v_link;
+  END IF;
+
+  -- The public link expires when the form closes
+  IF v_link.expires_at IS DISTINCT FROM v_form.closes_at THEN
+    UPDATE form_links
+    SET expires_at = v_form.closes_at
+    WHERE id = v_link.id
+    RETURNING * INTO v_link;
+  END IF;
+
+  SELECT * INTO v_qr
+  FROM form_qr_codes
+  WHERE form_id = v_form.id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    INSERT INTO form_qr_codes (form_id, qr_data, size, format, foreground_color, background_color, is_active)
+    VALUES (
+      v_form.id,
+      rtrim(p_origin, '/') || '/form/' || v_form.id,
+      256,
+      'png',
+      '#1F2937',
+      '#FFFFFF',
+      true
+    )
+    RETURNING * INTO v_qr;
+  END IF;
+
+  -- Same shape as the version 1 backfill, so unchanged forms compare equal
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', ff.id,
+        'form_id', ff.form_id,
+        'field_type', ff.field_type,
+        'label', ff.label,
+        'placeholder', ff.placeholder,
+        'is_required', ff.is_required,
+        'field_order', ff.field_order,
+        'options', ff.options,
+        'validation_rules', ff.validation_rules,
+        'settings', ff.settings
+      )
+      ORDER BY ff.field_order
+    ),
+    '[]'::jsonb
+  )
+  INTO v_snapshot
+  FROM form_fields ff
+  WHERE ff.form_id = v_form.id
+  AND ff.archived_at IS NULL;
+
+  SELECT * INTO v_version
+  FROM form_versions
+  WHERE form_id = v_form.id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF NOT FOUND
+    OR v_version.title IS DISTINCT FROM v_form.title
+    OR COALESCE(v_version.description, '') <> COALESCE(v_form.description, '')
+    OR v_version.fields IS DISTINCT FROM v_snapshot
+  THEN
+    INSERT INTO form_versions (form_id, version_number, title, description, fields, created_by)
+    VALUES (
+      v_form.id,
+      COALESCE(v_version.version_number, 0) + 1,
+      v_form.title,
+      v_form.description,
+      v_snapshot,
+      v_user_id
+    )
+    RETURNING * INTO v_version;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'form', to_jsonb(v_form),
+    'fields', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(ff) ORDER BY ff.field_order), '[]'::jsonb)
+      FROM form_fields ff
+      WHERE ff.form_id = v_form.id
+      AND ff.archived_at IS NULL
+    ),
+    'theme', to_jsonb(v_theme),
+    'link', to_jsonb(v_link),
+    'qr_code', to_jsonb(v_qr),
+    'version', to_jsonb(v_version)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_form(uuid, jsonb, jsonb, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_form(uuid, jsonb, jsonb, jsonb, text) TO authenticated;
@@ -0,0 +1,156 @@
+/*
+  # Save-and-resume partial responses
+
+  1. Changes to `form_responses`
+    - `resume_token` - secret that lets a respondent reload an unfinished response
+    - `updated_at` - last time a partial response was saved
+    - Partial responses have `is_complete = false`; their progress (raw answers and page)
+      is kept in `metadata.progress`, and answered fields are stored in `form_response_data`
+      like any other response so owners can review them
+
+  2. Functions
+    - `save_partial_response(...)` creates or updates the partial response for a resume token
+    - `get_partial_response(token)` returns the saved progress of an unfinished response
+    - `discard_partial_response(token)` removes it once the respondent submits or starts over
+    - All three run as security definer, because respondents can neither read nor update
+      `form_responses`; the token is the only way to reach a partial response
+
+  3. Notes
+    - `forms.response_count`, and with it the response limit, only counts complete responses
+    - The final submission is inserted as a new complete response and the partial is discarded,
+      so started = complete + partial
+    - File answers are never saved in a partial response
+*/
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS resume_token uuid UNIQUE;
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_is_complete ON form_responses(form_id, is_complete);
+
+-- Partial responses are not counted
+CREATE OR REPLACE FUNCTION increment_form_response_count()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_complete THEN
+    UPDATE forms
+    SET response_count = response_count + 1
+    WHERE id = NEW.form_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION save_partial_response(
+  p_form_id uuid,
+  p_token uuid,
+  p_answers jsonb,
+  p_page integer,
+  p_source text,
+  p_locale text,
+  p_version_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response form_responses%ROWTYPE;
+  v_progress jsonb := jsonb_build_object('answers', COALESCE(p_answers, '{}'::jsonb), 'page', COALESCE(p_page, 0));
+BEGIN
+  IF form_closed_reason(p_form_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'This form is not accepting responses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_response
+  FROM form_responses
+  WHERE resume_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO form_responses (
+      form_id, form_version_id, response_source, locale, user_agent,
+      is_complete, resume_token, metadata
+    )
+    VALUES (
+      p_form_id,
+      p_version_id,
+      COALESCE(p_source, 'web'),
+      p_locale,
+      current_setting('request.headers', true)::jsonb->>'user-agent',
+      false,
+      p_token,
+      jsonb_build_object('progress', v_progress)
+    )
+    RETURNING * INTO v_response;
+  ELSIF v_response.form_id <> p_form_id OR v_response.is_complete THEN
+    RAISE EXCEPTION 'This response can no longer be changed'
+      USING ERRCODE = '42501';
+  ELSE
+    UPDATE form_responses
+    SET
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('progress', v_progress),
+      locale = COALESCE(p_locale, locale),
+      updated_at = now()
+    WHERE id = v_response.id;
+
+    DELETE FROM form_response_data WHERE response_id = v_response.id;
+  END IF;
+
+  -- Same field_value / field_data shape as complete responses
+  INSERT INTO form_response_data (response_id, field_id, field_value, field_data)
+  SELECT
+    v_response.id,
+    ff.id,
+    CASE WHEN jsonb_typeof(a.value) = 'string' THEN a.value #>> '{}' ELSE a.value::text END,
+    jsonb_build_object('field_type', ff.field_type, 'raw_value', a.value)
+  FROM jsonb_each(COALESCE(p_answers, '{}'::jsonb)) a
+  JOIN form_fields ff
+    ON ff.id::text = a.key
+    AND ff.form_id = p_form_id
+    AND ff.archived_at IS NULL
+    AND ff.field_type NOT IN ('file', 'page-break')
+  WHERE a.value NOT IN ('null'::jsonb, '""'::jsonb, '[]'::jsonb, '{}'::jsonb);
+
+  RETURN v_response.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_partial_response(p_token uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'response_id', id,
+    'form_id', form_id,
+    'answers', COALESCE(metadata->'progress'->'answers', '{}'::jsonb),
+    'page', COALESCE((metadata->'progress'->>'page')::integer, 0),
+    'locale', locale,
+    'updated_at', updated_at
+  )
+  FROM form_responses
+  WHERE resume_token = p_token
+  AND is_complete = false;
+$$;
+
+CREATE OR REPLACE FUNCTION discard_partial_response(p_token uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM form_responses
+  WHERE resume_token = p_token
+  AND is_complete = false;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_partial_response(uuid, uuid, jsonb, integer, text, text, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_partial_response(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION discard_partial_response(uuid) TO anon, authenticated;
@@ -0,0 +1,24 @@
+/*
+  # Kiosk mode
+
+  1. Changes to `form_responses`
+    - `response_source` also accepts 'kiosk', for responses given on an in-venue tablet
+    - `device_id` - identifier of the kiosk that collected the response, so each location
+      can be reported on separately
+
+  2. Notes
+    - Kiosk settings (idle timeout, thank-you delay, exit PIN) live in `forms.settings.kiosk`
+      and need no schema change
+    - The device identifier is chosen by whoever sets up the tablet (`/kiosk/<form>?device=...`)
+      and is not verified
+*/
+
+ALTER TABLE form_responses DROP CONSTRAINT IF EXISTS form_responses_response_source_check;
+ALTER TABLE form_responses ADD CONSTRAINT form_responses_response_source_check
+  CHECK (response_source IN ('web', 'email', 'qr', 'sms', 'social', 'embedded', 'kiosk'));
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS device_id text
+  CHECK (device_id IS NULL OR length(device_id) <= 64);
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_device_id ON form_responses(form_id, device_id)
+  WHERE device_id IS NOT NULL;
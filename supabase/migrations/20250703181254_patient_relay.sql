@@ -0,0 +1,36 @@
+/*
+  # Offline submissions
+
+  1. Changes to `form_responses`
+    - `received_at` - when the response reached the server; `submitted_at` keeps the time the
+      respondent pressed submit, which is earlier for submissions queued offline
+
+  2. Changes to `form_response_data`
+    - Unique `(response_id, field_id)`, so a replayed submission can re-send its answers
+      without storing them twice
+
+  3. Security
+    - The response insert policy also requires `submitted_at` to lie within the last 30 days
+      and not in the future, so queued submissions cannot be back- or post-dated freely
+
+  4. Notes
+    - Replays reuse the response ID generated on the device; a response that already arrived
+      fails on the primary key instead of being stored again
+*/
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS received_at timestamptz DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_form_response_data_response_field
+  ON form_response_data(response_id, field_id);
+
+DROP POLICY IF EXISTS "Anyone can submit responses to open forms" ON form_responses;
+
+CREATE POLICY "Anyone can submit responses to open forms"
+  ON form_responses
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    form_closed_reason(form_id) IS NULL
+    AND submitted_at <= now() + interval '5 minutes'
+    AND submitted_at > now() - interval '30 days'
+  );
@@ -0,0 +1,288 @@
+/*
+  # Spam and abuse protection for submissions
+
+  1. Changes to `form_responses`
+    - `ip_hash` - hash of the submitter's IP address, salted with the form ID; the address itself is not stored
+    - `quarantined` / `quarantine_reasons` - submissions flagged as spam are kept here for the
+      owner to review instead of counting as responses
+
+  2. New Tables
+    - `submission_challenges` - single-use challenges handed to respondents when a form loads;
+      they date the start of a response on the server and carry the proof-of-work difficulty
+
+  3. Functions
+    - `issue_submission_challenge(form_id)` - creates a challenge for a respondent
+    - `screen_form_response()` - trigger that checks every new response against the form's
+      `settings.protection`:
+      - honeypot: the hidden field must stay empty
+      - minimum time-to-submit, measured from the challenge (or as reported by the client without one)
+      - per-IP submissions per hour and per-form submissions per minute
+      - optional proof-of-work: sha256("<challenge id>:<nonce>") must start with `difficulty` zero bits
+      Failing responses are stored as quarantined; an IP far beyond its limit is rejected outright
+    - `release_quarantined_response(response_id)` - owner approves a quarantined response
+    - `increment_form_response_count()` no longer counts quarantined responses
+
+  4. Security
+    - `submission_challenges` has RLS enabled and no policies; it is only reached through the functions above
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS ip_hash text;
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS quarantined boolean NOT NULL DEFAULT false;
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS quarantine_reasons text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_ip_hash ON form_responses(form_id, ip_hash, received_at);
+CREATE INDEX IF NOT EXISTS idx_form_responses_quarantined ON form_responses(form_id) WHERE quarantined;
+
+CREATE TABLE IF NOT EXISTS submission_challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  difficulty integer NOT NULL DEFAULT 0 CHECK (difficulty BETWEEN 0 AND 24),
+  created_at timestamptz DEFAULT now(),
+  used_at timestamptz
+);
+
+ALTER TABLE submission_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_submission_challenges_created_at ON submission_challenges(created_at);
+
+CREATE OR REPLACE FUNCTION issue_submission_challenge(p_form_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_protection jsonb;
+  v_challenge submission_challenges%ROWTYPE;
+BEGIN
+  SELECT COALESCE(settings->'protection', '{}'::jsonb) INTO v_protection
+  FROM forms
+  WHERE id = p_form_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = '42501';
+  END IF;
+
+  -- Challenges are only needed as long as an offline submission may be replayed
+  DELETE FROM submission_challenges WHERE created_at < now() - interval '30 days';
+
+  INSERT INTO submission_challenges (form_id, difficulty)
+  VALUES (
+    p_form_id,
+    CASE WHEN COALESCE((v_protection->>'proofOfWork')::boolean, false)
+      THEN LEAST(GREATEST(COALESCE((v_protection->>'powDifficulty')::integer, 14), 1), 24)
+      ELSE 0
+    END
+  )
+  RETURNING * INTO v_challenge;
+
+  RETURN jsonb_build_object(
+    'id', v_challenge.id,
+    'difficulty', v_challenge.difficulty,
+    'issued_at', v_challenge.created_at
+  );
+END;
+$$;
+
+-- True when sha256("<challenge>:<nonce>") starts with `p_difficulty` zero bits
+CREATE OR REPLACE FUNCTION submission_proof_is_valid(p_challenge uuid, p_difficulty integer, p_nonce text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_hex text;
+  v_zero_digits integer := p_difficulty / 4;
+  v_remaining_bits integer := p_difficulty % 4;
+BEGIN
+  IF p_nonce IS NULL OR length(p_nonce) > 32 THEN
+    RETURN false;
+  END IF;
+
+  v_hex := encode(extensions.digest(p_challenge::text || ':' || p_nonce, 'sha256'), 'hex');
+
+  RETURN left(v_hex, v_zero_digits) = repeat('0', v_zero_digits)
+    AND (
+      v_remaining_bits = 0
+      OR ('x' || substr(v_hex, v_zero_digits + 1, 1))::bit(4)::integer < (1 << (4 - v_remaining_bits))
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION screen_form_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_headers jsonb := COALESCE(current_setting('request.headers', true)::jsonb, '{}'::jsonb);
+  v_ip text;
+  v_proof jsonb := COALESCE(NEW.metadata->'protection', '{}'::jsonb);
+  v_challenge submission_challenges%ROWTYPE;
+  v_elapsed numeric;
+  v_ip_count integer := 0;
+  v_form_count integer;
+  v_reasons text[] := '{}';
+  v_min_seconds integer;
+  v_max_per_ip integer;
+  v_max_per_form integer;
+BEGIN
+  SELECT COALESCE(settings->'protection', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = NEW.form_id;
+
+  v_min_seconds := COALESCE((v_settings->>'minSecondsToSubmit')::integer, 3);
+  v_max_per_ip := COALESCE((v_settings->>'maxPerIpPerHour')::integer, 30);
+  v_max_per_form := COALESCE((v_settings->>'maxPerFormPerMinute')::integer, 60);
+
+  -- The first address of the forwarding chain is the client
+  v_ip := trim(split_part(COALESCE(
+    v_headers->>'cf-connecting-ip',
+    v_headers->>'x-forwarded-for',
+    v_headers->>'x-real-ip',
+    ''
+  ), ',', 1));
+
+  IF v_ip <> '' THEN
+    NEW.ip_hash := md5(NEW.form_id::text || ':' || v_ip);
+
+    SELECT count(*) INTO v_ip_count
+    FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND ip_hash = NEW.ip_hash
+    AND received_at > now() - interval '1 hour';
+
+    -- Far beyond the limit even quarantining would let one client fill the table
+    IF v_max_per_ip > 0 AND v_ip_count >= v_max_per_ip * 5 THEN
+      RAISE EXCEPTION 'Too many submissions from your network. Please try again later.'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Partial responses are screened when they are submitted
+  IF NOT NEW.is_complete THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE((v_settings->>'honeypot')::boolean, true) AND COALESCE(v_proof->>'honeypot', '') <> '' THEN
+    v_reasons := v_reasons || 'honeypot';
+  END IF;
+
+  IF v_proof->>'challenge_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    SELECT * INTO v_challenge
+    FROM submission_challenges
+    WHERE id = (v_proof->>'challenge_id')::uuid
+    AND form_id = NEW.form_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_challenge.id IS NOT NULL THEN
+    IF v_challenge.used_at IS NOT NULL THEN
+      v_reasons := v_reasons || 'challenge_reused';
+    END IF;
+
+    UPDATE submission_challenges SET used_at = now() WHERE id = v_challenge.id;
+    -- A post-dated submitted_at must not make a fast submission look slow
+    v_elapsed := extract(epoch FROM LEAST(NEW.submitted_at, now()) - v_challenge.created_at);
+  ELSIF v_proof->>'elapsed_ms' ~ '^\d+$' THEN
+    v_elapsed := (v_proof->>'elapsed_ms')::numeric / 1000;
+  END IF;
+
+  IF v_min_seconds > 0 AND (v_elapsed IS NULL OR v_elapsed < v_min_seconds) THEN
+    v_reasons := v_reasons || 'too_fast';
+  END IF;
+
+  IF COALESCE((v_settings->>'proofOfWork')::boolean, false) AND (
+    v_challenge.id IS NULL
+    OR v_challenge.difficulty = 0
+    OR NOT submission_proof_is_valid(v_challenge.id, v_challenge.difficulty, v_proof->>'nonce')
+  ) THEN
+    v_reasons := v_reasons || 'proof_of_work';
+  END IF;
+
+  IF v_max_per_ip > 0 AND v_ip_count >= v_max_per_ip THEN
+    v_reasons := v_reasons || 'ip_rate_limit';
+  END IF;
+
+  IF v_max_per_form > 0 THEN
+    SELECT count(*) INTO v_form_count
+    FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND received_at > now() - interval '1 minute';
+
+    IF v_form_count >= v_max_per_form THEN
+      v_reasons := v_reasons || 'form_rate_limit';
+    END IF;
+  END IF;
+
+  IF array_length(v_reasons, 1) > 0 THEN
+    NEW.quarantined := true;
+    NEW.quarantine_reasons := v_reasons;
+  ELSE
+    -- Only the owner's own release may clear the flag
+    NEW.quarantined := false;
+    NEW.quarantine_reasons := '{}';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS screen_form_response_trigger ON form_responses;
+
+CREATE TRIGGER screen_form_response_trigger
+  BEFORE INSERT ON form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION screen_form_response();
+
+-- Quarantined responses are counted once released
+CREATE OR REPLACE FUNCTION increment_form_response_count()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_complete AND NOT NEW.quarantined THEN
+    UPDATE forms
+    SET response_count = response_count + 1
+    WHERE id = NEW.form_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION release_quarantined_response(p_response_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_form_id uuid;
+BEGIN
+  UPDATE form_responses fr
+  SET quarantined = false
+  FROM forms f
+  WHERE fr.id = p_response_id
+  AND fr.quarantined
+  AND f.id = fr.form_id
+  AND f.user_id = auth.uid()
+  RETURNING fr.form_id INTO v_form_id;
+
+  IF v_form_id IS NULL THEN
+    RAISE EXCEPTION 'Response not found or access denied' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE forms
+  SET response_count = response_count + 1
+  WHERE id = v_form_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_submission_challenge(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_quarantined_response(uuid) TO authenticated;
@@ -0,0 +1,284 @@
+/*
+  # One response per respondent
+
+  1. Changes to `forms`
+    - `duplicate_attempts` - how often someone who already responded tried to respond again
+
+  2. Changes to `form_responses`
+    - `respondent_key` - hash identifying the respondent of a form that allows one response each;
+      the identity itself (browser token, invitation or email address) is not stored
+
+  3. New Tables
+    - `respondent_passes` - issued once a respondent verified their email address with a one-time
+      code; the pass ID is what the respondent submits with their answers
+
+  4. Functions
+    - `resolve_respondent_key(form_id, token)` - turns the token a respondent presents into their
+      key, using the identity the form's `settings.responses.respondentIdentity` asks for:
+      - `browser`: a random token kept in the respondent's browser
+      - `invitation`: the ID of a `form_invitations` row of the form
+      - `email`: the ID of a `respondent_passes` row of the form
+    - `issue_respondent_pass(form_id)` - called with the session of a respondent who just signed in
+      with an email code
+    - `check_respondent(form_id, token, source, response_id)` - whether the respondent may respond,
+      and their earlier answers when they may edit them; counts the attempt when they may not
+    - `enforce_one_response_per_respondent()` - trigger that applies the same rule to every new
+      complete response: without editing, a second response is rejected; with editing, the new
+      response replaces the earlier one
+
+  5. Notes
+    - Kiosk responses are exempt from the browser-token identity, since a kiosk is shared
+    - Attachments of a replaced response stay in storage
+
+  6. Security
+    - `respondent_passes` has RLS enabled and no policies; it is only reached through the functions above
+*/
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS duplicate_attempts integer NOT NULL DEFAULT 0;
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS respondent_key text;
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_respondent_key
+  ON form_responses(form_id, respondent_key)
+  WHERE respondent_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS respondent_passes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  respondent_key text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE respondent_passes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION resolve_respondent_key(p_form_id uuid, p_token text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identity text;
+  v_key text;
+BEGIN
+  IF p_token IS NULL OR p_token !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(settings->'responses'->>'respondentIdentity', 'browser') INTO v_identity
+  FROM forms
+  WHERE id = p_form_id;
+
+  IF v_identity = 'invitation' THEN
+    SELECT md5(p_form_id::text || ':invitation:' || id::text) INTO v_key
+    FROM form_invitations
+    WHERE id = p_token::uuid
+    AND form_id = p_form_id;
+  ELSIF v_identity = 'email' THEN
+    SELECT respondent_key INTO v_key
+    FROM respondent_passes
+    WHERE id = p_token::uuid
+    AND form_id = p_form_id;
+  ELSE
+    v_key := md5(p_form_id::text || ':browser:' || lower(p_token));
+  END IF;
+
+  RETURN v_key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_respondent_pass(p_form_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(auth.jwt()->>'email');
+  v_key text;
+  v_pass_id uuid;
+BEGIN
+  IF v_email IS NULL OR v_email = '' THEN
+    RAISE EXCEPTION 'Please verify your email address first' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM forms WHERE id = p_form_id AND is_active = true) THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = '42501';
+  END IF;
+
+  v_key := md5(p_form_id::text || ':email:' || v_email);
+
+  -- The same address always gets the same pass, so verifying again in another browser works
+  SELECT id INTO v_pass_id
+  FROM respondent_passes
+  WHERE form_id = p_form_id
+  AND respondent_key = v_key;
+
+  IF v_pass_id IS NULL THEN
+    INSERT INTO respondent_passes (form_id, respondent_key)
+    VALUES (p_form_id, v_key)
+    RETURNING id INTO v_pass_id;
+  END IF;
+
+  RETURN v_pass_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_respondent(
+  p_form_id uuid,
+  p_token text,
+  p_source text DEFAULT 'web',
+  p_response_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_key text;
+  v_previous form_responses%ROWTYPE;
+BEGIN
+  SELECT COALESCE(settings->'responses', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = p_form_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT COALESCE((v_settings->>'onePerRespondent')::boolean, false)
+    OR (p_source = 'kiosk' AND COALESCE(v_settings->>'respondentIdentity', 'browser') = 'browser') THEN
+    RETURN jsonb_build_object('status', 'open');
+  END IF;
+
+  v_key := resolve_respondent_key(p_form_id, p_token);
+  IF v_key IS NULL THEN
+    RETURN jsonb_build_object('status', 'unverified');
+  END IF;
+
+  -- A replayed submission must not count as its own duplicate
+  SELECT * INTO v_previous
+  FROM form_responses
+  WHERE form_id = p_form_id
+  AND respondent_key = v_key
+  AND is_complete
+  AND id IS DISTINCT FROM p_response_id
+  ORDER BY submitted_at DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NULL THEN
+    RETURN jsonb_build_object('status', 'new');
+  END IF;
+
+  IF COALESCE((v_settings->>'allowEditing')::boolean, false) THEN
+    RETURN jsonb_build_object(
+      'status', 'editable',
+      'response_id', v_previous.id,
+      'submitted_at', v_previous.submitted_at,
+      -- Files cannot be handed back to the browser, so those questions are answered again
+      'answers', COALESCE((
+        SELECT jsonb_object_agg(frd.field_id, frd.field_data->'raw_value')
+        FROM form_response_data frd
+        WHERE frd.response_id = v_previous.id
+        AND frd.field_data ? 'raw_value'
+      ), '{}'::jsonb)
+    );
+  END IF;
+
+  UPDATE forms
+  SET duplicate_attempts = duplicate_attempts + 1
+  WHERE id = p_form_id;
+
+  RETURN jsonb_build_object(
+    'status', 'responded',
+    'submitted_at', v_previous.submitted_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_one_response_per_respondent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_token text := NEW.metadata->>'respondent_token';
+  v_previous form_responses%ROWTYPE;
+BEGIN
+  -- The token is a credential; only the derived key is kept
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) - 'respondent_token';
+  NEW.respondent_key := NULL;
+
+  -- Partial responses are checked when they are submitted
+  IF NOT NEW.is_complete THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(settings->'responses', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = NEW.form_id;
+
+  IF NOT COALESCE((v_settings->>'onePerRespondent')::boolean, false)
+    OR (NEW.response_source = 'kiosk' AND COALESCE(v_settings->>'respondentIdentity', 'browser') = 'browser') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.respondent_key := resolve_respondent_key(NEW.form_id, v_token);
+  IF NEW.respondent_key IS NULL THEN
+    RAISE EXCEPTION 'Please verify who you are before responding to this form'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Serializes simultaneous submissions of the same respondent
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.form_id::text || ':' || NEW.respondent_key));
+
+  SELECT * INTO v_previous
+  FROM form_responses
+  WHERE form_id = NEW.form_id
+  AND respondent_key = NEW.respondent_key
+  AND is_complete
+  AND id <> NEW.id
+  ORDER BY submitted_at DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT COALESCE((v_settings->>'allowEditing')::boolean, false) THEN
+    RAISE EXCEPTION 'You have already responded to this form'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM form_responses WHERE id = v_previous.id;
+
+  -- The new response is counted on insert
+  IF NOT v_previous.quarantined THEN
+    UPDATE forms
+    SET response_count = GREATEST(response_count - 1, 0)
+    WHERE id = NEW.form_id;
+  END IF;
+
+  NEW.metadata := NEW.metadata || jsonb_build_object(
+    'edited_response_id', v_previous.id,
+    'first_submitted_at', COALESCE(v_previous.metadata->>'first_submitted_at', v_previous.submitted_at::text)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_one_response_per_respondent_trigger ON form_responses;
+
+CREATE TRIGGER enforce_one_response_per_respondent_trigger
+  BEFORE INSERT ON form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_one_response_per_respondent();
+
+GRANT EXECUTE ON FUNCTION issue_respondent_pass(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_respondent(uuid, text, text, uuid) TO anon, authenticated;
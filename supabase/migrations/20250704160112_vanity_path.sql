@@ -0,0 +1,145 @@
+/*
+  # Custom, private and expiring share links
+
+  1. Changes to `form_links`
+    - `slug` must be 3-64 lowercase letters, digits and hyphens, unique regardless of case
+    - `access_token` - secret that private links carry as `?key=`; ignored for public links
+    - `label` - owner's note on where the link is shared
+
+  2. Changes to `form_responses`
+    - `link_id` - the share link the response came through
+
+  3. Functions
+    - `form_link_slug_available(slug)` - uniqueness check across all owners' links
+    - `open_form_link(slug, key)` - resolves a `/f/<slug>` visit to its form and counts the
+      click; inactive, expired and (for private links) wrong-key visits resolve to nothing
+    - `check_form_response_link()` - trigger that rejects responses sent through a link that
+      was deactivated or expired after the respondent opened it
+    - `form_closed_reason` only lets the form's default link (the one `save_form` keeps in step
+      with `closes_at`) close the form, so an expired custom link closes just that link
+
+  4. Security
+    - Respondents never read `form_links`; tokens are only compared inside `open_form_link`
+*/
+
+ALTER TABLE form_links ADD COLUMN IF NOT EXISTS access_token text NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', '');
+ALTER TABLE form_links ADD COLUMN IF NOT EXISTS label text NOT NULL DEFAULT '';
+
+-- NOT VALID keeps any odd legacy slug working while new and renamed slugs are checked
+ALTER TABLE form_links ADD CONSTRAINT form_links_slug_format
+  CHECK (slug ~ '^[a-z0-9][a-z0-9-]{1,62}[a-z0-9]$') NOT VALID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_form_links_slug_lower ON form_links(lower(slug));
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS link_id uuid REFERENCES form_links(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_link_id ON form_responses(link_id) WHERE link_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION form_link_slug_available(p_slug text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM form_links WHERE lower(slug) = lower(p_slug)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION open_form_link(p_slug text, p_key text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link form_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM form_links
+  WHERE lower(slug) = lower(p_slug);
+
+  -- A wrong key looks like a missing link, so private slugs cannot be probed
+  IF NOT FOUND OR (v_link.link_type = 'private' AND v_link.access_token IS DISTINCT FROM p_key) THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF NOT v_link.is_active THEN
+    RETURN jsonb_build_object('status', 'inactive');
+  END IF;
+
+  IF v_link.expires_at IS NOT NULL AND v_link.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired', 'expires_at', v_link.expires_at);
+  END IF;
+
+  UPDATE form_links
+  SET click_count = COALESCE(click_count, 0) + 1
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'form_id', v_link.form_id,
+    'link_id', v_link.id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_form_response_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.link_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM form_links
+    WHERE id = NEW.link_id
+    AND form_id = NEW.form_id
+    AND is_active
+    AND (expires_at IS NULL OR expires_at > LEAST(NEW.submitted_at, now()))
+  ) THEN
+    RAISE EXCEPTION 'This link has expired or is no longer active'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_form_response_link_trigger ON form_responses;
+
+CREATE TRIGGER check_form_response_link_trigger
+  BEFORE INSERT ON form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION check_form_response_link();
+
+-- Checked in the same order as FormAvailabilityService.getStatus
+CREATE OR REPLACE FUNCTION form_closed_reason(p_form_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN f.id IS NULL OR NOT f.is_active THEN 'inactive'
+    WHEN f.opens_at IS NOT NULL AND f.opens_at > now() THEN 'not_open'
+    WHEN f.closes_at IS NOT NULL AND f.closes_at <= now() THEN 'ended'
+    WHEN (
+      SELECT l.expires_at <= now()
+      FROM form_links l
+      WHERE l.form_id = f.id
+      AND l.link_type = 'public'
+      ORDER BY l.created_at
+      LIMIT 1
+    ) THEN 'ended'
+    WHEN f.max_responses IS NOT NULL AND f.response_count >= f.max_responses THEN 'full'
+    ELSE NULL
+  END
+  FROM (SELECT p_form_id AS id) requested
+  LEFT JOIN forms f ON f.id = requested.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION form_link_slug_available(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION open_form_link(text, text) TO anon, authenticated;
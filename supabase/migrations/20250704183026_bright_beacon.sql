@@ -0,0 +1,118 @@
+/*
+  # Designed QR codes with scan tracking
+
+  1. Changes to `form_qr_codes`
+    - `format` must be `png`, `svg` or `pdf` (the designer's default download)
+    - `qr_data` now holds the code's `/qr/<id>` scan URL instead of the form URL; codes
+      `save_form` creates are rewritten on insert by `form_qr_code_scan_url()`
+
+  2. Changes to `form_responses`
+    - `qr_code_id` - the QR code the respondent scanned
+
+  3. Functions
+    - `open_qr_code(id)` - resolves a `/qr/<id>` scan to its form and counts it; also accepts a
+      form ID, which resolves to the form's first code (the URL `save_form` used to hand out)
+    - `check_form_response_qr_code()` - trigger that drops a QR code that belongs to another
+      form, so a response is only attributed to its own form's codes
+
+  4. Security
+    - Respondents never read `form_qr_codes`; scans are counted inside `open_qr_code`
+*/
+
+-- NOT VALID keeps rows saved with other formats readable
+ALTER TABLE form_qr_codes ADD CONSTRAINT form_qr_codes_format_check
+  CHECK (format IN ('png', 'svg', 'pdf')) NOT VALID;
+
+CREATE OR REPLACE FUNCTION form_qr_code_scan_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.qr_data := regexp_replace(NEW.qr_data, '/form/[0-9a-f-]+$', '/qr/' || NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS form_qr_code_scan_url_trigger ON form_qr_codes;
+
+CREATE TRIGGER form_qr_code_scan_url_trigger
+  BEFORE INSERT ON form_qr_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION form_qr_code_scan_url();
+
+UPDATE form_qr_codes
+SET qr_data = regexp_replace(qr_data, '/form/[0-9a-f-]+$', '/qr/' || id)
+WHERE qr_data ~ '/form/[0-9a-f-]+$';
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS qr_code_id uuid REFERENCES form_qr_codes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_qr_code_id ON form_responses(qr_code_id) WHERE qr_code_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION open_qr_code(p_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_qr form_qr_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_qr
+  FROM form_qr_codes
+  WHERE id = p_id;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_qr
+    FROM form_qr_codes
+    WHERE form_id = p_id
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF NOT v_qr.is_active THEN
+    RETURN jsonb_build_object('status', 'inactive');
+  END IF;
+
+  UPDATE form_qr_codes
+  SET scan_count = COALESCE(scan_count, 0) + 1
+  WHERE id = v_qr.id;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'form_id', v_qr.form_id,
+    'qr_code_id', v_qr.id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_form_response_qr_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.qr_code_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM form_qr_codes
+    WHERE id = NEW.qr_code_id
+    AND form_id = NEW.form_id
+  ) THEN
+    NEW.qr_code_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_form_response_qr_code_trigger ON form_responses;
+
+CREATE TRIGGER check_form_response_qr_code_trigger
+  BEFORE INSERT ON form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION check_form_response_qr_code();
+
+GRANT EXECUTE ON FUNCTION open_qr_code(uuid) TO anon, authenticated;
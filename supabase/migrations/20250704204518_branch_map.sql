@@ -0,0 +1,55 @@
+/*
+  # Per-location QR codes
+
+  1. Changes to `form_qr_codes`
+    - `label` - where the code is placed, e.g. a store or room name
+    - `location_code` - the owner's own ID for the placement, unique per form; NULL for the
+      form's main code, so re-importing a location list updates codes instead of duplicating them
+    - `tracking_params` - query parameters the code's scan URL carries, e.g. `utm_source`
+
+  2. Changes to `form_responses`
+    - `location_label` - the label of the scanned code when the response was submitted, kept
+      as it was even if the code is renamed later
+
+  3. Functions
+    - `check_form_response_qr_code()` also copies the scanned code's label onto the response
+*/
+
+ALTER TABLE form_qr_codes ADD COLUMN IF NOT EXISTS label text NOT NULL DEFAULT '';
+ALTER TABLE form_qr_codes ADD COLUMN IF NOT EXISTS location_code text;
+ALTER TABLE form_qr_codes ADD COLUMN IF NOT EXISTS tracking_params jsonb NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_form_qr_codes_location_code ON form_qr_codes(form_id, location_code);
+
+ALTER TABLE form_responses ADD COLUMN IF NOT EXISTS location_label text;
+
+CREATE INDEX IF NOT EXISTS idx_form_responses_location_label ON form_responses(form_id, location_label) WHERE location_label IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION check_form_response_qr_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_label text;
+BEGIN
+  -- Set from the code alone, so respondents cannot attribute responses to other locations
+  NEW.location_label := NULL;
+
+  IF NEW.qr_code_id IS NOT NULL THEN
+    SELECT label INTO v_label
+    FROM form_qr_codes
+    WHERE id = NEW.qr_code_id
+    AND form_id = NEW.form_id;
+
+    IF NOT FOUND THEN
+      NEW.qr_code_id := NULL;
+    ELSE
+      NEW.location_label := NULLIF(v_label, '');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,140 @@
+/*
+  # Atomic submissions and upload limits
+
+  1. Functions
+    - `submit_form_response(response, answers)` - stores a complete response and its answers in
+      one transaction, so a failure leaves neither behind. Replaying a response that already
+      arrived returns `exists` without storing anything again
+    - `form_accepts_uploads(object_name)` now only admits objects that a response received within
+      the last hour declared in its answers, at `<form_id>/<response_id>/<file>`
+
+  2. Storage
+    - The `form-uploads` bucket is limited to 50 MB per object (the largest size a file question
+      allows) and to image, video, audio, PDF, text and office document types
+
+  3. Security
+    - Respondents can no longer insert into `form_responses` or `form_response_data` directly;
+      `submit_form_response` applies the checks the insert policies made (open form,
+      `submitted_at` within the last 30 days and not in the future)
+
+  4. Notes
+    - Attachments are uploaded after the response is stored, into the paths it declared; an
+      attachment that failed to upload is sent again when the submission is retried
+*/
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 52428800,
+  allowed_mime_types = ARRAY[
+    'image/*',
+    'video/*',
+    'audio/*',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ]
+WHERE id = 'form-uploads';
+
+CREATE OR REPLACE FUNCTION submit_form_response(p_response jsonb, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response_id uuid := (p_response->>'id')::uuid;
+  v_form_id uuid := (p_response->>'form_id')::uuid;
+  v_submitted_at timestamptz := COALESCE((p_response->>'submitted_at')::timestamptz, now());
+BEGIN
+  IF v_response_id IS NULL OR v_form_id IS NULL THEN
+    RAISE EXCEPTION 'A response needs an ID and a form' USING ERRCODE = '22023';
+  END IF;
+
+  -- The answers were stored together with the response
+  IF EXISTS (SELECT 1 FROM form_responses WHERE id = v_response_id) THEN
+    RETURN jsonb_build_object('status', 'exists');
+  END IF;
+
+  IF form_closed_reason(v_form_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'This form is not accepting responses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_submitted_at > now() + interval '5 minutes' OR v_submitted_at <= now() - interval '30 days' THEN
+    RAISE EXCEPTION 'This submission is too old to be accepted'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO form_responses (
+    id, form_id, form_version_id, response_source, locale, device_id, link_id, qr_code_id,
+    submitted_at, user_agent, sentiment, overall_rating, nps_score, is_complete, metadata
+  )
+  VALUES (
+    v_response_id,
+    v_form_id,
+    (p_response->>'form_version_id')::uuid,
+    COALESCE(p_response->>'response_source', 'web'),
+    p_response->>'locale',
+    p_response->>'device_id',
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    v_submitted_at,
+    current_setting('request.headers', true)::jsonb->>'user-agent',
+    p_response->>'sentiment',
+    (p_response->>'overall_rating')::numeric,
+    (p_response->>'nps_score')::integer,
+    true,
+    COALESCE(p_response->'metadata', '{}'::jsonb)
+  );
+
+  -- Answers to questions that are not part of the form are dropped
+  INSERT INTO form_response_data (response_id, field_id, field_value, field_data)
+  SELECT
+    v_response_id,
+    ff.id,
+    a.value->>'field_value',
+    COALESCE(a.value->'field_data', '{}'::jsonb)
+  FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) a
+  JOIN form_fields ff
+    ON ff.id::text = a.value->>'field_id'
+    AND ff.form_id = v_form_id
+    AND ff.archived_at IS NULL
+    AND ff.field_type <> 'page-break';
+
+  RETURN jsonb_build_object('status', 'stored');
+END;
+$$;
+
+-- Only paths a recent response declared for one of its file questions can be written
+CREATE OR REPLACE FUNCTION form_accepts_uploads(p_object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM form_responses fr
+    JOIN forms f ON f.id = fr.form_id
+    JOIN form_response_data frd ON frd.response_id = fr.id
+    JOIN form_fields ff ON ff.id = frd.field_id
+    WHERE f.id::text = (storage.foldername(p_object_name))[1]
+    AND fr.id::text = (storage.foldername(p_object_name))[2]
+    AND f.is_active = true
+    AND fr.received_at > now() - interval '1 hour'
+    AND ff.field_type = 'file'
+    AND ff.archived_at IS NULL
+    AND frd.field_data->'files' @> jsonb_build_array(jsonb_build_object('path', p_object_name))
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can submit responses to open forms" ON form_responses;
+DROP POLICY IF EXISTS "Anyone can submit response data" ON form_response_data;
+
+GRANT EXECUTE ON FUNCTION submit_form_response(jsonb, jsonb) TO anon, authenticated;
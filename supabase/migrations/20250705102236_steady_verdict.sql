@@ -0,0 +1,427 @@
+/*
+  # Server-side answer validation
+
+  1. Functions
+    - `answer_is_answered(answer)` / `answer_matches(operator, answer, expected)` - the answer
+      checks of the form's display logic and jumps, as the form applies them in the browser
+    - `answer_error(field, answer)` - the first format, validation rule or upload restriction an
+      answer breaks, with the message the form shows
+    - `check_form_response_answers(response_id)` - walks the form's questions the way the
+      respondent saw them, rejects the response when a shown required question is unanswered or
+      an answer is invalid, and drops answers to questions that were hidden or skipped
+    - `submit_form_response(response, answers)` runs the check before returning
+
+  2. Notes
+    - Author patterns are matched as PostgreSQL regular expressions; a pattern that does not
+      compile is ignored, as in the browser
+*/
+
+CREATE OR REPLACE FUNCTION answer_is_answered(p_answer jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE jsonb_typeof(p_answer)
+    WHEN 'string' THEN
+      RETURN length(btrim(p_answer #>> '{}', E' \t\r\n')) > 0;
+    WHEN 'array' THEN
+      RETURN jsonb_array_length(p_answer) > 0;
+    WHEN 'object' THEN
+      RETURN EXISTS (SELECT 1 FROM jsonb_each(p_answer) item WHERE answer_is_answered(item.value));
+    WHEN 'null' THEN
+      RETURN false;
+    ELSE
+      RETURN p_answer IS NOT NULL;
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION answer_matches(p_operator text, p_answer jsonb, p_expected text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_expected text := lower(btrim(COALESCE(p_expected, '')));
+  v_answer text;
+  v_chosen text[];
+  v_number numeric;
+  v_expected_number numeric;
+BEGIN
+  IF p_operator = 'is_answered' THEN
+    RETURN answer_is_answered(p_answer);
+  ELSIF p_operator = 'is_not_answered' THEN
+    RETURN NOT answer_is_answered(p_answer);
+  ELSIF NOT answer_is_answered(p_answer) THEN
+    RETURN false;
+  END IF;
+
+  -- Matrix answers match on any chosen column
+  IF jsonb_typeof(p_answer) = 'object' THEN
+    SELECT array_agg(lower(btrim(CASE WHEN jsonb_typeof(chosen.value) = 'string' THEN chosen.value #>> '{}' ELSE chosen.value::text END)))
+    INTO v_chosen
+    FROM jsonb_each(p_answer) row_answer,
+      jsonb_array_elements(CASE WHEN jsonb_typeof(row_answer.value) = 'array' THEN row_answer.value ELSE jsonb_build_array(row_answer.value) END) chosen;
+
+    RETURN CASE p_operator
+      WHEN 'equals' THEN v_expected = ANY(v_chosen)
+      WHEN 'not_equals' THEN NOT (v_expected = ANY(v_chosen))
+      WHEN 'contains' THEN EXISTS (SELECT 1 FROM unnest(v_chosen) column_value WHERE strpos(column_value, v_expected) > 0)
+      ELSE false
+    END;
+  END IF;
+
+  v_answer := lower(btrim(CASE jsonb_typeof(p_answer)
+    WHEN 'string' THEN p_answer #>> '{}'
+    WHEN 'array' THEN (
+      SELECT string_agg(CASE WHEN jsonb_typeof(item) = 'string' THEN item #>> '{}' ELSE item::text END, ',')
+      FROM jsonb_array_elements(p_answer) item
+    )
+    ELSE p_answer::text
+  END));
+
+  IF p_operator = 'equals' THEN
+    RETURN v_answer = v_expected;
+  ELSIF p_operator = 'not_equals' THEN
+    RETURN v_answer <> v_expected;
+  ELSIF p_operator = 'contains' THEN
+    RETURN strpos(v_answer, v_expected) > 0;
+  END IF;
+
+  IF v_answer !~ '^-?[0-9]+(\.[0-9]+)?$' OR v_expected !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+    RETURN false;
+  END IF;
+
+  v_number := v_answer::numeric;
+  v_expected_number := v_expected::numeric;
+
+  RETURN CASE p_operator
+    WHEN 'less_than' THEN v_number < v_expected_number
+    WHEN 'less_than_or_equal' THEN v_number <= v_expected_number
+    WHEN 'greater_than' THEN v_number > v_expected_number
+    WHEN 'greater_than_or_equal' THEN v_number >= v_expected_number
+    ELSE false
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION answer_error(p_field form_fields, p_answer jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rules jsonb := COALESCE(p_field.validation_rules, '{}'::jsonb);
+  v_upload jsonb := COALESCE(p_field.settings->'upload', '{}'::jsonb);
+  v_format text;
+  v_text text;
+  v_digits text;
+  v_number numeric;
+  v_file jsonb;
+  v_allowed_types text[];
+  v_max_files integer;
+  v_max_size_mb numeric;
+  v_domains text[];
+  v_domain text;
+  v_matches boolean;
+BEGIN
+  IF NOT answer_is_answered(p_answer) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_field.field_type = 'file' THEN
+    v_max_files := COALESCE((v_upload->>'maxFiles')::integer, 3);
+    v_max_size_mb := COALESCE((v_upload->>'maxSizeMb')::numeric, 10);
+    SELECT COALESCE(array_agg(lower(btrim(allowed))) FILTER (WHERE btrim(allowed) <> ''), '{}')
+    INTO v_allowed_types
+    FROM jsonb_array_elements_text(COALESCE(v_upload->'allowedTypes', '["image/*", "application/pdf"]'::jsonb)) allowed;
+
+    IF jsonb_typeof(p_answer) <> 'array' THEN
+      RETURN 'Please upload a file';
+    END IF;
+
+    IF jsonb_array_length(p_answer) > v_max_files THEN
+      RETURN format('You can upload at most %s file%s', v_max_files, CASE WHEN v_max_files = 1 THEN '' ELSE 's' END);
+    END IF;
+
+    FOR v_file IN SELECT * FROM jsonb_array_elements(p_answer) LOOP
+      IF cardinality(v_allowed_types) > 0 AND NOT EXISTS (
+        SELECT 1 FROM unnest(v_allowed_types) allowed
+        WHERE CASE
+          WHEN allowed LIKE '%/*' THEN lower(COALESCE(v_file->>'type', '')) LIKE left(allowed, -1) || '%'
+          ELSE lower(COALESCE(v_file->>'type', '')) = allowed
+        END
+      ) THEN
+        RETURN format('%s is not an allowed file type (%s)', v_file->>'name', array_to_string(v_allowed_types, ', '));
+      END IF;
+
+      IF COALESCE((v_file->>'size')::numeric, 0) > v_max_size_mb * 1024 * 1024 THEN
+        RETURN format('%s is larger than %s MB', v_file->>'name', v_max_size_mb);
+      END IF;
+    END LOOP;
+
+    RETURN NULL;
+  END IF;
+
+  IF jsonb_typeof(p_answer) = 'number' THEN
+    v_number := p_answer::text::numeric;
+  ELSIF jsonb_typeof(p_answer) <> 'string' THEN
+    RETURN NULL;
+  ELSE
+    v_text := btrim(p_answer #>> '{}', E' \t\r\n');
+    v_format := CASE
+      WHEN p_field.field_type IN ('email', 'phone') THEN p_field.field_type
+      WHEN p_field.field_type = 'text' THEN v_rules->>'format'
+    END;
+
+    IF v_format = 'email' AND v_text !~ '^[^[:space:]@]+@[^[:space:]@]+\.[^[:space:]@]+$' THEN
+      RETURN 'Please enter a valid email address';
+    END IF;
+
+    IF v_format = 'phone' THEN
+      v_digits := regexp_replace(v_text, '[^0-9]', '', 'g');
+      IF v_text !~ '^\+?[0-9[:space:]().-]+$' OR length(v_digits) < 7 OR length(v_digits) > 15 THEN
+        RETURN 'Please enter a valid phone number';
+      END IF;
+    END IF;
+
+    IF v_rules ? 'minLength' AND length(v_text) < (v_rules->>'minLength')::integer THEN
+      RETURN format('Please enter at least %s characters', v_rules->>'minLength');
+    END IF;
+
+    IF v_rules ? 'maxLength' AND length(v_text) > (v_rules->>'maxLength')::integer THEN
+      RETURN format('Please enter no more than %s characters', v_rules->>'maxLength');
+    END IF;
+
+    IF COALESCE(v_rules->>'pattern', '') <> '' THEN
+      BEGIN
+        v_matches := v_text ~ (v_rules->>'pattern');
+      EXCEPTION WHEN invalid_regular_expression THEN
+        v_matches := true;
+      END;
+
+      IF NOT v_matches THEN
+        RETURN COALESCE(NULLIF(v_rules->>'patternMessage', ''), 'Please match the requested format');
+      END IF;
+    END IF;
+
+    IF v_rules ? 'min' OR v_rules ? 'max' THEN
+      IF v_text !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+        RETURN 'Please enter a number';
+      END IF;
+      v_number := v_text::numeric;
+    END IF;
+
+    SELECT COALESCE(array_agg(lower(regexp_replace(btrim(allowed), '^@', ''))) FILTER (WHERE btrim(allowed) NOT IN ('', '@')), '{}')
+    INTO v_domains
+    FROM jsonb_array_elements_text(COALESCE(v_rules->'allowedDomains', '[]'::jsonb)) allowed;
+
+    IF v_format = 'email' AND cardinality(v_domains) > 0 THEN
+      v_domain := lower(split_part(v_text, '@', -1));
+      IF NOT EXISTS (
+        SELECT 1 FROM unnest(v_domains) allowed
+        WHERE v_domain = allowed OR v_domain LIKE '%.' || allowed
+      ) THEN
+        RETURN format('Please use an email address from %s', array_to_string(v_domains, ', '));
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_number IS NOT NULL AND v_rules ? 'min' AND v_number < (v_rules->>'min')::numeric THEN
+    RETURN format('Please enter a value of at least %s', v_rules->>'min');
+  END IF;
+
+  IF v_number IS NOT NULL AND v_rules ? 'max' AND v_number > (v_rules->>'max')::numeric THEN
+    RETURN format('Please enter a value no greater than %s', v_rules->>'max');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_form_response_answers(p_response_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_form_id uuid;
+  v_answers jsonb;
+  v_visible jsonb := '{}'::jsonb;
+  v_field form_fields%ROWTYPE;
+  v_answer jsonb;
+  v_logic jsonb;
+  v_matched boolean;
+  v_jump jsonb;
+  v_skip_until text;
+  v_error text;
+  v_missing text[] := '{}';
+  v_invalid text[] := '{}';
+BEGIN
+  SELECT form_id INTO v_form_id FROM form_responses WHERE id = p_response_id;
+
+  -- File answers are checked by the references stored for them
+  SELECT COALESCE(jsonb_object_agg(
+    field_id::text,
+    CASE WHEN field_data ? 'files' THEN field_data->'files' ELSE field_data->'raw_value' END
+  ), '{}'::jsonb)
+  INTO v_answers
+  FROM form_response_data
+  WHERE response_id = p_response_id
+  AND field_id IS NOT NULL;
+
+  <<questions>>
+  FOR v_field IN
+    SELECT * FROM form_fields
+    WHERE form_id = v_form_id
+    AND archived_at IS NULL
+    AND field_type <> 'page-break'
+    ORDER BY field_order
+  LOOP
+    IF v_skip_until IS NOT NULL THEN
+      CONTINUE WHEN v_skip_until <> v_field.id::text;
+      v_skip_until := NULL;
+    END IF;
+
+    -- Display rules only see answers to questions that were shown
+    v_logic := v_field.settings->'logic';
+    IF jsonb_typeof(v_logic->'conditions') = 'array' AND jsonb_array_length(v_logic->'conditions') > 0 THEN
+      IF v_logic->>'match' = 'any' THEN
+        SELECT bool_or(answer_matches(c->>'operator', v_visible->(c->>'fieldId'), c->>'value')) INTO v_matched
+        FROM jsonb_array_elements(v_logic->'conditions') c;
+      ELSE
+        SELECT bool_and(answer_matches(c->>'operator', v_visible->(c->>'fieldId'), c->>'value')) INTO v_matched
+        FROM jsonb_array_elements(v_logic->'conditions') c;
+      END IF;
+
+      CONTINUE WHEN v_matched IS DISTINCT FROM (COALESCE(v_logic->>'action', 'show') = 'show');
+    END IF;
+
+    v_answer := v_answers->(v_field.id::text);
+    v_visible := v_visible || jsonb_build_object(v_field.id::text, v_answer);
+
+    IF v_field.is_required AND NOT (
+      CASE WHEN v_field.field_type = 'matrix'
+        THEN NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(COALESCE(v_field.settings->'matrixRows', '[]'::jsonb)) matrix_row
+          WHERE NOT answer_is_answered(v_answer->matrix_row)
+        )
+        ELSE answer_is_answered(v_answer)
+      END
+    ) THEN
+      v_missing := v_missing || v_field.label;
+    END IF;
+
+    v_error := answer_error(v_field, v_answer);
+    IF v_error IS NOT NULL THEN
+      v_invalid := v_invalid || (v_field.label || ': ' || v_error);
+    END IF;
+
+    SELECT j INTO v_jump
+    FROM jsonb_array_elements(COALESCE(v_field.settings->'jumps', '[]'::jsonb)) j
+    WHERE answer_matches(j->>'operator', v_answer, j->>'value')
+    LIMIT 1;
+
+    IF v_jump IS NOT NULL THEN
+      EXIT questions WHEN v_jump->>'target' = 'end';
+      v_skip_until := v_jump->>'target';
+    END IF;
+  END LOOP;
+
+  IF cardinality(v_missing) > 0 THEN
+    RAISE EXCEPTION 'Please answer the required questions: %', array_to_string(v_missing, ', ')
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF cardinality(v_invalid) > 0 THEN
+    RAISE EXCEPTION 'Please correct the following answers: %', array_to_string(v_invalid, '; ')
+      USING ERRCODE = '23514';
+  END IF;
+
+  -- Hidden and skipped questions are not part of the response
+  DELETE FROM form_response_data
+  WHERE response_id = p_response_id
+  AND NOT v_visible ? field_id::text;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_form_response(p_response jsonb, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response_id uuid := (p_response->>'id')::uuid;
+  v_form_id uuid := (p_response->>'form_id')::uuid;
+  v_submitted_at timestamptz := COALESCE((p_response->>'submitted_at')::timestamptz, now());
+BEGIN
+  IF v_response_id IS NULL OR v_form_id IS NULL THEN
+    RAISE EXCEPTION 'A response needs an ID and a form' USING ERRCODE = '22023';
+  END IF;
+
+  -- The answers were stored together with the response
+  IF EXISTS (SELECT 1 FROM form_responses WHERE id = v_response_id) THEN
+    RETURN jsonb_build_object('status', 'exists');
+  END IF;
+
+  IF form_closed_reason(v_form_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'This form is not accepting responses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_submitted_at > now() + interval '5 minutes' OR v_submitted_at <= now() - interval '30 days' THEN
+    RAISE EXCEPTION 'This submission is too old to be accepted'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO form_responses (
+    id, form_id, form_version_id, response_source, locale, device_id, link_id, qr_code_id,
+    submitted_at, user_agent, sentiment, overall_rating, nps_score, is_complete, metadata
+  )
+  VALUES (
+    v_response_id,
+    v_form_id,
+    (p_response->>'form_version_id')::uuid,
+    COALESCE(p_response->>'response_source', 'web'),
+    p_response->>'locale',
+    p_response->>'device_id',
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    v_submitted_at,
+    current_setting('request.headers', true)::jsonb->>'user-agent',
+    p_response->>'sentiment',
+    (p_response->>'overall_rating')::numeric,
+    (p_response->>'nps_score')::integer,
+    true,
+    COALESCE(p_response->'metadata', '{}'::jsonb)
+  );
+
+  -- Answers to questions that are not part of the form are dropped
+  INSERT INTO form_response_data (response_id, field_id, field_value, field_data)
+  SELECT
+    v_response_id,
+    ff.id,
+    a.value->>'field_value',
+    COALESCE(a.value->'field_data', '{}'::jsonb)
+  FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) a
+  JOIN form_fields ff
+    ON ff.id::text = a.value->>'field_id'
+    AND ff.form_id = v_form_id
+    AND ff.archived_at IS NULL
+    AND ff.field_type <> 'page-break';
+
+  -- Raises, undoing the whole submission, when an answer breaks the form's rules
+  PERFORM check_form_response_answers(v_response_id);
+
+  RETURN jsonb_build_object('status', 'stored');
+END;
+$$;
+
+-- Only reached through submit_form_response
+REVOKE EXECUTE ON FUNCTION check_form_response_answers(uuid) FROM PUBLIC, anon, authenticated;
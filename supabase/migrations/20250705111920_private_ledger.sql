@@ -0,0 +1,30 @@
+/*
+  # Private form versions
+
+  1. Functions
+    - `latest_form_version_id(form_id)` - the ID of an active form's current version, which is all
+      respondents need to record the version they answered
+
+  2. Security
+    - Version snapshots are only readable by the form's owner; the public read policy is removed
+*/
+
+DROP POLICY IF EXISTS "Anyone can view versions of active forms" ON form_versions;
+
+CREATE OR REPLACE FUNCTION latest_form_version_id(p_form_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT fv.id
+  FROM form_versions fv
+  JOIN forms f ON f.id = fv.form_id
+  WHERE fv.form_id = p_form_id
+  AND (f.is_active = true OR f.user_id = auth.uid())
+  ORDER BY fv.version_number DESC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION latest_form_version_id(uuid) TO anon, authenticated;
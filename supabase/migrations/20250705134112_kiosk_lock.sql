@@ -0,0 +1,126 @@
+/*
+  # Private kiosk exit PINs
+
+  1. New Tables
+    - `form_kiosk_pins` - bcrypt hash of a form's kiosk exit PIN, with a lockout after repeated
+      wrong entries
+
+  2. Changes to `forms.settings.kiosk`
+    - `exitPin` is no longer stored. A PIN the owner enters is sent once as `exitPin`, hashed
+      into `form_kiosk_pins` by a trigger and removed from the settings; an empty `exitPin`
+      removes the PIN
+    - `hasExitPin` tells the kiosk whether to show the exit control; the trigger keeps it in step
+      with `form_kiosk_pins`
+
+  3. Functions
+    - `check_kiosk_exit_pin(form_id, pin)` - whether the PIN is right; five wrong entries lock
+      the PIN for five minutes
+
+  4. Security
+    - `form_kiosk_pins` has RLS enabled and no policies; it is only reached through the functions above
+
+  5. Notes
+    - Existing PINs are moved into `form_kiosk_pins`
+    - A duplicated form keeps the exit PIN of the form it was copied from
+*/
+
+CREATE TABLE IF NOT EXISTS form_kiosk_pins (
+  -- Deferred, so the PIN of a form being inserted can be stored by its BEFORE trigger
+  form_id uuid PRIMARY KEY REFERENCES forms(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  pin_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE form_kiosk_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION store_kiosk_exit_pin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin text := NEW.settings->'kiosk'->>'exitPin';
+BEGIN
+  IF v_pin = '' THEN
+    DELETE FROM form_kiosk_pins WHERE form_id = NEW.id;
+  ELSIF v_pin IS NOT NULL THEN
+    IF v_pin !~ '^[0-9]{4,8}$' THEN
+      RAISE EXCEPTION 'The exit PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO form_kiosk_pins (form_id, pin_hash)
+    VALUES (NEW.id, extensions.crypt(v_pin, extensions.gen_salt('bf')))
+    ON CONFLICT (form_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, failed_attempts = 0, locked_until = NULL, updated_at = now();
+  ELSIF TG_OP = 'INSERT' AND NEW.metadata ? 'duplicated_from' THEN
+    INSERT INTO form_kiosk_pins (form_id, pin_hash)
+    SELECT NEW.id, pin_hash
+    FROM form_kiosk_pins
+    WHERE form_id = (NEW.metadata->>'duplicated_from')::uuid;
+  END IF;
+
+  IF NEW.settings ? 'kiosk' THEN
+    NEW.settings := jsonb_set(
+      NEW.settings #- '{kiosk,exitPin}',
+      '{kiosk,hasExitPin}',
+      to_jsonb(EXISTS (SELECT 1 FROM form_kiosk_pins WHERE form_id = NEW.id))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS store_kiosk_exit_pin_trigger ON forms;
+
+CREATE TRIGGER store_kiosk_exit_pin_trigger
+  BEFORE INSERT OR UPDATE OF settings ON forms
+  FOR EACH ROW
+  EXECUTE FUNCTION store_kiosk_exit_pin();
+
+CREATE OR REPLACE FUNCTION check_kiosk_exit_pin(p_form_id uuid, p_pin text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin form_kiosk_pins%ROWTYPE;
+BEGIN
+  SELECT * INTO v_pin
+  FROM form_kiosk_pins
+  WHERE form_id = p_form_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_pin.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many wrong PINs. Please try again in a few minutes.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_pin.pin_hash = extensions.crypt(COALESCE(p_pin, ''), v_pin.pin_hash) THEN
+    UPDATE form_kiosk_pins SET failed_attempts = 0, locked_until = NULL WHERE form_id = p_form_id;
+    RETURN true;
+  END IF;
+
+  UPDATE form_kiosk_pins
+  SET
+    failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+    locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' ELSE locked_until END
+  WHERE form_id = p_form_id;
+
+  RETURN false;
+END;
+$$;
+
+-- Moves existing PINs out of the public settings; the trigger hashes them
+UPDATE forms
+SET settings = settings
+WHERE settings ? 'kiosk';
+
+GRANT EXECUTE ON FUNCTION check_kiosk_exit_pin(uuid, text) TO anon, authenticated;
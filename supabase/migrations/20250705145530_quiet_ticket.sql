@@ -0,0 +1,209 @@
+/*
+  # Server-issued challenges only
+
+  1. Changes to `submission_challenges`
+    - `ip_hash` - the requesting network, hashed as in `form_responses`
+
+  2. Functions
+    - `request_ip_hash(form_id)` - hash of the calling client's IP address, salted with the form ID
+    - `issue_submission_challenge(form_id)` refuses a network that requested 200 challenges for the
+      form within the last hour, and purges challenges past the 30-day replay window or used more
+      than a day ago
+    - `screen_form_response()` quarantines a complete response without a valid challenge of the
+      form (`challenge_missing`) and measures time-to-submit only from the challenge; the elapsed
+      time reported by the browser is no longer read
+
+  3. Notes
+    - A challenge used more than a day ago is purged, so replaying it counts as missing
+*/
+
+ALTER TABLE submission_challenges ADD COLUMN IF NOT EXISTS ip_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_submission_challenges_ip_hash ON submission_challenges(form_id, ip_hash, created_at);
+
+-- The first address of the forwarding chain is the client; null when it is not known
+CREATE OR REPLACE FUNCTION request_ip_hash(p_form_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_headers jsonb := COALESCE(current_setting('request.headers', true)::jsonb, '{}'::jsonb);
+  v_ip text;
+BEGIN
+  v_ip := trim(split_part(COALESCE(
+    v_headers->>'cf-connecting-ip',
+    v_headers->>'x-forwarded-for',
+    v_headers->>'x-real-ip',
+    ''
+  ), ',', 1));
+
+  RETURN CASE WHEN v_ip <> '' THEN md5(p_form_id::text || ':' || v_ip) END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_submission_challenge(p_form_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_protection jsonb;
+  v_ip_hash text := request_ip_hash(p_form_id);
+  v_challenge submission_challenges%ROWTYPE;
+BEGIN
+  SELECT COALESCE(settings->'protection', '{}'::jsonb) INTO v_protection
+  FROM forms
+  WHERE id = p_form_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = '42501';
+  END IF;
+
+  -- Unused challenges are only needed as long as an offline submission may be replayed
+  DELETE FROM submission_challenges
+  WHERE created_at < now() - interval '30 days'
+  OR used_at < now() - interval '1 day';
+
+  IF v_ip_hash IS NOT NULL AND (
+    SELECT count(*) FROM submission_challenges
+    WHERE form_id = p_form_id
+    AND ip_hash = v_ip_hash
+    AND created_at > now() - interval '1 hour'
+  ) >= 200 THEN
+    RAISE EXCEPTION 'Too many requests from your network. Please try again later.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO submission_challenges (form_id, difficulty, ip_hash)
+  VALUES (
+    p_form_id,
+    CASE WHEN COALESCE((v_protection->>'proofOfWork')::boolean, false)
+      THEN LEAST(GREATEST(COALESCE((v_protection->>'powDifficulty')::integer, 14), 1), 24)
+      ELSE 0
+    END,
+    v_ip_hash
+  )
+  RETURNING * INTO v_challenge;
+
+  RETURN jsonb_build_object(
+    'id', v_challenge.id,
+    'difficulty', v_challenge.difficulty,
+    'issued_at', v_challenge.created_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION screen_form_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_proof jsonb := COALESCE(NEW.metadata->'protection', '{}'::jsonb);
+  v_challenge submission_challenges%ROWTYPE;
+  v_elapsed numeric;
+  v_ip_count integer := 0;
+  v_form_count integer;
+  v_reasons text[] := '{}';
+  v_min_seconds integer;
+  v_max_per_ip integer;
+  v_max_per_form integer;
+BEGIN
+  SELECT COALESCE(settings->'protection', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = NEW.form_id;
+
+  v_min_seconds := COALESCE((v_settings->>'minSecondsToSubmit')::integer, 3);
+  v_max_per_ip := COALESCE((v_settings->>'maxPerIpPerHour')::integer, 30);
+  v_max_per_form := COALESCE((v_settings->>'maxPerFormPerMinute')::integer, 60);
+
+  NEW.ip_hash := request_ip_hash(NEW.form_id);
+
+  IF NEW.ip_hash IS NOT NULL THEN
+    SELECT count(*) INTO v_ip_count
+    FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND ip_hash = NEW.ip_hash
+    AND received_at > now() - interval '1 hour';
+
+    -- Far beyond the limit even quarantining would let one client fill the table
+    IF v_max_per_ip > 0 AND v_ip_count >= v_max_per_ip * 5 THEN
+      RAISE EXCEPTION 'Too many submissions from your network. Please try again later.'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Partial responses are screened when they are submitted
+  IF NOT NEW.is_complete THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE((v_settings->>'honeypot')::boolean, true) AND COALESCE(v_proof->>'honeypot', '') <> '' THEN
+    v_reasons := v_reasons || 'honeypot';
+  END IF;
+
+  IF v_proof->>'challenge_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    SELECT * INTO v_challenge
+    FROM submission_challenges
+    WHERE id = (v_proof->>'challenge_id')::uuid
+    AND form_id = NEW.form_id
+    FOR UPDATE;
+  END IF;
+
+  -- Time-to-submit is only measured from a challenge the server issued
+  IF v_challenge.id IS NULL THEN
+    v_reasons := v_reasons || 'challenge_missing';
+  ELSE
+    IF v_challenge.used_at IS NOT NULL THEN
+      v_reasons := v_reasons || 'challenge_reused';
+    END IF;
+
+    UPDATE submission_challenges SET used_at = now() WHERE id = v_challenge.id;
+    -- A post-dated submitted_at must not make a fast submission look slow
+    v_elapsed := extract(epoch FROM LEAST(NEW.submitted_at, now()) - v_challenge.created_at);
+  END IF;
+
+  IF v_min_seconds > 0 AND v_elapsed < v_min_seconds THEN
+    v_reasons := v_reasons || 'too_fast';
+  END IF;
+
+  IF COALESCE((v_settings->>'proofOfWork')::boolean, false) AND (
+    v_challenge.id IS NULL
+    OR v_challenge.difficulty = 0
+    OR NOT submission_proof_is_valid(v_challenge.id, v_challenge.difficulty, v_proof->>'nonce')
+  ) THEN
+    v_reasons := v_reasons || 'proof_of_work';
+  END IF;
+
+  IF v_max_per_ip > 0 AND v_ip_count >= v_max_per_ip THEN
+    v_reasons := v_reasons || 'ip_rate_limit';
+  END IF;
+
+  IF v_max_per_form > 0 THEN
+    SELECT count(*) INTO v_form_count
+    FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND received_at > now() - interval '1 minute';
+
+    IF v_form_count >= v_max_per_form THEN
+      v_reasons := v_reasons || 'form_rate_limit';
+    END IF;
+  END IF;
+
+  IF array_length(v_reasons, 1) > 0 THEN
+    NEW.quarantined := true;
+    NEW.quarantine_reasons := v_reasons;
+  ELSE
+    -- Only the owner's own release may clear the flag
+    NEW.quarantined := false;
+    NEW.quarantine_reasons := '{}';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
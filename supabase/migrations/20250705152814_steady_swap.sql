@@ -0,0 +1,282 @@
+/*
+  # Count real duplicates and replace edits after screening
+
+  1. Functions
+    - `check_respondent(form_id, token, source, response_id)` no longer counts anything; it runs
+      whenever the form is opened
+    - `enforce_one_response_per_respondent()` counts a second response in `duplicate_attempts`
+      and skips it instead of raising, so the count is not rolled back with the insert. With
+      editing allowed it only marks the new response with `edited_response_id`
+    - `submit_form_response(response, answers)` returns `duplicate` for a skipped response
+    - `apply_response_edit()` - trigger that deletes the respondent's earlier responses once an
+      edit is stored unquarantined, or once the owner releases it from quarantine
+
+  2. Notes
+    - `apply_response_edit_trigger` fires before `increment_response_count_trigger`, so an edit
+      to a full form does not briefly count twice against `max_responses`
+    - A quarantined edit leaves the earlier response in place
+*/
+
+CREATE OR REPLACE FUNCTION check_respondent(
+  p_form_id uuid,
+  p_token text,
+  p_source text DEFAULT 'web',
+  p_response_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_key text;
+  v_previous form_responses%ROWTYPE;
+BEGIN
+  SELECT COALESCE(settings->'responses', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = p_form_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT COALESCE((v_settings->>'onePerRespondent')::boolean, false)
+    OR (p_source = 'kiosk' AND COALESCE(v_settings->>'respondentIdentity', 'browser') = 'browser') THEN
+    RETURN jsonb_build_object('status', 'open');
+  END IF;
+
+  v_key := resolve_respondent_key(p_form_id, p_token);
+  IF v_key IS NULL THEN
+    RETURN jsonb_build_object('status', 'unverified');
+  END IF;
+
+  -- A replayed submission must not count as its own duplicate
+  SELECT * INTO v_previous
+  FROM form_responses
+  WHERE form_id = p_form_id
+  AND respondent_key = v_key
+  AND is_complete
+  AND id IS DISTINCT FROM p_response_id
+  ORDER BY submitted_at DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NULL THEN
+    RETURN jsonb_build_object('status', 'new');
+  END IF;
+
+  IF COALESCE((v_settings->>'allowEditing')::boolean, false) THEN
+    RETURN jsonb_build_object(
+      'status', 'editable',
+      'response_id', v_previous.id,
+      'submitted_at', v_previous.submitted_at,
+      -- Files cannot be handed back to the browser, so those questions are answered again
+      'answers', COALESCE((
+        SELECT jsonb_object_agg(frd.field_id, frd.field_data->'raw_value')
+        FROM form_response_data frd
+        WHERE frd.response_id = v_previous.id
+        AND frd.field_data ? 'raw_value'
+      ), '{}'::jsonb)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'responded',
+    'submitted_at', v_previous.submitted_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_one_response_per_respondent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_token text := NEW.metadata->>'respondent_token';
+  v_previous form_responses%ROWTYPE;
+BEGIN
+  -- The token is a credential; only the derived key is kept
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) - 'respondent_token';
+  NEW.respondent_key := NULL;
+
+  -- Partial responses are checked when they are submitted
+  IF NOT NEW.is_complete THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(settings->'responses', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = NEW.form_id;
+
+  IF NOT COALESCE((v_settings->>'onePerRespondent')::boolean, false)
+    OR (NEW.response_source = 'kiosk' AND COALESCE(v_settings->>'respondentIdentity', 'browser') = 'browser') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.respondent_key := resolve_respondent_key(NEW.form_id, v_token);
+  IF NEW.respondent_key IS NULL THEN
+    RAISE EXCEPTION 'Please verify who you are before responding to this form'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Serializes simultaneous submissions of the same respondent
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.form_id::text || ':' || NEW.respondent_key));
+
+  SELECT * INTO v_previous
+  FROM form_responses
+  WHERE form_id = NEW.form_id
+  AND respondent_key = NEW.respondent_key
+  AND is_complete
+  AND id <> NEW.id
+  ORDER BY submitted_at DESC
+  LIMIT 1;
+
+  IF v_previous.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Skipped rather than raised, so the count survives; submit_form_response reports it
+  IF NOT COALESCE((v_settings->>'allowEditing')::boolean, false) THEN
+    UPDATE forms
+    SET duplicate_attempts = duplicate_attempts + 1
+    WHERE id = NEW.form_id;
+
+    RETURN NULL;
+  END IF;
+
+  -- The earlier response is replaced by apply_response_edit once this one passes screening
+  NEW.metadata := NEW.metadata || jsonb_build_object(
+    'edited_response_id', v_previous.id,
+    'first_submitted_at', COALESCE(v_previous.metadata->>'first_submitted_at', v_previous.submitted_at::text)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_form_response(p_response jsonb, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response_id uuid := (p_response->>'id')::uuid;
+  v_form_id uuid := (p_response->>'form_id')::uuid;
+  v_submitted_at timestamptz := COALESCE((p_response->>'submitted_at')::timestamptz, now());
+BEGIN
+  IF v_response_id IS NULL OR v_form_id IS NULL THEN
+    RAISE EXCEPTION 'A response needs an ID and a form' USING ERRCODE = '22023';
+  END IF;
+
+  -- The answers were stored together with the response
+  IF EXISTS (SELECT 1 FROM form_responses WHERE id = v_response_id) THEN
+    RETURN jsonb_build_object('status', 'exists');
+  END IF;
+
+  IF form_closed_reason(v_form_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'This form is not accepting responses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_submitted_at > now() + interval '5 minutes' OR v_submitted_at <= now() - interval '30 days' THEN
+    RAISE EXCEPTION 'This submission is too old to be accepted'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO form_responses (
+    id, form_id, form_version_id, response_source, locale, device_id, link_id, qr_code_id,
+    submitted_at, user_agent, sentiment, overall_rating, nps_score, is_complete, metadata
+  )
+  VALUES (
+    v_response_id,
+    v_form_id,
+    (p_response->>'form_version_id')::uuid,
+    COALESCE(p_response->>'response_source', 'web'),
+    p_response->>'locale',
+    p_response->>'device_id',
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    v_submitted_at,
+    current_setting('request.headers', true)::jsonb->>'user-agent',
+    p_response->>'sentiment',
+    (p_response->>'overall_rating')::numeric,
+    (p_response->>'nps_score')::integer,
+    true,
+    COALESCE(p_response->'metadata', '{}'::jsonb)
+  );
+
+  -- enforce_one_response_per_respondent skips a respondent's second response
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'duplicate');
+  END IF;
+
+  -- Answers to questions that are not part of the form are dropped
+  INSERT INTO form_response_data (response_id, field_id, field_value, field_data)
+  SELECT
+    v_response_id,
+    ff.id,
+    a.value->>'field_value',
+    COALESCE(a.value->'field_data', '{}'::jsonb)
+  FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) a
+  JOIN form_fields ff
+    ON ff.id::text = a.value->>'field_id'
+    AND ff.form_id = v_form_id
+    AND ff.archived_at IS NULL
+    AND ff.field_type <> 'page-break';
+
+  -- Raises, undoing the whole submission, when an answer breaks the form's rules
+  PERFORM check_form_response_answers(v_response_id);
+
+  RETURN jsonb_build_object('status', 'stored');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_response_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replaced integer;
+BEGIN
+  IF NEW.quarantined
+    OR NOT NEW.is_complete
+    OR NEW.respondent_key IS NULL
+    OR NOT NEW.metadata ? 'edited_response_id'
+    OR (TG_OP = 'UPDATE' AND NOT OLD.quarantined) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Every earlier response goes, including edits that are still quarantined
+  WITH replaced AS (
+    DELETE FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND respondent_key = NEW.respondent_key
+    AND is_complete
+    AND id <> NEW.id
+    RETURNING quarantined
+  )
+  SELECT count(*) FILTER (WHERE NOT quarantined) INTO v_replaced
+  FROM replaced;
+
+  IF v_replaced > 0 THEN
+    UPDATE forms
+    SET response_count = GREATEST(response_count - v_replaced, 0)
+    WHERE id = NEW.form_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_response_edit_trigger ON form_responses;
+
+CREATE TRIGGER apply_response_edit_trigger
+  AFTER INSERT OR UPDATE OF quarantined ON form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_response_edit();
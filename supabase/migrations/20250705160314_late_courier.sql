@@ -0,0 +1,129 @@
+/*
+  # Screen offline replays
+
+  1. Functions
+    - `screen_form_response()` skips the time-to-submit check for a response submitted before
+      its challenge was issued. The offline queue fetches a challenge when it replays a
+      submission made without a connection, so the respondent's time on the form was spent
+      before that challenge existed
+
+  2. Notes
+    - The challenge itself, the proof-of-work and the rate limits still apply to replays
+*/
+
+CREATE OR REPLACE FUNCTION screen_form_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings jsonb;
+  v_proof jsonb := COALESCE(NEW.metadata->'protection', '{}'::jsonb);
+  v_challenge submission_challenges%ROWTYPE;
+  v_elapsed numeric;
+  v_ip_count integer := 0;
+  v_form_count integer;
+  v_reasons text[] := '{}';
+  v_min_seconds integer;
+  v_max_per_ip integer;
+  v_max_per_form integer;
+BEGIN
+  SELECT COALESCE(settings->'protection', '{}'::jsonb) INTO v_settings
+  FROM forms
+  WHERE id = NEW.form_id;
+
+  v_min_seconds := COALESCE((v_settings->>'minSecondsToSubmit')::integer, 3);
+  v_max_per_ip := COALESCE((v_settings->>'maxPerIpPerHour')::integer, 30);
+  v_max_per_form := COALESCE((v_settings->>'maxPerFormPerMinute')::integer, 60);
+
+  NEW.ip_hash := request_ip_hash(NEW.form_id);
+
+  IF NEW.ip_hash IS NOT NULL THEN
+    SELECT count(*) INTO v_ip_count
+    FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND ip_hash = NEW.ip_hash
+    AND received_at > now() - interval '1 hour';
+
+    -- Far beyond the limit even quarantining would let one client fill the table
+    IF v_max_per_ip > 0 AND v_ip_count >= v_max_per_ip * 5 THEN
+      RAISE EXCEPTION 'Too many submissions from your network. Please try again later.'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Partial responses are screened when they are submitted
+  IF NOT NEW.is_complete THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE((v_settings->>'honeypot')::boolean, true) AND COALESCE(v_proof->>'honeypot', '') <> '' THEN
+    v_reasons := v_reasons || 'honeypot';
+  END IF;
+
+  IF v_proof->>'challenge_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    SELECT * INTO v_challenge
+    FROM submission_challenges
+    WHERE id = (v_proof->>'challenge_id')::uuid
+    AND form_id = NEW.form_id
+    FOR UPDATE;
+  END IF;
+
+  -- Time-to-submit is only measured from a challenge the server issued
+  IF v_challenge.id IS NULL THEN
+    v_reasons := v_reasons || 'challenge_missing';
+  ELSE
+    IF v_challenge.used_at IS NOT NULL THEN
+      v_reasons := v_reasons || 'challenge_reused';
+    END IF;
+
+    UPDATE submission_challenges SET used_at = now() WHERE id = v_challenge.id;
+
+    -- A response answered before its challenge existed was stored offline and replayed; the
+    -- time spent on it cannot be measured, so it is left to the other checks
+    IF NEW.submitted_at >= v_challenge.created_at THEN
+      -- A post-dated submitted_at must not make a fast submission look slow
+      v_elapsed := extract(epoch FROM LEAST(NEW.submitted_at, now()) - v_challenge.created_at);
+    END IF;
+  END IF;
+
+  IF v_min_seconds > 0 AND v_elapsed < v_min_seconds THEN
+    v_reasons := v_reasons || 'too_fast';
+  END IF;
+
+  IF COALESCE((v_settings->>'proofOfWork')::boolean, false) AND (
+    v_challenge.id IS NULL
+    OR v_challenge.difficulty = 0
+    OR NOT submission_proof_is_valid(v_challenge.id, v_challenge.difficulty, v_proof->>'nonce')
+  ) THEN
+    v_reasons := v_reasons || 'proof_of_work';
+  END IF;
+
+  IF v_max_per_ip > 0 AND v_ip_count >= v_max_per_ip THEN
+    v_reasons := v_reasons || 'ip_rate_limit';
+  END IF;
+
+  IF v_max_per_form > 0 THEN
+    SELECT count(*) INTO v_form_count
+    FROM form_responses
+    WHERE form_id = NEW.form_id
+    AND received_at > now() - interval '1 minute';
+
+    IF v_form_count >= v_max_per_form THEN
+      v_reasons := v_reasons || 'form_rate_limit';
+    END IF;
+  END IF;
+
+  IF array_length(v_reasons, 1) > 0 THEN
+    NEW.quarantined := true;
+    NEW.quarantine_reasons := v_reasons;
+  ELSE
+    -- Only the owner's own release may clear the flag
+    NEW.quarantined := false;
+    NEW.quarantine_reasons := '{}';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,31 @@
+/*
+  # Trusted client addresses
+
+  1. Functions
+    - `request_ip_hash(form_id)` no longer reads the first `x-forwarded-for` entry, which the
+      client can set to anything. It uses `cf-connecting-ip`, then `x-real-ip`, then the last
+      `x-forwarded-for` entry, the one the platform's proxy appended
+*/
+
+-- Null when the client's address is not known
+CREATE OR REPLACE FUNCTION request_ip_hash(p_form_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_headers jsonb := COALESCE(current_setting('request.headers', true)::jsonb, '{}'::jsonb);
+  v_ip text;
+BEGIN
+  v_ip := trim(COALESCE(
+    v_headers->>'cf-connecting-ip',
+    v_headers->>'x-real-ip',
+    -- Earlier entries come from the client; the proxy appends the address it saw
+    regexp_replace(v_headers->>'x-forwarded-for', '^.*,', ''),
+    ''
+  ));
+
+  RETURN CASE WHEN v_ip <> '' THEN md5(p_form_id::text || ':' || v_ip) END;
+END;
+$$;
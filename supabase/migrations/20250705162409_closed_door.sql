@@ -0,0 +1,206 @@
+/*
+  # Forms that only open through their links
+
+  1. Changes to `forms.settings.responses`
+    - `linksOnly` - the form can only be read and answered through one of its active, unexpired
+      share links or active QR codes; `/form/<id>` alone no longer opens it
+
+  2. Functions
+    - `form_is_links_only(form_id)` - whether the form has `linksOnly` set
+    - `form_access_granted(form_id, link_id, qr_code_id, at)` - whether the link or QR code
+      belongs to the form and was usable at the given time
+    - `get_shared_form(form_id, link_id, qr_code_id)` - the form with its fields and themes, in the
+      shape the respondent page selects, for a visitor who came through a link or QR code
+    - `submit_form_response(response, answers)` rejects a response to a links-only form that
+      does not carry a usable `link_id` or `qr_code_id`
+
+  3. Security
+    - "Anyone can view active forms" no longer covers links-only forms. The field and theme
+      policies check `forms` under the same policy, so they follow
+*/
+
+CREATE OR REPLACE FUNCTION form_is_links_only(p_form_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT (settings->'responses'->>'linksOnly')::boolean
+    FROM forms
+    WHERE id = p_form_id
+  ), false);
+$$;
+
+-- A private link's ID is only handed out by open_form_link once its key matched
+CREATE OR REPLACE FUNCTION form_access_granted(
+  p_form_id uuid,
+  p_link_id uuid,
+  p_qr_code_id uuid,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM form_links
+    WHERE id = p_link_id
+    AND form_id = p_form_id
+    AND link_type IN ('public', 'private')
+    AND is_active
+    AND (expires_at IS NULL OR expires_at > p_at)
+  ) OR EXISTS (
+    SELECT 1 FROM form_qr_codes
+    WHERE id = p_qr_code_id
+    AND form_id = p_form_id
+    AND is_active
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_shared_form(p_form_id uuid, p_link_id uuid, p_qr_code_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', f.id,
+    'title', f.title,
+    'description', f.description,
+    'is_active', f.is_active,
+    'settings', f.settings,
+    'created_at', f.created_at,
+    'response_count', f.response_count,
+    'opens_at', f.opens_at,
+    'closes_at', f.closes_at,
+    'max_responses', f.max_responses,
+    'closed_message', f.closed_message,
+    'form_fields', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ff) ORDER BY ff.field_order)
+      FROM form_fields ff
+      WHERE ff.form_id = f.id
+      AND ff.archived_at IS NULL
+    ), '[]'::jsonb),
+    'form_themes', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at)
+      FROM form_themes t
+      WHERE t.form_id = f.id
+    ), '[]'::jsonb)
+  )
+  FROM forms f
+  WHERE f.id = p_form_id
+  AND f.is_active = true
+  AND (
+    NOT COALESCE((f.settings->'responses'->>'linksOnly')::boolean, false)
+    OR form_access_granted(f.id, p_link_id, p_qr_code_id)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view active forms" ON forms;
+
+CREATE POLICY "Anyone can view active forms"
+  ON forms
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    is_active = true
+    AND NOT COALESCE((settings->'responses'->>'linksOnly')::boolean, false)
+  );
+
+CREATE OR REPLACE FUNCTION submit_form_response(p_response jsonb, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response_id uuid := (p_response->>'id')::uuid;
+  v_form_id uuid := (p_response->>'form_id')::uuid;
+  v_submitted_at timestamptz := COALESCE((p_response->>'submitted_at')::timestamptz, now());
+BEGIN
+  IF v_response_id IS NULL OR v_form_id IS NULL THEN
+    RAISE EXCEPTION 'A response needs an ID and a form' USING ERRCODE = '22023';
+  END IF;
+
+  -- The answers were stored together with the response
+  IF EXISTS (SELECT 1 FROM form_responses WHERE id = v_response_id) THEN
+    RETURN jsonb_build_object('status', 'exists');
+  END IF;
+
+  IF form_closed_reason(v_form_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'This form is not accepting responses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_submitted_at > now() + interval '5 minutes' OR v_submitted_at <= now() - interval '30 days' THEN
+    RAISE EXCEPTION 'This submission is too old to be accepted'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF form_is_links_only(v_form_id) AND NOT form_access_granted(
+    v_form_id,
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    LEAST(v_submitted_at, now())
+  ) THEN
+    RAISE EXCEPTION 'This form only accepts responses through its links'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO form_responses (
+    id, form_id, form_version_id, response_source, locale, device_id, link_id, qr_code_id,
+    submitted_at, user_agent, sentiment, overall_rating, nps_score, is_complete, metadata
+  )
+  VALUES (
+    v_response_id,
+    v_form_id,
+    (p_response->>'form_version_id')::uuid,
+    COALESCE(p_response->>'response_source', 'web'),
+    p_response->>'locale',
+    p_response->>'device_id',
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    v_submitted_at,
+    current_setting('request.headers', true)::jsonb->>'user-agent',
+    p_response->>'sentiment',
+    (p_response->>'overall_rating')::numeric,
+    (p_response->>'nps_score')::integer,
+    true,
+    COALESCE(p_response->'metadata', '{}'::jsonb)
+  );
+
+  -- enforce_one_response_per_respondent skips a respondent's second response
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'duplicate');
+  END IF;
+
+  -- Answers to questions that are not part of the form are dropped
+  INSERT INTO form_response_data (response_id, field_id, field_value, field_data)
+  SELECT
+    v_response_id,
+    ff.id,
+    a.value->>'field_value',
+    COALESCE(a.value->'field_data', '{}'::jsonb)
+  FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) a
+  JOIN form_fields ff
+    ON ff.id::text = a.value->>'field_id'
+    AND ff.form_id = v_form_id
+    AND ff.archived_at IS NULL
+    AND ff.field_type <> 'page-break';
+
+  -- Raises, undoing the whole submission, when an answer breaks the form's rules
+  PERFORM check_form_response_answers(v_response_id);
+
+  RETURN jsonb_build_object('status', 'stored');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION form_is_links_only(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION form_access_granted(uuid, uuid, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_shared_form(uuid, uuid, uuid) TO anon, authenticated;
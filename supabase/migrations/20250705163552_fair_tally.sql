@@ -0,0 +1,63 @@
+/*
+  # Count deleted responses
+
+  1. Functions
+    - `decrement_form_response_count()` - trigger that takes a deleted complete, unquarantined
+      response off `forms.response_count`, so deleting responses reopens a form that reached
+      `max_responses`
+    - `apply_response_edit()` leaves the count to that trigger
+
+  2. Notes
+    - Deleting a response in the app no longer updates the count itself
+*/
+
+CREATE OR REPLACE FUNCTION decrement_form_response_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_complete AND NOT OLD.quarantined THEN
+    UPDATE forms
+    SET response_count = GREATEST(response_count - 1, 0)
+    WHERE id = OLD.form_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS decrement_response_count_trigger ON form_responses;
+
+CREATE TRIGGER decrement_response_count_trigger
+  AFTER DELETE ON form_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION decrement_form_response_count();
+
+CREATE OR REPLACE FUNCTION apply_response_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quarantined
+    OR NOT NEW.is_complete
+    OR NEW.respondent_key IS NULL
+    OR NOT NEW.metadata ? 'edited_response_id'
+    OR (TG_OP = 'UPDATE' AND NOT OLD.quarantined) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Every earlier response goes, including edits that are still quarantined; the delete
+  -- trigger takes them off the count
+  DELETE FROM form_responses
+  WHERE form_id = NEW.form_id
+  AND respondent_key = NEW.respondent_key
+  AND is_complete
+  AND id <> NEW.id;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,89 @@
+/*
+  # Clean up attachments of replaced responses
+
+  1. New Tables
+    - `replaced_uploads` - storage paths of attachments whose response was replaced by an edit,
+      waiting for the form owner's app to delete them
+
+  2. Functions
+    - `apply_response_edit()` queues the attachments of the responses it deletes
+
+  3. Security
+    - Owners can read and delete the queued paths of their own forms
+*/
+
+CREATE TABLE IF NOT EXISTS replaced_uploads (
+  path text PRIMARY KEY,
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_replaced_uploads_form_id ON replaced_uploads(form_id);
+
+ALTER TABLE replaced_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view replaced uploads of their own forms"
+  ON replaced_uploads
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = replaced_uploads.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete replaced uploads of their own forms"
+  ON replaced_uploads
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = replaced_uploads.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION apply_response_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quarantined
+    OR NOT NEW.is_complete
+    OR NEW.respondent_key IS NULL
+    OR NOT NEW.metadata ? 'edited_response_id'
+    OR (TG_OP = 'UPDATE' AND NOT OLD.quarantined) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Storage cannot be cleared from SQL; the owner's app removes these files
+  INSERT INTO replaced_uploads (form_id, path)
+  SELECT NEW.form_id, file->>'path'
+  FROM form_responses fr
+  JOIN form_response_data frd ON frd.response_id = fr.id
+  CROSS JOIN jsonb_array_elements(
+    CASE WHEN jsonb_typeof(frd.field_data->'files') = 'array' THEN frd.field_data->'files' ELSE '[]'::jsonb END
+  ) file
+  WHERE fr.form_id = NEW.form_id
+  AND fr.respondent_key = NEW.respondent_key
+  AND fr.is_complete
+  AND fr.id <> NEW.id
+  AND file->>'path' IS NOT NULL
+  ON CONFLICT (path) DO NOTHING;
+
+  -- Every earlier response goes, including edits that are still quarantined; the delete
+  -- trigger takes them off the count
+  DELETE FROM form_responses
+  WHERE form_id = NEW.form_id
+  AND respondent_key = NEW.respondent_key
+  AND is_complete
+  AND id <> NEW.id;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,66 @@
+/*
+  # Respondent reads for signed-in visitors
+
+  1. Security
+    - "Anyone can view active forms" now only applies to `anon`. The column grant that limits
+      what respondents read only covers `anon`, so signed-in users could read every column of
+      other owners' active forms
+    - Signed-in visitors read other owners' forms through `get_shared_form`, which only returns
+      the respondent columns
+
+  2. Functions
+    - `get_shared_form(form_id, link_id, qr_code_id)` also returns the caller's own links-only
+      form, for previewing it without a link
+*/
+
+DROP POLICY IF EXISTS "Anyone can view active forms" ON forms;
+
+CREATE POLICY "Anyone can view active forms"
+  ON forms
+  FOR SELECT
+  TO anon
+  USING (
+    is_active = true
+    AND NOT COALESCE((settings->'responses'->>'linksOnly')::boolean, false)
+  );
+
+CREATE OR REPLACE FUNCTION get_shared_form(p_form_id uuid, p_link_id uuid, p_qr_code_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', f.id,
+    'title', f.title,
+    'description', f.description,
+    'is_active', f.is_active,
+    'settings', f.settings,
+    'created_at', f.created_at,
+    'response_count', f.response_count,
+    'opens_at', f.opens_at,
+    'closes_at', f.closes_at,
+    'max_responses', f.max_responses,
+    'closed_message', f.closed_message,
+    'form_fields', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ff) ORDER BY ff.field_order)
+      FROM form_fields ff
+      WHERE ff.form_id = f.id
+      AND ff.archived_at IS NULL
+    ), '[]'::jsonb),
+    'form_themes', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at)
+      FROM form_themes t
+      WHERE t.form_id = f.id
+    ), '[]'::jsonb)
+  )
+  FROM forms f
+  WHERE f.id = p_form_id
+  AND f.is_active = true
+  AND (
+    NOT COALESCE((f.settings->'responses'->>'linksOnly')::boolean, false)
+    OR form_access_granted(f.id, p_link_id, p_qr_code_id)
+    OR f.user_id = auth.uid()
+  );
+$$;
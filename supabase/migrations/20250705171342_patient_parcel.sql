@@ -0,0 +1,36 @@
+/*
+  # Late attachment uploads
+
+  1. Functions
+    - `form_accepts_uploads(object_name)` admits a declared path for as long as a submission may
+      be replayed (30 days) instead of one hour, but only while nothing is stored there yet. A
+      replay that finds its response stored can then still upload the attachments that did not
+      arrive the first time
+*/
+
+CREATE OR REPLACE FUNCTION form_accepts_uploads(p_object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM form_responses fr
+    JOIN forms f ON f.id = fr.form_id
+    JOIN form_response_data frd ON frd.response_id = fr.id
+    JOIN form_fields ff ON ff.id = frd.field_id
+    WHERE f.id::text = (storage.foldername(p_object_name))[1]
+    AND fr.id::text = (storage.foldername(p_object_name))[2]
+    AND f.is_active = true
+    AND fr.received_at > now() - interval '30 days'
+    AND ff.field_type = 'file'
+    AND ff.archived_at IS NULL
+    AND frd.field_data->'files' @> jsonb_build_array(jsonb_build_object('path', p_object_name))
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'form-uploads'
+    AND name = p_object_name
+  );
+$$;
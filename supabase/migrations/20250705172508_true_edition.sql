@@ -0,0 +1,106 @@
+/*
+  # Check the form version of a response
+
+  1. Functions
+    - `submit_form_response(response, answers)` rejects a `form_version_id` that is not a version
+      of the form the response is for. Earlier versions of the same form are accepted, since a
+      respondent may have loaded the form, or queued the response offline, before it was edited
+*/
+
+CREATE OR REPLACE FUNCTION submit_form_response(p_response jsonb, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response_id uuid := (p_response->>'id')::uuid;
+  v_form_id uuid := (p_response->>'form_id')::uuid;
+  v_submitted_at timestamptz := COALESCE((p_response->>'submitted_at')::timestamptz, now());
+  v_version_id uuid := (p_response->>'form_version_id')::uuid;
+BEGIN
+  IF v_response_id IS NULL OR v_form_id IS NULL THEN
+    RAISE EXCEPTION 'A response needs an ID and a form' USING ERRCODE = '22023';
+  END IF;
+
+  -- The answers were stored together with the response
+  IF EXISTS (SELECT 1 FROM form_responses WHERE id = v_response_id) THEN
+    RETURN jsonb_build_object('status', 'exists');
+  END IF;
+
+  IF form_closed_reason(v_form_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'This form is not accepting responses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_submitted_at > now() + interval '5 minutes' OR v_submitted_at <= now() - interval '30 days' THEN
+    RAISE EXCEPTION 'This submission is too old to be accepted'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- An earlier version of the form is fine: the respondent may have loaded it before an edit
+  IF v_version_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM form_versions
+    WHERE id = v_version_id
+    AND form_id = v_form_id
+  ) THEN
+    RAISE EXCEPTION 'The form version does not belong to this form' USING ERRCODE = '22023';
+  END IF;
+
+  IF form_is_links_only(v_form_id) AND NOT form_access_granted(
+    v_form_id,
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    LEAST(v_submitted_at, now())
+  ) THEN
+    RAISE EXCEPTION 'This form only accepts responses through its links'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO form_responses (
+    id, form_id, form_version_id, response_source, locale, device_id, link_id, qr_code_id,
+    submitted_at, user_agent, sentiment, overall_rating, nps_score, is_complete, metadata
+  )
+  VALUES (
+    v_response_id,
+    v_form_id,
+    v_version_id,
+    COALESCE(p_response->>'response_source', 'web'),
+    p_response->>'locale',
+    p_response->>'device_id',
+    (p_response->>'link_id')::uuid,
+    (p_response->>'qr_code_id')::uuid,
+    v_submitted_at,
+    current_setting('request.headers', true)::jsonb->>'user-agent',
+    p_response->>'sentiment',
+    (p_response->>'overall_rating')::numeric,
+    (p_response->>'nps_score')::integer,
+    true,
+    COALESCE(p_response->'metadata', '{}'::jsonb)
+  );
+
+  -- enforce_one_response_per_respondent skips a respondent's second response
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'duplicate');
+  END IF;
+
+  -- Answers to questions that are not part of the form are dropped
+  INSERT INTO form_response_data (response_id, field_id, field_value, field_data)
+  SELECT
+    v_response_id,
+    ff.id,
+    a.value->>'field_value',
+    COALESCE(a.value->'field_data', '{}'::jsonb)
+  FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) a
+  JOIN form_fields ff
+    ON ff.id::text = a.value->>'field_id'
+    AND ff.form_id = v_form_id
+    AND ff.archived_at IS NULL
+    AND ff.field_type <> 'page-break';
+
+  -- Raises, undoing the whole submission, when an answer breaks the form's rules
+  PERFORM check_form_response_answers(v_response_id);
+
+  RETURN jsonb_build_object('status', 'stored');
+END;
+$$;
@@ -0,0 +1,130 @@
+/*
+  # Email codes without accounts
+
+  1. New Tables
+    - `respondent_email_codes` - bcrypt hash of a one-time code emailed to a respondent of a
+      form, with its expiry and the number of wrong entries
+
+  2. Functions
+    - `create_respondent_email_code(form_id, email)` - stores a new code for the address and
+      returns it; only the `respondent-email-code` edge function calls it, with the service role.
+      An address gets at most five codes per form per hour
+    - `verify_respondent_email_code(form_id, email, code)` - checks the latest code of the address
+      and returns its respondent pass, or null for a wrong code; a code takes five wrong entries
+      and expires after ten minutes
+    - `issue_respondent_pass(form_id)` is dropped: respondents no longer sign in to Supabase Auth,
+      so verifying an email address no longer creates an account next to the form owners'
+
+  3. Security
+    - `respondent_email_codes` has RLS enabled and no policies; it is only reached through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS respondent_email_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  respondent_key text NOT NULL,
+  code_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '10 minutes',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_respondent_email_codes_key ON respondent_email_codes(form_id, respondent_key, created_at);
+
+ALTER TABLE respondent_email_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION create_respondent_email_code(p_form_id uuid, p_email text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(COALESCE(p_email, '')));
+  v_key text;
+  v_code text := lpad(((('x' || encode(extensions.gen_random_bytes(4), 'hex'))::bit(32)::bigint % 1000000))::text, 6, '0');
+BEGIN
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM forms WHERE id = p_form_id AND is_active = true) THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = '42501';
+  END IF;
+
+  v_key := md5(p_form_id::text || ':email:' || v_email);
+
+  IF (
+    SELECT count(*) FROM respondent_email_codes
+    WHERE form_id = p_form_id
+    AND respondent_key = v_key
+    AND created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many codes requested. Please try again later.' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM respondent_email_codes WHERE expires_at < now() - interval '1 hour';
+
+  INSERT INTO respondent_email_codes (form_id, respondent_key, code_hash)
+  VALUES (p_form_id, v_key, extensions.crypt(v_code, extensions.gen_salt('bf')));
+
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_respondent_email_code(p_form_id uuid, p_email text, p_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text := md5(p_form_id::text || ':email:' || lower(trim(COALESCE(p_email, ''))));
+  v_code respondent_email_codes%ROWTYPE;
+  v_pass_id uuid;
+BEGIN
+  SELECT * INTO v_code
+  FROM respondent_email_codes
+  WHERE form_id = p_form_id
+  AND respondent_key = v_key
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_code.expires_at <= now() OR v_code.failed_attempts >= 5 THEN
+    RAISE EXCEPTION 'This code has expired. Please request a new one.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_code.code_hash IS DISTINCT FROM extensions.crypt(trim(COALESCE(p_code, '')), v_code.code_hash) THEN
+    UPDATE respondent_email_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE id = v_code.id;
+
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM respondent_email_codes
+  WHERE form_id = p_form_id
+  AND respondent_key = v_key;
+
+  -- The same address always gets the same pass, so verifying again in another browser works
+  SELECT id INTO v_pass_id
+  FROM respondent_passes
+  WHERE form_id = p_form_id
+  AND respondent_key = v_key;
+
+  IF v_pass_id IS NULL THEN
+    INSERT INTO respondent_passes (form_id, respondent_key)
+    VALUES (p_form_id, v_key)
+    RETURNING id INTO v_pass_id;
+  END IF;
+
+  RETURN v_pass_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS issue_respondent_pass(uuid);
+
+REVOKE EXECUTE ON FUNCTION create_respondent_email_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_respondent_email_code(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION verify_respondent_email_code(uuid, text, text) TO anon, authenticated;